@@ -4,6 +4,8 @@ const { ipcRenderer } = require("electron");
 const appState = {
     inputFilePath: "",
     outputFilePath: "",
+    configFilePath: "",
+    outputMode: "",
     isConverting: false
 };
 
@@ -11,6 +13,8 @@ const appState = {
 const elements = {
     inputDisplay: document.getElementById("inputFileDisplay"),
     outputDisplay: document.getElementById("outputFileDisplay"),
+    configDisplay: document.getElementById("configFileDisplay"),
+    outputModeSelect: document.getElementById("outputModeSelect"),
     convertBtn: document.getElementById("convertBtn"),
     btnText: document.getElementById("btnText"),
     statusMessage: document.getElementById("statusMessage"),
@@ -69,6 +73,32 @@ async function handleSelectOutput() {
     }
 }
 
+/**
+ * 設定ファイルを選択
+ */
+async function handleSelectConfig() {
+    const filePath = await ipcRenderer.invoke("select-config-file");
+    if (filePath) {
+        appState.configFilePath = filePath;
+        elements.configDisplay.textContent = filePath;
+    }
+}
+
+/**
+ * 設定ファイルの指定を解除（自動検出に戻す）
+ */
+function handleClearConfig() {
+    appState.configFilePath = "";
+    elements.configDisplay.textContent = "";
+}
+
+/**
+ * 既存の保存先への出力方法を選択（未選択時は設定ファイルの outputMode に従う）
+ */
+function handleSelectOutputMode() {
+    appState.outputMode = elements.outputModeSelect.value;
+}
+
 /**
  * 変換実行
  */
@@ -88,13 +118,16 @@ async function handleConvert() {
         const result = await ipcRenderer.invoke(
             "convert-md-to-excel",
             appState.inputFilePath,
-            appState.outputFilePath
+            appState.outputFilePath,
+            appState.configFilePath || undefined,
+            appState.outputMode || undefined
         );
 
         console.log('Conversion result received:', result);
 
         if (result.success) {
-            showStatus("変換が正常に完了しました！", "success");
+            const configNote = result.configPath ? `（設定: ${result.configPath}）` : "";
+            showStatus(`変換が正常に完了しました！${configNote}`, "success");
         } else {
             throw new Error(result.error || "不明なエラーが発生しました");
         }
@@ -110,4 +143,7 @@ async function handleConvert() {
 // グローバルに公開（HTML から呼び出すため）
 window.handleSelectInput = handleSelectInput;
 window.handleSelectOutput = handleSelectOutput;
+window.handleSelectConfig = handleSelectConfig;
+window.handleClearConfig = handleClearConfig;
+window.handleSelectOutputMode = handleSelectOutputMode;
 window.handleConvert = handleConvert;
@@ -0,0 +1,210 @@
+/**
+ * ログの出力量を表す列挙型
+ */
+export enum Verbosity {
+    Quiet = 'quiet',
+    Normal = 'normal',
+    Verbose = 'verbose'
+}
+
+/**
+ * コマンドライン引数の解析結果を表すインターフェース
+ */
+export interface CliArguments {
+    /** 入力（ファイル・ディレクトリ・globパターン） */
+    inputs: string[];
+    /** 出力先（単一入力時はファイル、複数入力時はディレクトリ）。未指定時は入力ファイルと同じ場所 */
+    output?: string;
+    /** 設定ファイルのパス */
+    configPath?: string;
+    /** 変換後に編集されたExcelファイルのパス（指定時は変換せず、入力のMarkdownファイルとの差分を出力する） */
+    syncWorkbook?: string;
+    /** --sync で比較する、Excelに変換した時点のMarkdownファイルのパス */
+    basePath?: string;
+    /** --sync で検出した編集のうち、競合しないものを入力のMarkdownファイルに書き込むかどうか */
+    apply: boolean;
+    /** --sync で読み込むExcelファイルのシート名（--sheet の指定順。未指定時は入力のMarkdownを変換して出力されるシート） */
+    sheetNames?: string[];
+    /** ログの出力量 */
+    verbosity: Verbosity;
+    /** ヘルプ表示が要求されたかどうか */
+    showHelp: boolean;
+}
+
+/**
+ * ヘルプメッセージ
+ */
+export const HELP_MESSAGE = `使い方: md2xlsx <入力...> [オプション]
+
+Markdownファイルを方眼紙形式のExcelファイルに変換します。
+入力にはファイル、ディレクトリ（配下の .md / .markdown を再帰的に検索）、globパターン（例: "docs/**/*.md"）を指定できます。
+
+オプション:
+  -o, --output <パス>   出力先。入力が1ファイルの場合は .xlsx ファイル、複数の場合はディレクトリ
+                        （未指定時は入力ファイルと同じ場所に拡張子 .xlsx で出力）
+  -c, --config <パス>   Excel設定ファイル（JSON / YAML）
+                        （未指定時は入力ファイルの場所から親ディレクトリへ向かって
+                          .md2excelrc.json / .md2excelrc.yaml / .md2excelrc.yml を探索）
+      --sync <パス>     変換せず、変換後に編集したExcelファイルと入力のMarkdownファイルを比較し、
+                        Excelでの編集をunified形式のパッチとして出力する（入力は1ファイルのみ）
+      --base <パス>     --sync で比較する、Excelに変換した時点のMarkdownファイル
+                        （未指定時は、入力のMarkdownファイルを変換した時点から変更していないものとする）
+      --apply           --sync で検出した編集のうち、Markdownファイルの変更と競合しないものを入力ファイルに書き込む
+      --sheet <名前>    --sync で読み込むExcelファイルのシート（複数回指定可）
+                        （未指定時は、入力のMarkdownを変換して出力されるシート名のシートのみ）
+  -q, --quiet           エラー以外のメッセージを出力しない
+  -v, --verbose         詳細なメッセージを出力する
+  -h, --help            このヘルプを表示する
+
+終了コード:
+  0  すべての変換に成功
+  1  変換に失敗したファイルがある（--sync 指定時は、Markdownファイルの変更と競合する編集がある）
+  2  引数の誤りや入力ファイルが見つからない場合`;
+
+/**
+ * 値を取るオプションの一覧（短縮形と正式名の対応）
+ */
+const VALUE_OPTIONS: Record<string, 'output' | 'configPath' | 'syncWorkbook' | 'basePath'> = {
+    '-o': 'output',
+    '--output': 'output',
+    '-c': 'configPath',
+    '--config': 'configPath',
+    '--sync': 'syncWorkbook',
+    '--base': 'basePath'
+};
+
+/**
+ * コマンドライン引数を解析する
+ * @param argv コマンドライン引数（node と スクリプトパスを除いたもの）
+ * @returns 解析結果
+ * @throws 引数に誤りがある場合
+ */
+export const parseCliArguments = (argv: string[]): CliArguments => {
+    const parsed: CliArguments = {
+        inputs: [],
+        apply: false,
+        verbosity: Verbosity.Normal,
+        showHelp: false
+    };
+
+    // 値を取るオプションの場合は次の引数を読み飛ばすため、インデックスで走査する
+    for (let index = 0; index < argv.length; index++) {
+        const argument = argv[index];
+
+        // --output=out.xlsx 形式を分解する
+        const [optionName, inlineValue] = splitInlineValue(argument);
+
+        const valueKey = VALUE_OPTIONS[optionName];
+        if (valueKey) {
+            if (parsed[valueKey] !== undefined) {
+                throw new Error(`オプション ${optionName} が複数回指定されています`);
+            }
+
+            parsed[valueKey] = readOptionValue(optionName, inlineValue ?? argv[index + 1]);
+            index += inlineValue === undefined ? 1 : 0;
+            continue;
+        }
+
+        // --sheet は複数回指定できる（複数のシートに分割して出力した場合）
+        if (optionName === '--sheet') {
+            parsed.sheetNames = [...parsed.sheetNames ?? [], readOptionValue(optionName, inlineValue ?? argv[index + 1])];
+            index += inlineValue === undefined ? 1 : 0;
+            continue;
+        }
+
+        if (argument === '-h' || argument === '--help') {
+            parsed.showHelp = true;
+            continue;
+        }
+
+        if (argument === '--apply') {
+            parsed.apply = true;
+            continue;
+        }
+
+        if (argument === '-q' || argument === '--quiet') {
+            parsed.verbosity = resolveVerbosity(parsed.verbosity, Verbosity.Quiet);
+            continue;
+        }
+
+        if (argument === '-v' || argument === '--verbose') {
+            parsed.verbosity = resolveVerbosity(parsed.verbosity, Verbosity.Verbose);
+            continue;
+        }
+
+        if (argument.startsWith('-') && argument !== '-') {
+            throw new Error(`不明なオプションです: ${argument}`);
+        }
+
+        parsed.inputs.push(argument);
+    }
+
+    if (!parsed.showHelp && parsed.inputs.length === 0) {
+        throw new Error('入力ファイルを指定してください');
+    }
+
+    validateSyncArguments(parsed);
+    return parsed;
+};
+
+/**
+ * --sync と組み合わせるオプションの指定を検証する
+ * @param parsed コマンドライン引数の解析結果
+ * @throws --sync なしで --base / --apply / --sheet が指定された場合、--sync と変換用のオプションが同時に指定された場合
+ */
+const validateSyncArguments = (parsed: CliArguments): void => {
+    if (!parsed.syncWorkbook && (parsed.basePath !== undefined || parsed.apply || parsed.sheetNames !== undefined)) {
+        throw new Error('--base と --apply、--sheet は --sync と同時に指定してください');
+    }
+
+    if (parsed.syncWorkbook && parsed.output !== undefined) {
+        throw new Error('--sync と --output は同時に指定できません');
+    }
+
+    if (parsed.syncWorkbook && parsed.inputs.length > 1) {
+        throw new Error('--sync を指定した場合は入力ファイルを1つだけ指定してください');
+    }
+};
+
+/**
+ * オプションの値を検証する
+ * @param optionName オプション名
+ * @param value オプションの値（次の引数がない場合はundefined）
+ * @returns オプションの値
+ * @throws 値が指定されていない場合
+ */
+const readOptionValue = (optionName: string, value: string | undefined): string => {
+    if (value === undefined || value.length === 0) {
+        throw new Error(`オプション ${optionName} には値が必要です`);
+    }
+    return value;
+};
+
+/**
+ * 「--option=value」形式の引数をオプション名と値に分解する
+ * @param argument コマンドライン引数
+ * @returns オプション名と値（値がない場合はundefined）
+ */
+const splitInlineValue = (argument: string): [string, string | undefined] => {
+    if (!argument.startsWith('--') || !argument.includes('=')) {
+        return [argument, undefined];
+    }
+
+    const separatorIndex = argument.indexOf('=');
+    return [argument.slice(0, separatorIndex), argument.slice(separatorIndex + 1)];
+};
+
+/**
+ * --quiet と --verbose の同時指定を検出しつつ、ログの出力量を決定する
+ * @param current 現在の出力量
+ * @param requested 指定された出力量
+ * @returns 決定した出力量
+ * @throws 相反する指定がある場合
+ */
+const resolveVerbosity = (current: Verbosity, requested: Verbosity): Verbosity => {
+    if (current !== Verbosity.Normal && current !== requested) {
+        throw new Error('--quiet と --verbose は同時に指定できません');
+    }
+
+    return requested;
+};
@@ -0,0 +1,292 @@
+#!/usr/bin/env node
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseMarkdownFile } from '../parser/markdown-parser';
+import { writeExcel } from '../writer/excel-writer';
+import { syncMarkdownFile } from '../sync/workbook-sync';
+import { loadExcelConfigFile, resolveExcelConfig } from '../config/loader';
+import { ExcelConfig } from '../types';
+import { CliArguments, HELP_MESSAGE, parseCliArguments, Verbosity } from './arguments';
+import { expandInputFiles, InputFile } from './input-files';
+
+/**
+ * CLIの終了コード
+ */
+export enum ExitCode {
+    Success = 0,
+    ConversionFailed = 1,
+    UsageError = 2
+}
+
+/**
+ * 出力量に応じてメッセージを出し分けるロガー
+ */
+interface CliLogger {
+    /** 通常のメッセージ（--quiet 指定時は出力しない） */
+    info: (message: string) => void;
+    /** 詳細なメッセージ（--verbose 指定時のみ出力する） */
+    detail: (message: string) => void;
+    /** エラーメッセージ（常に出力する） */
+    error: (message: string) => void;
+}
+
+/**
+ * CLIを実行する
+ * @param argv コマンドライン引数（node と スクリプトパスを除いたもの）
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns 終了コード
+ */
+export const runCli = async (argv: string[], currentDirectory: string = process.cwd()): Promise<ExitCode> => {
+    const parsedArguments = (() => {
+        try {
+            return parseCliArguments(argv);
+        } catch (error) {
+            console.error(`エラー: ${error instanceof Error ? error.message : error}`);
+            console.error('詳しくは md2xlsx --help を参照してください');
+            return null;
+        }
+    })();
+
+    if (!parsedArguments) {
+        return ExitCode.UsageError;
+    }
+
+    if (parsedArguments.showHelp) {
+        console.log(HELP_MESSAGE);
+        return ExitCode.Success;
+    }
+
+    const logger = createLogger(parsedArguments.verbosity);
+
+    // 設定ファイルと入力ファイルの準備（失敗した場合は変換を開始しない）
+    const prepared = await prepareConversion(parsedArguments, currentDirectory).catch((error: unknown) => {
+        logger.error(`エラー: ${error instanceof Error ? error.message : error}`);
+        return null;
+    });
+
+    if (!prepared) {
+        return ExitCode.UsageError;
+    }
+
+    const { explicitConfig, inputFiles } = prepared;
+
+    if (parsedArguments.syncWorkbook) {
+        return await syncInputFile(inputFiles, parsedArguments.syncWorkbook, parsedArguments, explicitConfig, currentDirectory, logger);
+    }
+
+    logger.detail(`変換対象: ${inputFiles.length} ファイル`);
+
+    const failedCount = await inputFiles.reduce(async (previousFailures, inputFile) => {
+        const failures = await previousFailures;
+        const outputPath = resolveOutputPath(inputFile, parsedArguments.output, inputFiles.length === 1, currentDirectory);
+        const succeeded = await convertFile(inputFile.filePath, outputPath, explicitConfig, logger);
+        return succeeded ? failures : failures + 1;
+    }, Promise.resolve(0));
+
+    if (failedCount > 0) {
+        logger.error(`${inputFiles.length} ファイル中 ${failedCount} ファイルの変換に失敗しました`);
+        return ExitCode.ConversionFailed;
+    }
+
+    logger.info(`${inputFiles.length} ファイルの変換が完了しました`);
+    return ExitCode.Success;
+};
+
+/**
+ * 変換に必要な設定と入力ファイルを準備する
+ * @param parsedArguments コマンドライン引数の解析結果
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns --config で指定されたExcel設定（未指定時はnull）と入力ファイルの配列
+ */
+const prepareConversion = async (
+    parsedArguments: CliArguments,
+    currentDirectory: string
+): Promise<{ explicitConfig: ExcelConfig | null; inputFiles: InputFile[] }> => {
+    const explicitConfig = parsedArguments.configPath
+        ? await loadExcelConfigFile(path.resolve(currentDirectory, parsedArguments.configPath))
+        : null;
+
+    const inputFiles = await expandInputFiles(parsedArguments.inputs, currentDirectory);
+
+    return { explicitConfig, inputFiles };
+};
+
+/**
+ * 1ファイルを変換して書き出す
+ * 設定が指定されていない場合は、入力ファイルの場所から設定ファイルを探索する
+ * @param inputPath 入力ファイルのパス
+ * @param outputPath 出力ファイルのパス
+ * @param explicitConfig --config で指定されたExcel設定（未指定時はnull）
+ * @param logger ロガー
+ * @returns 変換に成功した場合はtrue
+ */
+const convertFile = async (
+    inputPath: string,
+    outputPath: string,
+    explicitConfig: ExcelConfig | null,
+    logger: CliLogger
+): Promise<boolean> => {
+    try {
+        const config = explicitConfig ?? await resolveDiscoveredConfig(inputPath, logger);
+        const document = await parseMarkdownFile(inputPath, { config });
+        logger.detail(`解析完了: ${inputPath} (${document.lines.length} 行)`);
+
+        const excelBuffer = await writeExcel(document, config, outputPath);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, excelBuffer);
+
+        logger.info(`${inputPath} -> ${outputPath}`);
+        return true;
+    } catch (error) {
+        logger.error(`変換エラー: ${inputPath}: ${error instanceof Error ? error.message : error}`);
+        return false;
+    }
+};
+
+/**
+ * 変換後に編集されたExcelファイルと入力のMarkdownファイルを比較する（--sync）
+ * Excelでの編集はunified形式のパッチとして標準出力に出力し、--apply 指定時は競合しない編集をMarkdownファイルに書き込む
+ * Markdownファイルも変更されていて適用できない編集は、競合としてMarkdownファイルの行番号とともに出力する
+ * @param inputFiles 入力ファイル（1ファイルのみ）
+ * @param workbookPath 変換後に編集されたExcelファイルのパス
+ * @param parsedArguments コマンドライン引数の解析結果
+ * @param explicitConfig --config で指定されたExcel設定（未指定時はnull）
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @param logger ロガー
+ * @returns 終了コード
+ */
+const syncInputFile = async (
+    inputFiles: InputFile[],
+    workbookPath: string,
+    parsedArguments: CliArguments,
+    explicitConfig: ExcelConfig | null,
+    currentDirectory: string,
+    logger: CliLogger
+): Promise<ExitCode> => {
+    if (inputFiles.length !== 1) {
+        logger.error('エラー: --sync を指定した場合は入力ファイルを1つだけ指定してください');
+        return ExitCode.UsageError;
+    }
+
+    const [{ filePath: markdownPath }] = inputFiles;
+    const resolvedWorkbookPath = path.resolve(currentDirectory, workbookPath);
+    const basePath = parsedArguments.basePath ? path.resolve(currentDirectory, parsedArguments.basePath) : null;
+    const requiredPaths = basePath ? [resolvedWorkbookPath, basePath] : [resolvedWorkbookPath];
+    const existence = await Promise.all(requiredPaths.map(filePath => fs.access(filePath).then(() => true, () => false)));
+    const missingPath = requiredPaths.find((_, index) => !existence[index]);
+
+    if (missingPath) {
+        logger.error(`エラー: ファイルが見つかりません: ${missingPath}`);
+        return ExitCode.UsageError;
+    }
+
+    try {
+        const config = explicitConfig ?? await resolveDiscoveredConfig(markdownPath, logger);
+        const originalMarkdown = basePath ? await fs.readFile(basePath, 'utf8') : undefined;
+        const result = await syncMarkdownFile(markdownPath, resolvedWorkbookPath, {
+            config,
+            originalMarkdown,
+            sheetNames: parsedArguments.sheetNames,
+            apply: parsedArguments.apply
+        });
+
+        // パッチは他のコマンドに渡せるよう、メッセージと分けてそのまま標準出力に出力する
+        process.stdout.write(result.patch);
+        logger.detail(`検出した編集: ${result.hunks.length} 箇所`);
+        result.merge.conflicts.forEach(conflict => {
+            logger.error(`競合: ${markdownPath}:${conflict.line} Markdownファイルも変更されているため、Excelの編集を適用できません`);
+        });
+
+        if (parsedArguments.apply) {
+            logger.info(`${result.merge.applied.length} 箇所の編集を ${markdownPath} に適用しました`);
+        }
+
+        return result.merge.conflicts.length > 0 ? ExitCode.ConversionFailed : ExitCode.Success;
+    } catch (error) {
+        logger.error(`同期エラー: ${markdownPath}: ${error instanceof Error ? error.message : error}`);
+        return ExitCode.ConversionFailed;
+    }
+};
+
+/**
+ * 入力ファイルの場所から探索した設定ファイルを読み込む
+ * @param inputPath 入力ファイルのパス
+ * @param logger ロガー
+ * @returns 探索した設定ファイルの内容を反映したExcel設定（見つからない場合はデフォルト設定）
+ * @throws 見つかった設定ファイルを解析できない、または内容に誤りがある場合
+ */
+const resolveDiscoveredConfig = async (inputPath: string, logger: CliLogger): Promise<ExcelConfig> => {
+    const { config, configPath } = await resolveExcelConfig(inputPath);
+    logger.detail(configPath ? `設定ファイル: ${configPath}` : '設定ファイル: なし（デフォルト設定を使用）');
+    return config;
+};
+
+/**
+ * 入力ファイルに対応する出力ファイルのパスを決定する
+ * - 出力先未指定: 入力ファイルと同じ場所に拡張子 .xlsx で出力
+ * - 単一入力で出力先が .xlsx: そのファイルに出力
+ * - それ以外: 出力先をディレクトリとみなし、入力の相対パスを保持して出力
+ * @param inputFile 入力ファイル
+ * @param output 出力先の指定
+ * @param isSingleInput 入力ファイルが1つだけかどうか
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns 出力ファイルの絶対パス
+ */
+export const resolveOutputPath = (
+    inputFile: InputFile,
+    output: string | undefined,
+    isSingleInput: boolean,
+    currentDirectory: string
+): string => {
+    if (!output) {
+        return replaceExtension(inputFile.filePath, '.xlsx');
+    }
+
+    const outputPath = path.resolve(currentDirectory, output);
+    if (isSingleInput && path.extname(outputPath).toLowerCase() === '.xlsx') {
+        return outputPath;
+    }
+
+    return path.join(outputPath, replaceExtension(inputFile.relativePath, '.xlsx'));
+};
+
+/**
+ * ファイルパスの拡張子を置き換える
+ * @param filePath ファイルパス
+ * @param extension 新しい拡張子（ドット付き）
+ * @returns 拡張子を置き換えたファイルパス
+ */
+const replaceExtension = (filePath: string, extension: string): string => {
+    const parsed = path.parse(filePath);
+    return path.join(parsed.dir, `${parsed.name}${extension}`);
+};
+
+/**
+ * 出力量に応じたロガーを作成する
+ * @param verbosity ログの出力量
+ * @returns ロガー
+ */
+const createLogger = (verbosity: Verbosity): CliLogger => {
+    return {
+        info: (message: string) => {
+            if (verbosity !== Verbosity.Quiet) {
+                console.log(message);
+            }
+        },
+        detail: (message: string) => {
+            if (verbosity === Verbosity.Verbose) {
+                console.log(message);
+            }
+        },
+        error: (message: string) => {
+            console.error(message);
+        }
+    };
+};
+
+// コマンドとして直接実行された場合のみCLIを起動する（テストからのimport時は起動しない）
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(exitCode => {
+        process.exitCode = exitCode;
+    });
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * 変換対象の入力ファイルを表すインターフェース
+ */
+export interface InputFile {
+    /** 入力ファイルの絶対パス */
+    filePath: string;
+    /** 出力先ディレクトリ内で使用する相対パス（ディレクトリ・glob指定時の階層を保持する） */
+    relativePath: string;
+}
+
+/**
+ * ディレクトリ指定時に変換対象とするMarkdownの拡張子
+ */
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * 探索時に読み飛ばすディレクトリ名
+ */
+const IGNORED_DIRECTORIES = ['node_modules', '.git'];
+
+/**
+ * globパターンとして扱う文字
+ */
+const GLOB_CHARACTERS = /[*?[\]]/;
+
+/**
+ * 入力指定（ファイル・ディレクトリ・globパターン）を変換対象のファイル一覧に展開する
+ * @param inputs 入力指定の配列
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns 重複を除いた入力ファイルの配列（指定順、同一指定内はパス順）
+ * @throws 指定に一致するファイルが1つもない入力がある場合
+ */
+export const expandInputFiles = async (inputs: string[], currentDirectory: string): Promise<InputFile[]> => {
+    const expanded: InputFile[] = [];
+
+    for (const input of inputs) {
+        const files = await expandInput(input, currentDirectory);
+        if (files.length === 0) {
+            throw new Error(`入力に一致するファイルが見つかりません: ${input}`);
+        }
+        expanded.push(...files);
+    }
+
+    // 同じファイルが複数の指定に一致した場合は最初の1件のみを残す
+    const seenPaths = new Set<string>();
+    return expanded.filter(file => {
+        if (seenPaths.has(file.filePath)) {
+            return false;
+        }
+        seenPaths.add(file.filePath);
+        return true;
+    });
+};
+
+/**
+ * 1つの入力指定を展開する
+ * @param input 入力指定
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns 入力ファイルの配列
+ */
+const expandInput = async (input: string, currentDirectory: string): Promise<InputFile[]> => {
+    if (GLOB_CHARACTERS.test(input)) {
+        return expandGlob(input, currentDirectory);
+    }
+
+    const absolutePath = path.resolve(currentDirectory, input);
+    const stats = await fs.stat(absolutePath).catch(() => null);
+    if (!stats) {
+        return [];
+    }
+
+    if (stats.isDirectory()) {
+        const files = await listFilesRecursively(absolutePath);
+        return files
+            .filter(filePath => MARKDOWN_EXTENSIONS.includes(path.extname(filePath).toLowerCase()))
+            .map(filePath => ({ filePath, relativePath: path.relative(absolutePath, filePath) }));
+    }
+
+    return [{ filePath: absolutePath, relativePath: path.basename(absolutePath) }];
+};
+
+/**
+ * globパターンに一致するファイルを展開する
+ * パターン中の最初のワイルドカードより前の固定部分を探索の起点とする
+ * @param pattern globパターン
+ * @param currentDirectory 相対パスの基準ディレクトリ
+ * @returns 入力ファイルの配列
+ */
+const expandGlob = async (pattern: string, currentDirectory: string): Promise<InputFile[]> => {
+    const normalizedPattern = pattern.split(path.sep).join('/');
+    const segments = normalizedPattern.split('/');
+    const firstGlobIndex = segments.findIndex(segment => GLOB_CHARACTERS.test(segment));
+    const baseDirectory = path.resolve(currentDirectory, segments.slice(0, firstGlobIndex).join('/') || '.');
+    const matcher = globToRegExp(segments.slice(firstGlobIndex).join('/'));
+
+    const stats = await fs.stat(baseDirectory).catch(() => null);
+    if (!stats || !stats.isDirectory()) {
+        return [];
+    }
+
+    const files = await listFilesRecursively(baseDirectory);
+    return files
+        .map(filePath => ({ filePath, relativePath: path.relative(baseDirectory, filePath) }))
+        .filter(file => matcher.test(file.relativePath.split(path.sep).join('/')));
+};
+
+/**
+ * ディレクトリ配下のファイルを再帰的に列挙する
+ * @param directory 探索するディレクトリ
+ * @returns ファイルの絶対パスの配列（パス順）
+ */
+const listFilesRecursively = async (directory: string): Promise<string[]> => {
+    const entries = await fs.readdir(directory, { withFileTypes: true });
+    const sortedEntries = [...entries].sort((left, right) => left.name.localeCompare(right.name));
+    const files: string[] = [];
+
+    for (const entry of sortedEntries) {
+        const entryPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+            if (IGNORED_DIRECTORIES.includes(entry.name)) {
+                continue;
+            }
+            files.push(...await listFilesRecursively(entryPath));
+            continue;
+        }
+
+        if (entry.isFile()) {
+            files.push(entryPath);
+        }
+    }
+
+    return files;
+};
+
+/**
+ * globパターンを正規表現に変換する
+ * `**` は0個以上のディレクトリ、`*` はディレクトリ区切りを含まない任意の文字列、
+ * `?` は任意の1文字、`[...]` は文字クラスに一致する
+ * @param pattern globパターン（区切り文字は /）
+ * @returns パターン全体に一致する正規表現
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+    const source = pattern
+        .split('/')
+        .map((segment, index, segments) => {
+            if (segment === '**') {
+                // 末尾の ** は任意の階層のファイル、途中の ** は0個以上のディレクトリに一致する
+                return index === segments.length - 1 ? '.*' : '(?:[^/]+/)*';
+            }
+
+            const segmentSource = convertGlobSegment(segment);
+            return index === segments.length - 1 ? segmentSource : `${segmentSource}/`;
+        })
+        .join('');
+
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * globパターンの1階層分を正規表現の文字列に変換する
+ * @param segment globパターンの1階層分
+ * @returns 正規表現の文字列
+ */
+const convertGlobSegment = (segment: string): string => {
+    return segment.replace(/\[[^\]]*\]|[*?]|[.+^${}()|\\]/g, token => {
+        if (token === '*') {
+            return '[^/]*';
+        }
+        if (token === '?') {
+            return '[^/]';
+        }
+        if (token.startsWith('[')) {
+            // [!abc] は否定の文字クラスとして扱う
+            return token.startsWith('[!') ? `[^${token.slice(2, -1)}]` : token;
+        }
+        return `\\${token}`;
+    });
+};
@@ -1,4 +1,6 @@
-import { ExcelConfig } from '../types';
+import {
+    AlertType, CompletedTaskStyle, ExcelConfig, FootnoteMode, LinkMode, OrderedListStyle, OutputMode, SheetSplitMode, TaskSummaryMode
+} from '../types';
 
 /**
  * デフォルトのExcel設定
@@ -12,13 +14,48 @@ export const defaultExcelConfig: ExcelConfig = {
     baseFontSize: 11,
     headerFontSizes: { 1: 18, 2: 16, 3: 14, 4: 12, 5: 11, 6: 10 },
     codeBackgroundColor: "F5F5F5",
+    codeBorderColor: "BFBFBF",
     quoteBackgroundColor: "E8F4FD",
     imageBackgroundColor: "FFF2CC",
     quoteBorderColor: "4472C4",
+    alertStyles: {
+        [AlertType.Note]: { label: "ℹ 注記", backgroundColor: "DDF4FF", borderColor: "0969DA" },
+        [AlertType.Tip]: { label: "★ ヒント", backgroundColor: "DAFBE1", borderColor: "1A7F37" },
+        [AlertType.Important]: { label: "‼ 重要", backgroundColor: "FBEFFF", borderColor: "8250DF" },
+        [AlertType.Warning]: { label: "⚠ 警告", backgroundColor: "FFF8C5", borderColor: "9A6700" },
+        [AlertType.Caution]: { label: "✖ 注意", backgroundColor: "FFEBE9", borderColor: "CF222E" }
+    },
     horizontalRuleColor: "D0D0D0",
+    tableHeaderBackgroundColor: "D9E1F2",
+    tableBorderColor: "808080",
+    tableMinColumnSpan: 3,
+    tableMaxColumnSpan: 20,
+    imageMaxWidthCells: 40,
+    codeBlockWidthCells: 40,
+    showDocumentInfo: false,
+    generateTableOfContents: false,
+    linkMode: LinkMode.Footnote,
+    linkAppendix: true,
+    footnoteMode: FootnoteMode.Section,
+    completedTaskStyle: CompletedTaskStyle.None,
+    completedTaskColor: "FF808080",
+    taskSummary: TaskSummaryMode.None,
+    tabWidth: 4,
+    orderedListStyles: [OrderedListStyle.Decimal],
+    sheetSplitMode: SheetSplitMode.None,
+    groupSectionsByHeading: false,
+    groupNestedListItems: false,
+    outputMode: OutputMode.Replace,
 
     // 以下、ハードコーディングされていた色定義を追加
     codeColor: "FF000080",       // DarkBlue
+    syntaxHighlighting: true,
+    syntaxColors: {
+        keyword: "FF0000FF",     // Blue
+        string: "FFA31515",      // DarkRed
+        comment: "FF008000",     // Green
+        number: "FF098658"       // Teal
+    },
     inlineCodeColor: "FFA31515", // DarkRed
     linkColor: "FF0563C1",       // Blue
     imageAltColor: "FF808080",   // Gray
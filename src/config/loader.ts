@@ -0,0 +1,175 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AlertStylePalette, AlertType, ExcelConfig } from '../types';
+import { defaultExcelConfig } from './index';
+import { validateExcelConfig } from './validation';
+
+/**
+ * 自動検出の対象とする設定ファイル名（同じディレクトリに複数ある場合はこの順で優先する）
+ */
+export const CONFIG_FILE_NAMES = ['.md2excelrc.json', '.md2excelrc.yaml', '.md2excelrc.yml'];
+
+/**
+ * YAMLとして解析する設定ファイルの拡張子
+ */
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+/**
+ * 入力ファイルに適用する設定の解決結果を表すインターフェース
+ */
+export interface ResolvedExcelConfig {
+    /** デフォルト設定に設定ファイルの内容を上書きしたExcel設定 */
+    config: ExcelConfig;
+    /** 使用した設定ファイルのパス（設定ファイルがない場合はnull） */
+    configPath: string | null;
+}
+
+/**
+ * 入力ファイルに適用するExcel設定を解決する
+ * 設定ファイルが明示されていればそれを使用し、なければ入力ファイルの場所から親ディレクトリへ向かって探索する
+ * @param inputPath 入力ファイルのパス
+ * @param explicitConfigPath 明示された設定ファイルのパス
+ * @returns 解決したExcel設定と使用した設定ファイルのパス
+ * @throws 設定ファイルが存在しない、解析できない、または内容に誤りがある場合
+ */
+export const resolveExcelConfig = async (inputPath: string, explicitConfigPath?: string): Promise<ResolvedExcelConfig> => {
+    const configPath = explicitConfigPath ?? await findConfigFile(path.dirname(path.resolve(inputPath)));
+    if (!configPath) {
+        return { config: defaultExcelConfig, configPath: null };
+    }
+
+    return { config: await loadExcelConfigFile(configPath), configPath };
+};
+
+/**
+ * 指定ディレクトリから親ディレクトリへ向かって設定ファイルを探索する
+ * @param startDirectory 探索を開始するディレクトリ
+ * @returns 最初に見つかった設定ファイルのパス（見つからない場合はnull）
+ */
+export const findConfigFile = async (startDirectory: string): Promise<string | null> => {
+    const directory = path.resolve(startDirectory);
+
+    for (const fileName of CONFIG_FILE_NAMES) {
+        const candidate = path.join(directory, fileName);
+        const stats = await fs.stat(candidate).catch(() => null);
+        if (stats && stats.isFile()) {
+            return candidate;
+        }
+    }
+
+    const parentDirectory = path.dirname(directory);
+    if (parentDirectory === directory) {
+        return null;
+    }
+
+    return findConfigFile(parentDirectory);
+};
+
+/**
+ * 設定ファイル（JSON または YAML）を読み込み、デフォルト設定に上書きしたExcel設定を返す
+ * 拡張子が .yaml / .yml の場合はYAML、それ以外はJSONとして解析する
+ * @param configPath 設定ファイルのパス
+ * @returns デフォルト設定に設定ファイルの内容を上書きしたExcel設定
+ * @throws 設定ファイルが存在しない、解析できない、または内容に誤りがある場合
+ */
+export const loadExcelConfigFile = async (configPath: string): Promise<ExcelConfig> => {
+    const content = await fs.readFile(configPath, 'utf8').catch(() => {
+        throw new Error(`設定ファイルが見つかりません: ${configPath}`);
+    });
+
+    const parsed = parseConfigObject(content, configPath);
+    const config = mergeExcelConfig(defaultExcelConfig, parsed);
+
+    const errors = validateExcelConfig(config);
+    if (errors.length > 0) {
+        throw new Error(`設定ファイルの内容に誤りがあります: ${configPath}\n${errors.map(error => `  - ${error}`).join('\n')}`);
+    }
+
+    return config;
+};
+
+/**
+ * ベースの設定に部分的な設定を上書きする
+ * 見出しレベル別フォントサイズと色分けの配色は、指定された項目のみを上書きする
+ * アラートの表示は、指定された種類の指定された項目のみを上書きする
+ * （オブジェクト以外が指定された場合は検証で検出できるよう、そのまま上書きする）
+ * @param baseConfig ベースとなるExcel設定
+ * @param overrides 上書きする設定
+ * @returns 上書き後のExcel設定
+ */
+export const mergeExcelConfig = (baseConfig: ExcelConfig, overrides: Partial<ExcelConfig>): ExcelConfig => {
+    return {
+        ...baseConfig,
+        ...overrides,
+        headerFontSizes: mergeNestedValue(baseConfig.headerFontSizes, overrides.headerFontSizes),
+        syntaxColors: mergeNestedValue(baseConfig.syntaxColors, overrides.syntaxColors),
+        alertStyles: mergeAlertStyles(baseConfig.alertStyles, overrides.alertStyles)
+    };
+};
+
+/**
+ * アラートの種類ごとの表示を、指定された種類の指定された項目のみ上書きする
+ * 不明な種類は検証で検出できるよう、そのまま残す
+ * @param baseStyles ベースとなるアラートの表示
+ * @param override 上書きする設定値（未指定の場合はベースの値を使用）
+ * @returns 上書き後のアラートの表示
+ */
+const mergeAlertStyles = (baseStyles: AlertStylePalette, override: AlertStylePalette | undefined): AlertStylePalette => {
+    if (override === undefined) {
+        return baseStyles;
+    }
+
+    if (typeof override !== 'object' || override === null) {
+        return override;
+    }
+
+    const mergedStyles = Object.values(AlertType).reduce((styles, type) => ({
+        ...styles,
+        [type]: mergeNestedValue(baseStyles[type], override[type])
+    }), baseStyles);
+
+    return { ...override, ...mergedStyles };
+};
+
+/**
+ * オブジェクト型の設定項目を、指定されたキーのみ上書きする
+ * @param baseValue ベースとなる設定値
+ * @param override 上書きする設定値（未指定の場合はベースの値を使用）
+ * @returns 上書き後の設定値
+ */
+const mergeNestedValue = <T extends object>(baseValue: T, override: T | undefined): T => {
+    if (override === undefined) {
+        return baseValue;
+    }
+
+    return typeof override === 'object' && override !== null
+        ? { ...baseValue, ...override }
+        : override;
+};
+
+/**
+ * 設定ファイルの内容をオブジェクトとして解析する
+ * 空のYAMLファイルは上書きなしとして扱う
+ * @param content 設定ファイルの内容
+ * @param configPath 形式の判定とエラーメッセージに使用する設定ファイルのパス
+ * @returns 解析したオブジェクト
+ * @throws 解析できない、またはオブジェクトでない場合
+ */
+const parseConfigObject = (content: string, configPath: string): Partial<ExcelConfig> => {
+    const isYaml = YAML_EXTENSIONS.includes(path.extname(configPath).toLowerCase());
+
+    const parsed: unknown = (() => {
+        try {
+            return isYaml ? parseYaml(content) ?? {} : JSON.parse(content);
+        } catch (error) {
+            throw new Error(`設定ファイルの解析に失敗しました: ${configPath} (${error instanceof Error ? error.message : error})`);
+        }
+    })();
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`設定ファイルの内容はオブジェクトである必要があります: ${configPath}`);
+    }
+
+    return parsed as Partial<ExcelConfig>;
+};
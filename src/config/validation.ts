@@ -0,0 +1,271 @@
+import {
+    AlertType, CompletedTaskStyle, ExcelConfig, FootnoteMode, LinkMode, OrderedListStyle, OutputMode, SheetSplitMode, TaskSummaryMode
+} from '../types';
+
+/**
+ * 設定値を1項目検証する関数
+ * 問題がなければnull、問題があれば理由を返す
+ */
+type FieldValidator = (value: unknown) => string | null;
+
+/**
+ * 16進数のカラーコード（RGB 6桁 または ARGB 8桁）
+ */
+const HEX_COLOR_PATTERN = /^[0-9A-F]{6}([0-9A-F]{2})?$/i;
+
+/**
+ * 正の数値であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const positiveNumber: FieldValidator = (value) => {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0
+        ? null
+        : '正の数値を指定してください';
+};
+
+/**
+ * 正の整数であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const positiveInteger: FieldValidator = (value) => {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0
+        ? null
+        : '正の整数を指定してください';
+};
+
+/**
+ * 空でない文字列であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const nonEmptyString: FieldValidator = (value) => {
+    return typeof value === 'string' && value.trim().length > 0
+        ? null
+        : '空でない文字列を指定してください';
+};
+
+/**
+ * 真偽値であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const booleanValue: FieldValidator = (value) => {
+    return typeof value === 'boolean' ? null : 'true または false を指定してください';
+};
+
+/**
+ * 列挙型の値のいずれかであることを検証する関数を作成する
+ * @param values 許容する値の配列
+ * @returns 検証関数
+ */
+const oneOf = (values: string[]): FieldValidator => (value) => {
+    return typeof value === 'string' && values.includes(value)
+        ? null
+        : `${values.map(candidate => `"${candidate}"`).join(' / ')} のいずれかを指定してください`;
+};
+
+/**
+ * 16進数のカラーコードであることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const hexColor: FieldValidator = (value) => {
+    return typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+        ? null
+        : '6桁（RGB）または8桁（ARGB）の16進数カラーコードを指定してください（例: "D9E1F2"）';
+};
+
+/**
+ * 見出しレベル別フォントサイズであることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const headerFontSizes: FieldValidator = (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return '見出しレベル（1〜6）をキーとするオブジェクトを指定してください';
+    }
+
+    const invalidEntry = Object.entries(value).find(([level, size]) => {
+        return !/^[1-6]$/.test(level) || positiveNumber(size) !== null;
+    });
+
+    return invalidEntry
+        ? `見出しレベルは1〜6、フォントサイズは正の数値で指定してください（${invalidEntry[0]}: ${JSON.stringify(invalidEntry[1])}）`
+        : null;
+};
+
+/**
+ * コードブロックの色分けの配色であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const syntaxColors: FieldValidator = (value) => {
+    const keys = ['keyword', 'string', 'comment', 'number'];
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${keys.join(' / ')} をキーとするオブジェクトを指定してください`;
+    }
+
+    const entries = value as Record<string, unknown>;
+    const unknownKey = Object.keys(entries).find(key => !keys.includes(key));
+    if (unknownKey) {
+        return `不明な項目です（${unknownKey}）。${keys.join(' / ')} のいずれかを指定してください`;
+    }
+
+    const invalidKey = keys.find(key => hexColor(entries[key]) !== null);
+    return invalidKey
+        ? `${invalidKey} には6桁（RGB）または8桁（ARGB）の16進数カラーコードを指定してください（${invalidKey}: ${JSON.stringify(entries[invalidKey])}）`
+        : null;
+};
+
+/**
+ * アラートの種類ごとの表示（ラベル・背景色・左境界線色）であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const alertStyles: FieldValidator = (value) => {
+    const types: string[] = Object.values(AlertType);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${types.join(' / ')} をキーとするオブジェクトを指定してください`;
+    }
+
+    const entries = value as Record<string, unknown>;
+    const unknownType = Object.keys(entries).find(type => !types.includes(type));
+    if (unknownType) {
+        return `不明なアラートの種類です（${unknownType}）。${types.join(' / ')} のいずれかを指定してください`;
+    }
+
+    return types
+        .map(type => {
+            const reason = alertStyle(entries[type]);
+            return reason ? `${type}: ${reason}` : null;
+        })
+        .find((message): message is string => message !== null) ?? null;
+};
+
+/**
+ * 1種類のアラートの表示であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const alertStyle: FieldValidator = (value) => {
+    const validators: Record<string, FieldValidator> = { label: nonEmptyString, backgroundColor: hexColor, borderColor: hexColor };
+    const keys = Object.keys(validators);
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${keys.join(' / ')} をキーとするオブジェクトを指定してください`;
+    }
+
+    const entries = value as Record<string, unknown>;
+    const unknownKey = Object.keys(entries).find(key => !keys.includes(key));
+    if (unknownKey) {
+        return `不明な項目です（${unknownKey}）。${keys.join(' / ')} のいずれかを指定してください`;
+    }
+
+    const invalidKey = keys.find(key => validators[key](entries[key]) !== null);
+    return invalidKey
+        ? `${invalidKey} には${validators[invalidKey](entries[invalidKey])}（${invalidKey}: ${JSON.stringify(entries[invalidKey])}）`
+        : null;
+};
+
+/**
+ * 番号付きリストの番号の表記（インデントレベルごとの配列）であることを検証する
+ * @param value 設定値
+ * @returns 問題がなければnull、問題があれば理由
+ */
+const orderedListStyles: FieldValidator = (value) => {
+    if (!Array.isArray(value) || value.length === 0) {
+        return '番号の表記を1つ以上並べた配列を指定してください';
+    }
+
+    const validate = oneOf(Object.values(OrderedListStyle));
+    const invalidIndex = value.findIndex(style => validate(style) !== null);
+    return invalidIndex >= 0 ? `${invalidIndex + 1}番目の値に ${validate(value[invalidIndex])}` : null;
+};
+
+/**
+ * 設定項目ごとの検証関数
+ * ExcelConfigに項目を追加した場合は、ここにも検証関数を追加する
+ */
+const FIELD_VALIDATORS: Record<keyof ExcelConfig, FieldValidator> = {
+    cellWidth: positiveNumber,
+    rowHeight: positiveNumber,
+    indentColumnOffset: positiveInteger,
+    fontName: nonEmptyString,
+    codeFontName: nonEmptyString,
+    baseFontSize: positiveNumber,
+    headerFontSizes,
+    codeBackgroundColor: hexColor,
+    codeBorderColor: hexColor,
+    quoteBackgroundColor: hexColor,
+    imageBackgroundColor: hexColor,
+    quoteBorderColor: hexColor,
+    alertStyles,
+    codeColor: hexColor,
+    syntaxHighlighting: booleanValue,
+    syntaxColors,
+    inlineCodeColor: hexColor,
+    linkColor: hexColor,
+    imageAltColor: hexColor,
+    horizontalRuleColor: hexColor,
+    tableHeaderBackgroundColor: hexColor,
+    tableBorderColor: hexColor,
+    tableMinColumnSpan: positiveInteger,
+    tableMaxColumnSpan: positiveInteger,
+    imageMaxWidthCells: positiveInteger,
+    codeBlockWidthCells: positiveInteger,
+    showDocumentInfo: booleanValue,
+    generateTableOfContents: booleanValue,
+    linkMode: oneOf(Object.values(LinkMode)),
+    linkAppendix: booleanValue,
+    footnoteMode: oneOf(Object.values(FootnoteMode)),
+    completedTaskStyle: oneOf(Object.values(CompletedTaskStyle)),
+    completedTaskColor: hexColor,
+    taskSummary: oneOf(Object.values(TaskSummaryMode)),
+    tabWidth: positiveInteger,
+    orderedListStyles,
+    sheetSplitMode: oneOf(Object.values(SheetSplitMode)),
+    groupSectionsByHeading: booleanValue,
+    groupNestedListItems: booleanValue,
+    sheetName: nonEmptyString,
+    outputMode: oneOf(Object.values(OutputMode))
+};
+
+/**
+ * Excel設定を検証し、問題点を利用者向けのメッセージとして返す
+ * 不明な設定項目（綴り間違いなど）も問題として扱う
+ * @param config 検証する設定
+ * @returns 問題点のメッセージの配列（問題がなければ空配列）
+ */
+export const validateExcelConfig = (config: unknown): string[] => {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+        return ['設定はオブジェクトである必要があります'];
+    }
+
+    const entries = config as Record<string, unknown>;
+    const knownKeys = Object.keys(FIELD_VALIDATORS);
+
+    const unknownKeyErrors = Object.keys(entries)
+        .filter(key => !knownKeys.includes(key))
+        .map(key => `不明な設定項目です: ${key}`);
+
+    const fieldErrors = (Object.entries(FIELD_VALIDATORS) as [string, FieldValidator][])
+        .map(([key, validate]) => {
+            if (entries[key] === undefined) {
+                return `${key}: 設定されていません`;
+            }
+
+            const reason = validate(entries[key]);
+            return reason ? `${key}: ${reason}（指定値: ${JSON.stringify(entries[key])}）` : null;
+        })
+        .filter((message): message is string => message !== null);
+
+    // 項目単体では判定できない、項目間の整合性を検証する
+    const spanError = typeof entries.tableMinColumnSpan === 'number' &&
+        typeof entries.tableMaxColumnSpan === 'number' &&
+        entries.tableMaxColumnSpan < entries.tableMinColumnSpan
+        ? ['tableMaxColumnSpan: tableMinColumnSpan 以上の値を指定してください']
+        : [];
+
+    return [...unknownKeyErrors, ...fieldErrors, ...spanError];
+};
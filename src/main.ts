@@ -3,7 +3,8 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { parseMarkdownFile } from './parser/markdown-parser';
 import { writeExcel } from './writer/excel-writer';
-import { defaultExcelConfig } from './config';
+import { CONFIG_FILE_NAMES, resolveExcelConfig } from './config/loader';
+import { OutputMode } from './types';
 
 console.log('Main process starting...');
 
@@ -25,7 +26,7 @@ function getMainWindow(): BrowserWindow | null {
 function createWindow(): BrowserWindow {
     console.log('Creating window...');
     const window = new BrowserWindow({
-        height: 600,
+        height: 700,
         width: 800,
         title: 'AntiGravity - Markdown to Excel Converter',
         webPreferences: {
@@ -98,21 +99,51 @@ function setupIpcHandlers(): void {
         return result.canceled ? null : result.filePath;
     });
 
+    // 設定ファイル選択ダイアログ
+    ipcMain.handle('select-config-file', async () => {
+        console.log('IPC: select-config-file called');
+        const mainWindow = getMainWindow();
+        if (!mainWindow) {
+            return null;
+        }
+
+        const result = await dialog.showOpenDialog(mainWindow, {
+            properties: ['openFile', 'showHiddenFiles'],
+            filters: [
+                { name: 'Config Files', extensions: ['json', 'yaml', 'yml'] },
+                { name: 'All Files', extensions: ['*'] }
+            ]
+        });
+
+        return result.canceled ? null : result.filePaths[0];
+    });
+
     // Markdown から Excel への変換実行
-    ipcMain.handle('convert-md-to-excel', async (_event, inputPath: string, outputPath: string) => {
-        console.log(`IPC: convert-md-to-excel called. Input: ${inputPath}, Output: ${outputPath}`);
+    // 設定ファイルが未指定の場合は、入力ファイルの場所から親ディレクトリへ向かって探索する
+    // 出力方法（既存のファイルのシートの置き換え・追加・新規作成）を指定した場合は、設定ファイルの outputMode より優先する
+    ipcMain.handle('convert-md-to-excel', async (_event, inputPath: string, outputPath: string, configPath?: string, outputMode?: OutputMode) => {
+        console.log(`IPC: convert-md-to-excel called. Input: ${inputPath}, Output: ${outputPath}, Config: ${configPath ?? '(auto)'}, Output mode: ${outputMode ?? '(config)'}`);
         try {
-            // 1. Markdown の解析
-            const document = await parseMarkdownFile(inputPath);
+            if (outputMode && !Object.values(OutputMode).includes(outputMode)) {
+                throw new Error(`不明な出力方法です: ${outputMode}`);
+            }
+
+            // 1. Excel 設定の解決 (指定または自動検出した設定ファイルをデフォルト設定に上書きし、画面で選択した出力方法を反映)
+            const { config: resolvedConfig, configPath: usedConfigPath } = await resolveExcelConfig(inputPath, configPath || undefined);
+            console.log(`Config file: ${usedConfigPath ?? `not found (${CONFIG_FILE_NAMES.join(', ')})`}`);
+            const config = outputMode ? { ...resolvedConfig, outputMode } : resolvedConfig;
+
+            // 2. Markdown の解析
+            const document = await parseMarkdownFile(inputPath, { config });
 
-            // 2. Excel Buffer の生成 (デフォルト設定を使用、既存ファイルがあれば読み込む)
-            const excelBuffer = await writeExcel(document, defaultExcelConfig, outputPath);
+            // 3. Excel Buffer の生成 (既存ファイルがあれば、出力方法に応じてシートを置き換える・追加する)
+            const excelBuffer = await writeExcel(document, config, outputPath);
 
-            // 3. ファイルへの書き出し
+            // 4. ファイルへの書き出し
             await fs.writeFile(outputPath, excelBuffer);
 
             console.log('Conversion successful');
-            return { success: true };
+            return { success: true, configPath: usedConfigPath };
         } catch (error) {
             console.error('Conversion error:', error);
             return {
@@ -122,7 +153,7 @@ function setupIpcHandlers(): void {
         }
     });
 
-    console.log('IPC handlers registered: select-input-file, select-output-file, convert-md-to-excel');
+    console.log('IPC handlers registered: select-input-file, select-output-file, select-config-file, convert-md-to-excel');
 }
 
 // Electronの初期化が完了したらセットアップ
@@ -0,0 +1,116 @@
+import { AlertType, DocumentLine } from '../types';
+
+/**
+ * GitHubのアラートの記号（引用の1行目の [!NOTE] など。大文字・小文字を区別せず、後ろにタイトルを続けられる）
+ */
+const ALERT_MARKER_PATTERN = /^\[!([A-Za-z]+)\](?:[ \t]+(.*))?$/;
+
+/**
+ * コンテナの開始の行（:::note / :::warning タイトル / :::tip[タイトル]）
+ */
+const CONTAINER_OPEN_PATTERN = /^:::[ \t]*([A-Za-z]+)[ \t]*(.*)$/;
+
+/**
+ * コンテナの終了の行（:::）
+ */
+const CONTAINER_CLOSE_PATTERN = /^:::[ \t]*$/;
+
+/**
+ * アラートの種類として受け付ける名前（小文字）とアラートの種類の対応
+ * コンテナ記法で使われる info / danger は、それぞれ note / caution として扱う
+ */
+const ALERT_TYPE_NAMES: ReadonlyMap<string, AlertType> = new Map([
+    ['note', AlertType.Note],
+    ['info', AlertType.Note],
+    ['tip', AlertType.Tip],
+    ['important', AlertType.Important],
+    ['warning', AlertType.Warning],
+    ['caution', AlertType.Caution],
+    ['danger', AlertType.Caution]
+]);
+
+/**
+ * アラートの記号から読み取った内容を表すインターフェース
+ */
+export interface AlertMarker {
+    /** アラートの種類 */
+    type: AlertType;
+    /** 記号の後に記述されたタイトル（記述がない場合は空文字） */
+    title: string;
+}
+
+/**
+ * コンテナ（:::note 〜 :::）の範囲を表すインターフェース
+ */
+export interface AlertContainer {
+    /** 開始の行のインデックス */
+    start: number;
+    /** 終了の行のインデックス */
+    end: number;
+    /** 開始の行に記述されたアラートの種類とタイトル */
+    marker: AlertMarker;
+}
+
+/**
+ * 引用の1行目がGitHubのアラートの記号（[!NOTE] など）であれば、アラートの種類を取得する
+ * @param line 引用の記号を除去した引用の1行目
+ * @returns アラートの種類とタイトル（アラートの記号でない場合はnull）
+ */
+export const detectAlertMarker = (line: string): AlertMarker | null => {
+    const match = line.trim().match(ALERT_MARKER_PATTERN);
+    return match ? toAlertMarker(match[1], match[2] ?? '') : null;
+};
+
+/**
+ * コンテナ（:::note 〜 :::）の範囲を検出する
+ * コンテナの中のコンテナは、外側のコンテナの内容として扱う（内容を解析する際に検出する）
+ * 終了の行がないコンテナ、種類が不明なコンテナは通常の行として扱い、コードブロックの行はコンテナの記号として扱わない
+ * @param lines 解析済みの行
+ * @returns 最も外側のコンテナの範囲の配列（出現順）
+ */
+export const findAlertContainers = (lines: DocumentLine[]): AlertContainer[] => {
+    const containers: AlertContainer[] = [];
+
+    // 開いているコンテナ（入れ子の深さと最も外側のコンテナの開始）を追跡する
+    let depth = 0;
+    let openContainer: Omit<AlertContainer, 'end'> | null = null;
+
+    lines.forEach((line, index) => {
+        if (line.codeBlock) {
+            return;
+        }
+
+        const trimmedLine = line.originalLine.trim();
+
+        if (openContainer && CONTAINER_CLOSE_PATTERN.test(trimmedLine)) {
+            depth--;
+            if (depth === 0) {
+                containers.push({ ...openContainer, end: index });
+                openContainer = null;
+            }
+            return;
+        }
+
+        const openMatch = trimmedLine.match(CONTAINER_OPEN_PATTERN);
+        const marker = openMatch ? toAlertMarker(openMatch[1], openMatch[2]) : null;
+        if (!marker) {
+            return;
+        }
+
+        depth++;
+        openContainer = openContainer ?? { start: index, marker };
+    });
+
+    return containers;
+};
+
+/**
+ * 記号に記述された種類の名前とタイトルからアラートの記号の内容を作成する
+ * @param name 種類の名前（大文字・小文字を区別しない）
+ * @param title 記号の後に記述されたタイトル（[タイトル] 形式の括弧は除去する）
+ * @returns アラートの種類とタイトル（種類が不明な場合はnull）
+ */
+const toAlertMarker = (name: string, title: string): AlertMarker | null => {
+    const type = ALERT_TYPE_NAMES.get(name.toLowerCase());
+    return type ? { type, title: title.trim().replace(/^\[(.*)\]$/, '$1').trim() } : null;
+};
@@ -0,0 +1,90 @@
+import { defaults, Lexer, Token, Tokenizer, Tokens } from 'marked';
+import { tokenizeFencedCode } from './code-block-parser';
+
+/**
+ * 内容のないリスト項目（記号のみの行）。従来どおり段落の行として扱い、リストを開始しない
+ */
+const EMPTY_LIST_ITEM_PATTERN = /^ {0,3}([-*+]|\d{1,9}[.)])(?:\n|$)/;
+
+/**
+ * ブロック要素のトークンと、そのトークンが占める行の範囲を表すインターフェース
+ */
+export interface LineBlock<T extends Token = Token> {
+    /** ブロック要素のトークン（どのトークンにも含まれない行の場合はnull） */
+    token: T | null;
+    /** 最初の行のインデックス */
+    start: number;
+    /** 最後の行の次のインデックス */
+    end: number;
+}
+
+/**
+ * 行をmarkedのLexerでブロック要素（段落・見出し・リスト・引用・コードブロック・表・HTMLなど）のトークンに分割し、
+ * トークンごとに占める行の範囲を求める
+ * フェンスで囲まれたコードブロックと記号のみの行は従来の規則で判定し、リンク参照定義は段落の行として残す（定義は別途収集する）
+ * @param lines 解析対象の行
+ * @returns 行の範囲の配列（出現順。範囲は重複せず、すべての行を覆う）
+ */
+export const lexLineBlocks = (lines: string[]): LineBlock[] => {
+    const tokenizer = new Tokenizer();
+    const tokenizeList = tokenizer.list.bind(tokenizer);
+    tokenizer.fences = tokenizeFencedCode;
+    tokenizer.list = (src) => EMPTY_LIST_ITEM_PATTERN.test(src) ? undefined : tokenizeList(src);
+    tokenizer.def = () => undefined;
+
+    return locateLineBlocks(lines, new Lexer({ ...defaults, tokenizer }).lex(lines.join('\n')));
+};
+
+/**
+ * リストのトークンが占める行を、リスト項目ごとの範囲に分割する
+ * @param lines リストのトークンが占める行
+ * @param list リストのトークン
+ * @returns リスト項目ごとの行の範囲の配列（項目の間の行は token を null とした範囲とする）
+ */
+export const splitListItems = (lines: string[], list: Tokens.List): LineBlock<Tokens.ListItem>[] => {
+    return locateLineBlocks(lines, list.items);
+};
+
+/**
+ * トークンの元の文字列（raw）の長さを先頭から順に積み上げてトークンの位置を求め、開始位置がトークンの範囲にある行をそのトークンの行とする
+ * markedはトークンの元の文字列の末尾の空白を改行に置き換えることがあるが、長さは元の文字列と一致する
+ * どのトークンにも含まれない行は token を null とした範囲にする
+ * @param lines 解析対象の行
+ * @param tokens 行を連結した文字列から得たトークン（出現順。元の文字列が隙間なく連続するもの）
+ * @returns 行の範囲の配列
+ */
+const locateLineBlocks = <T extends Token>(lines: string[], tokens: T[]): LineBlock<T>[] => {
+    const lineOffsets = lines.reduce<number[]>((offsets, _, index) => {
+        offsets.push(index === 0 ? 0 : offsets[index - 1] + lines[index - 1].length + 1);
+        return offsets;
+    }, []);
+
+    const located = tokens.reduce<{ blocks: LineBlock<T>[]; offset: number; lineIndex: number }>((state, token) => {
+        const offset = state.offset + token.raw.length;
+        const start = Math.max(toLineIndex(lineOffsets, state.offset), state.lineIndex);
+        const end = toLineIndex(lineOffsets, offset);
+        if (start >= end) {
+            return { ...state, offset };
+        }
+
+        const gap: LineBlock<T>[] = start > state.lineIndex ? [{ token: null, start: state.lineIndex, end: start }] : [];
+        state.blocks.push(...gap, { token, start, end });
+        return { blocks: state.blocks, offset, lineIndex: end };
+    }, { blocks: [], offset: 0, lineIndex: 0 });
+
+    const rest: LineBlock<T>[] = located.lineIndex < lines.length
+        ? [{ token: null, start: located.lineIndex, end: lines.length }]
+        : [];
+    return [...located.blocks, ...rest];
+};
+
+/**
+ * 連結した文字列の位置から、その位置以降に始まる最初の行のインデックスを取得する
+ * @param lineOffsets 各行の開始位置
+ * @param offset 連結した文字列の位置
+ * @returns 行のインデックス（該当する行がない場合は行数）
+ */
+const toLineIndex = (lineOffsets: number[], offset: number): number => {
+    const index = lineOffsets.findIndex(lineOffset => lineOffset >= offset);
+    return index === -1 ? lineOffsets.length : index;
+};
@@ -0,0 +1,15 @@
+/**
+ * 引用の記号と直後の1つの空白（空白は省略可能）
+ */
+const QUOTE_MARKER_PATTERN = /^>[ \t]?/;
+
+/**
+ * 引用ブロックの行から、外側の引用の記号（>）を1つ除去する
+ * 引用の記号の直後の空白は省略でき、入れ子の引用（>>）は内容に残して内側の引用として解析する
+ * 引用の記号のない行（前の行の段落の続きとして引用に含まれる行）は、行頭の空白のみを除去する
+ * @param line 引用ブロックの行
+ * @returns 引用の内容
+ */
+export const stripQuoteMarker = (line: string): string => {
+    return line.trimStart().replace(QUOTE_MARKER_PATTERN, '');
+};
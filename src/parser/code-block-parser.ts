@@ -0,0 +1,75 @@
+import { Tokens } from 'marked';
+import { CodeBlockInfo, CodeBlockRole } from '../types';
+
+/**
+ * 開始のフェンスの行（3つ以上の ` または ~ と、続く言語名などの情報）
+ */
+const OPENING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})([^\n]*)(?:\n|$)/;
+
+/**
+ * 終了のフェンスの行（3つ以上の ` または ~ のみ）
+ */
+const CLOSING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+
+/**
+ * フェンスで囲まれたコードブロックを、従来の規則でmarkedのトークンにする（markedのLexerのトークナイザとして使用する）
+ * CommonMarkより緩やかに、言語名に ` を含む開始のフェンスと、開始のフェンスより短い終了のフェンスも受け付ける
+ * 終了のフェンスがない場合は、残りのすべての行をコードブロックとする
+ * @param src 未解析の文字列（行頭から始まる）
+ * @returns コードブロックのトークン（開始のフェンスでない場合はundefined）
+ */
+export const tokenizeFencedCode = (src: string): Tokens.Code | undefined => {
+    const opening = src.match(OPENING_FENCE_PATTERN);
+    if (!opening) {
+        return undefined;
+    }
+
+    const [openingLine, fence, info] = opening;
+    const rest = src.slice(openingLine.length);
+    const restLines = rest.length > 0 ? rest.split('\n') : [];
+    const closingIndex = restLines.findIndex(line => isClosingFence(line, fence));
+    const contentLines = closingIndex === -1 ? restLines : restLines.slice(0, closingIndex);
+    const raw = closingIndex === -1 ? src : openingLine + restLines.slice(0, closingIndex + 1).join('\n');
+
+    return { type: 'code', raw, lang: info.trim(), text: contentLines.join('\n') };
+};
+
+/**
+ * コードブロックのトークンが占める行ごとに、コードブロック内での役割と言語名を決定する
+ * フェンスで囲まれたコードブロックは最初の行を開始のフェンス行、最後の行が終了のフェンスであればその行を終了のフェンス行とし、
+ * 終了のフェンスがない場合は、最後の行までをコードの行とする
+ * インデントによるコードブロックは、すべての行をコードの行（言語名なし）とする
+ * @param lines コードブロックの行（インデントによるコードブロックは末尾の区切りの空行を除く）
+ * @param token コードブロックのトークン
+ * @returns 行ごとのコードブロックの構造情報
+ */
+export const resolveCodeBlockLines = (lines: string[], token: Tokens.Code): CodeBlockInfo[] => {
+    const language = token.lang ?? '';
+    if (token.codeBlockStyle === 'indented') {
+        return lines.map(() => ({ role: CodeBlockRole.Content, language }));
+    }
+
+    const fence = lines[0].match(OPENING_FENCE_PATTERN)?.[1] ?? '```';
+    const isClosed = lines.length > 1 && isClosingFence(lines[lines.length - 1], fence);
+
+    return lines.map((_, index) => {
+        if (index === 0) {
+            return { role: CodeBlockRole.Open, language };
+        }
+
+        const isClosingLine = isClosed && index === lines.length - 1;
+        return { role: isClosingLine ? CodeBlockRole.Close : CodeBlockRole.Content, language };
+    });
+};
+
+/**
+ * 行が開始のフェンスを閉じる終了のフェンスかどうかを判定する
+ * 終了のフェンスは開始のフェンスと同じ記号（` または ~）の3つ以上の並びとし、後ろに空白以外を含まない
+ * @param line 対象行
+ * @param openingFence 開始のフェンスの記号の並び
+ * @returns 終了のフェンスの場合はtrue
+ */
+const isClosingFence = (line: string, openingFence: string): boolean => {
+    const closingFence = line.match(CLOSING_FENCE_PATTERN)?.[1];
+    return closingFence !== undefined && closingFence[0] === openingFence[0];
+};
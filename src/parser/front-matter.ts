@@ -0,0 +1,76 @@
+import { parse as parseYaml } from 'yaml';
+import { FrontMatter } from '../types';
+
+/**
+ * フロントマターの区切り行（開始）
+ */
+const OPENING_DELIMITER = '---';
+
+/**
+ * フロントマターの区切り行（終了）
+ */
+const CLOSING_DELIMITERS = ['---', '...'];
+
+/**
+ * フロントマターの抽出結果を表すインターフェース
+ */
+export interface FrontMatterExtraction {
+    /** フロントマターの内容（フロントマターがない場合はnull） */
+    frontMatter: FrontMatter | null;
+    /** フロントマターを除いた本文の行 */
+    bodyLines: string[];
+    /** 除去した行数（区切り行を含む） */
+    strippedLineCount: number;
+}
+
+/**
+ * 先頭のYAMLフロントマターを抽出する
+ * 1行目が「---」で、終了の区切り行までの内容がYAMLのマッピングとして解析できる場合のみフロントマターとみなす
+ * （水平線で始まる通常のMarkdownを誤って除去しないよう、それ以外は本文として扱う）
+ * @param lines ドキュメントの全行
+ * @returns フロントマターと本文の行
+ */
+export const extractFrontMatter = (lines: string[]): FrontMatterExtraction => {
+    const notFound: FrontMatterExtraction = { frontMatter: null, bodyLines: lines, strippedLineCount: 0 };
+
+    if (lines.length === 0 || lines[0].trimEnd() !== OPENING_DELIMITER) {
+        return notFound;
+    }
+
+    const closingIndex = lines.findIndex((line, index) => index > 0 && CLOSING_DELIMITERS.includes(line.trimEnd()));
+    if (closingIndex < 0) {
+        return notFound;
+    }
+
+    const frontMatter = parseFrontMatterYaml(lines.slice(1, closingIndex).join('\n'));
+    if (!frontMatter) {
+        return notFound;
+    }
+
+    return {
+        frontMatter,
+        bodyLines: lines.slice(closingIndex + 1),
+        strippedLineCount: closingIndex + 1
+    };
+};
+
+/**
+ * フロントマターのYAMLを解析する
+ * @param yamlText 区切り行を除いたYAML文字列
+ * @returns キーを1つ以上持つマッピングの場合はその内容、それ以外はnull
+ */
+const parseFrontMatterYaml = (yamlText: string): FrontMatter | null => {
+    const parsed: unknown = (() => {
+        try {
+            return parseYaml(yamlText);
+        } catch {
+            return null;
+        }
+    })();
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed) || Object.keys(parsed).length === 0) {
+        return null;
+    }
+
+    return parsed as FrontMatter;
+};
@@ -0,0 +1,31 @@
+/**
+ * ATX形式の見出しの開始記号（1〜6個の # と直後の1つの空白、または # のみの行）
+ * 「#タグ」のように # の直後に空白のない行は見出しとしない（CommonMarkの規則）
+ */
+export const ATX_HEADING_PATTERN = /^(#{1,6})(?:[ \t]|$)/;
+
+/**
+ * ATX形式の見出しの末尾の閉じる記号（空白に続く # の並びと末尾の空白）
+ */
+const ATX_CLOSING_SEQUENCE_PATTERN = /(?:^|[ \t]+)#+[ \t]*$/;
+
+/**
+ * 見出しの本文の前後の空白（CommonMarkと同じく、スペースとタブのみ。全角スペースは本文として保持する）
+ */
+const SURROUNDING_SPACES_PATTERN = /^[ \t]+|[ \t]+$/g;
+
+/**
+ * ATX形式の見出しの行から、開始記号と末尾の閉じる記号を除去する
+ * 閉じる記号は空白に続く場合のみ除去し（「C#」などは保持）、本文の前後の空白を除去する
+ * @param line 見出しの行（インデント除去済み）
+ * @returns 見出しの本文（ATX形式の見出しでない場合は元の行）
+ */
+export const stripAtxHeadingMarkers = (line: string): string => {
+    if (!ATX_HEADING_PATTERN.test(line)) {
+        return line;
+    }
+
+    return line.replace(ATX_HEADING_PATTERN, '')
+        .replace(ATX_CLOSING_SEQUENCE_PATTERN, '')
+        .replace(SURROUNDING_SPACES_PATTERN, '');
+};
@@ -0,0 +1,97 @@
+/**
+ * リスト項目の記号と直後の空白（- / * / + / 1. / 1)。内容のない項目は空白を伴わない）
+ */
+const LIST_MARKER_PATTERN = /^([-*+]|\d{1,9}[.)])([ \t]*)/;
+
+/**
+ * リスト項目の記号の後の空白がこの幅を超える場合は、記号の後の1文字目から内容が始まるものとみなす（CommonMarkの規則）
+ */
+const MAX_MARKER_SPACING = 4;
+
+/**
+ * 行のインデントの解析結果を表すインターフェース
+ */
+export interface LineIndentation {
+    /** インデントレベル（0から開始） */
+    level: number;
+    /** インデントを除去した行（インデントレベルを超える先行スペースは保持する） */
+    content: string;
+}
+
+/**
+ * 行のインデントレベルを決定し、インデントレベルに相当する幅だけ行頭の空白を除去する
+ * 「タブ幅のスペースまたは1タブ」を1レベルとする（リストの入れ子は、リスト項目の内容の位置で除去した後の行で判定する）
+ * @param line 対象行
+ * @param tabWidth 1タブ・1インデントレベルに相当するスペースの数
+ * @returns インデントの解析結果
+ */
+export const resolveLineIndentation = (line: string, tabWidth: number): LineIndentation => {
+    const level = Math.floor(measureIndentWidth(line, tabWidth) / tabWidth);
+    return { level, content: stripIndent(line, level * tabWidth, tabWidth) };
+};
+
+/**
+ * リスト項目の最初の行から、項目の内容が始まる位置（行頭からの幅）を計算する
+ * 記号の後の空白が4を超える場合と、記号の後に内容がない場合は、記号の後の1文字目を内容の位置とする
+ * @param line リスト項目の最初の行
+ * @param tabWidth 1タブに相当するスペースの数
+ * @returns 内容が始まる位置（リスト項目の行でない場合は行頭の空白の幅）
+ */
+export const measureListContentOffset = (line: string, tabWidth: number): number => {
+    const width = measureIndentWidth(line, tabWidth);
+    const marker = line.trimStart().match(LIST_MARKER_PATTERN);
+    if (!marker) {
+        return width;
+    }
+
+    const spacing = measureIndentWidth(marker[2], tabWidth);
+    const isSpacingIgnored = spacing === 0 || spacing > MAX_MARKER_SPACING || line.trim() === marker[1];
+    return width + marker[1].length + (isSpacingIgnored ? 1 : spacing);
+};
+
+/**
+ * 行頭の空白の幅を計算する（スペースは1、タブはタブ幅）
+ * @param line 対象行
+ * @param tabWidth 1タブに相当するスペースの数
+ * @returns 行頭の空白の幅
+ */
+export const measureIndentWidth = (line: string, tabWidth: number): number => {
+    let width = 0;
+
+    for (const char of line) {
+        if (char === ' ') {
+            width++;
+            continue;
+        }
+        if (char === '\t') {
+            width += tabWidth;
+            continue;
+        }
+        break;
+    }
+
+    return width;
+};
+
+/**
+ * 指定した幅に達するまで行頭の空白を除去する
+ * 幅の途中で終わるタブは、タブ全体を除去する
+ * @param line 対象行
+ * @param stripWidth 除去する幅
+ * @param tabWidth 1タブに相当するスペースの数
+ * @returns 行頭の空白を除去した行
+ */
+export const stripIndent = (line: string, stripWidth: number, tabWidth: number): string => {
+    let currentWidth = 0;
+    let cutIndex = 0;
+
+    for (; cutIndex < line.length && currentWidth < stripWidth; cutIndex++) {
+        const char = line[cutIndex];
+        if (char !== ' ' && char !== '\t') {
+            break;
+        }
+        currentWidth += char === '\t' ? tabWidth : 1;
+    }
+
+    return line.substring(cutIndex);
+};
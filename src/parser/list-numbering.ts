@@ -0,0 +1,172 @@
+import { ExcelConfig, OrderedListStyle } from '../types';
+
+/**
+ * 番号付きリスト項目の番号と区切り記号（1. / 1)）と直後の1つの空白。番号はCommonMarkと同じく9桁まで
+ */
+export const ORDERED_LIST_MARKER_PATTERN = /^(\d{1,9})([.)])(?:[ \t]|$)/;
+
+/**
+ * 表示された番号付きリスト項目の番号（数字・アルファベット・ローマ数字と区切り記号）
+ */
+const DISPLAYED_MARKER_PATTERN = /^([0-9]{1,9}|[A-Za-z]+)([.)])$/;
+
+/**
+ * アルファベットの連番に使用する文字数（a〜z）
+ */
+const ALPHABET_LENGTH = 26;
+
+/**
+ * ローマ数字の表記に使用する値と記号（大きい順）
+ */
+const ROMAN_NUMERALS: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'],
+    [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'],
+    [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+/**
+ * ローマ数字で表記できる最大の番号
+ */
+const MAX_ROMAN_NUMBER = 3999;
+
+/**
+ * 番号付きリスト項目に表示する番号（例: 3.、b)、iv.）を作成する
+ * 番号はCommonMarkと同じくリストの開始番号からの連番とし、記述された番号は使用しない
+ * 番号の表記（数字・アルファベット・ローマ数字）はインデントレベルごとに設定に従う
+ * @param number リストの開始番号と項目の位置から決まる番号
+ * @param delimiter 区切り記号（. または )）
+ * @param level リスト項目のインデントレベル
+ * @param config Excel生成設定
+ * @returns 表示する番号
+ */
+export const formatOrderedListMarker = (number: number, delimiter: string, level: number, config: ExcelConfig): string => {
+    return `${formatListNumber(number, resolveListStyle(level, config))}${delimiter}`;
+};
+
+/**
+ * 表示された番号付きリスト項目の番号（例: 3.、b)、iv.）から、番号と区切り記号を読み取る（formatOrderedListMarker の逆変換）
+ * @param marker 表示された番号（区切り記号を含む）
+ * @param level リスト項目のインデントレベル
+ * @param config Excel生成設定
+ * @returns 番号と区切り記号（インデントレベルの表記の番号でない場合はnull）
+ */
+export const parseOrderedListMarker = (marker: string, level: number, config: ExcelConfig): { number: number; delimiter: string } | null => {
+    const match = marker.match(DISPLAYED_MARKER_PATTERN);
+    const number = match ? parseListNumber(match[1], resolveListStyle(level, config)) : null;
+    return match && number !== null ? { number, delimiter: match[2] } : null;
+};
+
+/**
+ * インデントレベルに対応する番号の表記を取得する
+ * 設定の配列の長さを超えるレベルは、配列の先頭から繰り返して適用する
+ * @param level インデントレベル
+ * @param config Excel生成設定
+ * @returns 番号の表記
+ */
+const resolveListStyle = (level: number, config: ExcelConfig): OrderedListStyle => {
+    const styles = config.orderedListStyles;
+    return styles.length > 0 ? styles[level % styles.length] : OrderedListStyle.Decimal;
+};
+
+/**
+ * 番号を指定の表記の文字列にする
+ * 0以下の番号と、ローマ数字で表せない4000以上の番号は数字で表記する
+ * @param number 番号
+ * @param style 番号の表記
+ * @returns 番号の文字列
+ */
+export const formatListNumber = (number: number, style: OrderedListStyle): string => {
+    if (style === OrderedListStyle.Decimal || number < 1) {
+        return String(number);
+    }
+
+    const isAlphabetic = style === OrderedListStyle.LowerAlpha || style === OrderedListStyle.UpperAlpha;
+    if (!isAlphabetic && number > MAX_ROMAN_NUMBER) {
+        return String(number);
+    }
+
+    const isUpperCase = style === OrderedListStyle.UpperAlpha || style === OrderedListStyle.UpperRoman;
+    const text = isAlphabetic ? toAlphabetic(number) : toRoman(number);
+
+    return isUpperCase ? text.toUpperCase() : text;
+};
+
+/**
+ * 指定の表記の番号の文字列を番号にする（formatListNumber の逆変換）
+ * 数字は表記で表せない番号（0以下の番号など）が数字で表記された場合のみ受け付け、それ以外は表記どおりの大文字・小文字のみ受け付ける
+ * @param text 番号の文字列
+ * @param style 番号の表記
+ * @returns 番号（指定の表記で表せない文字列の場合はnull）
+ */
+export const parseListNumber = (text: string, style: OrderedListStyle): number | null => {
+    if (/^\d{1,9}$/.test(text)) {
+        return formatListNumber(Number(text), style) === text ? Number(text) : null;
+    }
+    if (style === OrderedListStyle.Decimal) {
+        return null;
+    }
+
+    const isAlphabetic = style === OrderedListStyle.LowerAlpha || style === OrderedListStyle.UpperAlpha;
+    const isUpperCase = style === OrderedListStyle.UpperAlpha || style === OrderedListStyle.UpperRoman;
+    if (text !== (isUpperCase ? text.toUpperCase() : text.toLowerCase())) {
+        return null;
+    }
+
+    const number = isAlphabetic ? fromAlphabetic(text.toLowerCase()) : fromRoman(text.toLowerCase());
+    return number !== null && formatListNumber(number, style) === text ? number : null;
+};
+
+/**
+ * 番号をアルファベットの連番にする（1 → a、26 → z、27 → aa）
+ * @param number 番号（1以上）
+ * @returns アルファベットの連番
+ */
+const toAlphabetic = (number: number): string => {
+    const letter = String.fromCharCode('a'.charCodeAt(0) + ((number - 1) % ALPHABET_LENGTH));
+    const rest = Math.floor((number - 1) / ALPHABET_LENGTH);
+    return rest > 0 ? `${toAlphabetic(rest)}${letter}` : letter;
+};
+
+/**
+ * 番号をローマ数字にする（4 → iv、1999 → mcmxcix）
+ * @param number 番号（1以上）
+ * @returns ローマ数字
+ */
+const toRoman = (number: number): string => {
+    return ROMAN_NUMERALS.reduce(({ text, rest }, [value, numeral]) => ({
+        text: text + numeral.repeat(Math.floor(rest / value)),
+        rest: rest % value
+    }), { text: '', rest: number }).text;
+};
+
+/**
+ * アルファベットの連番を番号にする（a → 1、z → 26、aa → 27）
+ * @param text アルファベットの連番（小文字）
+ * @returns 番号（アルファベット以外を含む場合はnull）
+ */
+const fromAlphabetic = (text: string): number | null => {
+    if (!/^[a-z]+$/.test(text)) {
+        return null;
+    }
+
+    return Array.from(text).reduce((number, letter) => {
+        return (number * ALPHABET_LENGTH) + (letter.charCodeAt(0) - 'a'.charCodeAt(0) + 1);
+    }, 0);
+};
+
+/**
+ * ローマ数字を番号にする（iv → 4、mcmxcix → 1999）
+ * 後ろの文字より小さい値の文字は減算し、表記の正しさは呼び出し側で formatListNumber の結果と比較して確認する
+ * @param text ローマ数字（小文字）
+ * @returns 番号（ローマ数字以外を含む場合はnull）
+ */
+const fromRoman = (text: string): number | null => {
+    const letterValues = new Map(ROMAN_NUMERALS.filter(([, numeral]) => numeral.length === 1).map(([value, numeral]) => [numeral, value]));
+    const values = Array.from(text).map(letter => letterValues.get(letter));
+    if (values.some(value => value === undefined)) {
+        return null;
+    }
+
+    const numbers = values as number[];
+    return numbers.reduce((sum, value, index) => value < (numbers[index + 1] ?? 0) ? sum - value : sum + value, 0);
+};
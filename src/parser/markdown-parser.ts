@@ -1,15 +1,93 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Lexer, Token } from 'marked';
-import { DocumentLine, FormatInfo, Document, RichTextSegment, FontStyle, LineType, MarkedTokenType } from '../types';
+import { Lexer, Token, Tokens } from 'marked';
+import { DocumentLine, FormatInfo, Document, RichTextSegment, FontStyle, LineType, MarkedTokenType, ExcelConfig, ParseOptions, Footnote, TaskInfo, CompletedTaskStyle, AlertType, CodeBlockRole } from '../types';
 import { defaultExcelConfig } from '../config';
+import { structureTableBlock } from './table-parser';
+import { resolveCodeBlockLines } from './code-block-parser';
+import { applySyntaxHighlighting } from './syntax-highlighter';
+import { extractFrontMatter } from './front-matter';
+import { lexLineBlocks, splitListItems } from './block-lexer';
+import { measureIndentWidth, measureListContentOffset, resolveLineIndentation, stripIndent } from './indentation';
+import { stripQuoteMarker } from './block-quotes';
+import { AlertMarker, detectAlertMarker, findAlertContainers } from './alerts';
+import { ATX_HEADING_PATTERN, stripAtxHeadingMarkers } from './headings';
+import { formatOrderedListMarker, ORDERED_LIST_MARKER_PATTERN } from './list-numbering';
+import { collectReferenceDefinitions, EMPTY_REFERENCE_DEFINITIONS, ReferenceDefinitions, splitFootnoteReferences } from './reference-definitions';
+
+/**
+ * 本文中の脚注の参照を置き換える記号（※1 のように番号の前に付与する）
+ */
+export const FOOTNOTE_MARKER = '※';
+
+/**
+ * 箇条書きのリスト項目の記号と直後の1つの空白
+ */
+const BULLET_LIST_MARKER_PATTERN = /^[-*+](?:[ \t]|$)/;
+
+/**
+ * リスト項目の記号と直後の1つの空白（項目の1行目の内容を取り出す際に除去する）
+ */
+const LIST_MARKER_PATTERN = /^([-*+]|\d{1,9}[.)])(?:[ \t]|$)/;
+
+/**
+ * タスクリスト項目（- [ ] 項目 / - [x] 項目 / 1. [ ] 項目）
+ */
+const TASK_LIST_ITEM_PATTERN = /^([-*+]|\d{1,9}[.)])\s+\[([ xX])\](?:\s+|$)/;
+
+/**
+ * 表として成立しない段落の中の表の行（| で始まり | で終わる行）。表の行として表示する
+ */
+const TABLE_ROW_PATTERN = /^\|.*\|$/;
+
+/**
+ * 箇条書きのリスト項目の記号を置き換える記号
+ */
+export const BULLET_LIST_GLYPH = '・';
+
+/**
+ * タスクリスト項目のチェックボックスを置き換える記号（未完了・完了）
+ */
+export const TASK_GLYPHS = { unchecked: '☐', checked: '☑' };
+
+/**
+ * 引用ブロックの最初の行の先頭に表示する見出し
+ */
+export const QUOTE_LABEL = '引用：';
+
+/**
+ * ブロック要素の解析中の状態を表すインターフェース（リスト項目や引用の内容を再帰的に解析する際に引き継ぐ）
+ */
+interface BlockContext {
+    /** 文書全体の参照定義 */
+    references: ReferenceDefinitions;
+    /** 引用の内容を解析しているかどうか */
+    isQuoteContent: boolean;
+    /** 解析している行を最終的に配置するインデントレベルの基準（リスト項目や引用の内容の場合は外側のレベル） */
+    levelOffset: number;
+}
+
+/**
+ * 1行を解析する際の、ブロック要素から決まる行の情報を表すインターフェース
+ */
+interface LineOptions {
+    /** 見出しレベル（見出しの行のみ） */
+    headerLevel?: number;
+    /** 番号付きリスト項目に表示する番号（例: 3.、b)） */
+    listMarker?: string | null;
+    /** コードブロックのコードの行かどうか（書式を解釈せず、コードの文字色で表示する） */
+    isCode?: boolean;
+    /** HTMLブロックの行かどうか（書式を解釈せず、そのままテキストとして表示する） */
+    isRawText?: boolean;
+}
 
 /**
  * Markdownファイルを読み込んで解析する
  * @param filePath Markdownファイルのパス
+ * @param options 解析オプション
  * @returns 解析されたドキュメント
  */
-export const parseMarkdownFile = async (filePath: string): Promise<Document> => {
+export const parseMarkdownFile = async (filePath: string, options: ParseOptions = {}): Promise<Document> => {
     // ファイルの存在確認
     if (!fs.existsSync(filePath)) {
         throw new Error(`ファイルが見つかりません: ${filePath}`);
@@ -18,53 +96,444 @@ export const parseMarkdownFile = async (filePath: string): Promise<Document> =>
     // ファイル読み込み
     const content = await readFileAsync(filePath);
 
-    // 行ごとに分割して解析（各種改行コードに対応）
-    const lines = normalizeAndSplitLines(content);
+    // ファイル名と基準ディレクトリは、明示されていなければファイルの場所から決定する
+    const document = parseMarkdown(content, {
+        ...options,
+        fileName: options.fileName ?? path.basename(filePath),
+        baseDirectory: options.baseDirectory ?? path.dirname(path.resolve(filePath))
+    });
 
-    // コードブロック状態とリスト連番を追跡しながら解析
-    let isInCodeBlock = false;
-    let listCounter: Record<number, number> = {}; // インデントレベルごとの連番を管理
+    return {
+        ...document,
+        metadata: {
+            ...document.metadata,
+            filePath: filePath
+        }
+    };
+};
 
-    const documentLines = lines.map((line) => {
-        // コードブロックの開始・終了を先に追跡
-        const { level: indentLevel, content: indentStrippedLine } = splitIndent(line);
-        const trimmedLine = line.trimStart();
+/**
+ * Markdown文字列を解析する
+ * 書式（見出しサイズ・文字色・背景色など）は options.config の設定で決定する
+ * ファイル名と基準ディレクトリは options で指定された値をメタデータに記録する
+ * 先頭のYAMLフロントマターは行から除去し、メタデータに記録する
+ * リンク参照定義と脚注定義は先に文書全体から収集して参照を解決し、定義の行は出力しない行として印を付ける
+ * @param content Markdown文字列
+ * @param options 解析オプション
+ * @returns 解析されたドキュメント
+ */
+export const parseMarkdown = (content: string, options: ParseOptions = {}): Document => {
+    const config = options.config ?? defaultExcelConfig;
 
-        if (trimmedLine.startsWith('```')) {
-            isInCodeBlock = !isInCodeBlock;
-        }
+    // 行ごとに分割して解析（各種改行コードに対応）
+    const lines = normalizeAndSplitLines(content);
 
-        const result = parseLine(line, indentLevel, indentStrippedLine, isInCodeBlock, listCounter);
+    // 先頭のフロントマターは本文として出力しない
+    const { frontMatter, bodyLines, strippedLineCount } = extractFrontMatter(lines);
 
-        // 現在の行がリスト項目でない場合、そのレベル以下のカウンタをリセット
-        if (result.lineType !== LineType.ListItem) {
-            listCounter = {};
-        }
+    // 参照形式のリンクと脚注は定義が別の行にあるため、行ごとの解析の前に収集する
+    const references = collectReferenceDefinitions(bodyLines);
 
-        return result;
-    });
+    // 本文を解析し、定義の行には出力しない行の印を付ける
+    const structuredLines = parseBodyLines(bodyLines, config, { references, isQuoteContent: false, levelOffset: 0 })
+        .map((line, index) => references.definitionLineIndexes.has(index) && !line.codeBlock ? { ...line, isReferenceDefinition: true } : line);
 
     // ドキュメントオブジェクトを作成
     const document: Document = {
-        lines: documentLines,
+        lines: structuredLines,
         metadata: {
-            fileName: path.basename(filePath),
-            filePath: filePath,
+            fileName: options.fileName ?? '',
+            filePath: '',
+            baseDirectory: options.baseDirectory ? path.resolve(options.baseDirectory) : '',
             convertedAt: new Date().toISOString(),
-            totalLines: lines.length
-        }
+            totalLines: lines.length,
+            frontMatter,
+            frontMatterLineCount: strippedLineCount
+        },
+        footnotes: createFootnotes(references, config)
     };
 
     return document;
 };
 
+/**
+ * 本文の行をmarkedのブロック要素のトークンに分割し、トークンの種類ごとに行を解析する
+ * リストの項目と引用は、記号と内容の位置までのインデントを除去した内容を同じ手順で解析する（入れ子は再帰的に解析する）
+ * 1行目が [!NOTE] などの引用、および :::note 〜 ::: のコンテナは、アラートとして種類ごとのラベルと色で表示する
+ * @param lines 解析対象の行（リスト項目や引用の内容の場合は記号とインデントを除去した行）
+ * @param config Excel生成設定
+ * @param context 参照定義・引用の内容かどうかなどの解析中の状態
+ * @returns 行ごとの解析結果（入力の行と同じ数・順序）
+ */
+const parseBodyLines = (lines: string[], config: ExcelConfig, context: BlockContext): DocumentLine[] => {
+    // リストや引用の内容は記号を除去した行で解析するため、解析後に元の行を記録し直す
+    const documentLines = lexLineBlocks(lines).flatMap(({ token, start, end }) => {
+        return parseBlock(lines.slice(start, end), token, config, context)
+            .map((line, index) => ({ ...line, originalLine: lines[start + index] }));
+    });
+
+    // コンテナの行を、開始の行をラベルの行、内容をアラートの中の行、終了の行を出力しない行に置き換える
+    return findAlertContainers(documentLines).reduce((result, container) => {
+        const baseLevel = resolveLineIndentation(lines[container.start], config.tabWidth).level;
+        const alertType = container.marker.type;
+        const contentContext = { ...context, isQuoteContent: true, levelOffset: context.levelOffset + baseLevel };
+        const quotedLines = parseBodyLines(lines.slice(container.start + 1, container.end), config, contentContext)
+            .map(line => toQuotedLine(line, baseLevel, config, alertType));
+        const openingLine = withAlertLabel(toQuotedLine(result[container.start], baseLevel, config, alertType), container.marker, config);
+        const closingLine: DocumentLine = { ...toQuotedLine(result[container.end], baseLevel, config, alertType), isContainerFence: true };
+
+        return [...result.slice(0, container.start), openingLine, ...quotedLines, closingLine, ...result.slice(container.end + 1)];
+    }, documentLines);
+};
+
+/**
+ * 1つのブロック要素のトークンが占める行を解析する
+ * トークンの元の文字列に含まれる末尾の空行（次のブロックとの区切り）は、ブロックに含めず空行とする
+ * ただし、終了のフェンスのないコードブロックの末尾の空行はコードの行とする
+ * @param lines トークンが占める行
+ * @param token ブロック要素のトークン（どのトークンにも含まれない行の場合はnull）
+ * @param config Excel生成設定
+ * @param context 解析中の状態
+ * @returns 行ごとの解析結果
+ */
+const parseBlock = (lines: string[], token: Token | null, config: ExcelConfig, context: BlockContext): DocumentLine[] => {
+    const { references } = context;
+    const isFencedCode = token?.type === MarkedTokenType.Code && (token as Tokens.Code).codeBlockStyle !== 'indented';
+    const blockLength = isFencedCode
+        ? lines.length
+        : lines.reduce((length, line, index) => line.trim().length > 0 ? index + 1 : length, 0);
+    const blockLines = lines.slice(0, blockLength);
+    const emptyLines = lines.slice(blockLength).map(line => parseLine(line, LineType.Empty, config, references));
+
+    if (blockLines.length === 0 || !token) {
+        return [...blockLines.map(line => parseTextLine(line, config, references)), ...emptyLines];
+    }
+
+    return [...parseBlockLines(blockLines, token, config, context), ...emptyLines];
+};
+
+/**
+ * トークンの種類に応じて、ブロック要素の行を解析する
+ * 段落・空行など、構造を持たないブロック要素の行は段落の行とする
+ * @param lines ブロック要素の行（末尾の区切りの空行を除く）
+ * @param token ブロック要素のトークン
+ * @param config Excel生成設定
+ * @param context 解析中の状態
+ * @returns 行ごとの解析結果
+ */
+const parseBlockLines = (lines: string[], token: Token, config: ExcelConfig, context: BlockContext): DocumentLine[] => {
+    const { references } = context;
+
+    switch (token.type) {
+        case MarkedTokenType.Heading:
+            return parseHeadingLines(lines, token as Tokens.Heading, config, references);
+
+        case MarkedTokenType.Hr:
+            return lines.map(line => parseLine(line, LineType.HorizontalRule, config, references));
+
+        case MarkedTokenType.Code:
+            return parseCodeLines(lines, token as Tokens.Code, config);
+
+        case MarkedTokenType.Table:
+            return structureTableBlock(
+                lines.map(line => parseLine(line, LineType.Table, config, references)),
+                (text) => parseInlineFormatting(text, config, references)
+            );
+
+        case MarkedTokenType.Html:
+            return lines.map(line => parseLine(line, LineType.Paragraph, config, references, { isRawText: true }));
+
+        case MarkedTokenType.Blockquote:
+            return parseQuoteLines(lines, config, context);
+
+        case MarkedTokenType.List:
+            return parseListLines(lines, token as Tokens.List, config, context);
+
+        default:
+            return lines.map(line => parseTextLine(line, config, references));
+    }
+};
+
+/**
+ * 段落の行を解析する
+ * 表として成立しない | で始まり | で終わる行は、表の行として表示する
+ * @param line 対象行
+ * @param config Excel生成設定
+ * @param references 文書全体の参照定義
+ * @returns 解析結果
+ */
+const parseTextLine = (line: string, config: ExcelConfig, references: ReferenceDefinitions): DocumentLine => {
+    const lineType = TABLE_ROW_PATTERN.test(line.trim()) ? LineType.Table : LineType.Paragraph;
+    return parseLine(line, lineType, config, references);
+};
+
+/**
+ * 見出しの行を解析する
+ * ATX形式の見出しは1行、Setext形式の見出しは下線の前の行を見出しとし、下線の行は出力しない行として印を付ける
+ * @param lines 見出しの行
+ * @param token 見出しのトークン
+ * @param config Excel生成設定
+ * @param references 文書全体の参照定義
+ * @returns 行ごとの解析結果
+ */
+const parseHeadingLines = (lines: string[], token: Tokens.Heading, config: ExcelConfig, references: ReferenceDefinitions): DocumentLine[] => {
+    const options: LineOptions = { headerLevel: token.depth };
+    if (ATX_HEADING_PATTERN.test(lines[0].trim())) {
+        return lines.map(line => parseLine(line, LineType.Header, config, references, options));
+    }
+
+    const underline: DocumentLine = { ...parseLine(lines[lines.length - 1], LineType.Paragraph, config, references), isSetextUnderline: true };
+    return [...lines.slice(0, -1).map(line => parseLine(line, LineType.Header, config, references, options)), underline];
+};
+
+/**
+ * コードブロックの行を解析し、フェンス行とコードの行に構造情報を付与して言語に応じて色分けする
+ * コードの行は書式を解釈せず、インデントレベルを超える先行スペースを保持する
+ * @param lines コードブロックの行
+ * @param token コードブロックのトークン
+ * @param config Excel生成設定
+ * @returns 行ごとの解析結果
+ */
+const parseCodeLines = (lines: string[], token: Tokens.Code, config: ExcelConfig): DocumentLine[] => {
+    const codeBlocks = resolveCodeBlockLines(lines, token);
+    const codeLines = lines.map((line, index) => {
+        const codeBlock = codeBlocks[index];
+        const isFence = codeBlock.role !== CodeBlockRole.Content;
+        const lineType = isFence ? LineType.CodeBlock : LineType.Paragraph;
+
+        return { ...parseLine(line, lineType, config, EMPTY_REFERENCE_DEFINITIONS, { isCode: !isFence }), codeBlock };
+    });
+
+    return applySyntaxHighlighting(codeLines, config);
+};
+
+/**
+ * 引用ブロックの行を解析する
+ * 引用の記号を1つ除去した内容を解析し、引用の中の行にする
+ * @param lines 引用ブロックの行（前の行の段落の続きとして含まれる、引用の記号のない行を含む）
+ * @param config Excel生成設定
+ * @param context 解析中の状態（入れ子の引用の場合は引用の内容を解析している状態）
+ * @returns 行ごとの解析結果
+ */
+const parseQuoteLines = (lines: string[], config: ExcelConfig, context: BlockContext): DocumentLine[] => {
+    const baseLevel = resolveLineIndentation(lines[0], config.tabWidth).level;
+    const contentLines = lines.map(stripQuoteMarker);
+
+    // アラートは最も外側の引用ブロックのみ判定する（GitHubと同じ）
+    const alert = context.isQuoteContent ? null : detectAlertMarker(contentLines[0]);
+    const contentContext = { ...context, isQuoteContent: true, levelOffset: context.levelOffset + baseLevel };
+    const quotedLines = parseBodyLines(contentLines, config, contentContext)
+        .map(line => toQuotedLine(line, baseLevel, config, alert?.type));
+
+    // アラートは記号の行をラベルの行にし、それ以外は「引用：」を最も外側の引用ブロックの最初の行にのみ付与する
+    const firstLine = alert
+        ? withAlertLabel(quotedLines[0], alert, config)
+        : context.isQuoteContent ? quotedLines[0] : withQuoteLabel(quotedLines[0]);
+
+    return [firstLine, ...quotedLines.slice(1)];
+};
+
+/**
+ * リストの行を解析する
+ * リストの項目は、リストの1行目のインデントレベルに配置する
+ * 番号付きリストはCommonMarkと同じく、リストの開始番号から項目の順に連番とする
+ * @param lines リストの行
+ * @param token リストのトークン
+ * @param config Excel生成設定
+ * @param context 解析中の状態
+ * @returns 行ごとの解析結果
+ */
+const parseListLines = (lines: string[], token: Tokens.List, config: ExcelConfig, context: BlockContext): DocumentLine[] => {
+    const level = resolveLineIndentation(lines[0], config.tabWidth).level;
+    const startNumber = token.start === '' ? 1 : token.start;
+
+    return splitListItems(lines, token).flatMap(({ token: item, start, end }) => {
+        const itemLines = lines.slice(start, end);
+        if (!item) {
+            return itemLines.map(line => parseTextLine(line, config, context.references));
+        }
+
+        const number = token.ordered ? startNumber + token.items.indexOf(item) : null;
+        return parseListItemLines(itemLines, item, level, number, config, context);
+    });
+};
+
+/**
+ * リスト項目の行を解析する
+ * 1行目はリスト項目の行とし、2行目以降は項目の内容の位置までの空白を除去して項目の内容として解析し、項目の下（項目のレベル+1）に配置する
+ * 内容の位置に届かない続きの行（前の行の段落の続き）は、行頭の空白をすべて除去する
+ * markedと同じく、1行目の段落の続きの行は段落の行とし、それ以降の行は新しいブロックとして解析する（番号が1以外の番号付きリストも入れ子のリストとする）
+ * @param lines リスト項目の行
+ * @param item リスト項目のトークン
+ * @param level リスト項目のインデントレベル
+ * @param number 番号付きリスト項目の番号（箇条書きの項目はnull）
+ * @param config Excel生成設定
+ * @param context 解析中の状態
+ * @returns 行ごとの解析結果
+ */
+const parseListItemLines = (
+    lines: string[],
+    item: Tokens.ListItem,
+    level: number,
+    number: number | null,
+    config: ExcelConfig,
+    context: BlockContext
+): DocumentLine[] => {
+    const [firstLine, ...restLines] = lines;
+    const delimiter = firstLine.trimStart().match(ORDERED_LIST_MARKER_PATTERN)?.[2] ?? '.';
+    const listMarker = number === null ? null : formatOrderedListMarker(number, delimiter, context.levelOffset + level, config);
+    const itemLine: DocumentLine = { ...parseLine(firstLine, LineType.ListItem, config, context.references, { listMarker }), indentLevel: level };
+
+    const contentOffset = measureListContentOffset(firstLine, config.tabWidth);
+    const contentLines = restLines.map(line => measureIndentWidth(line, config.tabWidth) >= contentOffset
+        ? stripIndent(line, contentOffset, config.tabWidth)
+        : line.trimStart());
+    const continuationCount = countContinuationLines(item, firstLine.trim().replace(LIST_MARKER_PATTERN, '').trim().length > 0);
+    const continuationLines = contentLines.slice(0, continuationCount).map(line => parseTextLine(line, config, context.references));
+    const contentContext = { ...context, levelOffset: context.levelOffset + level + 1 };
+    const nestedLines = contentLines.length > continuationCount
+        ? parseBodyLines(contentLines.slice(continuationCount), config, contentContext)
+        : [];
+
+    return [itemLine, ...[...continuationLines, ...nestedLines].map(line => shiftIndentLevel(line, level + 1))];
+};
+
+/**
+ * リスト項目の1行目の段落に続く行（段落の続きの行）の数を取得する
+ * 1行目に記号以外の内容がない場合は、2行目から始まる段落の行の数とする
+ * @param item リスト項目のトークン
+ * @param hasFirstLineContent 1行目に記号以外の内容があるかどうか
+ * @returns 段落の続きの行の数
+ */
+const countContinuationLines = (item: Tokens.ListItem, hasFirstLineContent: boolean): number => {
+    const [firstToken] = item.tokens;
+    const isParagraph = firstToken?.type === MarkedTokenType.Text || firstToken?.type === MarkedTokenType.Paragraph;
+    if (!isParagraph) {
+        return 0;
+    }
+
+    const lineCount = (firstToken as Tokens.Text | Tokens.Paragraph).text.split('\n').length;
+    return hasFirstLineContent ? lineCount - 1 : lineCount;
+};
+
+/**
+ * リスト項目の内容を解析した行を、項目の下のレベルに移動する
+ * 引用の中の行は、引用の罫線の位置も同じだけ移動する
+ * @param line リスト項目の内容を解析した行
+ * @param offset 移動するレベル数
+ * @returns 移動した行
+ */
+const shiftIndentLevel = (line: DocumentLine, offset: number): DocumentLine => {
+    return {
+        ...line,
+        indentLevel: line.indentLevel + offset,
+        ...(line.quote ? { quote: { ...line.quote, borderLevels: line.quote.borderLevels.map(level => level + offset) } } : {})
+    };
+};
+
+/**
+ * 引用の内容を解析した行を、引用の中の行にする
+ * 段落の行は引用の行とし、入れ子の引用の行は外側の引用より1レベル深く配置する
+ * 引用の背景色を設定し、左罫線は内容が引用の罫線の位置から始まる行にのみ設定する（引用の中のリストなどは writer が罫線を補う）
+ * アラートの中の行（内側の引用がアラートの場合を含む）は、アラートの種類ごとの背景色と罫線の色にする
+ * @param line 引用の内容を解析した行
+ * @param baseLevel 引用の記号の行のインデントレベル
+ * @param config Excel生成設定
+ * @param alert 引用がアラートの場合のアラートの種類
+ * @returns 引用の構造情報を付与した行
+ */
+const toQuotedLine = (line: DocumentLine, baseLevel: number, config: ExcelConfig, alert?: AlertType): DocumentLine => {
+    const innerBorderLevels = line.quote?.borderLevels.map(level => baseLevel + 1 + level) ?? [];
+    const borderLevels = [baseLevel, ...innerBorderLevels];
+    const indentLevel = baseLevel + line.indentLevel + (line.quote ? 1 : 0);
+    const isParagraph = line.lineType === LineType.Paragraph && !line.codeBlock;
+    const alertType = alert ?? line.quote?.alert;
+    const colors = alertType
+        ? config.alertStyles[alertType]
+        : { backgroundColor: config.quoteBackgroundColor, borderColor: config.quoteBorderColor };
+
+    return {
+        ...line,
+        lineType: isParagraph ? LineType.Quote : line.lineType,
+        indentLevel,
+        formatting: {
+            ...line.formatting,
+            isQuote: true,
+            backgroundColor: colors.backgroundColor,
+            leftBorderColor: indentLevel === borderLevels[borderLevels.length - 1] ? colors.borderColor : ''
+        },
+        quote: alertType ? { borderLevels, alert: alertType } : { borderLevels }
+    };
+};
+
+/**
+ * アラートの記号の行を、アラートの種類のラベル（タイトルがあればタイトルを続ける）を表示する行にする
+ * @param line アラートの記号の行（引用の中の行にしたもの）
+ * @param marker アラートの種類とタイトル
+ * @param config Excel生成設定
+ * @returns ラベルを表示する行
+ */
+const withAlertLabel = (line: DocumentLine, marker: AlertMarker, config: ExcelConfig): DocumentLine => {
+    const style = config.alertStyles[marker.type];
+    const text = marker.title ? `${style.label}：${marker.title}` : style.label;
+
+    return {
+        ...line,
+        lineType: LineType.Quote,
+        richText: [{ text, font: { bold: true, color: { argb: style.borderColor } } }],
+        plainText: text
+    };
+};
+
+/**
+ * 引用ブロックの最初の行の先頭に「引用：」を付与する
+ * 「引用：」は行全体の書式のみの独立したセグメントとし、最初のセグメントのリンク・画像・インライン書式を引き継がない
+ * コードブロック・表の行はテキストを表示しないため、ブロックの前の独立した行に表示するラベルとする
+ * @param line 引用ブロックの最初の行
+ * @returns 「引用：」を付与した行
+ */
+const withQuoteLabel = (line: DocumentLine): DocumentLine => {
+    if (line.quote && (line.codeBlock || line.table)) {
+        return { ...line, quote: { ...line.quote, label: QUOTE_LABEL } };
+    }
+
+    const label: RichTextSegment = { text: QUOTE_LABEL, font: createLineFont(line.formatting) };
+
+    return {
+        ...line,
+        richText: [label, ...line.richText],
+        plainText: `${QUOTE_LABEL}${line.plainText}`
+    };
+};
+
+/**
+ * 収集した脚注定義の本文を解析して脚注の一覧を作成する
+ * 脚注の本文中の脚注の参照は解決せず、そのままテキストとして扱う
+ * @param references 文書全体の参照定義
+ * @param config Excel生成設定
+ * @returns 脚注の一覧（番号順）
+ */
+const createFootnotes = (references: ReferenceDefinitions, config: ExcelConfig): Footnote[] => {
+    const linksOnly: ReferenceDefinitions = { ...references, footnotes: new Map() };
+
+    return Array.from(references.footnotes.values()).map(definition => {
+        const richText = parseInlineFormatting(definition.text, config, linksOnly);
+        return {
+            number: definition.number,
+            label: definition.label,
+            richText,
+            plainText: richText.map(segment => segment.text).join('')
+        };
+    });
+};
+
 /**
  * 改行コードを正規化して行に分割する
  * Windows（CRLF）、Unix（LF）、macOS（CR）の改行コードに対応
  * @param content ファイル内容
  * @returns 行の配列
  */
-const normalizeAndSplitLines = (content: string): string[] => {
+export const normalizeAndSplitLines = (content: string): string[] => {
     // CRLF（\r\n）を LF（\n）に正規化
     const normalizedContent = content.replace(/\r\n/g, '\n');
 
@@ -95,41 +564,29 @@ const readFileAsync = async (filePath: string): Promise<string> => {
 
 /**
  * 単一行を解析してDocumentLineオブジェクトに変換する
+ * 行の種類はブロック要素のトークンから決定し、空白のみの行はブロック要素にかかわらず空行とする
  * @param line 解析対象の行
- * @param isInCodeBlock コードブロック内かどうか
- * @param listCounter リスト連番管理オブジェクト
+ * @param blockLineType ブロック要素から決まる行の種類
+ * @param config Excel生成設定
+ * @param references 文書全体の参照定義
+ * @param options 見出しレベル・リスト項目の番号などの行の情報
  * @returns DocumentLineオブジェクト
  */
-const parseLine = (line: string, indentLevel: number, indentStrippedLine: string, isInCodeBlock: boolean = false, listCounter: Record<number, number> = {}): DocumentLine => {
-    const originalLine = line;
-
-    // 行タイプ判定用に完全にトリムした行を取得
+const parseLine = (line: string, blockLineType: LineType, config: ExcelConfig, references: ReferenceDefinitions, options: LineOptions = {}): DocumentLine => {
+    const { level: indentLevel, content } = resolveLineIndentation(line, config.tabWidth);
     const trimmedLine = line.trimStart();
+    const lineType = trimmedLine.length === 0 ? LineType.Empty : blockLineType;
 
-    // 行タイプを判定（コードブロック状態を考慮）
-    const lineType = determineLineType(trimmedLine, isInCodeBlock);
-
-    // 書式情報を生成（見出し記法の解析を含む）
-    const formatting: FormatInfo = analyzeFormatting(trimmedLine, lineType);
-
-    // リストの連番処理
-    let listNumber = 0;
-    if (lineType === LineType.ListItem) {
-        const isOrdered = trimmedLine.match(/^\d+\.\s/);
-        if (isOrdered) {
-            listCounter[indentLevel] = (listCounter[indentLevel] || 0) + 1;
-            listNumber = listCounter[indentLevel];
-        }
-    }
+    // 書式情報を生成（見出しレベル・水平線）
+    const formatting: FormatInfo = analyzeFormatting(lineType, config, options.headerLevel);
 
-    // リッチテキストセグメントを生成
-    // 段落とコードブロックの内容（コードブロックヘッダ以外）の場合は、
-    // インデント以外の先行スペースを保持する
-    const contentForRichText = (lineType === LineType.Paragraph || (isInCodeBlock && lineType !== LineType.CodeBlock))
-        ? indentStrippedLine
-        : trimmedLine;
+    // 段落とコードの行は、インデントレベルを超える先行スペースを保持する
+    const contentForRichText = lineType === LineType.Paragraph ? content : trimmedLine;
+    const segments = determineRichTextSegments(contentForRichText, lineType, formatting, config, options, references);
 
-    const richText = determineRichTextSegments(contentForRichText, lineType, formatting, isInCodeBlock, listNumber);
+    // 完了したタスクリスト項目は設定に応じて取り消し線・灰色で表示する
+    const task = lineType === LineType.ListItem ? detectTaskListItem(trimmedLine) : null;
+    const richText = task?.checked ? applyCompletedTaskStyle(segments, config) : segments;
 
     // リッチテキストからプレーンテキストを生成（書式なし、プレフィックスなし）
     const plainText = richText.map(segment => segment.text).join('');
@@ -140,307 +597,165 @@ const parseLine = (line: string, indentLevel: number, indentStrippedLine: string
         indentLevel,
         lineType,
         formatting,
-        originalLine
+        originalLine: line,
+        ...(task ? { task } : {})
     };
 };
 
 /**
- * インデントレベルを検出し、インデント部分を除外した残りの文字列を返す
- * @param line 対象行
- * @returns レベルとコンテンツのオブジェクト
+ * リスト項目がタスクリスト項目であれば、チェックの状態を取得する
+ * @param line 対象行（インデント除去済み）
+ * @returns タスクリスト項目の情報（タスクリスト項目でない場合はnull）
  */
-const splitIndent = (line: string): { level: number, content: string } => {
-    let indentCount = 0;
-
-    // 全体のインデント量を計算（レベル決定用）
-    for (const char of line) {
-        if (char === ' ') {
-            indentCount++;
-            continue;
-        }
-        if (char === '\t') {
-            indentCount += 4;
-            continue;
-        }
-        break;
-    }
-
-    // 4スペースまたは1タブを1インデントレベルとする
-    const level = Math.floor(indentCount / 4);
-    const targetStripWidth = level * 4;
-
-    // targetStripWidthが0の場合はカットしない
-    if (targetStripWidth === 0) {
-        return {
-            level,
-            content: line
-        };
-    }
-
-    // インデントレベルに相当する幅だけプレフィックスを除去
-    let currentWidth = 0;
-    let cutIndex = 0;
-
-    for (let i = 0; i < line.length; i++) {
-        // 現在の文字幅を加算する前に、既に目標幅に達しているかチェック
-        if (currentWidth >= targetStripWidth) {
-            cutIndex = i;
-            break;
-        }
-
-        const char = line[i];
-
-        if (char === ' ') {
-            currentWidth++;
-            continue;
-        }
-
-        if (char === '\t') {
-            currentWidth += 4;
-            continue;
-        }
-
-        // インデント以外の文字が出現した場合はそこで終了
-        cutIndex = i;
-        break;
-    }
-
-    return {
-        level,
-        content: line.substring(cutIndex)
-    };
+const detectTaskListItem = (line: string): TaskInfo | null => {
+    const match = line.match(TASK_LIST_ITEM_PATTERN);
+    return match ? { checked: match[2] !== ' ' } : null;
 };
 
-
-
-
-
 /**
- * 行タイプを判定する
- * @param trimmedLine インデントを除去した行
- * @param isInCodeBlock コードブロック内かどうか
- * @returns 行タイプ
+ * 完了したタスクリスト項目の書式を設定に応じて適用する
+ * @param segments 項目のセグメント配列
+ * @param config Excel生成設定
+ * @returns 書式を適用したセグメント配列
  */
-const determineLineType = (trimmedLine: string, isInCodeBlock: boolean = false): LineType => {
-    // 空行の早期リターン
-    if (trimmedLine.length === 0) {
-        return LineType.Empty;
-    }
-
-    // コードブロック内の場合は、```以外はすべて段落として扱う
-    if (isInCodeBlock && !trimmedLine.startsWith('```')) {
-        return LineType.Paragraph;
-    }
-
-    // 見出し（# で始まる）の早期リターン
-    if (trimmedLine.match(/^#{1,6}\s/)) {
-        return LineType.Header;
-    }
-
-    // リスト項目（-, *, +, 数字. で始まる）の早期リターン
-    if (trimmedLine.match(/^[-*+]\s/) || trimmedLine.match(/^\d+\.\s/)) {
-        return LineType.ListItem;
-    }
-
-    // コードブロック（```で始まる）の早期リターン
-    if (trimmedLine.startsWith('```')) {
-        return LineType.CodeBlock;
-    }
-
-    // 引用（> で始まる）の早期リターン
-    if (trimmedLine.startsWith('> ')) {
-        return LineType.Quote;
-    }
-
-    // 水平線（---, ***, ___）の早期リターン
-    if (trimmedLine.match(/^(-{3,}|\*{3,}|_{3,})$/)) {
-        return LineType.HorizontalRule;
+const applyCompletedTaskStyle = (segments: RichTextSegment[], config: ExcelConfig): RichTextSegment[] => {
+    if (config.completedTaskStyle === CompletedTaskStyle.None) {
+        return segments;
     }
 
-    // 表（複数の | を含み、| で始まり | で終わる）の早期リターン
-    if (trimmedLine.startsWith('|') && trimmedLine.endsWith('|') && (trimmedLine.match(/\|/g) || []).length >= 2) {
-        return LineType.Table;
-    }
+    const style: FontStyle = config.completedTaskStyle === CompletedTaskStyle.Strike
+        ? { strike: true }
+        : { color: { argb: config.completedTaskColor } };
 
-    // デフォルトは段落
-    return LineType.Paragraph;
+    return segments.map(segment => ({ ...segment, font: { ...segment.font, ...style } }));
 };
 
 /**
  * 書式情報を解析する
- * @param line 対象行（インデント除去済み）
  * @param lineType 行タイプ
+ * @param config Excel生成設定
+ * @param headerLevel 見出しの場合の見出しレベル
  * @returns FormatInfo
  */
-const analyzeFormatting = (line: string, lineType: LineType): FormatInfo => {
-    const formatting = createDefaultFormatInfo();
+const analyzeFormatting = (lineType: LineType, config: ExcelConfig, headerLevel?: number): FormatInfo => {
+    const formatting = createDefaultFormatInfo(config);
 
-    // 見出し記法の解析
-    if (lineType === LineType.Header) {
-        const headerLevel = detectHeaderLevel(line);
+    // 見出しレベルに応じたフォントサイズ
+    if (lineType === LineType.Header && headerLevel) {
         formatting.headerLevel = headerLevel;
-        formatting.fontSize = getHeaderFontSize(headerLevel);
-    }
-
-    // コードブロックの背景色
-    if (lineType === LineType.CodeBlock || (lineType === LineType.Paragraph && formatting.isQuote === false && line.startsWith(' '))) {
-        // 注: isInCodeBlockでの判定はdetermineLineTypeで行われるため
-        // ここでは明示的なcode_blockタイプに対して色を設定
-    }
-
-    // 引用の解析
-    if (lineType === LineType.Quote) {
-        formatting.isQuote = true;
-        formatting.backgroundColor = defaultExcelConfig.quoteBackgroundColor;
-        formatting.leftBorderColor = defaultExcelConfig.quoteBorderColor;
+        formatting.fontSize = getHeaderFontSize(headerLevel, config);
     }
 
     // 水平線の解析
     if (lineType === LineType.HorizontalRule) {
         formatting.isHorizontalRule = true;
-        formatting.bottomBorderColor = defaultExcelConfig.horizontalRuleColor;
+        formatting.bottomBorderColor = config.horizontalRuleColor;
     }
 
     return formatting;
 };
 
 /**
- * リッチテキストセグメントを生成する
+ * 行の種類に基づいてリッチテキストセグメントを決定する
+ * コードの行とHTMLブロックの行は書式を解釈せず、それ以外の行はインライン書式を解析して行全体の書式を適用する
  * @param line 対象行（インデント除去済み）
  * @param lineType 行タイプ
  * @param formatting 行全体の書式情報
- * @param isInCodeBlock コードブロック内かどうか
+ * @param config Excel生成設定
+ * @param options 見出しレベル・リスト項目の番号などの行の情報
+ * @param references 文書全体の参照定義
  * @returns RichTextSegment配列
  */
-const generateRichTextSegments = (line: string, lineType: LineType, formatting: FormatInfo, isInCodeBlock: boolean = false): RichTextSegment[] => {
-    // 行タイプに応じたプレフィックス除去
-    // NOTE: list_item の記号(・ or 1.)は既に付与済みなので、ここでは stripLinePrefix で消さないようにする
-    const content = (lineType !== LineType.ListItem)
-        ? stripLinePrefix(line, lineType)
-        : line;
-
-    // すでに determineRichTextSegments で付加されたリスト記号を二重に処理しないよう注意
-    // (stripLinePrefix は Markdown 元来の記号を消すもの)
-
+const determineRichTextSegments = (line: string, lineType: LineType, formatting: FormatInfo, config: ExcelConfig, options: LineOptions, references: ReferenceDefinitions): RichTextSegment[] => {
     // コンテンツ全体が置き換わる特別なケース
+    if (lineType === LineType.Empty) {
+        return [{ text: '' }];
+    }
     if (lineType === LineType.HorizontalRule) {
         return [{ text: '------------------------------' }];
     }
-    if (lineType === LineType.Table) {
-        return [{ text: '表：' + content }];
-    }
-    if (lineType === LineType.Empty) {
-        return [{ text: '' }];
+    if (lineType === LineType.CodeBlock) {
+        return [];
     }
 
-    // 引用の場合はプレフィックス付与
-    const finalContent = (lineType === LineType.Quote)
-        ? `引用：${content}`
-        : content;
+    // コードの行は書式解析せず、そのままテキストとして扱う
+    if (options.isCode) {
+        return [{
+            text: line,
+            font: {
+                color: { argb: config.codeColor },
+                name: config.codeFontName
+            }
+        }];
+    }
 
-    // インライン書式記法を解析してリッチテキストセグメントを生成
-    const segments = parseInlineFormatting(finalContent);
+    const content = lineType === LineType.ListItem
+        ? toListItemText(line, options.listMarker ?? null)
+        : lineType === LineType.Header ? stripAtxHeadingMarkers(line) : line;
+    const segments: RichTextSegment[] = options.isRawText ? [{ text: content }] : parseInlineFormatting(content, config, references);
 
-    // 行レベルの書式（フォントサイズ、見出しの太字、コードブロックの文字色）を全セグメントに適用
-    return segments.map(segment => {
-        const font = { ...segment.font };
-        if (formatting.fontSize) {
-            font.size = formatting.fontSize;
-        }
-        if (formatting.headerLevel > 0) {
-            font.bold = true;
-        }
-        // コードブロック内の文字をダークブルーに変更
-        if (lineType === LineType.CodeBlock || (isInCodeBlock && lineType === LineType.Paragraph)) {
-            font.color = { argb: defaultExcelConfig.codeColor };
-            font.name = defaultExcelConfig.codeFontName;
-        }
-        return { ...segment, font };
-    });
+    // 行レベルの書式（フォントサイズ、見出しの太字）を全セグメントに適用
+    const lineFont = createLineFont(formatting);
+    return segments.map(segment => ({ ...segment, font: { ...segment.font, ...lineFont } }));
 };
 
 /**
- * 行の状態に基づいてリッチテキストセグメントを決定する
- * @param line 対象行
- * @param lineType 行タイプ
- * @param formatting 書式情報
- * @param isInCodeBlock コードブロック内かどうか
- * @param listNumber リスト連番
- * @returns RichTextSegment配列
+ * 行全体に適用する書式（フォントサイズ、見出しの太字）を作成する
+ * @param formatting 行全体の書式情報
+ * @returns 行全体のフォントスタイル
  */
-const determineRichTextSegments = (line: string, lineType: LineType, formatting: FormatInfo, isInCodeBlock: boolean, listNumber: number = 0): RichTextSegment[] => {
-    // 箇条書きや番号付きリストの記号を明示的に付与
-    const getProcessedLine = (): string => {
-        if (lineType === LineType.ListItem && line.match(/^[-*+]\s/)) {
-            // 元の記号を消して「・ 」を付ける
-            return '・ ' + line.replace(/^[-*+]\s/, '');
-        }
-
-        if (lineType === LineType.ListItem && listNumber > 0) {
-            // 元の数字を消して連番「n. 」を付ける
-            return `${listNumber}. ` + line.replace(/^\d+\.\s/, '');
-        }
-
-        return line;
+const createLineFont = (formatting: FormatInfo): FontStyle => {
+    return {
+        ...(formatting.fontSize ? { size: formatting.fontSize } : {}),
+        ...(formatting.headerLevel > 0 ? { bold: true } : {})
     };
-
-    const processedLine = getProcessedLine();
-
-    // コードブロック内の段落（＝コード内容）は書式解析せず、そのままテキストとして扱う
-    if (isInCodeBlock && lineType === LineType.Paragraph) {
-        const content = stripLinePrefix(processedLine, lineType);
-        return [{
-            text: content,
-            font: {
-                color: { argb: defaultExcelConfig.codeColor },
-                name: defaultExcelConfig.codeFontName
-            }
-        }];
-    }
-
-    return generateRichTextSegments(processedLine, lineType, formatting, isInCodeBlock);
 };
 
 /**
- * 行タイプに応じてMarkdownのプレフィックスを除去する
- * @param line 対象行
- * @param lineType 行タイプ
- * @returns プレフィックス除去後のテキスト
- */
-const stripLinePrefix = (line: string, lineType: LineType): string => {
-    switch (lineType) {
-        case LineType.Header:
-            // 見出し記号（#）と直後の1つのスペースのみを除去
-            return line.replace(/^#{1,6}\s/, '');
-        case LineType.ListItem:
-            // リスト記号と直後の1つのスペースのみを除去
-            return line.replace(/^[-*+]\s/, '').replace(/^\d+\.\s/, '');
-        case LineType.CodeBlock:
-            // コードブロック記号を除去
-            return line.replace(/^```.*$/, '');
-        case LineType.Quote:
-            // 引用記号を除去
-            return line.replace(/^> ?/, '');
-        default:
-            return line;
+ * リスト項目の記号を表示用の記号に置き換える
+ * 箇条書きは「・」、番号付きリストはリスト全体で決定した番号、タスクリスト項目はチェックボックスの記号にする
+ * @param line リスト項目の行（インデント除去済み）
+ * @param listMarker 番号付きリスト項目に表示する番号（箇条書きの項目はnull）
+ * @returns 記号を置き換えた行
+ */
+const toListItemText = (line: string, listMarker: string | null): string => {
+    const taskMatch = line.match(TASK_LIST_ITEM_PATTERN);
+    if (taskMatch) {
+        const glyph = taskMatch[2] === ' ' ? TASK_GLYPHS.unchecked : TASK_GLYPHS.checked;
+        const marker = listMarker ? `${listMarker} ${glyph}` : glyph;
+        return `${marker} ${line.slice(taskMatch[0].length)}`;
+    }
+
+    if (listMarker) {
+        // 元の番号を消して、リスト全体で決定した番号「n. 」を付ける
+        return `${listMarker} ${line.replace(ORDERED_LIST_MARKER_PATTERN, '')}`;
     }
+
+    // 元の記号を消して「・ 」を付ける
+    return `${BULLET_LIST_GLYPH} ${line.replace(BULLET_LIST_MARKER_PATTERN, '')}`;
 };
 
 /**
  * インライン書式記法を解析してRichTextSegment配列を生成する
  * markedライブラリを使用して解析を行う
+ * 参照形式のリンク（[text][label]・[label]）は文書全体のリンク参照定義から、脚注の参照（[^label]）は脚注定義から解決する
  * @param text 対象テキスト
+ * @param config Excel生成設定
+ * @param references 文書全体の参照定義
  * @returns RichTextSegment配列
  */
-const parseInlineFormatting = (text: string): RichTextSegment[] => {
+const parseInlineFormatting = (text: string, config: ExcelConfig, references: ReferenceDefinitions = EMPTY_REFERENCE_DEFINITIONS): RichTextSegment[] => {
     // markedのLexerを使用してインライン解析を実行
     const lexer = new Lexer();
 
+    // 参照形式のリンクは、Lexerが保持するリンク定義から解決される
+    lexer.tokens.links = references.links;
+
     // LexerのinlineTokensメソッドを使用してインライン要素のみを解析する
     // markedの型定義が不完全な場合があるため、Token[]としてキャスト
     const tokens = (lexer as Lexer & { inlineTokens: (text: string) => Token[] }).inlineTokens(text);
 
-    return convertTokensToSegments(tokens);
+    return convertTokensToSegments(tokens, config, references);
 }
 
 /**
@@ -454,10 +769,12 @@ const hasText = (token: Token): token is Token & { text: string } => {
 /**
  * markedのトークンをRichTextSegmentに変換する
  * @param tokens markedトークン配列
+ * @param config Excel生成設定
+ * @param references 文書全体の参照定義
  * @param currentFont 現在のフォントスタイル（再帰処理用）
  * @returns RichTextSegment配列
  */
-const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}): RichTextSegment[] => {
+const convertTokensToSegments = (tokens: Token[], config: ExcelConfig, references: ReferenceDefinitions, currentFont: FontStyle = {}): RichTextSegment[] => {
     const segments: RichTextSegment[] = [];
 
     for (const token of tokens) {
@@ -465,22 +782,19 @@ const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}):
             case MarkedTokenType.Text:
             case MarkedTokenType.Escape:
             case MarkedTokenType.Html: // 安全性のためHTMLもテキストとして扱う
-                segments.push({
-                    text: decodeHtmlEntities(token.text),
-                    font: { ...currentFont }
-                });
+                segments.push(...createTextSegments(decodeHtmlEntities(token.text), currentFont, references));
                 break;
 
             case MarkedTokenType.Strong: // 太字
-                segments.push(...convertTokensToSegments(token.tokens || [], { ...currentFont, bold: true }));
+                segments.push(...convertTokensToSegments(token.tokens || [], config, references, { ...currentFont, bold: true }));
                 break;
 
             case MarkedTokenType.Em: // 斜体
-                segments.push(...convertTokensToSegments(token.tokens || [], { ...currentFont, italic: true }));
+                segments.push(...convertTokensToSegments(token.tokens || [], config, references, { ...currentFont, italic: true }));
                 break;
 
             case MarkedTokenType.Del: // 取り消し線
-                segments.push(...convertTokensToSegments(token.tokens || [], { ...currentFont, strike: true }));
+                segments.push(...convertTokensToSegments(token.tokens || [], config, references, { ...currentFont, strike: true }));
                 break;
 
             case MarkedTokenType.CodeSpan: // インラインコード
@@ -490,8 +804,8 @@ const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}):
                     font: {
                         ...currentFont,
                         code: true,
-                        color: { argb: defaultExcelConfig.inlineCodeColor },
-                        name: defaultExcelConfig.codeFontName
+                        color: { argb: config.inlineCodeColor },
+                        name: config.codeFontName
                     }
                 });
                 break;
@@ -499,9 +813,9 @@ const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}):
             case MarkedTokenType.Link: // リンク
                 // リンクテキストを再帰的に解析（リンク内の太字などをサポート）
                 // リンク情報は別途管理が必要だが、RichTextSegmentには文字色等を設定
-                const linkSegments = convertTokensToSegments(token.tokens || [], {
+                const linkSegments = convertTokensToSegments(token.tokens || [], config, references, {
                     ...currentFont,
-                    color: { argb: defaultExcelConfig.linkColor },
+                    color: { argb: config.linkColor },
                     underline: true
                 });
 
@@ -519,7 +833,7 @@ const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}):
                     text: token.text || '画像',
                     font: {
                         ...currentFont,
-                        color: { argb: defaultExcelConfig.imageAltColor }
+                        color: { argb: config.imageAltColor }
                     },
                     image: {
                         src: token.href,
@@ -543,6 +857,28 @@ const convertTokensToSegments = (tokens: Token[], currentFont: FontStyle = {}):
     return mergeAdjacentSegments(segments);
 };
 
+/**
+ * テキストからRichTextSegmentを作成する
+ * 定義のある脚注の参照（[^label]）は、上付きの「※番号」のセグメントに置き換える
+ * @param text 対象テキスト
+ * @param currentFont 現在のフォントスタイル
+ * @param references 文書全体の参照定義
+ * @returns RichTextSegment配列
+ */
+const createTextSegments = (text: string, currentFont: FontStyle, references: ReferenceDefinitions): RichTextSegment[] => {
+    return splitFootnoteReferences(text, references.footnotes).map(part => {
+        if (!part.footnote) {
+            return { text: part.text, font: { ...currentFont } };
+        }
+
+        return {
+            text: `${FOOTNOTE_MARKER}${part.footnote.number}`,
+            font: { ...currentFont, vertAlign: 'superscript' },
+            footnote: { number: part.footnote.number }
+        };
+    });
+};
+
 /**
  * HTMLエンティティをデコードする
  * markedはデフォルトで特殊文字をエスケープするため、元のテキストに戻す必要がある
@@ -572,7 +908,8 @@ const mergeAdjacentSegments = (segments: RichTextSegment[]): RichTextSegment[] =
         const prev = merged[merged.length - 1];
         const curr = segments[i];
 
-        if (!isSameFont(prev.font, curr.font)) {
+        // 脚注の参照は番号ごとに1つのセグメントとして保持する
+        if (!isSameFont(prev.font, curr.font) || prev.footnote || curr.footnote) {
             merged.push(curr);
             continue;
         }
@@ -611,37 +948,29 @@ const isSameFont = (previousFont: FontStyle | undefined, currentFont: FontStyle
     return true;
 };
 
-/**
- * 見出しレベルを検出する
- * @param line 対象行
- * @returns 見出しレベル（1-6、見出しでない場合は0）
- */
-const detectHeaderLevel = (line: string): number => {
-    const match = line.match(/^(#{1,6})\s/);
-    return match ? match[1].length : 0;
-};
-
 /**
  * 見出しレベルに対応するフォントサイズを取得する
  * @param headerLevel 見出しレベル（1-6）
+ * @param config Excel生成設定
  * @returns フォントサイズ
  */
-const getHeaderFontSize = (headerLevel: number): number => {
-    // デフォルト設定から見出しレベル別フォントサイズを取得
-    return defaultExcelConfig.headerFontSizes[headerLevel] || defaultExcelConfig.baseFontSize;
+const getHeaderFontSize = (headerLevel: number, config: ExcelConfig): number => {
+    // 設定から見出しレベル別フォントサイズを取得
+    return config.headerFontSizes[headerLevel] || config.baseFontSize;
 };
 
 /**
  * デフォルトの書式情報を作成する
+ * @param config Excel生成設定
  * @returns デフォルトのFormatInfo
  */
-const createDefaultFormatInfo = (): FormatInfo => {
+const createDefaultFormatInfo = (config: ExcelConfig): FormatInfo => {
     return {
         isQuote: false,
         isHorizontalRule: false,
         headerLevel: 0,
         backgroundColor: '',
-        fontSize: defaultExcelConfig.baseFontSize,
+        fontSize: config.baseFontSize,
         leftBorderColor: '',
         bottomBorderColor: ''
     };
@@ -0,0 +1,200 @@
+/**
+ * リンク参照定義（例: [label]: https://example.com "タイトル"）
+ * ラベルが「^」で始まるものは脚注定義として扱うため除外する
+ */
+const LINK_DEFINITION_PATTERN = /^ {0,3}\[([^\]^][^\]]*)\]:\s*(?:<([^>]*)>|(\S+))(?:\s+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?\s*$/;
+
+/**
+ * 脚注定義（例: [^1]: 脚注の本文）
+ */
+const FOOTNOTE_DEFINITION_PATTERN = /^ {0,3}\[\^([^\]\s]+)\]:\s*(.*)$/;
+
+/**
+ * 脚注定義の続きの行（4スペースまたはタブでインデントした行）
+ */
+const FOOTNOTE_CONTINUATION_PATTERN = /^(?: {4}|\t)\s*\S/;
+
+/**
+ * 本文中の脚注の参照（例: [^1]）
+ */
+const FOOTNOTE_REFERENCE_PATTERN = /\[\^([^\]\s]+)\]/g;
+
+/**
+ * インラインコード（例: `[^1]`）
+ */
+const INLINE_CODE_PATTERN = /(`+)[^`]*?\1/g;
+
+/**
+ * リンク参照定義の内容を表すインターフェース（markedのリンク定義と同じ形式）
+ */
+export interface LinkDefinition {
+    /** リンク先 */
+    href: string;
+    /** タイトル（指定がない場合はnull） */
+    title: string | null;
+}
+
+/**
+ * 脚注定義の内容を表すインターフェース
+ */
+export interface FootnoteDefinition {
+    /** 脚注の番号（本文での最初の参照の出現順に1から割り当てる） */
+    number: number;
+    /** 定義に記述されたラベル */
+    label: string;
+    /** 脚注の本文（続きの行は半角スペースで連結する） */
+    text: string;
+}
+
+/**
+ * 文書全体から収集した参照定義を表すインターフェース
+ */
+export interface ReferenceDefinitions {
+    /** 正規化したラベルとリンク参照定義の対応 */
+    links: Record<string, LinkDefinition>;
+    /** 正規化したラベルと脚注定義の対応（番号順。本文から参照されていない脚注定義は含まない） */
+    footnotes: ReadonlyMap<string, FootnoteDefinition>;
+    /** 定義が記述されている行のインデックス（出力しない行） */
+    definitionLineIndexes: ReadonlySet<number>;
+}
+
+/**
+ * 本文中の脚注の参照で分割したテキストの一部分
+ */
+export interface FootnoteTextPart {
+    /** テキスト（脚注の参照の場合は元の [^label]） */
+    text: string;
+    /** 参照している脚注定義（通常のテキストの場合はundefined） */
+    footnote?: FootnoteDefinition;
+}
+
+/**
+ * 参照定義がない状態
+ */
+export const EMPTY_REFERENCE_DEFINITIONS: ReferenceDefinitions = {
+    links: {},
+    footnotes: new Map(),
+    definitionLineIndexes: new Set()
+};
+
+/**
+ * 参照のラベルを正規化する（大文字・小文字を区別せず、連続する空白は1つとみなす）
+ * @param label ラベル
+ * @returns 正規化したラベル
+ */
+export const normalizeReferenceLabel = (label: string): string => {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * 文書全体からリンク参照定義と脚注定義を収集する
+ * 行単位の解析では参照先が別の行にある参照形式のリンクや脚注を解決できないため、解析の前に収集しておく
+ * コードブロック内の行は定義として扱わず、同じラベルの定義が複数ある場合は最初の定義を使用する
+ * 脚注の番号はGitHubと同じく本文での最初の参照の出現順に割り当て、参照されていない脚注定義は除く
+ * @param lines フロントマターを除いた本文の行
+ * @returns 収集した参照定義
+ */
+export const collectReferenceDefinitions = (lines: string[]): ReferenceDefinitions => {
+    const links: Record<string, LinkDefinition> = {};
+    const footnoteDefinitions = new Map<string, Omit<FootnoteDefinition, 'number'>>();
+    const referencedLabels = new Set<string>();
+    const definitionLineIndexes = new Set<number>();
+
+    // コードブロック内かどうかと、続きの行を連結する脚注定義
+    let isInCodeBlock = false;
+    let openFootnote: Omit<FootnoteDefinition, 'number'> | null = null;
+
+    lines.forEach((line, index) => {
+        if (line.trimStart().startsWith('```')) {
+            isInCodeBlock = !isInCodeBlock;
+            openFootnote = null;
+            return;
+        }
+
+        if (isInCodeBlock) {
+            return;
+        }
+
+        if (openFootnote && FOOTNOTE_CONTINUATION_PATTERN.test(line)) {
+            openFootnote.text = `${openFootnote.text} ${line.trim()}`.trim();
+            definitionLineIndexes.add(index);
+            return;
+        }
+        openFootnote = null;
+
+        const footnoteMatch = line.match(FOOTNOTE_DEFINITION_PATTERN);
+        if (footnoteMatch) {
+            const key = normalizeReferenceLabel(footnoteMatch[1]);
+            const definition = { label: footnoteMatch[1], text: footnoteMatch[2].trim() };
+            if (!footnoteDefinitions.has(key)) {
+                footnoteDefinitions.set(key, definition);
+            }
+            openFootnote = definition;
+            definitionLineIndexes.add(index);
+            return;
+        }
+
+        const linkMatch = line.match(LINK_DEFINITION_PATTERN);
+        if (linkMatch) {
+            const key = normalizeReferenceLabel(linkMatch[1]);
+            if (!(key in links)) {
+                links[key] = {
+                    href: linkMatch[2] ?? linkMatch[3],
+                    title: linkMatch[4] ?? linkMatch[5] ?? linkMatch[6] ?? null
+                };
+            }
+            definitionLineIndexes.add(index);
+            return;
+        }
+
+        // インラインコード内の [^label] は脚注の参照として扱われないため除く
+        Array.from(line.replace(INLINE_CODE_PATTERN, '').matchAll(FOOTNOTE_REFERENCE_PATTERN))
+            .forEach(match => referencedLabels.add(normalizeReferenceLabel(match[1])));
+    });
+
+    const footnotes = Array.from(referencedLabels).reduce((result, key) => {
+        const definition = footnoteDefinitions.get(key);
+        return definition ? result.set(key, { number: result.size + 1, ...definition }) : result;
+    }, new Map<string, FootnoteDefinition>());
+
+    return { links, footnotes, definitionLineIndexes };
+};
+
+/**
+ * テキストを本文中の脚注の参照（[^label]）の位置で分割する
+ * 定義のない脚注の参照は通常のテキストとして扱う
+ * @param text 対象テキスト
+ * @param footnotes 正規化したラベルと脚注定義の対応
+ * @returns 分割したテキスト（脚注の参照がない場合は元のテキストのみ）
+ */
+export const splitFootnoteReferences = (
+    text: string,
+    footnotes: ReadonlyMap<string, FootnoteDefinition>
+): FootnoteTextPart[] => {
+    if (footnotes.size === 0) {
+        return [{ text }];
+    }
+
+    const parts: FootnoteTextPart[] = [];
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(FOOTNOTE_REFERENCE_PATTERN)) {
+        const footnote = footnotes.get(normalizeReferenceLabel(match[1]));
+        const matchIndex = match.index ?? 0;
+        if (!footnote) {
+            continue;
+        }
+
+        if (matchIndex > lastIndex) {
+            parts.push({ text: text.slice(lastIndex, matchIndex) });
+        }
+        parts.push({ text: match[0], footnote });
+        lastIndex = matchIndex + match[0].length;
+    }
+
+    if (lastIndex < text.length || parts.length === 0) {
+        parts.push({ text: text.slice(lastIndex) });
+    }
+
+    return parts;
+};
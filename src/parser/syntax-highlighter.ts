@@ -0,0 +1,329 @@
+import { CodeBlockRole, DocumentLine, ExcelConfig, RichTextSegment, SyntaxColorPalette } from '../types';
+
+/**
+ * 色分けするトークンの種類（plain は色分けしない部分）
+ */
+type TokenKind = keyof SyntaxColorPalette | 'plain';
+
+/**
+ * 言語ごとの字句規則
+ */
+interface LanguageDefinition {
+    /** キーワード */
+    keywords: string[];
+    /** 行コメントの開始記号の正規表現 */
+    lineComment?: string;
+    /** ブロックコメントの開始・終了記号 */
+    blockComment?: [string, string];
+    /** 文字列の引用符（長いものから順に指定する） */
+    quotes: string[];
+    /** 閉じられずに行が終わった場合に、次の行まで続く文字列の引用符 */
+    multilineQuotes?: string[];
+    /** キーワードの大文字・小文字を区別しないかどうか */
+    ignoreCase?: boolean;
+    /** キーワードとして色分けするその他の字句（YAMLのキーなど）の正規表現 */
+    extraKeyword?: string;
+}
+
+/**
+ * 1行分のトークン
+ */
+interface Token {
+    kind: TokenKind;
+    text: string;
+}
+
+/**
+ * 閉じられずに行が終わり、次の行まで続くブロックコメントまたは文字列
+ */
+interface OpenSpan {
+    kind: 'comment' | 'string';
+    /** 終了記号 */
+    close: string;
+}
+
+/**
+ * ブロックコメント・文字列の途中で行が終わったかどうかを含む、1行分の解析結果
+ */
+interface LineTokens {
+    tokens: Token[];
+    openSpan?: OpenSpan;
+}
+
+const C_STYLE_COMMENTS: Pick<LanguageDefinition, 'lineComment' | 'blockComment'> = {
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+};
+
+const JAVASCRIPT_KEYWORDS = [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+    'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
+    'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw',
+    'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield'
+];
+
+const TYPESCRIPT_KEYWORDS = [
+    ...JAVASCRIPT_KEYWORDS,
+    'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface', 'keyof', 'namespace',
+    'never', 'number', 'private', 'protected', 'public', 'readonly', 'string', 'type', 'unknown'
+];
+
+const JAVA_KEYWORDS = [
+    'abstract', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do',
+    'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements',
+    'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'package', 'private', 'protected',
+    'public', 'return', 'short', 'static', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws',
+    'true', 'try', 'var', 'void', 'volatile', 'while'
+];
+
+const PYTHON_KEYWORDS = [
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def',
+    'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+    'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+];
+
+const SQL_KEYWORDS = [
+    'add', 'all', 'alter', 'and', 'as', 'asc', 'between', 'by', 'case', 'create', 'delete', 'desc',
+    'distinct', 'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'inner',
+    'insert', 'into', 'is', 'join', 'key', 'left', 'like', 'limit', 'not', 'null', 'on', 'or', 'order',
+    'outer', 'primary', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'view',
+    'when', 'where', 'with'
+];
+
+const SHELL_KEYWORDS = [
+    'case', 'cd', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for', 'function',
+    'if', 'in', 'local', 'read', 'return', 'set', 'source', 'then', 'unset', 'until', 'while'
+];
+
+const JAVASCRIPT: LanguageDefinition = { keywords: JAVASCRIPT_KEYWORDS, ...C_STYLE_COMMENTS, quotes: ['"', "'", '`'], multilineQuotes: ['`'] };
+const TYPESCRIPT: LanguageDefinition = { keywords: TYPESCRIPT_KEYWORDS, ...C_STYLE_COMMENTS, quotes: ['"', "'", '`'], multilineQuotes: ['`'] };
+const JAVA: LanguageDefinition = { keywords: JAVA_KEYWORDS, ...C_STYLE_COMMENTS, quotes: ['"', "'"] };
+const PYTHON: LanguageDefinition = {
+    keywords: PYTHON_KEYWORDS,
+    lineComment: '#',
+    quotes: ['"""', "'''", '"', "'"],
+    multilineQuotes: ['"""', "'''"]
+};
+const SQL: LanguageDefinition = {
+    keywords: SQL_KEYWORDS,
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    quotes: ["'"],
+    ignoreCase: true
+};
+const JSON_LANGUAGE: LanguageDefinition = { keywords: ['true', 'false', 'null'], quotes: ['"'] };
+const YAML: LanguageDefinition = {
+    keywords: ['true', 'false', 'null', 'yes', 'no', 'on', 'off'],
+    lineComment: '(?<!\\S)#',
+    quotes: ['"', "'"],
+    extraKeyword: '[A-Za-z_][\\w.-]*(?=\\s*:(?:\\s|$))'
+};
+const SHELL: LanguageDefinition = { keywords: SHELL_KEYWORDS, lineComment: '(?<!\\S)#', quotes: ['"', "'"] };
+
+/**
+ * フェンスに指定される言語名（小文字）と字句規則の対応
+ * __proto__ などの言語名がオブジェクトのプロパティとして解決されないよう Map で保持する
+ */
+const LANGUAGES = new Map<string, LanguageDefinition>(Object.entries({
+    javascript: JAVASCRIPT, js: JAVASCRIPT, jsx: JAVASCRIPT, mjs: JAVASCRIPT, cjs: JAVASCRIPT,
+    typescript: TYPESCRIPT, ts: TYPESCRIPT, tsx: TYPESCRIPT,
+    java: JAVA,
+    python: PYTHON, py: PYTHON,
+    sql: SQL,
+    json: JSON_LANGUAGE, jsonc: { ...JSON_LANGUAGE, ...C_STYLE_COMMENTS },
+    yaml: YAML, yml: YAML,
+    shell: SHELL, sh: SHELL, bash: SHELL, zsh: SHELL
+}));
+
+/**
+ * 言語ごとに組み立てたトークン分割用の正規表現のキャッシュ
+ */
+const tokenPatternCache = new Map<LanguageDefinition, RegExp>();
+
+/**
+ * コードブロックの行を、フェンスに指定された言語の字句規則に従って色分けする
+ * キーワード・文字列・コメント・数値を設定の配色で、それ以外をコード文字色で表示する
+ * 対応していない言語や言語名の指定がないコードブロックは変更しない
+ * @param lines 解析済みの行配列（コードブロックの構造情報を付与済み）
+ * @param config Excel生成設定
+ * @returns 色分けしたリッチテキストを設定した行配列
+ */
+export const applySyntaxHighlighting = (lines: DocumentLine[], config: ExcelConfig): DocumentLine[] => {
+    if (!config.syntaxHighlighting) {
+        return lines;
+    }
+
+    // ブロックコメント・複数行の文字列（Pythonの """ やテンプレートリテラル）は複数行にまたがるため、コードブロック内で状態を引き継ぐ
+    let openSpan: OpenSpan | undefined;
+
+    return lines.map(line => {
+        if (line.codeBlock?.role === CodeBlockRole.Open) {
+            openSpan = undefined;
+        }
+
+        const language = line.codeBlock?.role === CodeBlockRole.Content
+            ? LANGUAGES.get(line.codeBlock.language.toLowerCase())
+            : undefined;
+        if (!language || line.plainText.length === 0) {
+            return line;
+        }
+
+        const result = tokenizeLine(line.plainText, language, openSpan);
+        openSpan = result.openSpan;
+
+        return { ...line, richText: toSegments(result.tokens, config) };
+    });
+};
+
+/**
+ * 1行分のコードをトークンに分割する
+ * @param text コードの行
+ * @param language 字句規則
+ * @param openSpan 前の行から続いているブロックコメントまたは文字列
+ * @returns トークンと、行末で次の行まで続くブロックコメントまたは文字列
+ */
+const tokenizeLine = (text: string, language: LanguageDefinition, openSpan?: OpenSpan): LineTokens => {
+    if (openSpan) {
+        const spanEnd = findSpanEnd(text, openSpan);
+        if (spanEnd < 0) {
+            return { tokens: [{ kind: openSpan.kind, text }], openSpan };
+        }
+
+        const rest = tokenizeLine(text.slice(spanEnd), language);
+        return { tokens: [{ kind: openSpan.kind, text: text.slice(0, spanEnd) }, ...rest.tokens], openSpan: rest.openSpan };
+    }
+
+    const matches = Array.from(text.matchAll(getTokenPattern(language)));
+    const { tokens, position } = matches.reduce<{ tokens: Token[]; position: number }>((state, match) => {
+        const index = match.index ?? 0;
+        const kind = (Object.entries(match.groups ?? {}).find(([, value]) => value !== undefined)?.[0] ?? 'plain') as TokenKind;
+        const gap: Token[] = index > state.position ? [{ kind: 'plain', text: text.slice(state.position, index) }] : [];
+
+        return { tokens: [...state.tokens, ...gap, { kind, text: match[0] }], position: index + match[0].length };
+    }, { tokens: [], position: 0 });
+
+    const trailing: Token[] = position < text.length ? [{ kind: 'plain', text: text.slice(position) }] : [];
+    const lastToken = tokens[tokens.length - 1];
+
+    return {
+        tokens: [...tokens, ...trailing],
+        openSpan: trailing.length === 0 && lastToken !== undefined ? findOpenSpan(lastToken, language) : undefined
+    };
+};
+
+/**
+ * 続いているブロックコメントまたは文字列が、行のどこで終わるかを求める
+ * 文字列の場合は、バックスラッシュでエスケープした終了記号を終わりとしない
+ * @param text 行（またはその残りの部分）
+ * @param span 続いているブロックコメントまたは文字列
+ * @returns 終了記号の直後の位置（行内で終わらない場合は -1）
+ */
+const findSpanEnd = (text: string, span: OpenSpan): number => {
+    if (span.kind === 'comment') {
+        const endIndex = text.indexOf(span.close);
+        return endIndex < 0 ? -1 : endIndex + span.close.length;
+    }
+
+    const close = escapeRegExp(span.close);
+    const match = new RegExp(`^(?:\\\\[\\s\\S]|(?!${close})[^\\\\])*${close}`).exec(text);
+    return match ? match[0].length : -1;
+};
+
+/**
+ * 行末のトークンが、閉じられずに次の行まで続くブロックコメントまたは文字列かどうかを判定する
+ * @param token 行末のトークン
+ * @param language 字句規則
+ * @returns 次の行まで続く場合はそのブロックコメントまたは文字列（続かない場合はundefined）
+ */
+const findOpenSpan = (token: Token, language: LanguageDefinition): OpenSpan | undefined => {
+    if (token.kind === 'comment' && language.blockComment) {
+        const [open, close] = language.blockComment;
+        const isOpen = token.text.startsWith(open) &&
+            (token.text.length < open.length + close.length || !token.text.endsWith(close));
+        return isOpen ? { kind: 'comment', close } : undefined;
+    }
+
+    const quote = token.kind === 'string' ? language.multilineQuotes?.find(candidate => token.text.startsWith(candidate)) : undefined;
+    if (!quote) {
+        return undefined;
+    }
+
+    const span: OpenSpan = { kind: 'string', close: quote };
+    return findSpanEnd(token.text.slice(quote.length), span) < 0 ? span : undefined;
+};
+
+/**
+ * 字句規則からトークン分割用の正規表現を組み立てる
+ * 名前付きグループ（comment / string / number / keyword / plain）のいずれかに一致する
+ * @param language 字句規則
+ * @returns トークン分割用の正規表現
+ */
+const getTokenPattern = (language: LanguageDefinition): RegExp => {
+    const cached = tokenPatternCache.get(language);
+    if (cached) {
+        return cached;
+    }
+
+    const comments = [
+        ...(language.lineComment ? [`${language.lineComment}.*`] : []),
+        ...(language.blockComment
+            ? [`${escapeRegExp(language.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(language.blockComment[1])}|$)`]
+            : [])
+    ];
+    const strings = language.quotes.map(quote => {
+        const q = escapeRegExp(quote);
+        return `${q}(?:\\\\.|(?!${q})[^\\\\])*(?:${q}|$)`;
+    });
+    const keywords = [
+        ...(language.extraKeyword ? [language.extraKeyword] : []),
+        `\\b(?:${language.keywords.join('|')})\\b`
+    ];
+
+    const pattern = new RegExp([
+        ...(comments.length > 0 ? [`(?<comment>${comments.join('|')})`] : []),
+        `(?<string>${strings.join('|')})`,
+        '(?<number>\\b(?:0[xX][\\da-fA-F]+|\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)',
+        `(?<keyword>${keywords.join('|')})`,
+        '(?<plain>[A-Za-z_$][\\w$]*)'
+    ].join('|'), language.ignoreCase ? 'gi' : 'g');
+
+    tokenPatternCache.set(language, pattern);
+    return pattern;
+};
+
+/**
+ * トークンをリッチテキストセグメントに変換する
+ * 同じ種類のトークンが続く場合は1つのセグメントにまとめる
+ * @param tokens トークンの配列
+ * @param config Excel生成設定
+ * @returns RichTextSegment配列
+ */
+const toSegments = (tokens: Token[], config: ExcelConfig): RichTextSegment[] => {
+    const merged = tokens.reduce<Token[]>((result, token) => {
+        const last = result[result.length - 1];
+        if (last?.kind === token.kind) {
+            last.text += token.text;
+            return result;
+        }
+
+        result.push({ ...token });
+        return result;
+    }, []);
+
+    return merged.map(token => ({
+        text: token.text,
+        font: {
+            color: { argb: token.kind === 'plain' ? config.codeColor : config.syntaxColors[token.kind] },
+            name: config.codeFontName
+        }
+    }));
+};
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ * @param text 対象の文字列
+ * @returns エスケープした文字列
+ */
+const escapeRegExp = (text: string): string => {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+};
@@ -0,0 +1,123 @@
+import { DocumentLine, RichTextSegment, TableAlignment, TableRowInfo, TableRowRole } from '../types';
+
+/**
+ * 表の区切り行（| :--- | :---: | ---: |）を判定する正規表現
+ */
+const DELIMITER_ROW_PATTERN = /^\|?(\s*:?-+:?\s*\|)*\s*:?-+:?\s*\|?$/;
+
+/**
+ * 表のトークンが占める行を表ブロックとして構造化する
+ * 見出し行の直後に区切り行を持つブロックのみを表として扱い、それ以外の場合は元の行配列を返す
+ * @param block 表の行（解析済み）
+ * @param formatCell セル内容をリッチテキストに変換する関数（インライン書式の解析用）
+ * @returns 構造情報を付与した行配列（表として成立しない場合は元の行配列）
+ */
+export const structureTableBlock = (
+    block: DocumentLine[],
+    formatCell: (text: string) => RichTextSegment[]
+): DocumentLine[] => {
+    // 見出し行と区切り行がそろっていない場合は表として扱わない
+    if (block.length < 2 || !isDelimiterRow(block[1].originalLine.trim())) {
+        return block;
+    }
+
+    const headerCells = splitTableCells(block[0].originalLine.trim());
+    const alignments = parseAlignments(block[1].originalLine.trim());
+
+    // GFMの仕様に従い、見出し行と区切り行の列数が一致しない場合は表として扱わない
+    if (headerCells.length !== alignments.length) {
+        return block;
+    }
+
+    return block.map((line, rowIndex) => {
+        if (rowIndex === 1) {
+            return withTableRow(line, { role: TableRowRole.Delimiter, cells: [], alignments });
+        }
+
+        const role = rowIndex === 0 ? TableRowRole.Header : TableRowRole.Body;
+        const cellTexts = normalizeCellCount(splitTableCells(line.originalLine.trim()), alignments.length);
+        const cells = cellTexts.map(cellText => cellText.length > 0 ? formatCell(cellText) : []);
+
+        return withTableRow(line, { role, cells, alignments });
+    });
+};
+
+/**
+ * 行に表の構造情報を付与し、リッチテキストとプレーンテキストをセル単位の内容で置き換える
+ * @param line 対象行
+ * @param table 表の構造情報
+ * @returns 構造情報付きの行
+ */
+export const withTableRow = (line: DocumentLine, table: TableRowInfo): DocumentLine => {
+    // 検索・デバッグ用にセル間を「 | 」で区切った1行分のリッチテキストを作成する
+    const richText = table.cells.flatMap((cell, cellIndex) => {
+        return cellIndex === 0 ? cell : [{ text: ' | ' }, ...cell];
+    });
+
+    return {
+        ...line,
+        richText,
+        plainText: richText.map(segment => segment.text).join(''),
+        table
+    };
+};
+
+/**
+ * 表の区切り行かどうかを判定する
+ * @param row 前後の空白を除去した行
+ * @returns 区切り行の場合はtrue
+ */
+export const isDelimiterRow = (row: string): boolean => {
+    return row.includes('-') && DELIMITER_ROW_PATTERN.test(row);
+};
+
+/**
+ * 表の行をセル単位に分割する
+ * 先頭・末尾のパイプは除去し、エスケープされたパイプ（\|）はセル内の文字として扱う
+ * @param row 前後の空白を除去した行
+ * @returns 前後の空白を除去したセル文字列の配列
+ */
+export const splitTableCells = (row: string): string[] => {
+    const withoutLeadingPipe = row.startsWith('|') ? row.slice(1) : row;
+    const inner = withoutLeadingPipe.endsWith('|') && !withoutLeadingPipe.endsWith('\\|')
+        ? withoutLeadingPipe.slice(0, -1)
+        : withoutLeadingPipe;
+
+    // エスケープされていないパイプでのみ分割する
+    return inner
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.replace(/\\\|/g, '|').trim());
+};
+
+/**
+ * 区切り行から列ごとの揃えを取得する
+ * @param row 前後の空白を除去した区切り行
+ * @returns 列ごとの揃え
+ */
+export const parseAlignments = (row: string): TableAlignment[] => {
+    return splitTableCells(row).map(marker => {
+        const alignsLeft = marker.startsWith(':');
+        const alignsRight = marker.endsWith(':');
+
+        if (alignsLeft && alignsRight) {
+            return TableAlignment.Center;
+        }
+        if (alignsRight) {
+            return TableAlignment.Right;
+        }
+        if (alignsLeft) {
+            return TableAlignment.Left;
+        }
+        return TableAlignment.None;
+    });
+};
+
+/**
+ * セル数を表の列数にそろえる（不足分は空セルで補い、超過分は切り捨てる）
+ * @param cells セル文字列の配列
+ * @param columnCount 表の列数
+ * @returns 列数にそろえたセル文字列の配列
+ */
+const normalizeCellCount = (cells: string[], columnCount: number): string[] => {
+    return Array.from({ length: columnCount }, (_, columnIndex) => cells[columnIndex] ?? '');
+};
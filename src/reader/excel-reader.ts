@@ -0,0 +1,767 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    AlertType, CodeBlockRole, Document, DocumentLine, ExcelConfig, FontStyle, Footnote, FormatInfo, LineType,
+    QuoteInfo, ReadOptions, RichTextSegment, TableAlignment, TableRowInfo, TableRowRole
+} from '../types';
+import { defaultExcelConfig } from '../config';
+import { FOOTNOTE_MARKER, QUOTE_LABEL } from '../parser/markdown-parser';
+import { withTableRow } from '../parser/table-parser';
+import { LINK_APPENDIX_TITLE } from '../writer/excel-writer';
+import { FOOTNOTE_SECTION_TITLE } from '../writer/footnote-writer';
+import { TASK_SUMMARY_PATTERN } from '../writer/task-summary-writer';
+import { parseListItemMarker } from './list-item-marker';
+
+/**
+ * 本文中のリンクのテキストの末尾に付与された、巻末のリンク一覧の番号（ [n]）
+ */
+const LINK_NUMBER_PATTERN = / \[(\d+)\]$/;
+
+/**
+ * 巻末のリンク一覧の項目の先頭の番号（[n] URL）
+ */
+const LINK_APPENDIX_ENTRY_PATTERN = /^\[(\d+)\] /;
+
+/**
+ * 本文中の脚注の参照と、脚注セクションの番号（※n）
+ */
+const FOOTNOTE_NUMBER_PATTERN = new RegExp(`^${FOOTNOTE_MARKER}(\\d+)$`);
+
+/**
+ * コメントとして付与された脚注の1行（※n 本文）
+ */
+const FOOTNOTE_NOTE_PATTERN = new RegExp(`^${FOOTNOTE_MARKER}(\\d+) (.*)$`);
+
+/**
+ * 本文として読み込むワークシートの1行を表すインターフェース
+ */
+interface SheetRow {
+    /** 行のセル（結合セルは左端のセルのみ。列の順） */
+    cells: ExcelJS.Cell[];
+    /** 内容のセル（行で最も左のテキストのセル。内容のないコードブロックの枠の行ではnull） */
+    content: ExcelJS.Cell | null;
+    /** コードブロックの枠の左端のセル（コードブロックの行のみ） */
+    codeFrame: ExcelJS.Cell | null;
+}
+
+/**
+ * 1つのワークシートから読み取った内容を表すインターフェース
+ */
+interface SheetContent {
+    /** 本文の行（出現順。内容のない行と文書情報・目次などの行は含まない） */
+    rows: SheetRow[];
+    /** 巻末のリンク一覧（番号 → リンク先） */
+    links: Map<number, string>;
+    /** 脚注セクションの本文のセル（番号 → セル） */
+    footnoteCells: Map<number, ExcelJS.Cell>;
+    /** コメントとして付与された脚注の本文（番号 → 本文） */
+    footnoteNotes: Map<number, string>;
+}
+
+/**
+ * 行の書き込み単位（通常の行は1行ずつ、表とコードブロックは連続する行をまとめる）
+ */
+type RowBlock =
+    | { type: 'line'; row: SheetRow }
+    | { type: 'table'; rows: SheetRow[] }
+    | { type: 'code'; rows: SheetRow[] };
+
+/**
+ * 変換したExcelファイルを読み込み、セルの位置と書式から文書の行を復元する
+ * @param filePath Excelファイルのパス
+ * @param options 読み込みオプション
+ * @returns 復元したドキュメント
+ */
+export const readExcelFile = async (filePath: string, options: ReadOptions = {}): Promise<Document> => {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`ファイルが見つかりません: ${filePath}`);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filePath);
+
+    const document = readWorkbook(workbook, options);
+    return {
+        ...document,
+        metadata: {
+            ...document.metadata,
+            fileName: path.basename(filePath),
+            filePath
+        }
+    };
+};
+
+/**
+ * writeExcel で作成したブックから、セルの位置と書式をもとに文書の行を復元する
+ * インデントは内容のセルの列、見出しはフォントサイズと太字、インライン書式はリッチテキストの書式、
+ * 引用・水平線・コードブロック・表は背景色と罫線から判定する
+ * Excelで入力されたセルは文字列として保存されるため、文字列のセルも本文として読み込み、
+ * 変換で出力した文字列のセル（先頭の文書情報・目次の項目と目次へ戻るリンク・タスクの集計・引用の「引用：」の行）のみ読み込まない
+ * 巻末のリンク一覧と脚注セクション（またはセルのコメント）は、本文のリンク先と脚注の本文の復元に使用する
+ * 見出しのフォントサイズが本文と同じ見出しレベルは太字の段落と区別できないため、段落として復元する
+ * @param workbook 読み込み済みのブック
+ * @param options 読み込みオプション
+ * @returns 復元したドキュメント（画像は代替テキストのみ復元する）
+ */
+export const readWorkbook = (workbook: ExcelJS.Workbook, options: ReadOptions = {}): Document => {
+    const config = options.config ?? defaultExcelConfig;
+    const worksheets = selectWorksheets(workbook, options.sheetNames);
+    const contents = worksheets.map(worksheet => readSheetContent(worksheet, config));
+
+    // 巻末のリンク一覧は最後のシートに出力されるため、すべてのシートの本文で共通に使用する
+    const links = new Map(contents.flatMap(content => Array.from(content.links)));
+    const lines = contents.flatMap(content => groupRowBlocks(content.rows, config).flatMap(block => readRowBlock(block, config, links)));
+
+    return {
+        lines,
+        metadata: {
+            fileName: '',
+            filePath: '',
+            convertedAt: new Date().toISOString(),
+            totalLines: lines.length,
+            sheetNames: worksheets.map(worksheet => worksheet.name)
+        },
+        footnotes: collectFootnotes(contents, config, links)
+    };
+};
+
+/**
+ * 読み込むワークシートを選択する
+ * @param workbook 読み込み済みのブック
+ * @param sheetNames 読み込むシート名（未指定時はすべてのシート）
+ * @returns ワークシートの配列（指定した順、未指定時はブック内の順）
+ */
+const selectWorksheets = (workbook: ExcelJS.Workbook, sheetNames?: string[]): ExcelJS.Worksheet[] => {
+    if (!sheetNames) {
+        return workbook.worksheets;
+    }
+
+    return sheetNames.map(sheetName => {
+        const worksheet = workbook.getWorksheet(sheetName);
+        if (!worksheet) {
+            throw new Error(`シートが見つかりません: ${sheetName}`);
+        }
+        return worksheet;
+    });
+};
+
+/**
+ * ワークシートの行を、本文・脚注セクション・巻末のリンク一覧に振り分けて読み取る
+ * 脚注セクションと巻末のリンク一覧は、1列目の見出し（文字列のセル）から始まる
+ * @param worksheet 対象のワークシート
+ * @param config 変換時に使用したExcel設定
+ * @returns ワークシートから読み取った内容
+ */
+const readSheetContent = (worksheet: ExcelJS.Worksheet, config: ExcelConfig): SheetContent => {
+    const content: SheetContent = { rows: [], links: new Map(), footnoteCells: new Map(), footnoteNotes: new Map() };
+    let section: 'body' | 'footnotes' | 'links' = 'body';
+
+    for (let rowNumber = countDocumentInfoRows(worksheet) + 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+        const firstValue = worksheet.getCell(rowNumber, 1).value;
+        if (firstValue === FOOTNOTE_SECTION_TITLE || firstValue === LINK_APPENDIX_TITLE) {
+            section = firstValue === FOOTNOTE_SECTION_TITLE ? 'footnotes' : 'links';
+            continue;
+        }
+
+        if (section === 'footnotes') {
+            readFootnoteEntry(worksheet.getRow(rowNumber), content.footnoteCells);
+            continue;
+        }
+
+        if (section === 'links') {
+            readLinkEntry(worksheet.getCell(rowNumber, 1), content.links);
+            continue;
+        }
+
+        const row = readSheetRow(worksheet.getRow(rowNumber), config);
+        if (!row) {
+            continue;
+        }
+
+        content.rows.push(row);
+        readFootnoteNotes(row.content, content.footnoteNotes);
+    }
+
+    return content;
+};
+
+/**
+ * ワークシートの1行から、本文の行の内容のセルとコードブロックの枠を取得する
+ * @param row 対象の行
+ * @param config 変換時に使用したExcel設定
+ * @returns 本文の行（テキストのセルもコードブロックの枠もない場合はnull）
+ */
+const readSheetRow = (row: ExcelJS.Row, config: ExcelConfig): SheetRow | null => {
+    const cells = Array.from({ length: row.cellCount }, (_, index) => row.getCell(index + 1))
+        .filter(cell => !cell.isMerged || cell.master.address === cell.address);
+    const content = cells.find(cell => readCellRichText(cell) !== null && !isGeneratedCell(cell)) ?? null;
+    const codeFrame = cells.find(cell => readFillColor(cell) !== null && isSameColor(readFillColor(cell), config.codeBackgroundColor)) ?? null;
+
+    return content || codeFrame ? { cells, content, codeFrame } : null;
+};
+
+/**
+ * 脚注セクションの1行（1列目の「※番号」と3列目以降の本文）を読み取る
+ * @param row 対象の行
+ * @param footnoteCells 読み取った脚注の本文のセルの追加先
+ */
+const readFootnoteEntry = (row: ExcelJS.Row, footnoteCells: Map<number, ExcelJS.Cell>): void => {
+    const match = row.getCell(1).text.match(FOOTNOTE_NUMBER_PATTERN);
+    // 1列目の番号のセルより右で、最も左のテキストのセルを本文とする
+    const textCell = Array.from({ length: Math.max(row.cellCount - 1, 0) }, (_, index) => row.getCell(index + 2))
+        .find(cell => readCellRichText(cell) !== null);
+
+    if (match && textCell) {
+        footnoteCells.set(Number(match[1]), textCell);
+    }
+};
+
+/**
+ * 巻末のリンク一覧の1行（[番号] URL のハイパーリンク）を読み取る
+ * @param cell 1列目のセル
+ * @param links 読み取ったリンク先の追加先
+ */
+const readLinkEntry = (cell: ExcelJS.Cell, links: Map<number, string>): void => {
+    const match = cell.text.match(LINK_APPENDIX_ENTRY_PATTERN);
+    if (match && cell.hyperlink) {
+        links.set(Number(match[1]), cell.hyperlink);
+    }
+};
+
+/**
+ * 脚注の参照があるセルのコメント（「※番号 本文」の改行区切り）から脚注の本文を読み取る
+ * @param cell 本文の内容のセル
+ * @param footnoteNotes 読み取った脚注の本文の追加先
+ */
+const readFootnoteNotes = (cell: ExcelJS.Cell | null, footnoteNotes: Map<number, string>): void => {
+    const note = cell?.note;
+    const text = typeof note === 'string' ? note : (note?.texts ?? []).map(run => run.text).join('');
+
+    text.split('\n').forEach(line => {
+        const match = line.match(FOOTNOTE_NOTE_PATTERN);
+        if (match) {
+            footnoteNotes.set(Number(match[1]), match[2]);
+        }
+    });
+};
+
+/**
+ * 本文の行を、通常の行・表・コードブロックの単位にまとめる
+ * コードブロックは枠の上辺の罫線がある行から、表は見出し行の網掛けがある行から新しいブロックとする
+ * @param rows 本文の行
+ * @param config 変換時に使用したExcel設定
+ * @returns 行のまとまりの配列
+ */
+const groupRowBlocks = (rows: SheetRow[], config: ExcelConfig): RowBlock[] => {
+    return rows.reduce<RowBlock[]>((blocks, row) => {
+        const lastBlock = blocks[blocks.length - 1];
+        const lastRow = lastBlock && lastBlock.type !== 'line' ? lastBlock.rows[lastBlock.rows.length - 1] : null;
+
+        if (row.codeFrame) {
+            const continues = lastBlock?.type === 'code' && !row.codeFrame.border?.top &&
+                lastRow?.codeFrame?.fullAddress.col === row.codeFrame.fullAddress.col;
+            if (continues) {
+                lastBlock.rows.push(row);
+                return blocks;
+            }
+
+            blocks.push({ type: 'code', rows: [row] });
+            return blocks;
+        }
+
+        if (!row.content || !isTableCell(row.content, config)) {
+            blocks.push({ type: 'line', row });
+            return blocks;
+        }
+
+        const continues = lastBlock?.type === 'table' && !isTableHeaderCell(row.content, config) &&
+            lastRow?.content?.fullAddress.col === row.content.fullAddress.col;
+        if (continues) {
+            lastBlock.rows.push(row);
+            return blocks;
+        }
+
+        blocks.push({ type: 'table', rows: [row] });
+        return blocks;
+    }, []);
+};
+
+/**
+ * 行のまとまりから文書の行を復元する
+ * @param block 行のまとまり
+ * @param config 変換時に使用したExcel設定
+ * @param links 巻末のリンク一覧（番号 → リンク先）
+ * @returns 復元した行
+ */
+const readRowBlock = (block: RowBlock, config: ExcelConfig, links: Map<number, string>): DocumentLine[] => {
+    if (block.type === 'code') {
+        return readCodeBlockLines(block.rows, config);
+    }
+
+    if (block.type === 'table') {
+        return readTableLines(block.rows, config, links);
+    }
+
+    return block.row.content ? [readLine(block.row, block.row.content, config, links)] : [];
+};
+
+/**
+ * 通常の1行を復元する
+ * 行の種類は、水平線の罫線・空のテキスト・見出しの書式・リスト項目の記号の順に判定し、引用の中の段落は引用の行とする
+ * @param row 本文の行
+ * @param cell 内容のセル
+ * @param config 変換時に使用したExcel設定
+ * @param links 巻末のリンク一覧（番号 → リンク先）
+ * @returns 復元した行
+ */
+const readLine = (row: SheetRow, cell: ExcelJS.Cell, config: ExcelConfig, links: Map<number, string>): DocumentLine => {
+    const richText = readCellSegments(cell, config, links);
+    const plainText = richText.map(segment => segment.text).join('');
+    const indentLevel = toIndentLevel(cell.fullAddress.col, config);
+    const quote = readQuoteInfo(row, cell, config);
+    const headerLevel = detectHeaderLevel(richText, config);
+    // 引用ブロックの最初の行は「引用：」の後からリスト項目の記号を読み取る
+    const markerText = quote && plainText.startsWith(QUOTE_LABEL) ? plainText.slice(QUOTE_LABEL.length) : plainText;
+    const listMarker = headerLevel === 0 ? parseListItemMarker(markerText, indentLevel, config) : null;
+    const isHorizontalRule = isSameColor(cell.border?.bottom?.color?.argb, config.horizontalRuleColor);
+
+    const lineType = isHorizontalRule ? LineType.HorizontalRule
+        : plainText.length === 0 ? LineType.Empty
+            : headerLevel > 0 ? LineType.Header
+                : listMarker ? LineType.ListItem
+                    : quote ? LineType.Quote : LineType.Paragraph;
+
+    return {
+        richText,
+        plainText,
+        indentLevel,
+        lineType,
+        formatting: {
+            ...readFormatInfo(cell, quote, config),
+            isHorizontalRule,
+            headerLevel,
+            fontSize: headerLevel > 0 ? config.headerFontSizes[headerLevel] : config.baseFontSize,
+            bottomBorderColor: isHorizontalRule ? config.horizontalRuleColor : ''
+        },
+        originalLine: plainText,
+        ...(listMarker?.task ? { task: listMarker.task } : {}),
+        ...(quote ? { quote } : {})
+    };
+};
+
+/**
+ * コードブロックの枠の行から、開始のフェンス行・コードの行・終了のフェンス行を復元する
+ * 枠の1行目が言語名の見出し（斜体のコード用フォント）の場合は言語名とし、コードの行のインデントは枠の左端からの列で決定する
+ * @param rows コードブロックの枠の行
+ * @param config 変換時に使用したExcel設定
+ * @returns 復元した行
+ */
+const readCodeBlockLines = (rows: SheetRow[], config: ExcelConfig): DocumentLine[] => {
+    const [firstRow] = rows;
+    const frame = firstRow.codeFrame as ExcelJS.Cell;
+    const frameColumn = frame.fullAddress.col;
+    const frameLevel = toIndentLevel(frameColumn, config);
+    const caption = firstRow.content && isCodeCaption(firstRow.content, config) ? firstRow.content.text : null;
+    const contentRows = (caption !== null ? rows.slice(1) : rows).filter(row => row.content);
+
+    const createFenceLine = (row: SheetRow, role: CodeBlockRole): DocumentLine => {
+        const quote = readQuoteInfo(row, frame, config);
+        return {
+            richText: [],
+            plainText: '',
+            indentLevel: frameLevel,
+            lineType: LineType.CodeBlock,
+            formatting: readFormatInfo(frame, quote, config),
+            originalLine: '',
+            codeBlock: { role, language: caption ?? '' },
+            ...(quote ? { quote } : {})
+        };
+    };
+
+    const contentLines = contentRows.map(row => {
+        const cell = row.content as ExcelJS.Cell;
+        const richText = readCellSegments(cell, config, new Map());
+        const plainText = richText.map(segment => segment.text).join('');
+        const quote = readQuoteInfo(row, frame, config);
+        const relativeLevel = Math.floor((cell.fullAddress.col - frameColumn) / config.indentColumnOffset);
+
+        return {
+            richText,
+            plainText,
+            indentLevel: frameLevel + relativeLevel,
+            lineType: plainText.length === 0 ? LineType.Empty : LineType.Paragraph,
+            formatting: readFormatInfo(cell, quote, config),
+            originalLine: plainText,
+            codeBlock: { role: CodeBlockRole.Content, language: caption ?? '' },
+            ...(quote ? { quote } : {})
+        };
+    });
+
+    return [createFenceLine(firstRow, CodeBlockRole.Open), ...contentLines, createFenceLine(rows[rows.length - 1], CodeBlockRole.Close)];
+};
+
+/**
+ * 表の行から、見出し行・区切り行・本文行を復元する
+ * 列は結合セルの単位とし、見出し行に付与された太字は除去する
+ * 列揃えは見出し行と本文の1行目の配置から判定する（本文行のない表の中央揃えは揃え指定なしとする）
+ * @param rows 表の行
+ * @param config 変換時に使用したExcel設定
+ * @param links 巻末のリンク一覧（番号 → リンク先）
+ * @returns 復元した行
+ */
+const readTableLines = (rows: SheetRow[], config: ExcelConfig, links: Map<number, string>): DocumentLine[] => {
+    const [headerRow, bodyRow] = rows;
+    const headerCells = listTableCells(headerRow, config);
+    const bodyCells = bodyRow ? listTableCells(bodyRow, config) : [];
+    const alignments = headerCells.map((cell, column) => {
+        return toTableAlignment(cell.alignment?.horizontal, bodyCells[column]?.alignment?.horizontal);
+    });
+
+    const createTableLine = (row: SheetRow, table: TableRowInfo): DocumentLine => {
+        const cell = listTableCells(row, config)[0];
+        const quote = readQuoteInfo(row, cell, config);
+        const line: DocumentLine = {
+            richText: [],
+            plainText: '',
+            indentLevel: toIndentLevel(cell.fullAddress.col, config),
+            lineType: LineType.Table,
+            formatting: readFormatInfo(cell, quote, config),
+            originalLine: '',
+            ...(quote ? { quote } : {})
+        };
+        const tableLine = withTableRow(line, table);
+        return { ...tableLine, originalLine: tableLine.plainText };
+    };
+
+    const readRow = (row: SheetRow, role: TableRowRole): DocumentLine => {
+        const cells = listTableCells(row, config).map(cell => {
+            const segments = readCellSegments(cell, config, links);
+            return role === TableRowRole.Header ? segments.map(removeBold) : segments;
+        });
+        return createTableLine(row, { role, cells: alignments.map((_, column) => cells[column] ?? []), alignments });
+    };
+
+    return [
+        readRow(headerRow, TableRowRole.Header),
+        createTableLine(headerRow, { role: TableRowRole.Delimiter, cells: [], alignments }),
+        ...rows.slice(1).map(row => readRow(row, TableRowRole.Body))
+    ];
+};
+
+/**
+ * 表の行の列ごとのセル（結合セルの左端のセル）を取得する
+ * 内容のセルから右に、表の罫線が続く範囲を表の列とする
+ * @param row 表の行
+ * @param config 変換時に使用したExcel設定
+ * @returns 列ごとのセル
+ */
+const listTableCells = (row: SheetRow, config: ExcelConfig): ExcelJS.Cell[] => {
+    const startIndex = row.cells.findIndex(cell => cell === row.content);
+    const rest = row.cells.slice(startIndex);
+    const endIndex = rest.findIndex(cell => !isTableCell(cell, config));
+    return endIndex === -1 ? rest : rest.slice(0, endIndex);
+};
+
+/**
+ * Excelの水平方向の配置から、表の列揃えを判定する
+ * 揃え指定のない列は、見出し行が中央揃え・本文行が左揃えで出力される
+ * @param header 見出し行のセルの配置
+ * @param body 本文の1行目のセルの配置
+ * @returns 列揃え
+ */
+const toTableAlignment = (header?: string, body?: string): TableAlignment => {
+    if (header === 'right' || body === 'right') {
+        return TableAlignment.Right;
+    }
+    if (header === 'left') {
+        return TableAlignment.Left;
+    }
+
+    return body === 'center' ? TableAlignment.Center : TableAlignment.None;
+};
+
+/**
+ * セルのリッチテキストを、リンク先・インラインコード・脚注の参照を復元したセグメントに変換する
+ * リンクの書式（下線とリンクの文字色）の部分は、末尾の [n] から巻末のリンク一覧のリンク先を、
+ * 番号がない場合はセル自体のハイパーリンクをリンク先とする（表示テキストが文字列のハイパーリンクは、書式によらずテキスト全体をリンクとする）
+ * @param cell 対象のセル
+ * @param config 変換時に使用したExcel設定
+ * @param links 巻末のリンク一覧（番号 → リンク先）
+ * @returns セグメントの配列
+ */
+const readCellSegments = (cell: ExcelJS.Cell, config: ExcelConfig, links: Map<number, string>): RichTextSegment[] => {
+    const richText = readCellRichText(cell) ?? [];
+    const cellLinkTarget = cell.hyperlink || undefined;
+    const isTextLink = isTextHyperlink(cell);
+
+    return richText.map(run => {
+        const font = { ...run.font } as FontStyle;
+        const isLink = isTextLink || (font.underline === true && isSameColor(font.color?.argb, config.linkColor));
+        const linkNumber = isLink ? run.text.match(LINK_NUMBER_PATTERN) : null;
+        const linkTarget = linkNumber ? links.get(Number(linkNumber[1])) : isLink ? cellLinkTarget : undefined;
+        const text = linkNumber && linkTarget ? run.text.replace(LINK_NUMBER_PATTERN, '') : run.text;
+        const isCode = font.name === config.codeFontName && isSameColor(font.color?.argb, config.inlineCodeColor);
+        const footnote = font.vertAlign === 'superscript' ? text.match(FOOTNOTE_NUMBER_PATTERN) : null;
+
+        return {
+            text,
+            ...(run.font ? { font: isCode ? { ...font, code: true } : font } : {}),
+            ...(linkTarget ? { link: { target: linkTarget } } : {}),
+            ...(footnote ? { footnote: { number: Number(footnote[1]) } } : {})
+        };
+    });
+};
+
+/**
+ * セルの値からリッチテキストを取得する（セル自体のハイパーリンクの表示テキストがリッチテキストの場合を含む）
+ * Excelで入力された文字列・数値と、表示テキストが文字列のハイパーリンクは、セルのフォントを書式とする1つのテキストとする
+ * @param cell 対象のセル
+ * @returns リッチテキスト（テキストの値でない場合はnull）
+ */
+const readCellRichText = (cell: ExcelJS.Cell): ExcelJS.RichText[] | null => {
+    const value = cell.value;
+    if (typeof value === 'string' || typeof value === 'number') {
+        return [{ text: String(value), font: cell.font }];
+    }
+
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+
+    if ('richText' in value) {
+        return value.richText;
+    }
+
+    const text: unknown = 'hyperlink' in value ? value.text : null;
+    if (typeof text === 'string') {
+        return [{ text, font: cell.font }];
+    }
+    return text && typeof text === 'object' && 'richText' in text ? (text as ExcelJS.CellRichTextValue).richText : null;
+};
+
+/**
+ * 変換で見出しの右側に出力したセル（目次へ戻るリンク・タスクの集計）、目次の項目や、
+ * コードブロック・表で始まる引用ブロックの前に出力した「引用：」の行のセルかどうかを判定する
+ * 本文のセルは常にリッチテキストで出力されるため、文字列のセルのうちブック内へのリンク・集計の表示テキスト・「引用：」のみを対象とする
+ * @param cell 対象のセル
+ * @returns 変換で出力したセルの場合はtrue
+ */
+const isGeneratedCell = (cell: ExcelJS.Cell): boolean => {
+    if (typeof cell.value === 'string') {
+        return TASK_SUMMARY_PATTERN.test(cell.value) || cell.value === QUOTE_LABEL;
+    }
+
+    return isTextHyperlink(cell) && cell.hyperlink.startsWith('#');
+};
+
+/**
+ * セルの値が、表示テキストが文字列のハイパーリンク（Excelで挿入したリンクや、目次の項目）かどうかを判定する
+ * @param cell 対象のセル
+ * @returns 表示テキストが文字列のハイパーリンクの場合はtrue
+ */
+const isTextHyperlink = (cell: ExcelJS.Cell): boolean => {
+    const value = cell.value;
+    return typeof value === 'object' && value !== null && 'hyperlink' in value && typeof value.text === 'string';
+};
+
+/**
+ * シートの先頭に出力した文書情報ブロック（または目次シートのタイトル）の行数を求める
+ * 文書情報ブロックは、文字列のタイトル（1行目のみ）と結合セルの項目名の行が続き、値のない行で終わる
+ * 本文の空行も空のリッチテキストを出力するため、本文の途中で値のない行から判定することはない
+ * @param worksheet 対象のワークシート
+ * @returns 読み込まない先頭の行数（本文との間の空行を含む。文書情報ブロックがない場合は0）
+ */
+const countDocumentInfoRows = (worksheet: ExcelJS.Worksheet): number => {
+    const rows = worksheet.getRows(1, worksheet.rowCount) ?? [];
+    const blankIndex = rows.findIndex(row => !row.hasValues);
+    if (blankIndex <= 0) {
+        return 0;
+    }
+
+    const isInfoRow = (row: ExcelJS.Row, index: number): boolean => {
+        const first = row.getCell(1);
+        const cells = Array.from({ length: row.cellCount }, (_, cellIndex) => row.getCell(cellIndex + 1));
+        return typeof first.value === 'string' && (index === 0 || first.isMerged) &&
+            cells.every(cell => cell.value === null || typeof cell.value === 'string');
+    };
+
+    return rows.slice(0, blankIndex).every(isInfoRow) ? blankIndex + 1 : 0;
+};
+
+/**
+ * 文書全体の脚注を、脚注セクションまたはセルのコメントから復元する
+ * @param contents ワークシートから読み取った内容
+ * @param config 変換時に使用したExcel設定
+ * @param links 巻末のリンク一覧（番号 → リンク先）
+ * @returns 脚注の一覧（番号順）
+ */
+const collectFootnotes = (contents: SheetContent[], config: ExcelConfig, links: Map<number, string>): Footnote[] => {
+    const footnotes = new Map<number, RichTextSegment[]>();
+    contents.forEach(content => {
+        content.footnoteNotes.forEach((text, number) => footnotes.set(number, [{ text }]));
+        content.footnoteCells.forEach((cell, number) => footnotes.set(number, readCellSegments(cell, config, links)));
+    });
+
+    return Array.from(footnotes)
+        .sort(([a], [b]) => a - b)
+        .map(([number, richText]) => ({
+            number,
+            label: String(number),
+            richText,
+            plainText: richText.map(segment => segment.text).join('')
+        }));
+};
+
+/**
+ * 引用の左罫線（太線）から、行の引用の構造情報を復元する
+ * 内容のセルより左（内容のセルを含む）の太線の左罫線を引用の深さとし、罫線の色がアラートの種類の色であればアラートとする
+ * @param row 本文の行
+ * @param cell 内容のセル（コードブロックの場合は枠の左端のセル）
+ * @param config 変換時に使用したExcel設定
+ * @returns 引用の構造情報（引用の中の行でない場合はundefined）
+ */
+const readQuoteInfo = (row: SheetRow, cell: ExcelJS.Cell, config: ExcelConfig): QuoteInfo | undefined => {
+    const borderCells = row.cells.filter(candidate => {
+        return candidate.fullAddress.col <= cell.fullAddress.col && candidate.border?.left?.style === 'thick';
+    });
+    if (borderCells.length === 0) {
+        return undefined;
+    }
+
+    const borderColor = borderCells[0].border.left?.color?.argb;
+    const alert = (Object.keys(config.alertStyles) as AlertType[])
+        .find(type => isSameColor(borderColor, config.alertStyles[type].borderColor));
+    const borderLevels = borderCells.map(borderCell => toIndentLevel(borderCell.fullAddress.col, config));
+
+    return alert ? { borderLevels, alert } : { borderLevels };
+};
+
+/**
+ * セルの背景色と左罫線から、行全体の書式情報を復元する
+ * @param cell 内容のセル
+ * @param quote 引用の構造情報
+ * @param config 変換時に使用したExcel設定
+ * @returns 書式情報（見出し・水平線でない行の書式）
+ */
+const readFormatInfo = (cell: ExcelJS.Cell, quote: QuoteInfo | undefined, config: ExcelConfig): FormatInfo => {
+    const leftBorder = cell.border?.left;
+
+    return {
+        isQuote: quote !== undefined,
+        isHorizontalRule: false,
+        headerLevel: 0,
+        backgroundColor: readFillColor(cell) ?? '',
+        fontSize: config.baseFontSize,
+        leftBorderColor: leftBorder?.style === 'thick' ? leftBorder.color?.argb ?? '' : '',
+        bottomBorderColor: ''
+    };
+};
+
+/**
+ * 行のすべての文字が見出しの書式（太字と見出しレベルのフォントサイズ）であれば、見出しレベルを判定する
+ * 本文と同じフォントサイズは太字の段落と区別できないため見出しとしない
+ * @param segments 行のセグメント
+ * @param config 変換時に使用したExcel設定
+ * @returns 見出しレベル（見出しでない場合は0）
+ */
+const detectHeaderLevel = (segments: RichTextSegment[], config: ExcelConfig): number => {
+    const sizes = segments
+        .filter(segment => segment.text.length > 0)
+        .map(segment => segment.font?.bold ? segment.font.size : undefined);
+    const [size] = sizes;
+    if (size === undefined || size === config.baseFontSize || sizes.some(candidate => candidate !== size)) {
+        return 0;
+    }
+
+    const level = Object.keys(config.headerFontSizes)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .find(candidate => config.headerFontSizes[candidate] === size);
+    return level ?? 0;
+};
+
+/**
+ * セルがコードブロックの言語名の見出し（斜体・コード用フォント・代替テキストの文字色）かどうかを判定する
+ * @param cell 枠の1行目の内容のセル
+ * @param config 変換時に使用したExcel設定
+ * @returns 言語名の見出しの場合はtrue
+ */
+const isCodeCaption = (cell: ExcelJS.Cell, config: ExcelConfig): boolean => {
+    const runs = readCellRichText(cell) ?? [];
+    return runs.length === 1 &&
+        runs[0].font?.italic === true &&
+        runs[0].font.name === config.codeFontName &&
+        isSameColor(runs[0].font.color?.argb, config.imageAltColor);
+};
+
+/**
+ * セルが表のセル（上下に表の罫線の色の罫線）かどうかを判定する
+ * @param cell 対象のセル
+ * @param config 変換時に使用したExcel設定
+ * @returns 表のセルの場合はtrue
+ */
+const isTableCell = (cell: ExcelJS.Cell, config: ExcelConfig): boolean => {
+    return isSameColor(cell.border?.top?.color?.argb, config.tableBorderColor) &&
+        isSameColor(cell.border?.bottom?.color?.argb, config.tableBorderColor);
+};
+
+/**
+ * セルが表の見出し行のセル（見出し行の背景色）かどうかを判定する
+ * @param cell 対象のセル
+ * @param config 変換時に使用したExcel設定
+ * @returns 見出し行のセルの場合はtrue
+ */
+const isTableHeaderCell = (cell: ExcelJS.Cell, config: ExcelConfig): boolean => {
+    return isSameColor(readFillColor(cell), config.tableHeaderBackgroundColor);
+};
+
+/**
+ * セルの背景色（塗りつぶしの色）を取得する
+ * @param cell 対象のセル
+ * @returns 背景色（塗りつぶしのないセルはnull）
+ */
+const readFillColor = (cell: ExcelJS.Cell): string | null => {
+    const fill = cell.fill;
+    return fill?.type === 'pattern' && fill.pattern === 'solid' ? fill.fgColor?.argb ?? null : null;
+};
+
+/**
+ * 2つの色が同じかどうかを判定する
+ * 先頭の # と、不透明の透明度（ARGBの先頭の FF）の有無は区別しない
+ * @param color 比較元の色（ARGBまたはRGB）
+ * @param expected 比較対象の色（設定値）
+ * @returns 同じ色の場合はtrue
+ */
+const isSameColor = (color: string | null | undefined, expected: string): boolean => {
+    if (!color) {
+        return false;
+    }
+
+    const normalize = (value: string): string => value.replace('#', '').toUpperCase().replace(/^FF(?=[0-9A-F]{6}$)/, '');
+    return normalize(color) === normalize(expected);
+};
+
+/**
+ * セグメントから太字を除去する（表の見出し行に付与された太字）
+ * @param segment 対象のセグメント
+ * @returns 太字を除去したセグメント
+ */
+const removeBold = (segment: RichTextSegment): RichTextSegment => {
+    if (!segment.font) {
+        return segment;
+    }
+
+    const { bold, ...font } = segment.font;
+    return { ...segment, font };
+};
+
+/**
+ * 列番号からインデントレベルを求める
+ * @param column 列番号（1始まり）
+ * @param config 変換時に使用したExcel設定
+ * @returns インデントレベル
+ */
+const toIndentLevel = (column: number, config: ExcelConfig): number => {
+    return Math.floor((column - 1) / config.indentColumnOffset);
+};
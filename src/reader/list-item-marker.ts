@@ -0,0 +1,59 @@
+import { ExcelConfig, TaskInfo } from '../types';
+import { BULLET_LIST_GLYPH, TASK_GLYPHS } from '../parser/markdown-parser';
+import { parseOrderedListMarker } from '../parser/list-numbering';
+
+/**
+ * 箇条書きのリスト項目の表示用の記号と直後の空白
+ */
+const BULLET_GLYPH_PATTERN = new RegExp(`^${BULLET_LIST_GLYPH}(?: |$)`);
+
+/**
+ * 番号付きリスト項目の表示用の番号（数字・アルファベット・ローマ数字と区切り記号）と直後の空白
+ */
+const DISPLAYED_NUMBER_PATTERN = /^(\S+?[.)])(?: |$)/;
+
+/**
+ * タスクリスト項目のチェックボックスの記号と直後の空白
+ */
+const TASK_GLYPH_PATTERN = new RegExp(`^([${TASK_GLYPHS.unchecked}${TASK_GLYPHS.checked}])(?: |$)`);
+
+/**
+ * 出力したリスト項目の行の先頭の記号（・ / 3. / ☐ / 3. ☑）の解析結果を表すインターフェース
+ */
+export interface DisplayedListMarker {
+    /** 番号付きリスト項目の番号と区切り記号（箇条書きの項目はnull） */
+    ordered: { number: number; delimiter: string } | null;
+    /** タスクリスト項目の情報（タスクリスト項目でない場合はnull） */
+    task: TaskInfo | null;
+    /** 記号と直後の空白の文字数（項目の本文はこの位置から始まる） */
+    length: number;
+}
+
+/**
+ * 出力した行のテキストの先頭から、リスト項目の表示用の記号を読み取る
+ * 番号はインデントレベルごとの番号の表記（orderedListStyles）で表記されたもののみ受け付ける
+ * @param text 行のテキスト
+ * @param level 行のインデントレベル
+ * @param config 変換時に使用したExcel設定
+ * @returns 記号の解析結果（リスト項目の記号で始まらない場合はnull）
+ */
+export const parseListItemMarker = (text: string, level: number, config: ExcelConfig): DisplayedListMarker | null => {
+    const bullet = text.match(BULLET_GLYPH_PATTERN);
+    if (bullet) {
+        return { ordered: null, task: null, length: bullet[0].length };
+    }
+
+    const number = text.match(DISPLAYED_NUMBER_PATTERN);
+    const ordered = number ? parseOrderedListMarker(number[1], level, config) : null;
+    const numberLength = ordered && number ? number[0].length : 0;
+    const glyph = text.slice(numberLength).match(TASK_GLYPH_PATTERN);
+    if (!ordered && !glyph) {
+        return null;
+    }
+
+    return {
+        ordered,
+        task: glyph ? { checked: glyph[1] === TASK_GLYPHS.checked } : null,
+        length: numberLength + (glyph?.[0].length ?? 0)
+    };
+};
@@ -0,0 +1,622 @@
+import * as fs from 'fs';
+import {
+    CodeBlockRole, CompletedTaskStyle, Document, DocumentLine, ExcelConfig, FontStyle, LineType,
+    RichTextSegment, SerializedLine, TableAlignment, TableRowRole
+} from '../types';
+import { defaultExcelConfig } from '../config';
+import { QUOTE_LABEL } from '../parser/markdown-parser';
+import { parseListItemMarker } from './list-item-marker';
+
+/**
+ * インライン書式の記号として解釈される文字（テキストとして出力する場合はエスケープする）
+ */
+const INLINE_SPECIAL_CHARACTER_PATTERN = /[\\`*_~[\]<]/g;
+
+/**
+ * HTMLエンティティとして解釈される & の並び（テキストとして出力する場合は & をエスケープする）
+ */
+const ENTITY_PATTERN = /&(?=#?[0-9A-Za-z]+;)/g;
+
+/**
+ * 行頭にある場合にブロック要素の記号として解釈される文字（見出し・引用・リスト・Setext形式の下線・表の行）
+ */
+const BLOCK_START_PATTERN = /^([#>+=|-])/;
+
+/**
+ * 行頭にある場合に番号付きリストの記号として解釈される番号と区切り記号
+ */
+const ORDERED_MARKER_START_PATTERN = /^(\d{1,9})([.)])/;
+
+/**
+ * 行頭にある場合にコンテナの記号として解釈される :::
+ */
+const CONTAINER_START_PATTERN = /^:::/;
+
+/**
+ * 見出しの本文の末尾にある場合に閉じる記号として除去される # の並び
+ */
+const ATX_CLOSING_SEQUENCE_PATTERN = /(^|[ \t])(#+[ \t]*)$/;
+
+/**
+ * インライン書式の記号（外側から順に出力する。リンクは常に最も外側とする）
+ */
+type InlineMark = 'link' | 'strike' | 'bold' | 'italic';
+
+/**
+ * インライン書式の記号の出力順
+ */
+const INLINE_MARK_ORDER: InlineMark[] = ['link', 'strike', 'bold', 'italic'];
+
+/**
+ * インライン書式の開始・終了の記号（リンクはリンク先を伴うため別途出力する）
+ */
+const INLINE_MARK_DELIMITERS: Record<Exclude<InlineMark, 'link'>, string> = {
+    strike: '~~',
+    bold: '**',
+    italic: '*'
+};
+
+/**
+ * Markdownに出力する行と、リスト項目の場合のMarkdownの記号を表すインターフェース
+ */
+interface MarkdownLine {
+    /** 出力する行（リスト項目の行は表示用の記号を除去したもの） */
+    line: DocumentLine;
+    /** 文書の行の位置（document.lines の添字） */
+    index: number;
+    /** リスト項目のMarkdownの記号と直後の空白（- / 3. など。リスト項目の行のみ） */
+    listMarker?: string;
+    /** タスクリスト項目のチェックボックスと直後の空白（[ ] / [x]。タスクリスト項目の行のみ） */
+    checkbox?: string;
+}
+
+/**
+ * インライン書式の出力中の状態を表すインターフェース
+ */
+interface InlineState {
+    /** 開いているインライン書式の記号（外側から順） */
+    marks: InlineMark[];
+    /** 開いているリンクのリンク先 */
+    linkTarget: string;
+}
+
+/**
+ * 文書をMarkdownの文字列に変換する
+ * 表示用に置き換えた記号（リスト項目の「・」・番号・チェックボックス、引用の「引用：」、アラートのラベル、脚注の参照の「※n」）は
+ * Markdownの記法に戻し、脚注の本文は文書の末尾に脚注定義として出力する
+ * @param document 文書（readExcelFile または parseMarkdown の結果）
+ * @param config 変換時に使用したExcel設定（リスト項目の番号の表記と完了したタスクの書式の判定に使用する）
+ * @returns Markdownの文字列（行を改行で連結する。解析時の末尾の改行は末尾の空行として保持されている）
+ */
+export const serializeMarkdown = (document: Document, config: ExcelConfig = defaultExcelConfig): string => {
+    return serializeMarkdownLines(document, config).map(line => line.text).join('\n');
+};
+
+/**
+ * 文書をMarkdownの行に変換し、各行に変換元の文書の行の位置を記録する
+ * 行の内容は serializeMarkdown と同じ（serializeMarkdown はこの結果を改行で連結したもの）
+ * @param document 文書
+ * @param config 変換時に使用したExcel設定
+ * @returns Markdownの行と変換元の文書の行の位置
+ */
+export const serializeMarkdownLines = (document: Document, config: ExcelConfig = defaultExcelConfig): SerializedLine[] => {
+    const footnotes = document.footnotes ?? [];
+    const footnoteLabels = new Map(footnotes.map(footnote => [footnote.number, footnote.label]));
+    const lines = document.lines
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => !line.isReferenceDefinition && !line.isSetextUnderline && !line.isContainerFence)
+        .map(({ line, index }) => toMarkdownLine(line, index, config));
+
+    const body = serializeLines(lines, config, footnoteLabels, false);
+    const definitions = footnotes.map(footnote => ({
+        text: `[^${footnote.label}]: ${serializeInline(footnote.richText, footnoteLabels)}`,
+        lineIndex: null
+    }));
+
+    if (definitions.length === 0) {
+        return body;
+    }
+
+    // 脚注定義は本文の末尾の空行の後に1行空けて出力する
+    const lastTextIndex = body.reduce((last, line, index) => line.text.length > 0 ? index : last, -1);
+    const separator: SerializedLine = { text: '', lineIndex: null };
+    return [...body.slice(0, lastTextIndex + 1), separator, ...definitions, separator];
+};
+
+/**
+ * 文書をMarkdownに変換してファイルに書き込む
+ * @param document 文書
+ * @param filePath 出力先のファイルパス
+ * @param config 変換時に使用したExcel設定
+ */
+export const writeMarkdownFile = async (document: Document, filePath: string, config: ExcelConfig = defaultExcelConfig): Promise<void> => {
+    await fs.promises.writeFile(filePath, serializeMarkdown(document, config), 'utf8');
+};
+
+/**
+ * リスト項目の行から表示用の記号（・ / 3. / ☐）を除去し、Markdownの記号を決定する
+ * 引用ブロックの最初の行は「引用：」の後の記号を除去する（「引用：」は引用ブロックの出力時に除去する）
+ * 完了したタスクリスト項目に付与された取り消し線は、設定が取り消し線の場合に除去する
+ * @param line 文書の行
+ * @param index 文書の行の位置
+ * @param config 変換時に使用したExcel設定
+ * @returns Markdownに出力する行
+ */
+const toMarkdownLine = (line: DocumentLine, index: number, config: ExcelConfig): MarkdownLine => {
+    if (line.lineType !== LineType.ListItem) {
+        return { line, index };
+    }
+
+    const labelLength = line.quote && line.plainText.startsWith(QUOTE_LABEL) ? QUOTE_LABEL.length : 0;
+    const marker = parseListItemMarker(line.plainText.slice(labelLength), line.indentLevel, config);
+    if (!marker) {
+        return { line, index };
+    }
+
+    const bullet = marker.ordered ? `${marker.ordered.number}${marker.ordered.delimiter}` : '-';
+    const checkbox = marker.task ? `[${marker.task.checked ? 'x' : ' '}] ` : '';
+    const isStruck = marker.task?.checked === true && config.completedTaskStyle === CompletedTaskStyle.Strike;
+    const richText = removeText(line.richText, labelLength, marker.length)
+        .map(segment => isStruck ? { ...segment, font: { ...segment.font, strike: false } } : segment);
+
+    return { line: { ...line, richText }, index, listMarker: `${bullet} `, checkbox };
+};
+
+/**
+ * 行をMarkdownの行に変換する
+ * 引用・コードブロック・表は連続する行をまとめて出力し、リストの入れ子はリスト項目の内容の位置までのインデントで表現する
+ * @param lines 出力する行
+ * @param config 変換時に使用したExcel設定
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @param isQuoteContent 引用の内容を出力しているかどうか（アラートと「引用：」は最も外側の引用ブロックのみ）
+ * @returns Markdownの行と変換元の文書の行の位置
+ */
+const serializeLines = (
+    lines: MarkdownLine[],
+    config: ExcelConfig,
+    footnoteLabels: Map<number, string>,
+    isQuoteContent: boolean
+): SerializedLine[] => {
+    const output: SerializedLine[] = [];
+    // インデントレベルごとの内容の開始位置（レベル0は行頭。リスト項目の内容の位置を積み上げる）
+    let contentColumns = [0];
+
+    const toColumn = (level: number): number => {
+        const lastLevel = contentColumns.length - 1;
+        return level <= lastLevel
+            ? contentColumns[level]
+            : contentColumns[lastLevel] + (level - lastLevel) * config.tabWidth;
+    };
+
+    const blocks = groupIntoBlocks(lines);
+    for (const [blockIndex, block] of blocks.entries()) {
+        const { line, index: lineIndex, listMarker, checkbox } = block[0];
+
+        if (line.lineType === LineType.Empty && !line.quote && !line.codeBlock) {
+            output.push({ text: '', lineIndex });
+            continue;
+        }
+
+        const level = line.quote ? line.quote.borderLevels[0] : line.indentLevel;
+        const prefix = ' '.repeat(toColumn(level));
+        contentColumns = Array.from({ length: level + 1 }, (_, columnLevel) => toColumn(columnLevel));
+
+        if (line.quote) {
+            output.push(...serializeQuoteBlock(block, config, footnoteLabels, isQuoteContent)
+                .map(quoted => ({ ...quoted, text: quoted.text.length > 0 ? `${prefix}> ${quoted.text}` : `${prefix}>` })));
+            continue;
+        }
+
+        if (line.codeBlock) {
+            output.push(...serializeCodeBlock(block, config)
+                .map(code => ({ ...code, text: code.text.length > 0 ? prefix + code.text : '' })));
+            continue;
+        }
+
+        if (line.table) {
+            output.push(...serializeTable(block.map(entry => entry.line), footnoteLabels)
+                .map((text, rowIndex) => ({ text: prefix + text, lineIndex: block[rowIndex].index })));
+            continue;
+        }
+
+        if (listMarker !== undefined) {
+            // 内容のない項目も記号の後の空白を残す（記号のみの行は段落として解析される）
+            output.push({ text: `${prefix}${listMarker}${checkbox ?? ''}${serializeInline(line.richText, footnoteLabels)}`, lineIndex });
+            // 入れ子の行は、チェックボックスを含まない項目の内容の位置に揃える
+            contentColumns = [...contentColumns, prefix.length + listMarker.length];
+            continue;
+        }
+
+        const previousBlock = blockIndex > 0 ? blocks[blockIndex - 1] : null;
+        const previous = previousBlock ? previousBlock[previousBlock.length - 1].line : null;
+        const followsParagraph = previous !== null && !previous.quote && isParagraphLine(previous);
+        output.push({ text: prefix + serializeLine(line, footnoteLabels, followsParagraph), lineIndex });
+    }
+
+    return output;
+};
+
+/**
+ * 出力する行を、まとめて出力する行のグループに分ける
+ * 引用は最も外側の罫線の位置が同じ行、コードブロックは開始のフェンス行から終了のフェンス行まで、表は次の見出し行の前までとする
+ * @param lines 出力する行
+ * @returns 行のグループ（まとめない行は1行のグループ）
+ */
+const groupIntoBlocks = (lines: MarkdownLine[]): MarkdownLine[][] => {
+    return lines.reduce<MarkdownLine[][]>((blocks, entry) => {
+        const block = blocks.length > 0 ? blocks[blocks.length - 1] : null;
+        if (block && continuesBlock(block[0].line, entry.line, block[block.length - 1].line)) {
+            block.push(entry);
+            return blocks;
+        }
+        blocks.push([entry]);
+        return blocks;
+    }, []);
+};
+
+/**
+ * 行が直前の行までのグループに続けて出力する行かどうかを判定する
+ * @param first グループの最初の行
+ * @param line 対象の行
+ * @param previous 直前の行
+ * @returns 同じグループに含める場合はtrue
+ */
+const continuesBlock = (first: DocumentLine, line: DocumentLine, previous: DocumentLine): boolean => {
+    if (first.quote) {
+        return line.quote !== undefined && line.quote.borderLevels[0] === first.quote.borderLevels[0];
+    }
+    if (first.codeBlock) {
+        return line.codeBlock !== undefined && line.codeBlock.role !== CodeBlockRole.Open &&
+            previous.codeBlock?.role !== CodeBlockRole.Close && !line.quote;
+    }
+    if (first.table) {
+        return line.table !== undefined && line.table.role !== TableRowRole.Header && !line.quote;
+    }
+    return false;
+};
+
+/**
+ * 見出し・水平線・段落など、1行で完結する行をMarkdownに変換する
+ * @param line 出力する行
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @param followsParagraph 直前の行が段落の行かどうか（水平線の --- がSetext形式の見出しの下線と解釈されないようにする）
+ * @returns Markdownの行（インデントを除く）
+ */
+const serializeLine = (line: DocumentLine, footnoteLabels: Map<number, string>, followsParagraph: boolean): string => {
+    if (line.lineType === LineType.HorizontalRule) {
+        return followsParagraph ? '***' : '---';
+    }
+
+    if (line.lineType === LineType.Header) {
+        const level = line.formatting.headerLevel;
+        const text = serializeInline(line.richText.map(segment => withoutFont(segment, 'bold')), footnoteLabels)
+            .replace(ATX_CLOSING_SEQUENCE_PATTERN, (_, space: string, closing: string) => `${space}\\${closing}`);
+        return text.length > 0 ? `${'#'.repeat(level)} ${text}` : '#'.repeat(level);
+    }
+
+    return escapeLineStart(serializeInline(line.richText, footnoteLabels));
+};
+
+/**
+ * 行が段落の行（コードブロックの行を除く）かどうかを判定する
+ * @param line 対象の行
+ * @returns 段落の行の場合はtrue
+ */
+const isParagraphLine = (line: DocumentLine): boolean => {
+    return (line.lineType === LineType.Paragraph || line.lineType === LineType.Quote) && !line.codeBlock;
+};
+
+/**
+ * 最も外側の罫線の位置が同じ引用の行を、引用の記号を1つ除去した内容としてMarkdownに変換する
+ * 最も外側の引用ブロックは、アラートのラベルの行を [!NOTE] などの記号に戻し、それ以外は最初の行の「引用：」を除去する
+ * @param lines 引用の行
+ * @param config 変換時に使用したExcel設定
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @param isQuoteContent 引用の内容を出力しているかどうか
+ * @returns 引用の内容のMarkdownの行（引用の記号を除く）と変換元の文書の行の位置
+ */
+const serializeQuoteBlock = (
+    lines: MarkdownLine[],
+    config: ExcelConfig,
+    footnoteLabels: Map<number, string>,
+    isQuoteContent: boolean
+): SerializedLine[] => {
+    const [first] = lines;
+    const baseLevel = first.line.quote?.borderLevels[0] ?? 0;
+    const contentLines = lines.map(entry => ({ ...entry, line: unquoteLine(entry.line, baseLevel) }));
+    const alert = isQuoteContent ? undefined : first.line.quote?.alert;
+
+    if (alert) {
+        const label = config.alertStyles[alert].label;
+        const title = first.line.plainText.startsWith(`${label}：`) ? first.line.plainText.slice(label.length + 1) : '';
+        const marker = `[!${alert.toUpperCase()}]${title ? ` ${title}` : ''}`;
+        return [{ text: marker, lineIndex: first.index }, ...serializeLines(contentLines.slice(1), config, footnoteLabels, true)];
+    }
+
+    const [firstContent, ...restContent] = contentLines;
+    const hasLabel = !isQuoteContent && firstContent.line.plainText.startsWith(QUOTE_LABEL);
+    const firstLine = hasLabel
+        ? { ...firstContent, line: { ...firstContent.line, richText: removeText(firstContent.line.richText, 0, QUOTE_LABEL.length) } }
+        : firstContent;
+
+    return serializeLines([firstLine, ...restContent], config, footnoteLabels, true);
+};
+
+/**
+ * 引用の中の行から最も外側の引用を除去し、引用の内容の行にする（パーサーの toQuotedLine の逆変換）
+ * @param line 引用の中の行
+ * @param baseLevel 最も外側の引用の罫線の位置
+ * @returns 引用の内容の行
+ */
+const unquoteLine = (line: DocumentLine, baseLevel: number): DocumentLine => {
+    const innerBorderLevels = (line.quote?.borderLevels ?? []).slice(1).map(level => level - baseLevel - 1);
+    const { quote, ...rest } = line;
+    const isNested = innerBorderLevels.length > 0;
+
+    return {
+        ...rest,
+        indentLevel: Math.max(0, line.indentLevel - baseLevel - (isNested ? 1 : 0)),
+        lineType: line.lineType === LineType.Quote && !isNested ? LineType.Paragraph : line.lineType,
+        ...(isNested ? { quote: { borderLevels: innerBorderLevels } } : {})
+    };
+};
+
+/**
+ * コードブロックの行を、フェンスで囲んだMarkdownの行に変換する
+ * フェンスはコードに含まれる ` の並びより長くし、コードの行はフェンスの位置からのインデントレベルをスペースで表現する
+ * @param lines コードブロックの行（開始・終了のフェンス行がない場合も開始・終了のフェンスを補う）
+ * @param config 変換時に使用したExcel設定
+ * @returns Markdownの行（フェンスの位置からのインデント）と変換元の文書の行の位置（補ったフェンスはnull）
+ */
+const serializeCodeBlock = (lines: MarkdownLine[], config: ExcelConfig): SerializedLine[] => {
+    const [{ line: first }] = lines;
+    const language = first.codeBlock?.language ?? '';
+    const codeLines = lines
+        .filter(({ line }) => line.codeBlock?.role === CodeBlockRole.Content)
+        .map(({ line, index }) => ({
+            text: ' '.repeat(Math.max(0, line.indentLevel - first.indentLevel) * config.tabWidth) + line.plainText,
+            lineIndex: index
+        }));
+    const longestRun = Math.max(0, ...[...codeLines.map(code => code.text), language]
+        .map(text => Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const findFenceIndex = (role: CodeBlockRole): number | null => lines.find(({ line }) => line.codeBlock?.role === role)?.index ?? null;
+
+    return [
+        { text: `${fence}${language}`, lineIndex: findFenceIndex(CodeBlockRole.Open) },
+        ...codeLines,
+        { text: fence, lineIndex: findFenceIndex(CodeBlockRole.Close) }
+    ];
+};
+
+/**
+ * 表の行を、| で区切ったMarkdownの表の行に変換する
+ * 区切り行は列揃えから作成し、セル内の | はエスケープする
+ * @param lines 表の行（見出し行・区切り行・本文行）
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @returns Markdownの表の行
+ */
+const serializeTable = (lines: DocumentLine[], footnoteLabels: Map<number, string>): string[] => {
+    return lines.map(line => {
+        const table = line.table;
+        if (!table) {
+            return escapeLineStart(serializeInline(line.richText, footnoteLabels));
+        }
+
+        const cells = table.role === TableRowRole.Delimiter
+            ? table.alignments.map(toDelimiterCell)
+            : table.cells.map(cell => serializeInline(cell, footnoteLabels).replace(/\|/g, '\\|'));
+        return `| ${cells.join(' | ')} |`;
+    });
+};
+
+/**
+ * 列揃えから区切り行のセルを作成する
+ * @param alignment 列揃え
+ * @returns 区切り行のセル（:--- / :---: / ---: / ---）
+ */
+const toDelimiterCell = (alignment: TableAlignment): string => {
+    switch (alignment) {
+        case TableAlignment.Left:
+            return ':---';
+        case TableAlignment.Center:
+            return ':---:';
+        case TableAlignment.Right:
+            return '---:';
+        default:
+            return '---';
+    }
+};
+
+/**
+ * リッチテキストを、インライン書式の記法を使ったMarkdownのテキストに変換する
+ * 書式の記号は隣接するセグメントで共通する限り開いたままにし、記号の内側の先頭・末尾の空白は記号の外に出す
+ * インラインコードと脚注の参照は書式を持たない要素として出力し、それ以外のテキストは記号をエスケープする
+ * @param segments リッチテキスト
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @returns Markdownのテキスト
+ */
+const serializeInline = (segments: RichTextSegment[], footnoteLabels: Map<number, string>): string => {
+    const state: InlineState = { marks: [], linkTarget: '' };
+    const parts: string[] = [];
+
+    // セグメントの末尾の空白は、次のセグメントで閉じる記号の後に出力する
+    let pendingSpaces = '';
+
+    segments.filter(segment => segment.text.length > 0).forEach(segment => {
+        const [leading, body, trailing] = splitSurroundingSpaces(segment, footnoteLabels);
+        const marks = collectInlineMarks(segment);
+        const linkTarget = segment.link?.target ?? '';
+        const keepCount = countCommonMarks(state, marks, linkTarget);
+        parts.push(...closeMarks(state, keepCount), pendingSpaces + leading);
+
+        // 空白のみのセグメントは記号で囲めないため、共通しない記号を閉じるのみとする
+        if (body.length === 0) {
+            pendingSpaces = '';
+            return;
+        }
+
+        parts.push(...openMarks(state, marks.slice(keepCount), linkTarget), body);
+        pendingSpaces = trailing;
+    });
+
+    return [...parts, ...closeMarks(state, 0), pendingSpaces].join('');
+};
+
+/**
+ * セグメントの書式から、出力するインライン書式の記号を出力順に取得する
+ * @param segment 対象のセグメント
+ * @returns インライン書式の記号（外側から順）
+ */
+const collectInlineMarks = (segment: RichTextSegment): InlineMark[] => {
+    const font: FontStyle = segment.font ?? {};
+    const enabled: Record<InlineMark, boolean> = {
+        link: segment.link !== undefined,
+        strike: font.strike === true,
+        bold: font.bold === true,
+        italic: font.italic === true
+    };
+    return INLINE_MARK_ORDER.filter(mark => enabled[mark]);
+};
+
+/**
+ * 開いている記号のうち、次のセグメントでも開いたままにできる（外側から共通する）記号の数を求める
+ * @param state インライン書式の出力中の状態
+ * @param marks 次のセグメントの記号
+ * @param linkTarget 次のセグメントのリンク先
+ * @returns 開いたままにする記号の数
+ */
+const countCommonMarks = (state: InlineState, marks: InlineMark[], linkTarget: string): number => {
+    const index = state.marks.findIndex((mark, position) => {
+        return mark !== marks[position] || (mark === 'link' && state.linkTarget !== linkTarget);
+    });
+    return index === -1 ? state.marks.length : index;
+};
+
+/**
+ * 開いている記号を、指定した数を残して内側から閉じる
+ * @param state インライン書式の出力中の状態（閉じた記号を除去する）
+ * @param keepCount 開いたままにする記号の数
+ * @returns 閉じる記号の文字列の配列
+ */
+const closeMarks = (state: InlineState, keepCount: number): string[] => {
+    const closing = state.marks.slice(keepCount).reverse()
+        .map(mark => mark === 'link' ? `](${formatLinkDestination(state.linkTarget)})` : INLINE_MARK_DELIMITERS[mark]);
+    state.marks = state.marks.slice(0, keepCount);
+    return closing;
+};
+
+/**
+ * 記号を外側から開く
+ * @param state インライン書式の出力中の状態（開いた記号を追加する）
+ * @param marks 開く記号
+ * @param linkTarget リンク先（リンクを開く場合）
+ * @returns 開く記号の文字列の配列
+ */
+const openMarks = (state: InlineState, marks: InlineMark[], linkTarget: string): string[] => {
+    state.marks = [...state.marks, ...marks];
+    if (marks.includes('link')) {
+        state.linkTarget = linkTarget;
+    }
+    return marks.map(mark => mark === 'link' ? '[' : INLINE_MARK_DELIMITERS[mark]);
+};
+
+/**
+ * セグメントを、先頭の空白・本文・末尾の空白に分割して出力用の文字列にする
+ * 書式の記号の内側に空白があると記号として解釈されないため、空白は記号の外に出す（インラインコードと脚注の参照は分割しない）
+ * @param segment 対象のセグメント
+ * @param footnoteLabels 脚注の番号とラベルの対応
+ * @returns 先頭の空白・本文・末尾の空白
+ */
+const splitSurroundingSpaces = (segment: RichTextSegment, footnoteLabels: Map<number, string>): [string, string, string] => {
+    if (segment.footnote) {
+        return ['', `[^${footnoteLabels.get(segment.footnote.number) ?? segment.footnote.number}]`, ''];
+    }
+
+    if (segment.font?.code) {
+        return ['', formatCodeSpan(segment.text), ''];
+    }
+
+    const match = segment.text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+    return [match[1], escapeInlineText(match[2]), match[3]];
+};
+
+/**
+ * テキストの中のインライン書式の記号とHTMLエンティティをエスケープする
+ * @param text 対象のテキスト
+ * @returns エスケープしたテキスト
+ */
+const escapeInlineText = (text: string): string => {
+    return text.replace(INLINE_SPECIAL_CHARACTER_PATTERN, char => `\\${char}`).replace(ENTITY_PATTERN, '\\&');
+};
+
+/**
+ * インラインコードを、内容に含まれる ` の並びより長い ` で囲む
+ * 内容が ` で始まる・終わる場合と、前後が空白の場合は、内側に空白を1つ補う（囲みの直後・直前の1つの空白は除去される）
+ * @param text インラインコードの内容
+ * @returns インラインコードの記法
+ */
+const formatCodeSpan = (text: string): string => {
+    const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const needsPadding = text.startsWith('`') || text.endsWith('`') || (text.startsWith(' ') && text.endsWith(' ') && text.trim().length > 0);
+    return needsPadding ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+};
+
+/**
+ * リンク先を出力する（空白や括弧を含むリンク先は <> で囲む）
+ * @param target リンク先
+ * @returns リンクの記法のリンク先
+ */
+const formatLinkDestination = (target: string): string => {
+    return /[\s()<>]/.test(target) ? `<${target.replace(/[<>]/g, char => `\\${char}`)}>` : target;
+};
+
+/**
+ * 段落の行の先頭が、ブロック要素の記号（見出し・引用・リスト・表・コンテナ）として解釈されないようにエスケープする
+ * @param text 段落の行のMarkdownのテキスト
+ * @returns 行頭をエスケープしたテキスト
+ */
+const escapeLineStart = (text: string): string => {
+    if (BLOCK_START_PATTERN.test(text) || CONTAINER_START_PATTERN.test(text)) {
+        return `\\${text}`;
+    }
+
+    return text.replace(ORDERED_MARKER_START_PATTERN, (_, number: string, delimiter: string) => `${number}\\${delimiter}`);
+};
+
+/**
+ * リッチテキストから、指定した位置の文字を除去する
+ * @param segments リッチテキスト
+ * @param start 除去する最初の文字の位置
+ * @param length 除去する文字数
+ * @returns 文字を除去したリッチテキスト（空になったセグメントは除く）
+ */
+const removeText = (segments: RichTextSegment[], start: number, length: number): RichTextSegment[] => {
+    let offset = 0;
+
+    return segments.flatMap(segment => {
+        const segmentStart = offset;
+        offset += segment.text.length;
+
+        const from = Math.max(0, start - segmentStart);
+        const to = Math.max(0, start + length - segmentStart);
+        const text = segment.text.slice(0, from) + segment.text.slice(to);
+        return text.length > 0 ? [{ ...segment, text }] : [];
+    });
+};
+
+/**
+ * セグメントの書式から指定した書式を除去する
+ * @param segment 対象のセグメント
+ * @param key 除去する書式
+ * @returns 書式を除去したセグメント
+ */
+const withoutFont = (segment: RichTextSegment, key: keyof FontStyle): RichTextSegment => {
+    if (!segment.font) {
+        return segment;
+    }
+
+    const { [key]: _, ...font } = segment.font;
+    return { ...segment, font };
+};
@@ -0,0 +1,181 @@
+/**
+ * 行の比較で検出した、変更された範囲を表すインターフェース
+ */
+export interface LineDiffRange {
+    /** 変更前の行の範囲の開始位置（0から開始） */
+    beforeStart: number;
+    /** 変更前の行の範囲の終了位置（この位置の行を含まない。挿入の場合は beforeStart と同じ） */
+    beforeEnd: number;
+    /** 変更後の行の範囲の開始位置（0から開始） */
+    afterStart: number;
+    /** 変更後の行の範囲の終了位置（この位置の行を含まない。削除の場合は afterStart と同じ） */
+    afterEnd: number;
+}
+
+/**
+ * 最長共通部分列の長さの表の要素数の上限（Uint32Array で約16MB）
+ * 先頭と末尾の一致する行を除いた範囲がこれを超える場合は、範囲全体を1つの変更として扱う
+ */
+const MAX_COMMON_LENGTH_TABLE_SIZE = 4000000;
+
+/**
+ * 2つの行の配列を比較し、変更された範囲を求める
+ * 最長共通部分列に含まれない行を変更とし、連続する変更を1つの範囲にまとめる
+ * 先頭と末尾の一致する行は比較の前に除外する（編集が一部に集中している場合の計算量を抑える）
+ * 残りの範囲の表が上限を超える場合は、残りの範囲全体を1つの変更された範囲として返す
+ * @param before 変更前の行
+ * @param after 変更後の行
+ * @returns 変更された範囲（行の順）
+ */
+export const diffLines = (before: string[], after: string[]): LineDiffRange[] => {
+    const prefixLength = countCommonPrefix(before, after);
+    const suffixLength = countCommonSuffix(before.slice(prefixLength), after.slice(prefixLength));
+    const beforeMiddle = before.slice(prefixLength, before.length - suffixLength);
+    const afterMiddle = after.slice(prefixLength, after.length - suffixLength);
+
+    if (beforeMiddle.length === 0 && afterMiddle.length === 0) {
+        return [];
+    }
+
+    if ((beforeMiddle.length + 1) * (afterMiddle.length + 1) > MAX_COMMON_LENGTH_TABLE_SIZE) {
+        return [{
+            beforeStart: prefixLength,
+            beforeEnd: prefixLength + beforeMiddle.length,
+            afterStart: prefixLength,
+            afterEnd: prefixLength + afterMiddle.length
+        }];
+    }
+
+    const ranges: LineDiffRange[] = [];
+    const table = buildCommonLengthTable(beforeMiddle, afterMiddle);
+    const width = afterMiddle.length + 1;
+    let beforeIndex = 0;
+    let afterIndex = 0;
+    let current: LineDiffRange | null = null;
+
+    // 1回の処理で少なくとも一方の位置が進むため、処理の回数は両方の行の数の合計以下になる
+    const maxSteps = beforeMiddle.length + afterMiddle.length;
+    for (let step = 0; step < maxSteps && (beforeIndex < beforeMiddle.length || afterIndex < afterMiddle.length); step++) {
+        const isEqual = beforeIndex < beforeMiddle.length && afterIndex < afterMiddle.length &&
+            beforeMiddle[beforeIndex] === afterMiddle[afterIndex];
+
+        if (isEqual) {
+            current = null;
+            beforeIndex++;
+            afterIndex++;
+            continue;
+        }
+
+        if (!current) {
+            current = {
+                beforeStart: prefixLength + beforeIndex,
+                beforeEnd: prefixLength + beforeIndex,
+                afterStart: prefixLength + afterIndex,
+                afterEnd: prefixLength + afterIndex
+            };
+            ranges.push(current);
+        }
+
+        // 削除した場合と挿入した場合のうち、残りの共通部分列が長くなる方を選ぶ（同じ場合は削除を先にする）
+        const canDelete = beforeIndex < beforeMiddle.length;
+        const deletesFirst = canDelete && (afterIndex === afterMiddle.length ||
+            table[(beforeIndex + 1) * width + afterIndex] >= table[beforeIndex * width + afterIndex + 1]);
+
+        if (deletesFirst) {
+            beforeIndex++;
+            current.beforeEnd++;
+            continue;
+        }
+
+        afterIndex++;
+        current.afterEnd++;
+    }
+
+    return ranges;
+};
+
+/**
+ * 2つの行の配列の行を対応付ける
+ * 一致する行に加え、変更された範囲の中で同じ位置にある行（書式やテキストを変更した行とみなす）を対応付ける
+ * @param before 変更前の行
+ * @param after 変更後の行
+ * @returns 対応する変更前の行の位置と変更後の行の位置の組（行の順）
+ */
+export const alignLines = (before: string[], after: string[]): Array<[number, number]> => {
+    const pairs: Array<[number, number]> = [];
+    let beforeIndex = 0;
+    let afterIndex = 0;
+
+    const pairEqualLines = (beforeEnd: number) => {
+        for (; beforeIndex < beforeEnd; beforeIndex++, afterIndex++) {
+            pairs.push([beforeIndex, afterIndex]);
+        }
+    };
+
+    diffLines(before, after).forEach(range => {
+        pairEqualLines(range.beforeStart);
+
+        const pairCount = Math.min(range.beforeEnd - range.beforeStart, range.afterEnd - range.afterStart);
+        Array.from({ length: pairCount }, (_, offset) => pairs.push([range.beforeStart + offset, range.afterStart + offset]));
+
+        beforeIndex = range.beforeEnd;
+        afterIndex = range.afterEnd;
+    });
+
+    pairEqualLines(before.length);
+    return pairs;
+};
+
+/**
+ * 先頭から一致する行の数を求める
+ * @param before 変更前の行
+ * @param after 変更後の行
+ * @returns 先頭から一致する行の数
+ */
+const countCommonPrefix = (before: string[], after: string[]): number => {
+    const maxLength = Math.min(before.length, after.length);
+    for (let length = 0; length < maxLength; length++) {
+        if (before[length] !== after[length]) {
+            return length;
+        }
+    }
+    return maxLength;
+};
+
+/**
+ * 末尾から一致する行の数を求める
+ * @param before 変更前の行
+ * @param after 変更後の行
+ * @returns 末尾から一致する行の数
+ */
+const countCommonSuffix = (before: string[], after: string[]): number => {
+    const maxLength = Math.min(before.length, after.length);
+    for (let length = 0; length < maxLength; length++) {
+        if (before[before.length - 1 - length] !== after[after.length - 1 - length]) {
+            return length;
+        }
+    }
+    return maxLength;
+};
+
+/**
+ * 各位置以降の最長共通部分列の長さの表を作成する
+ * @param before 変更前の行
+ * @param after 変更後の行
+ * @returns (before.length + 1) × (after.length + 1) の表（[i * (after.length + 1) + j] が before[i..] と after[j..] の最長共通部分列の長さ）
+ */
+const buildCommonLengthTable = (before: string[], after: string[]): Uint32Array => {
+    const width = after.length + 1;
+    const table = new Uint32Array((before.length + 1) * width);
+
+    for (let beforeIndex = before.length - 1; beforeIndex >= 0; beforeIndex--) {
+        for (let afterIndex = after.length - 1; afterIndex >= 0; afterIndex--) {
+            const cell = beforeIndex * width + afterIndex;
+            table[cell] = before[beforeIndex] === after[afterIndex]
+                ? table[cell + width + 1] + 1
+                : Math.max(table[cell + width], table[cell + 1]);
+        }
+    }
+
+    return table;
+};
@@ -0,0 +1,138 @@
+import { diffLines, LineDiffRange } from './line-diff';
+
+/**
+ * 変更の前後に出力する変更していない行の数
+ */
+const DEFAULT_CONTEXT_LENGTH = 3;
+
+/**
+ * 末尾に改行のない行の直後に出力する印
+ */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * パッチの比較対象のファイルの行を表すインターフェース
+ */
+interface PatchFile {
+    /** 行（末尾の改行の後の空の行は含まない） */
+    lines: string[];
+    /** 最後の行の末尾に改行があるかどうか */
+    hasFinalNewline: boolean;
+}
+
+/**
+ * 2つのテキストを比較し、unified形式のパッチを作成する
+ * 変更前のテキストを --- a/ファイル名、変更後のテキストを +++ b/ファイル名 とし、近接する変更は1つのハンクにまとめる
+ * @param fileName パッチに記載するファイル名
+ * @param before 変更前のテキスト
+ * @param after 変更後のテキスト
+ * @param contextLength 変更の前後に出力する変更していない行の数
+ * @returns unified形式のパッチ（変更がない場合は空文字列）
+ */
+export const createUnifiedPatch = (fileName: string, before: string, after: string, contextLength: number = DEFAULT_CONTEXT_LENGTH): string => {
+    const beforeFile = toPatchFile(before);
+    const afterFile = toPatchFile(after);
+    const ranges = diffLines(toComparisonKeys(beforeFile), toComparisonKeys(afterFile));
+
+    if (ranges.length === 0) {
+        return '';
+    }
+
+    const hunks = groupRanges(ranges, contextLength).map(group => formatHunk(group, beforeFile, afterFile, contextLength));
+    return [`--- a/${fileName}`, `+++ b/${fileName}`, ...hunks.flat(), ''].join('\n');
+};
+
+/**
+ * テキストを行に分割する（改行コードはLFに正規化する）
+ * @param text 対象のテキスト
+ * @returns パッチの比較対象のファイルの行
+ */
+const toPatchFile = (text: string): PatchFile => {
+    if (text.length === 0) {
+        return { lines: [], hasFinalNewline: true };
+    }
+
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const hasFinalNewline = lines[lines.length - 1] === '';
+    return { lines: hasFinalNewline ? lines.slice(0, -1) : lines, hasFinalNewline };
+};
+
+/**
+ * 比較に使用する行の値を作成する
+ * 末尾に改行のない最後の行は、改行のある同じ内容の行と一致しない値にする
+ * @param file パッチの比較対象のファイルの行
+ * @returns 比較に使用する行の値
+ */
+const toComparisonKeys = (file: PatchFile): string[] => {
+    return file.lines.map((line, index) => !file.hasFinalNewline && index === file.lines.length - 1 ? `${line}\u0000` : line);
+};
+
+/**
+ * 変更された範囲のうち、間の変更していない行が前後の行の合計以下のものを1つのハンクにまとめる
+ * @param ranges 変更された範囲
+ * @param contextLength 変更の前後に出力する変更していない行の数
+ * @returns ハンクごとの変更された範囲
+ */
+const groupRanges = (ranges: LineDiffRange[], contextLength: number): LineDiffRange[][] => {
+    return ranges.reduce<LineDiffRange[][]>((groups, range) => {
+        const lastGroup = groups[groups.length - 1];
+        const previous = lastGroup?.[lastGroup.length - 1];
+        if (previous && range.beforeStart - previous.beforeEnd <= contextLength * 2) {
+            lastGroup.push(range);
+            return groups;
+        }
+        return [...groups, [range]];
+    }, []);
+};
+
+/**
+ * 1つのハンクを出力する
+ * @param ranges ハンクに含める変更された範囲
+ * @param beforeFile 変更前のファイル
+ * @param afterFile 変更後のファイル
+ * @param contextLength 変更の前後に出力する変更していない行の数
+ * @returns ハンクの行（@@ の行を含む）
+ */
+const formatHunk = (ranges: LineDiffRange[], beforeFile: PatchFile, afterFile: PatchFile, contextLength: number): string[] => {
+    const first = ranges[0];
+    const last = ranges[ranges.length - 1];
+    const beforeStart = Math.max(0, first.beforeStart - contextLength);
+    const beforeEnd = Math.min(beforeFile.lines.length, last.beforeEnd + contextLength);
+    const afterStart = first.afterStart - (first.beforeStart - beforeStart);
+    const afterEnd = last.afterEnd + (beforeEnd - last.beforeEnd);
+
+    const formatLine = (prefix: string, file: PatchFile, index: number): string[] => {
+        const isLastWithoutNewline = !file.hasFinalNewline && index === file.lines.length - 1;
+        return isLastWithoutNewline ? [`${prefix}${file.lines[index]}`, NO_NEWLINE_MARKER] : [`${prefix}${file.lines[index]}`];
+    };
+    const formatContext = (from: number, to: number): string[] => {
+        return Array.from({ length: Math.max(0, to - from) }, (_, offset) => formatLine(' ', beforeFile, from + offset)).flat();
+    };
+
+    const body = ranges.flatMap((range, index) => {
+        const contextStart = index === 0 ? beforeStart : ranges[index - 1].beforeEnd;
+        return [
+            ...formatContext(contextStart, range.beforeStart),
+            ...Array.from({ length: range.beforeEnd - range.beforeStart }, (_, offset) => formatLine('-', beforeFile, range.beforeStart + offset)).flat(),
+            ...Array.from({ length: range.afterEnd - range.afterStart }, (_, offset) => formatLine('+', afterFile, range.afterStart + offset)).flat()
+        ];
+    });
+
+    const header = `@@ -${formatHunkRange(beforeStart, beforeEnd)} +${formatHunkRange(afterStart, afterEnd)} @@`;
+    return [header, ...body, ...formatContext(last.beforeEnd, beforeEnd)];
+};
+
+/**
+ * ハンクの範囲を「開始行,行数」の形式で出力する
+ * 行数が1の場合は行数を省略し、行数が0の場合は範囲の直前の行を開始行とする
+ * @param start 範囲の開始位置（0から開始）
+ * @param end 範囲の終了位置（この位置の行を含まない）
+ * @returns ハンクの範囲
+ */
+const formatHunkRange = (start: number, end: number): string => {
+    const count = end - start;
+    if (count === 1) {
+        return `${start + 1}`;
+    }
+    return `${count === 0 ? start : start + 1},${count}`;
+};
@@ -0,0 +1,285 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    Document, ExcelConfig, LineChange, LineChangeType, MergeResult, SerializedLine, SyncConflict, SyncHunk, SyncOptions, SyncResult
+} from '../types';
+import { defaultExcelConfig } from '../config';
+import { normalizeAndSplitLines, parseMarkdown } from '../parser/markdown-parser';
+import { writeExcel } from '../writer/excel-writer';
+import { readWorkbook } from '../reader/excel-reader';
+import { serializeMarkdownLines } from '../reader/markdown-serializer';
+import { alignLines, diffLines, LineDiffRange } from './line-diff';
+import { createUnifiedPatch } from './unified-patch';
+
+/**
+ * 変換元のMarkdownの行の範囲を表すインターフェース
+ */
+interface SourceRange {
+    /** 範囲の開始位置（0から開始） */
+    start: number;
+    /** 範囲の終了位置（この位置の行を含まない） */
+    end: number;
+}
+
+/**
+ * 変換後に編集されたExcelブックの編集を、Markdownファイルに反映する
+ * Excelブックの編集は変換元のMarkdownに対するunified形式のパッチとして返し、
+ * 現在のMarkdownファイルに適用した結果は、Markdownファイルも変更されている範囲の編集を競合として除外する
+ * @param markdownPath Markdownファイルのパス
+ * @param workbookPath 変換後に編集されたExcelファイルのパス
+ * @param options 変換時に使用したExcel設定、Excelに変換した時点のMarkdown、Markdownファイルに書き込むかどうかなど
+ * @returns Excelブックの編集・パッチ・現在のMarkdownに適用した結果
+ * @throws ファイルが存在しない場合、読み込むシートがExcelブックにない場合
+ */
+export const syncMarkdownFile = async (markdownPath: string, workbookPath: string, options: SyncOptions = {}): Promise<SyncResult> => {
+    const missingPath = [markdownPath, workbookPath].find(filePath => !fs.existsSync(filePath));
+    if (missingPath) {
+        throw new Error(`ファイルが見つかりません: ${missingPath}`);
+    }
+
+    const currentMarkdown = await fs.promises.readFile(markdownPath, 'utf8');
+    const originalMarkdown = options.originalMarkdown ?? currentMarkdown;
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(workbookPath);
+
+    const hunks = await diffWorkbook(originalMarkdown, workbook, {
+        ...options,
+        baseDirectory: options.baseDirectory ?? path.dirname(path.resolve(markdownPath))
+    });
+    const edited = mergeWorkbookEdits(originalMarkdown, originalMarkdown, hunks).content;
+    const patch = createUnifiedPatch(path.basename(markdownPath), originalMarkdown, edited);
+    const merge = mergeWorkbookEdits(originalMarkdown, currentMarkdown, hunks);
+
+    if (options.apply && merge.applied.length > 0) {
+        await fs.promises.writeFile(markdownPath, merge.content, 'utf8');
+    }
+
+    return { hunks, patch, merge };
+};
+
+/**
+ * 変換元のMarkdownと変換後に編集されたExcelブックを比較し、Excelブックの編集を変換元のMarkdownの行の置き換えとして求める
+ * 変換元のMarkdownを改めてExcelに変換して読み込んだ行と、編集されたExcelブックから読み込んだ行をMarkdownの行として比較するため、
+ * Excelに変換すると失われる違い（本文と同じフォントサイズの見出しや画像など）は編集として検出しない
+ * 編集した行はExcelブックから復元したMarkdownの記法で置き換え、編集していない行は変換元のMarkdownの記述を保持する
+ * @param originalMarkdown Excelに変換した時点のMarkdown
+ * @param workbook 変換後に編集されたExcelブック
+ * @param options 変換時に使用したExcel設定、読み込むシート名（未指定時は変換元のMarkdownを変換して出力されるシート）と画像の基準ディレクトリ
+ * @returns Excelブックの編集（変換元のMarkdownの行の順）
+ * @throws 読み込むシートがブックにない場合
+ */
+export const diffWorkbook = async (
+    originalMarkdown: string,
+    workbook: ExcelJS.Workbook,
+    options: Pick<SyncOptions, 'config' | 'sheetNames' | 'baseDirectory'> = {}
+): Promise<SyncHunk[]> => {
+    const config = options.config ?? defaultExcelConfig;
+    const original = parseMarkdown(originalMarkdown, { config, baseDirectory: options.baseDirectory });
+    const converted = new ExcelJS.Workbook();
+    await converted.xlsx.load(await writeExcel(original, config) as unknown as Parameters<ExcelJS.Xlsx['load']>[0]);
+
+    // 変換で出力していないシート（利用者が追加したシートや、append で以前に追加したシート）は編集として読み込まない
+    const sheetNames = options.sheetNames ?? converted.worksheets.map(worksheet => worksheet.name);
+    const convertedDocument = readWorkbook(converted, { config });
+    const editedDocument = readWorkbook(workbook, { config, sheetNames });
+    const convertedLines = serializeMarkdownLines(convertedDocument, config);
+    const editedLines = serializeMarkdownLines(editedDocument, config);
+    const sourceRanges = mapToSourceRanges(original, convertedLines, config);
+
+    return diffLines(convertedLines.map(line => line.text), editedLines.map(line => line.text)).map(range => {
+        const removed = convertedLines.slice(range.beforeStart, range.beforeEnd);
+        const added = editedLines.slice(range.afterStart, range.afterEnd);
+        const { start, end } = resolveSourceRange(sourceRanges, range);
+
+        return {
+            start,
+            end,
+            lines: added.map(line => line.text),
+            changes: classifyChanges(removed, added, convertedDocument, editedDocument)
+        };
+    });
+};
+
+/**
+ * Excelブックの編集を、変換元のMarkdownから変更された可能性のある現在のMarkdownに適用する（3方向のマージ）
+ * 変換元のMarkdownから現在のMarkdownへの変更と範囲が重なる（挿入の場合は接する）編集は、
+ * 同じ変更でない限り競合として適用せず、現在のMarkdownの記述を残す
+ * 現在のMarkdownの改行コードと、末尾の改行の有無を保持する
+ * @param originalMarkdown Excelに変換した時点のMarkdown
+ * @param currentMarkdown 現在のMarkdown
+ * @param hunks Excelブックの編集（diffWorkbook の結果）
+ * @returns 競合しない編集を適用したMarkdownと、適用した編集・競合した編集
+ */
+export const mergeWorkbookEdits = (originalMarkdown: string, currentMarkdown: string, hunks: SyncHunk[]): MergeResult => {
+    const currentLines = normalizeAndSplitLines(currentMarkdown);
+    const markdownChanges = diffLines(normalizeAndSplitLines(originalMarkdown), currentLines);
+
+    const applied: SyncHunk[] = [];
+    const conflicts: SyncConflict[] = [];
+    // 現在のMarkdownの行の位置に置き換えた、適用する編集
+    const placements: Array<{ hunk: SyncHunk; start: number }> = [];
+
+    hunks.forEach(hunk => {
+        const overlapping = markdownChanges.filter(change => isOverlapping(hunk, change));
+        const shift = sumLineDelta(markdownChanges.filter(change => change.beforeEnd <= hunk.start && !overlapping.includes(change)));
+
+        if (overlapping.length === 0) {
+            applied.push(hunk);
+            placements.push({ hunk, start: hunk.start + shift });
+            return;
+        }
+
+        // Markdownファイルにも同じ変更がされている場合は適用済みとする
+        if (isSameChange(hunk, overlapping, currentLines)) {
+            applied.push(hunk);
+            return;
+        }
+
+        const regionStart = Math.min(hunk.start, ...overlapping.map(change => change.beforeStart)) + shift;
+        const regionEnd = Math.max(hunk.end, ...overlapping.map(change => change.beforeEnd)) + shift + sumLineDelta(overlapping);
+        conflicts.push({ hunk, line: regionStart + 1, currentLines: currentLines.slice(regionStart, regionEnd) });
+    });
+
+    // 後ろの編集から適用し、前の編集の位置がずれないようにする
+    const mergedLines = placements.reduceRight((lines, { hunk, start }) => [
+        ...lines.slice(0, start),
+        ...hunk.lines,
+        ...lines.slice(start + hunk.end - hunk.start)
+    ], currentLines);
+
+    // 末尾の改行の後への挿入で、ファイル末尾の改行が失われないようにする
+    const endsWithNewline = /[\r\n]$/.test(currentMarkdown);
+    const terminatedLines = endsWithNewline && mergedLines[mergedLines.length - 1] !== '' ? [...mergedLines, ''] : mergedLines;
+
+    const newline = currentMarkdown.includes('\r\n') ? '\r\n' : '\n';
+    return { content: terminatedLines.join(newline), applied, conflicts };
+};
+
+/**
+ * 変換元のMarkdownをExcelに変換して読み込んだ行ごとに、対応する変換元のMarkdownの行の範囲を求める
+ * 変換元の文書から直接Markdownに変換した行（変換元の行の位置が分かる）と比較して対応付ける
+ * Setext形式の見出しは下線の行を、フロントマターがある場合はその行数を含めた位置とする
+ * @param original 変換元の文書
+ * @param convertedLines Excelに変換して読み込んだ行
+ * @param config 変換時に使用したExcel設定
+ * @returns 行ごとの変換元のMarkdownの行の範囲（補ったコードブロックのフェンスなど対応する行がない場合はnull）
+ */
+const mapToSourceRanges = (
+    original: Document,
+    convertedLines: SerializedLine[],
+    config: ExcelConfig
+): Array<SourceRange | null> => {
+    const offset: number = original.metadata.frontMatterLineCount ?? 0;
+    const sourceLines = serializeMarkdownLines(original, config);
+    const ranges: Array<SourceRange | null> = convertedLines.map(() => null);
+
+    alignLines(sourceLines.map(line => line.text), convertedLines.map(line => line.text)).forEach(([sourceIndex, convertedIndex]) => {
+        const lineIndex = sourceLines[sourceIndex].lineIndex;
+        if (lineIndex === null) {
+            return;
+        }
+
+        const end = original.lines[lineIndex + 1]?.isSetextUnderline ? lineIndex + 2 : lineIndex + 1;
+        ranges[convertedIndex] = { start: lineIndex + offset, end: end + offset };
+    });
+
+    return ranges;
+};
+
+/**
+ * 変更された範囲に対応する、変換元のMarkdownの行の範囲を求める
+ * 範囲の中に変換元の行と対応する行がない場合（挿入）は、直前の対応する行の後（ない場合は直後の対応する行の前）の位置とする
+ * @param sourceRanges Excelに変換して読み込んだ行ごとの変換元のMarkdownの行の範囲
+ * @param range 変更された範囲
+ * @returns 置き換える変換元のMarkdownの行の範囲
+ */
+const resolveSourceRange = (sourceRanges: Array<SourceRange | null>, range: LineDiffRange): SourceRange => {
+    const isSourceRange = (sourceRange: SourceRange | null): sourceRange is SourceRange => sourceRange !== null;
+    const mapped = sourceRanges.slice(range.beforeStart, range.beforeEnd).filter(isSourceRange);
+
+    if (mapped.length > 0) {
+        return { start: mapped[0].start, end: mapped[mapped.length - 1].end };
+    }
+
+    const previous = sourceRanges.slice(0, range.beforeStart).filter(isSourceRange).pop();
+    const next = sourceRanges.slice(range.beforeEnd).find(isSourceRange);
+    const position = previous?.end ?? next?.start ?? 0;
+    return { start: position, end: position };
+};
+
+/**
+ * 変更された範囲の行を、行ごとの変更に分類する
+ * 範囲の中で同じ位置にある行は変更した行とし、文書の行のプレーンテキストが同じ場合は書式のみの変更とする
+ * 残りの行は削除または挿入とする
+ * @param removed 変更前の行
+ * @param added 変更後の行
+ * @param convertedDocument 変換元のMarkdownをExcelに変換して読み込んだ文書
+ * @param editedDocument 編集されたExcelブックから読み込んだ文書
+ * @returns 行ごとの変更
+ */
+const classifyChanges = (
+    removed: SerializedLine[],
+    added: SerializedLine[],
+    convertedDocument: Document,
+    editedDocument: Document
+): LineChange[] => {
+    const pairCount = Math.min(removed.length, added.length);
+    const toPlainText = (document: Document, line: SerializedLine): string | null => {
+        return line.lineIndex === null ? null : document.lines[line.lineIndex].plainText;
+    };
+
+    const modified = removed.slice(0, pairCount).map((before, index): LineChange => {
+        const after = added[index];
+        const beforeText = toPlainText(convertedDocument, before);
+        const isFormatOnly = beforeText !== null && beforeText === toPlainText(editedDocument, after);
+        return { type: isFormatOnly ? LineChangeType.Format : LineChangeType.Text, before: before.text, after: after.text };
+    });
+
+    return [
+        ...modified,
+        ...removed.slice(pairCount).map(line => ({ type: LineChangeType.Delete, before: line.text, after: null })),
+        ...added.slice(pairCount).map(line => ({ type: LineChangeType.Insert, before: null, after: line.text }))
+    ];
+};
+
+/**
+ * Excelブックの編集とMarkdownの変更の範囲が重なるかどうかを判定する
+ * どちらかが挿入の場合は、挿入の位置が他方の範囲の端に接する場合も重なるとする（挿入の順序が決まらないため）
+ * @param hunk Excelブックの編集
+ * @param change 変換元のMarkdownから現在のMarkdownへの変更
+ * @returns 重なる場合はtrue
+ */
+const isOverlapping = (hunk: SyncHunk, change: LineDiffRange): boolean => {
+    const isInsertion = hunk.start === hunk.end || change.beforeStart === change.beforeEnd;
+    return isInsertion
+        ? hunk.start <= change.beforeEnd && change.beforeStart <= hunk.end
+        : hunk.start < change.beforeEnd && change.beforeStart < hunk.end;
+};
+
+/**
+ * Excelブックの編集と、範囲が重なるMarkdownの変更が同じ変更かどうかを判定する
+ * @param hunk Excelブックの編集
+ * @param overlapping 範囲が重なるMarkdownの変更
+ * @param currentLines 現在のMarkdownの行
+ * @returns 同じ範囲を同じ行に置き換えている場合はtrue
+ */
+const isSameChange = (hunk: SyncHunk, overlapping: LineDiffRange[], currentLines: string[]): boolean => {
+    if (overlapping.length !== 1) {
+        return false;
+    }
+
+    const [change] = overlapping;
+    const changedLines = currentLines.slice(change.afterStart, change.afterEnd);
+    return change.beforeStart === hunk.start && change.beforeEnd === hunk.end &&
+        changedLines.length === hunk.lines.length && changedLines.every((line, index) => line === hunk.lines[index]);
+};
+
+/**
+ * 変更による行数の増減の合計を求める
+ * @param changes 変更された範囲
+ * @returns 行数の増減の合計
+ */
+const sumLineDelta = (changes: LineDiffRange[]): number => {
+    return changes.reduce((sum, change) => sum + (change.afterEnd - change.afterStart) - (change.beforeEnd - change.beforeStart), 0);
+};
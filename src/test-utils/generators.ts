@@ -1,5 +1,5 @@
 import * as fc from 'fast-check';
-import { DocumentLine, FormatInfo, ExcelConfig, RichTextSegment, LineType } from '../types';
+import { DocumentLine, FormatInfo, ExcelConfig, RichTextSegment, LineType, OutputMode } from '../types';
 import { defaultExcelConfig } from '../config';
 
 /**
@@ -89,6 +89,14 @@ export const markdownFileNameGenerator = fc.tuple(
 export const excelFileNameGenerator = fc.string({ minLength: 1, maxLength: 50 })
     .map(name => name + '.xlsx');
 
+/**
+ * 設定のカラーコード（RGB 6桁 または ARGB 8桁）生成用のジェネレーター
+ */
+const hexColorGenerator = fc.oneof(
+    fc.hexaString({ minLength: 6, maxLength: 6 }),
+    fc.hexaString({ minLength: 8, maxLength: 8 })
+);
+
 /**
  * FormatInfo生成用のジェネレーター
  */
@@ -155,8 +163,8 @@ export const documentLineGenerator: fc.Arbitrary<DocumentLine> = fc.record({
  * ExcelConfig生成用のジェネレーター
  */
 export const excelConfigGenerator: fc.Arbitrary<ExcelConfig> = fc.record({
-    cellWidth: fc.float({ min: 5.0, max: 50.0 }),
-    rowHeight: fc.float({ min: 10.0, max: 100.0 }),
+    cellWidth: fc.float({ min: 5.0, max: 50.0, noNaN: true }),
+    rowHeight: fc.float({ min: 10.0, max: 100.0, noNaN: true }),
     indentColumnOffset: fc.integer({ min: 1, max: 5 }),
     fontName: fc.oneof(
         fc.constant('Arial'),
@@ -171,15 +179,44 @@ export const excelConfigGenerator: fc.Arbitrary<ExcelConfig> = fc.record({
     baseFontSize: fc.integer({ min: 8, max: 16 }),
     headerFontSizes: fc.constant(defaultExcelConfig.headerFontSizes),
     codeBackgroundColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
+    codeBorderColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
     quoteBackgroundColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
     imageBackgroundColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
     quoteBorderColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
+    alertStyles: fc.constant(defaultExcelConfig.alertStyles),
     horizontalRuleColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
-    codeColor: fc.hexaString({ minLength: 6, maxLength: 8 }),
-    inlineCodeColor: fc.hexaString({ minLength: 6, maxLength: 8 }),
-    linkColor: fc.hexaString({ minLength: 6, maxLength: 8 }),
+    tableHeaderBackgroundColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
+    tableBorderColor: fc.hexaString({ minLength: 6, maxLength: 6 }),
+    tableMinColumnSpan: fc.integer({ min: 1, max: 3 }),
+    tableMaxColumnSpan: fc.integer({ min: 3, max: 20 }),
+    imageMaxWidthCells: fc.integer({ min: 1, max: 60 }),
+    codeBlockWidthCells: fc.integer({ min: 1, max: 60 }),
+    showDocumentInfo: fc.boolean(),
+    generateTableOfContents: fc.constant(defaultExcelConfig.generateTableOfContents),
+    linkMode: fc.constant(defaultExcelConfig.linkMode),
+    linkAppendix: fc.constant(defaultExcelConfig.linkAppendix),
+    footnoteMode: fc.constant(defaultExcelConfig.footnoteMode),
+    completedTaskStyle: fc.constant(defaultExcelConfig.completedTaskStyle),
+    completedTaskColor: hexColorGenerator,
+    taskSummary: fc.constant(defaultExcelConfig.taskSummary),
+    tabWidth: fc.constant(defaultExcelConfig.tabWidth),
+    orderedListStyles: fc.constant(defaultExcelConfig.orderedListStyles),
+    sheetSplitMode: fc.constant(defaultExcelConfig.sheetSplitMode),
+    groupSectionsByHeading: fc.boolean(),
+    groupNestedListItems: fc.boolean(),
+    codeColor: hexColorGenerator,
+    syntaxHighlighting: fc.boolean(),
+    syntaxColors: fc.record({
+        keyword: hexColorGenerator,
+        string: hexColorGenerator,
+        comment: hexColorGenerator,
+        number: hexColorGenerator
+    }),
+    inlineCodeColor: hexColorGenerator,
+    linkColor: hexColorGenerator,
     imageAltColor: fc.constant(defaultExcelConfig.imageAltColor),
-    sheetName: fc.constant(defaultExcelConfig.sheetName)
+    sheetName: fc.constant(defaultExcelConfig.sheetName),
+    outputMode: fc.constantFrom(...Object.values(OutputMode))
 });
 
 /**
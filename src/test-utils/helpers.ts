@@ -1,7 +1,9 @@
+import * as ExcelJS from 'exceljs';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { DocumentLine, Document, ExcelConfig, LineType } from '../types';
+import { validateExcelConfig } from '../config/validation';
 
 /**
  * 一時ファイルを作成するヘルパー関数
@@ -29,6 +31,17 @@ export function deleteTempFile(filePath: string): void {
     }
 }
 
+/**
+ * writeExcel が生成したExcelファイルのBufferをワークブックとして読み込むヘルパー関数
+ * @param excelBuffer 生成されたExcelファイルのBuffer
+ * @returns 読み込んだワークブック
+ */
+export async function loadWorkbook(excelBuffer: Buffer): Promise<ExcelJS.Workbook> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(excelBuffer as unknown as Parameters<ExcelJS.Xlsx['load']>[0]);
+    return workbook;
+}
+
 /**
  * ファイルが存在するかチェックするヘルパー関数
  */
@@ -77,22 +90,10 @@ export function isValidDocument(doc: Document): boolean {
 
 /**
  * ExcelConfigが有効かチェックするヘルパー関数
+ * 検証内容は設定ファイルの読み込み時と共通の validateExcelConfig に従う
  */
 export function isValidExcelConfig(config: ExcelConfig): boolean {
-    return (
-        typeof config.cellWidth === 'number' && config.cellWidth > 0 &&
-        typeof config.rowHeight === 'number' && config.rowHeight > 0 &&
-        typeof config.indentColumnOffset === 'number' && config.indentColumnOffset > 0 &&
-        typeof config.fontName === 'string' && config.fontName.length > 0 &&
-        typeof config.codeFontName === 'string' && config.codeFontName.length > 0 &&
-        typeof config.baseFontSize === 'number' && config.baseFontSize > 0 &&
-        typeof config.headerFontSizes === 'object' &&
-        typeof config.codeBackgroundColor === 'string' &&
-        typeof config.quoteBackgroundColor === 'string' &&
-        typeof config.imageBackgroundColor === 'string' &&
-        typeof config.quoteBorderColor === 'string' &&
-        typeof config.horizontalRuleColor === 'string'
-    );
+    return validateExcelConfig(config).length === 0;
 }
 
 /**
@@ -30,6 +30,10 @@ export interface RichTextSegment {
         src: string;
         alt: string;
     };
+    /** 脚注の参照情報（本文中の [^label] を置き換えた ※n の部分のみ） */
+    footnote?: {
+        number: number;
+    };
 }
 
 /**
@@ -46,6 +50,182 @@ export enum LineType {
     Empty = 'empty'
 }
 
+/**
+ * 表の列揃えを表す列挙型（区切り行の `:---:` 記法に対応）
+ */
+export enum TableAlignment {
+    None = 'none',
+    Left = 'left',
+    Center = 'center',
+    Right = 'right'
+}
+
+/**
+ * 表ブロック内での行の役割を表す列挙型
+ */
+export enum TableRowRole {
+    Header = 'header',
+    Delimiter = 'delimiter',
+    Body = 'body'
+}
+
+/**
+ * コードブロック内での行の役割を表す列挙型
+ */
+export enum CodeBlockRole {
+    Open = 'open',          // 開始のフェンス行（```言語名）
+    Content = 'content',    // コードの行
+    Close = 'close'         // 終了のフェンス行（```）
+}
+
+/**
+ * コードブロックの色分けの配色を表すインターフェース
+ */
+export interface SyntaxColorPalette {
+    /** キーワード（予約語・真偽値など）の文字色 */
+    keyword: string;
+    /** 文字列の文字色 */
+    string: string;
+    /** コメントの文字色 */
+    comment: string;
+    /** 数値の文字色 */
+    number: string;
+}
+
+/**
+ * アラート（> [!NOTE] 形式の引用、:::note 形式のコンテナ）の種類を表す列挙型
+ */
+export enum AlertType {
+    Note = 'note',              // 補足情報
+    Tip = 'tip',                // 役に立つ情報
+    Important = 'important',    // 重要な情報
+    Warning = 'warning',        // 注意が必要な情報
+    Caution = 'caution'         // 危険・問題につながる操作
+}
+
+/**
+ * アラートの種類ごとの表示を表すインターフェース
+ */
+export interface AlertStyle {
+    /** アラートの1行目に表示するアイコン付きのラベル */
+    label: string;
+    /** 背景色（16進数） */
+    backgroundColor: string;
+    /** 左境界線とラベルの文字色（16進数） */
+    borderColor: string;
+}
+
+/**
+ * アラートの種類ごとの表示の設定を表す型
+ */
+export type AlertStylePalette = Record<AlertType, AlertStyle>;
+
+/**
+ * 本文中のリンクの表示方法を表す列挙型
+ */
+export enum LinkMode {
+    Footnote = 'footnote',  // リンクテキストに [n] を付与し、巻末のリンク一覧から参照する
+    Cell = 'cell'           // 行の最初のリンクをセル自体のハイパーリンクとする
+}
+
+/**
+ * 番号付きリストの番号の表記を表す列挙型
+ */
+export enum OrderedListStyle {
+    Decimal = 'decimal',            // 1, 2, 3
+    LowerAlpha = 'lower-alpha',     // a, b, c
+    UpperAlpha = 'upper-alpha',     // A, B, C
+    LowerRoman = 'lower-roman',     // i, ii, iii
+    UpperRoman = 'upper-roman'      // I, II, III
+}
+
+/**
+ * 完了したタスクリスト項目の表示方法を表す列挙型
+ */
+export enum CompletedTaskStyle {
+    None = 'none',          // 未完了の項目と同じ書式
+    Strike = 'strike',      // 取り消し線を付ける
+    Gray = 'gray'           // 文字色を灰色（completedTaskColor）にする
+}
+
+/**
+ * 見出しごとのタスクの集計（完了数/総数）の出力方法を表す列挙型
+ */
+export enum TaskSummaryMode {
+    None = 'none',          // 出力しない
+    Value = 'value',        // 変換時に集計した値を出力する
+    Formula = 'formula'     // チェック済みの行を数える数式を出力する（Excel上でチェックを変更すると再計算される）
+}
+
+/**
+ * 脚注の表示方法を表す列挙型
+ */
+export enum FootnoteMode {
+    Section = 'section',    // 本文の後に「脚注」として一覧を出力し、参照元へ戻るリンクを付与する
+    Comment = 'comment'     // 参照している行のセルにコメント（メモ）として付与する
+}
+
+/**
+ * ワークシートの分割方法を表す列挙型
+ */
+export enum SheetSplitMode {
+    None = 'none',          // 分割しない（1シートに出力）
+    Heading1 = 'h1',        // H1見出しごとに分割
+    Heading2 = 'h2',        // H1・H2見出しごとに分割
+    Marker = 'marker'       // <!-- sheet: シート名 --> の位置で分割
+}
+
+/**
+ * 出力先のExcelファイルが既に存在する場合の出力方法を表す列挙型
+ */
+export enum OutputMode {
+    Replace = 'replace',    // 同じ名前のシートを同じ位置で置き換え、それ以外のシートは残す
+    Append = 'append',      // 既存のシートを残し、重複しない名前（名前 (n)）のシートを追加する
+    New = 'new'             // 既存のファイルを読み込まず、新しいブックとして出力する
+}
+
+/**
+ * 表の1行分の構造情報を表すインターフェース
+ */
+export interface TableRowInfo {
+    /** 表ブロック内での行の役割 */
+    role: TableRowRole;
+    /** セルごとのリッチテキスト（区切り行は空配列） */
+    cells: RichTextSegment[][];
+    /** 列ごとの揃え（表ブロック内の全行で共通） */
+    alignments: TableAlignment[];
+}
+
+/**
+ * コードブロックの1行分の構造情報を表すインターフェース
+ */
+export interface CodeBlockInfo {
+    /** コードブロック内での行の役割 */
+    role: CodeBlockRole;
+    /** 開始のフェンス行に指定された言語名（指定がない場合は空文字） */
+    language: string;
+}
+
+/**
+ * タスクリスト項目（- [ ] / - [x]）の情報を表すインターフェース
+ */
+export interface TaskInfo {
+    /** 完了（チェック済み）かどうか */
+    checked: boolean;
+}
+
+/**
+ * 引用（> / >>）の中の行の構造情報を表すインターフェース
+ */
+export interface QuoteInfo {
+    /** 外側の引用から順に、各引用の左罫線を引くインデントレベル（要素数が引用の深さ） */
+    borderLevels: number[];
+    /** アラートの種類（アラートの中の行のみ。罫線と背景はアラートの種類ごとの色にする） */
+    alert?: AlertType;
+    /** ブロックの前の独立した行に表示するラベル（コードブロック・表で始まる引用ブロックの最初の行のみ） */
+    label?: string;
+}
+
 /**
  * ドキュメントの行を表すインターフェース
  */
@@ -62,6 +242,20 @@ export interface DocumentLine {
     formatting: FormatInfo;
     /** 元の行内容（デバッグ用） */
     originalLine: string;
+    /** 表の構造情報（見出し行と区切り行を持つ表ブロックの行のみ） */
+    table?: TableRowInfo;
+    /** コードブロックの構造情報（フェンスで囲まれたコードブロックの行のみ） */
+    codeBlock?: CodeBlockInfo;
+    /** タスクリスト項目の情報（タスクリスト項目の行のみ） */
+    task?: TaskInfo;
+    /** 引用の構造情報（引用の中の行のみ） */
+    quote?: QuoteInfo;
+    /** リンク参照定義（[label]: URL）または脚注定義（[^label]: 本文）の行かどうか（出力しない） */
+    isReferenceDefinition?: boolean;
+    /** Setext形式の見出しの下線（=== / ---）の行かどうか（見出しの一部のため出力しない） */
+    isSetextUnderline?: boolean;
+    /** コンテナ（:::note 〜 :::）の終了の行かどうか（出力しない） */
+    isContainerFence?: boolean;
 }
 
 /**
@@ -92,6 +286,152 @@ export interface Document {
     lines: DocumentLine[];
     /** メタデータ（ファイル名、変換日時など） */
     metadata: Record<string, any>;
+    /** 脚注の一覧（番号順） */
+    footnotes?: Footnote[];
+}
+
+/**
+ * 脚注定義（[^label]: 本文）を表すインターフェース
+ */
+export interface Footnote {
+    /** 脚注の番号（本文での最初の参照の出現順に1から割り当てる） */
+    number: number;
+    /** 脚注のラベル（[^label] の label） */
+    label: string;
+    /** 脚注の本文（リッチテキスト形式） */
+    richText: RichTextSegment[];
+    /** 脚注の本文のプレーンテキスト */
+    plainText: string;
+}
+
+/**
+ * YAMLフロントマターの内容（キーと値の組）
+ */
+export type FrontMatter = Record<string, unknown>;
+
+/**
+ * Markdown解析のオプションを表すインターフェース
+ */
+export interface ParseOptions {
+    /** 書式（見出しサイズ・文字色・背景色など）の決定に使用するExcel設定（未指定時はデフォルト設定） */
+    config?: ExcelConfig;
+    /** メタデータに記録するファイル名（文字列から解析する場合の仮想ファイル名） */
+    fileName?: string;
+    /** 相対パスで参照される画像などを解決する基準ディレクトリ（未指定時はファイルの場所、文字列の場合はカレントディレクトリ） */
+    baseDirectory?: string;
+}
+
+/**
+ * Excelブックの読み込み（Markdownへの逆変換）のオプションを表すインターフェース
+ */
+export interface ReadOptions {
+    /** 変換時に使用したExcel設定（セルの書式から行の種類を判定する。未指定時はデフォルト設定） */
+    config?: ExcelConfig;
+    /** 読み込むシート名（未指定時はすべてのシートを順に読み込む） */
+    sheetNames?: string[];
+}
+
+/**
+ * Markdownに変換した行と、変換元の文書の行の対応を表すインターフェース
+ */
+export interface SerializedLine {
+    /** Markdownの行 */
+    text: string;
+    /** 変換元の文書の行の位置（document.lines の添字。補ったコードブロックのフェンスと脚注定義はnull） */
+    lineIndex: number | null;
+}
+
+/**
+ * 変換後に編集されたExcelブックの行の変更の種類
+ */
+export enum LineChangeType {
+    /** テキストの変更 */
+    Text = 'text',
+    /** 書式（太字・斜体・リンクなど）のみの変更 */
+    Format = 'format',
+    /** 行の挿入 */
+    Insert = 'insert',
+    /** 行の削除 */
+    Delete = 'delete'
+}
+
+/**
+ * 変換後に編集されたExcelブックの1行の変更を表すインターフェース
+ */
+export interface LineChange {
+    /** 変更の種類 */
+    type: LineChangeType;
+    /** 変更前の行のMarkdown（変換元のMarkdownをExcelに変換して読み込んだ行。挿入の場合はnull） */
+    before: string | null;
+    /** 変更後の行のMarkdown（編集されたExcelブックから読み込んだ行。削除の場合はnull） */
+    after: string | null;
+}
+
+/**
+ * Excelブックの編集を、変換元のMarkdownの行の置き換えとして表すインターフェース
+ */
+export interface SyncHunk {
+    /** 置き換える変換元のMarkdownの最初の行の位置（0から開始） */
+    start: number;
+    /** 置き換える変換元のMarkdownの範囲の終了位置（この位置の行を含まない。挿入の場合は start と同じ） */
+    end: number;
+    /** 置き換え後の行 */
+    lines: string[];
+    /** 行ごとの変更 */
+    changes: LineChange[];
+}
+
+/**
+ * Markdownファイルも変更されていたために適用できなかった、Excelブックの編集を表すインターフェース
+ */
+export interface SyncConflict {
+    /** 適用できなかったExcelブックの編集 */
+    hunk: SyncHunk;
+    /** 競合する範囲の、現在のMarkdownの最初の行番号（1から開始） */
+    line: number;
+    /** 競合する範囲の、現在のMarkdownの行 */
+    currentLines: string[];
+}
+
+/**
+ * Excelブックの編集を現在のMarkdownに適用した結果を表すインターフェース
+ */
+export interface MergeResult {
+    /** 競合しない編集を適用したMarkdown */
+    content: string;
+    /** 適用した編集 */
+    applied: SyncHunk[];
+    /** 競合のため適用しなかった編集 */
+    conflicts: SyncConflict[];
+}
+
+/**
+ * Excelブックの編集をMarkdownファイルに反映する（同期する）際のオプションを表すインターフェース
+ */
+export interface SyncOptions extends ReadOptions {
+    /**
+     * 編集されたExcelブックから読み込むシート名
+     * （未指定時は変換元のMarkdownを変換して出力されるシート。append で追加した連番付きのシートを比較する場合に指定する）
+     */
+    sheetNames?: string[];
+    /** 相対パスで参照される画像を解決する基準ディレクトリ（未指定時はMarkdownファイルの場所） */
+    baseDirectory?: string;
+    /** Excelに変換した時点のMarkdown（未指定時は、現在のMarkdownファイルを変換した時点から変更していないものとする） */
+    originalMarkdown?: string;
+    /** 競合しない編集をMarkdownファイルに書き込むかどうか */
+    apply?: boolean;
+}
+
+/**
+ * Excelブックの編集をMarkdownファイルに反映した結果を表すインターフェース
+ */
+export interface SyncResult {
+    /** Excelブックの編集（変換元のMarkdownの行の置き換え） */
+    hunks: SyncHunk[];
+    /** 変換元のMarkdownに対するunified形式のパッチ（編集がない場合は空文字列） */
+    patch: string;
+    /** 現在のMarkdownに編集を適用した結果 */
+    merge: MergeResult;
 }
 
 /**
@@ -120,8 +460,16 @@ export interface ExcelConfig {
     imageBackgroundColor: string;
     /** 引用左境界線色 */
     quoteBorderColor: string;
+    /** アラート（> [!NOTE] / :::note）の種類ごとのラベル・背景色・左境界線色 */
+    alertStyles: AlertStylePalette;
+    /** コードブロックの枠線色 */
+    codeBorderColor: string;
     /** コード文字色 */
     codeColor: string;
+    /** フェンスに指定された言語に応じてコードブロックを色分けするかどうか */
+    syntaxHighlighting: boolean;
+    /** コードブロックの色分けの配色 */
+    syntaxColors: SyntaxColorPalette;
     /** インラインコード文字色 */
     inlineCodeColor: string;
     /** リンク文字色 */
@@ -130,8 +478,48 @@ export interface ExcelConfig {
     imageAltColor: string;
     /** 水平線色 */
     horizontalRuleColor: string;
+    /** 表の見出し行背景色 */
+    tableHeaderBackgroundColor: string;
+    /** 表の罫線色 */
+    tableBorderColor: string;
+    /** 表の1列あたりの最小幅（方眼紙の列数） */
+    tableMinColumnSpan: number;
+    /** 表の1列あたりの最大幅（方眼紙の列数） */
+    tableMaxColumnSpan: number;
+    /** 埋め込み画像の最大幅（方眼紙の列数） */
+    imageMaxWidthCells: number;
+    /** コードブロックの枠の幅（方眼紙の列数） */
+    codeBlockWidthCells: number;
+    /** フロントマターの内容を文書情報ブロックとしてシート先頭に出力するかどうか */
+    showDocumentInfo: boolean;
+    /** 見出しへのリンク一覧（目次シート）を生成するかどうか */
+    generateTableOfContents: boolean;
+    /** 本文中のリンクの表示方法 */
+    linkMode: LinkMode;
+    /** 文書の末尾にリンク一覧を出力するかどうか（出力しない場合は本文中に [n] を付与しない） */
+    linkAppendix: boolean;
+    /** 脚注の表示方法 */
+    footnoteMode: FootnoteMode;
+    /** 完了したタスクリスト項目の表示方法 */
+    completedTaskStyle: CompletedTaskStyle;
+    /** 完了したタスクリスト項目の文字色（completedTaskStyle が gray の場合） */
+    completedTaskColor: string;
+    /** 見出しごとのタスクの集計（完了数/総数）の出力方法 */
+    taskSummary: TaskSummaryMode;
+    /** 1タブ・1インデントレベルに相当するスペースの数（リストの入れ子は親の項目の内容の位置から判定する） */
+    tabWidth: number;
+    /** 番号付きリストの番号の表記（インデントレベルごと。レベルが配列の長さを超える場合は先頭から繰り返す） */
+    orderedListStyles: OrderedListStyle[];
+    /** ワークシートの分割方法（フロントマターの sheetSplit で文書ごとに上書きできる） */
+    sheetSplitMode: SheetSplitMode;
+    /** 見出しごとに行をグループ化（アウトライン）し、節を折りたためるようにするかどうか */
+    groupSectionsByHeading: boolean;
+    /** 入れ子のリスト項目を親の項目の下にグループ化するかどうか */
+    groupNestedListItems: boolean;
     /** シート名のベース文字列 */
     sheetName: string;
+    /** 出力先のExcelファイルが既に存在する場合の出力方法 */
+    outputMode: OutputMode;
 }
 
 /**
@@ -147,5 +535,12 @@ export enum MarkedTokenType {
     Del = 'del',       // 取り消し線
     CodeSpan = 'codespan', // インラインコード
     Link = 'link',     // リンク
-    Image = 'image'    // 画像
+    Image = 'image',   // 画像
+    Paragraph = 'paragraph',   // 段落
+    Heading = 'heading',       // 見出し
+    Hr = 'hr',                 // 水平線
+    Code = 'code',             // コードブロック
+    Table = 'table',           // 表
+    Blockquote = 'blockquote', // 引用
+    List = 'list'              // リスト
 }
@@ -0,0 +1,129 @@
+import * as ExcelJS from 'exceljs';
+import { CodeBlockRole, DocumentLine, ExcelConfig, RichTextSegment } from '../types';
+import { convertToExcelRichText } from './rich-text';
+
+/**
+ * 言語名の見出しのフォントサイズ（基本フォントサイズに対する倍率）
+ */
+const CAPTION_FONT_SCALE = 0.8;
+
+/**
+ * コードブロックの枠内の1行分の内容
+ */
+interface CodeBlockRow {
+    /** 行の内容 */
+    richText: RichTextSegment[];
+    /** 枠の左端からのインデントレベル */
+    indentLevel: number;
+}
+
+/**
+ * コードブロックを背景色付きの枠としてワークシートに書き込む
+ * 設定された幅の範囲を背景色で塗り、外周に枠線を引く
+ * フェンス行は出力せず、言語名の指定がある場合は枠の1行目に小さな見出しとして表示する
+ * @param worksheet 書き込み先のワークシート
+ * @param lines コードブロックを構成する行（フェンス行を含む）
+ * @param startRow 書き込み開始行（1始まり）
+ * @param config Excel生成設定
+ * @returns 書き込んだ行数
+ */
+export const writeCodeBlock = (
+    worksheet: ExcelJS.Worksheet,
+    lines: DocumentLine[],
+    startRow: number,
+    config: ExcelConfig
+): number => {
+    const baseIndentLevel = lines[0].indentLevel;
+    const startColumn = (baseIndentLevel * config.indentColumnOffset) + 1;
+    const endColumn = startColumn + config.codeBlockWidthCells - 1;
+
+    const rows = collectCodeBlockRows(lines, baseIndentLevel, config);
+
+    rows.forEach((row, rowOffset) => {
+        const rowNumber = startRow + rowOffset;
+        fillCodeBlockRow(worksheet, rowNumber, startColumn, endColumn, rowOffset === 0, rowOffset === rows.length - 1, config);
+
+        const cell = worksheet.getCell(rowNumber, Math.min(startColumn + (row.indentLevel * config.indentColumnOffset), endColumn));
+        cell.value = { richText: convertToExcelRichText(row.richText) };
+        worksheet.getRow(rowNumber).height = config.rowHeight;
+    });
+
+    return rows.length;
+};
+
+/**
+ * コードブロックの枠内に出力する行を収集する
+ * 言語名の見出しとコードの行を並べ、どちらもない場合は空の1行とする
+ * @param lines コードブロックを構成する行
+ * @param baseIndentLevel 開始のフェンス行のインデントレベル
+ * @param config Excel生成設定
+ * @returns 枠内の行の配列（最低1行）
+ */
+const collectCodeBlockRows = (lines: DocumentLine[], baseIndentLevel: number, config: ExcelConfig): CodeBlockRow[] => {
+    const language = lines[0].codeBlock?.language ?? '';
+    const captionRows: CodeBlockRow[] = language.length > 0
+        ? [{ richText: [createCaptionSegment(language, config)], indentLevel: 0 }]
+        : [];
+
+    const contentRows = lines
+        .filter(line => line.codeBlock?.role === CodeBlockRole.Content)
+        .map(line => ({ richText: line.richText, indentLevel: Math.max(line.indentLevel - baseIndentLevel, 0) }));
+
+    const rows = [...captionRows, ...contentRows];
+    return rows.length > 0 ? rows : [{ richText: [], indentLevel: 0 }];
+};
+
+/**
+ * 言語名の見出しのセグメントを作成する
+ * @param language 言語名
+ * @param config Excel生成設定
+ * @returns 見出しのセグメント
+ */
+const createCaptionSegment = (language: string, config: ExcelConfig): RichTextSegment => {
+    return {
+        text: language,
+        font: {
+            italic: true,
+            size: Math.round(config.baseFontSize * CAPTION_FONT_SCALE),
+            color: { argb: config.imageAltColor },
+            name: config.codeFontName
+        }
+    };
+};
+
+/**
+ * コードブロックの1行分の範囲に背景色と外周の枠線を設定する
+ * @param worksheet 対象のワークシート
+ * @param rowNumber 行番号
+ * @param startColumn 枠の開始列
+ * @param endColumn 枠の終了列
+ * @param isFirstRow 枠の1行目かどうか（上辺の枠線を引く）
+ * @param isLastRow 枠の最終行かどうか（下辺の枠線を引く）
+ * @param config Excel生成設定
+ */
+const fillCodeBlockRow = (
+    worksheet: ExcelJS.Worksheet,
+    rowNumber: number,
+    startColumn: number,
+    endColumn: number,
+    isFirstRow: boolean,
+    isLastRow: boolean,
+    config: ExcelConfig
+): void => {
+    const border: Partial<ExcelJS.Border> = { style: 'thin', color: { argb: config.codeBorderColor.replace('#', '') } };
+
+    for (let columnIndex = startColumn; columnIndex <= endColumn; columnIndex++) {
+        const cell = worksheet.getCell(rowNumber, columnIndex);
+        cell.fill = {
+            type: 'pattern',
+            pattern: 'solid',
+            fgColor: { argb: config.codeBackgroundColor.replace('#', '') }
+        };
+        cell.border = {
+            ...(isFirstRow ? { top: border } : {}),
+            ...(isLastRow ? { bottom: border } : {}),
+            ...(columnIndex === startColumn ? { left: border } : {}),
+            ...(columnIndex === endColumn ? { right: border } : {})
+        };
+    }
+};
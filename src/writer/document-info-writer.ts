@@ -0,0 +1,201 @@
+import * as ExcelJS from 'exceljs';
+import { ExcelConfig, FrontMatter } from '../types';
+import { applyRangeBorder } from './table-writer';
+import { SHEET_SPLIT_FRONT_MATTER_KEY } from './sheet-splitter';
+
+/**
+ * 文書情報ブロックで項目名として表示するラベル（フロントマターのキー → 表示名）
+ * 定義にないキーはキー名をそのまま表示する
+ */
+const FIELD_LABELS: Record<string, string> = {
+    author: '作成者',
+    version: '版数',
+    date: '日付',
+    subject: '件名',
+    description: '説明',
+    category: '分類',
+    status: '状態',
+    company: '会社',
+    manager: '管理者',
+    tags: 'タグ',
+    keywords: 'キーワード'
+};
+
+/**
+ * 変換の指示として使用し、文書情報ブロックには表示しないキー
+ */
+const DIRECTIVE_KEYS = ['title', SHEET_SPLIT_FRONT_MATTER_KEY];
+
+/**
+ * 文書情報ブロックの項目名セルの幅（方眼紙の列数）
+ */
+const LABEL_COLUMN_SPAN = 5;
+
+/**
+ * 文書情報ブロックの値セルの幅（方眼紙の列数）
+ */
+const VALUE_COLUMN_SPAN = 20;
+
+/**
+ * ExcelJSの型定義に含まれていないが、書き出しに対応しているブックのプロパティ
+ */
+type WorkbookCoreProperties = ExcelJS.Workbook & { contentStatus?: string; revision?: number };
+
+/**
+ * フロントマターの内容をブックのプロパティ（タイトル・作成者など）に設定する
+ * 値のないキーは既存のプロパティを変更しない
+ * @param workbook 設定対象のブック
+ * @param frontMatter フロントマターの内容
+ */
+export const applyDocumentProperties = (workbook: ExcelJS.Workbook, frontMatter: FrontMatter): void => {
+    const properties = workbook as WorkbookCoreProperties;
+    const text = (key: string): string | null => formatFrontMatterValue(frontMatter[key]);
+
+    const title = text('title');
+    if (title) {
+        properties.title = title;
+    }
+
+    const author = text('author') ?? text('authors');
+    if (author) {
+        properties.creator = author;
+        properties.lastModifiedBy = author;
+    }
+
+    const simpleFields: Array<'subject' | 'description' | 'category' | 'company' | 'manager'> = [
+        'subject', 'description', 'category', 'company', 'manager'
+    ];
+    simpleFields.forEach(key => {
+        const value = text(key);
+        if (value) {
+            properties[key] = value;
+        }
+    });
+
+    const keywords = text('keywords') ?? text('tags');
+    if (keywords) {
+        properties.keywords = keywords;
+    }
+
+    const status = text('status');
+    if (status) {
+        properties.contentStatus = status;
+    }
+
+    // コアプロパティの版数（revision）は整数のみ保持できるため、整数の版数のみ設定する
+    const version = frontMatter.version;
+    if (typeof version === 'number' && Number.isInteger(version) && version > 0) {
+        properties.revision = version;
+    }
+
+    const date = text('date');
+    const createdAt = date ? new Date(date) : null;
+    if (createdAt && !Number.isNaN(createdAt.getTime())) {
+        properties.created = createdAt;
+    }
+};
+
+/**
+ * フロントマターの内容を文書情報ブロックとしてワークシートに書き込む
+ * タイトルは見出し1の書式で、その他の項目は「項目名｜値」の罫線付きの表として出力する
+ * @param worksheet 書き込み先のワークシート
+ * @param frontMatter フロントマターの内容
+ * @param startRow 書き込み開始行（1始まり）
+ * @param config Excel生成設定
+ * @returns 使用した行数（本文との間の空行を含む。出力する項目がない場合は0）
+ */
+export const writeDocumentInfoBlock = (
+    worksheet: ExcelJS.Worksheet,
+    frontMatter: FrontMatter,
+    startRow: number,
+    config: ExcelConfig
+): number => {
+    const title = formatFrontMatterValue(frontMatter.title);
+    const fields = Object.entries(frontMatter)
+        .filter(([key]) => !DIRECTIVE_KEYS.includes(key))
+        .map(([key, value]) => ({ label: FIELD_LABELS[key] ?? key, value: formatFrontMatterValue(value) }))
+        .filter((field): field is { label: string; value: string } => field.value !== null);
+
+    if (!title && fields.length === 0) {
+        return 0;
+    }
+
+    if (title) {
+        const titleCell = worksheet.getCell(startRow, 1);
+        titleCell.value = title;
+        titleCell.font = { bold: true, size: config.headerFontSizes[1], name: config.fontName };
+    }
+
+    const fieldStartRow = startRow + (title ? 1 : 0);
+    fields.forEach((field, index) => {
+        writeInfoField(worksheet, fieldStartRow + index, field.label, field.value, config);
+    });
+
+    // 本文との間に1行空ける
+    return (title ? 1 : 0) + fields.length + 1;
+};
+
+/**
+ * 文書情報ブロックの1項目を書き込む
+ * @param worksheet 書き込み先のワークシート
+ * @param rowNumber 書き込み先の行番号
+ * @param label 項目名
+ * @param value 値
+ * @param config Excel生成設定
+ */
+const writeInfoField = (
+    worksheet: ExcelJS.Worksheet,
+    rowNumber: number,
+    label: string,
+    value: string,
+    config: ExcelConfig
+): void => {
+    const labelEndColumn = LABEL_COLUMN_SPAN;
+    const valueStartColumn = labelEndColumn + 1;
+    const valueEndColumn = labelEndColumn + VALUE_COLUMN_SPAN;
+
+    worksheet.mergeCells(rowNumber, 1, rowNumber, labelEndColumn);
+    worksheet.mergeCells(rowNumber, valueStartColumn, rowNumber, valueEndColumn);
+
+    const labelCell = worksheet.getCell(rowNumber, 1);
+    labelCell.value = label;
+    labelCell.font = { bold: true, size: config.baseFontSize, name: config.fontName };
+    labelCell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: config.tableHeaderBackgroundColor.replace('#', '') }
+    };
+
+    const valueCell = worksheet.getCell(rowNumber, valueStartColumn);
+    valueCell.value = value;
+    valueCell.font = { size: config.baseFontSize, name: config.fontName };
+
+    applyRangeBorder(worksheet, rowNumber, 1, valueEndColumn, config.tableBorderColor);
+};
+
+/**
+ * フロントマターの値を表示用の文字列に変換する
+ * 配列は「, 」区切りで連結し、入れ子のオブジェクトなど表示できない値はnullとする
+ * @param value フロントマターの値
+ * @returns 表示用の文字列（表示できない場合はnull）
+ */
+const formatFrontMatterValue = (value: unknown): string | null => {
+    if (typeof value === 'string') {
+        return value.trim().length > 0 ? value : null;
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString().slice(0, 10);
+    }
+
+    if (Array.isArray(value)) {
+        const items = value.map(formatFrontMatterValue).filter((item): item is string => item !== null);
+        return items.length > 0 ? items.join(', ') : null;
+    }
+
+    return null;
+};
@@ -1,94 +1,254 @@
 import * as ExcelJS from 'exceljs';
 import * as path from 'path';
-import * as fs from 'fs';
-import { Document, ExcelConfig, RichTextSegment, FontStyle, DocumentLine } from '../types';
+import { CodeBlockRole, Document, ExcelConfig, DocumentLine, FootnoteMode, LineType, TableRowRole } from '../types';
+import { createCellValue, setCellValue } from './rich-text';
+import { writeTableBlock } from './table-writer';
+import { writeCodeBlock } from './code-block-writer';
+import { EmbeddedImage, isEmbeddedImage, loadDocumentImages, placeImages } from './image-writer';
+import { applyDocumentProperties, writeDocumentInfoBlock } from './document-info-writer';
+import { HeadingPlacement, TOC_SHEET_NAME, writeBackLinks, writeTableOfContents } from './toc-writer';
+import { sanitizeSheetName } from './sheet-name';
+import { createWorksheetAdder, loadOutputWorkbook } from './output-workbook';
+import { resolveSheetSplitMode, splitIntoSections } from './sheet-splitter';
+import { applyOutlineLevel, calculateOutlineLevels, setupOutlineProperties } from './outline';
+import { createLinkRegistry, LinkRegistry, usesLinkNumbers } from './link-registry';
+import { findFootnoteReferences, FootnoteReference, writeFootnoteNotes, writeFootnoteSection } from './footnote-writer';
+import { LinePlacement, writeTaskSummaries } from './task-summary-writer';
+import { applyQuoteBorders, writeQuoteLabelRow } from './quote-writer';
+
+/**
+ * 巻末のリンク一覧の見出し
+ */
+export const LINK_APPENDIX_TITLE = 'リンク';
+
+/**
+ * ワークシートへの書き込み単位
+ * 通常の行は1行ずつ、表とコードブロックは連続する行をまとめて1ブロックとして書き込む
+ */
+type RenderBlock =
+    | { type: 'line'; line: DocumentLine }
+    | { type: 'table'; lines: DocumentLine[] }
+    | { type: 'code'; lines: DocumentLine[] };
+
+/**
+ * 文書全体で共有する、書き込み時に参照する情報
+ */
+interface RenderContext {
+    /** 埋め込み画像のマップ */
+    images: Map<string, EmbeddedImage>;
+    /** 文書全体のリンク先と巻末のリンク一覧の番号の対応 */
+    linkRegistry: LinkRegistry;
+}
 
 /**
  * 書類オブジェクトをExcelファイル（Buffer）に書き出す
  * @param document 解析済み書類オブジェクト
  * @param config Excel生成設定
- * @param outputPath 出力先パス (既存ファイルがあれば読み込む)
+ * @param outputPath 出力先パス (既存ファイルがあれば、出力方法に応じてシートを置き換える・追加する)
  * @returns 生成されたExcelファイルのBuffer
  */
 export const writeExcel = async (document: Document, config: ExcelConfig, outputPath?: string): Promise<Buffer> => {
-    const workbook = new ExcelJS.Workbook();
-
-    // 既存のファイルが存在する場合は、まず読み込む (シート追記のため)
-    if (outputPath && fs.existsSync(outputPath)) {
-        try {
-            await workbook.xlsx.readFile(outputPath);
-        } catch (error) {
-            console.warn(`Could not read existing file, creating new one instead: ${error}`);
-        }
+    const workbook = await loadOutputWorkbook(outputPath, config.outputMode);
+    const addWorksheet = createWorksheetAdder(workbook, config.outputMode);
+
+    // 目次シートは本文シートの前に配置するため、先に追加しておき内容は本文の出力後に書き込む
+    const tocWorksheet = config.generateTableOfContents ? addWorksheet(TOC_SHEET_NAME) : null;
+
+    // フロントマターをブックのプロパティに反映する
+    const frontMatter = document.metadata.frontMatter;
+    if (frontMatter) {
+        applyDocumentProperties(workbook, frontMatter);
     }
 
-    // 新しいワークシートを追加
-    // シート名は設定値（デフォルト: Markdown）とし、重複する場合は連番を付与する
-    // 無限ループ防止のため、whileではなく上限付きのforループを使用する
-    const getUniqueSheetName = (baseName: string): string => {
-        if (!workbook.getWorksheet(baseName)) {
-            return baseName;
-        }
+    // 参照されているローカル画像を読み込む（相対パスはMarkdownの基準ディレクトリから解決する）
+    const images = await loadDocumentImages(workbook, document, resolveBaseDirectory(document));
 
-        const MAX_RETRIES = 100;
-        for (let i = 1; i <= MAX_RETRIES; i++) {
-            const candidate = `${baseName} (${i})`;
-            if (!workbook.getWorksheet(candidate)) {
-                return candidate;
-            }
-        }
-        // 万が一100回試行しても重複する場合（稀なケース）は、タイムスタンプを付与
-        return `${baseName} (${Date.now()})`;
+    // リンク参照定義・脚注定義の行は参照の解決に使用済みのため、Setext形式の見出しの下線は見出しの一部のため、
+    // コンテナの終了の行（:::）は記号のみのため出力しない
+    const lines = document.lines.filter(line => !line.isReferenceDefinition && !line.isSetextUnderline && !line.isContainerFence);
+    const footnotes = document.footnotes ?? [];
+    const isFootnoteSection = config.footnoteMode === FootnoteMode.Section;
+
+    // 本文の [n] と巻末のリンク一覧の番号を一致させるため、文書全体のリンクに先に番号を割り当てる
+    // 巻末のリンク一覧を出力しない設定では、セル自体のハイパーリンクにできないリンクにのみ番号を割り当てる
+    const context: RenderContext = {
+        images,
+        linkRegistry: createLinkRegistry(lines, isFootnoteSection ? footnotes : [], !config.linkAppendix)
     };
 
-    const sheetName = getUniqueSheetName(config.sheetName);
-    const worksheet = workbook.addWorksheet(sheetName);
+    // 分割方法に応じた範囲ごとにワークシートを追加して書き込む
+    // シート名は見出しテキスト（先頭の範囲や分割しない場合は設定値）とし、同じ名前の既存のシートは出力方法に応じて置き換える
+    const sections = splitIntoSections(lines, resolveSheetSplitMode(document, config));
+    const writtenSheets = sections.map((section, index) => {
+        const worksheet = addWorksheet(sanitizeSheetName(section.title ?? config.sheetName, config.sheetName));
+
+        // 方眼紙（グリッド）レイアウトの設定
+        setupGridLayout(worksheet, config);
+        if (config.groupSectionsByHeading || config.groupNestedListItems) {
+            setupOutlineProperties(worksheet);
+        }
 
-    // 方眼紙（グリッド）レイアウトの設定
-    setupGridLayout(worksheet, config);
+        // 設定に応じて、最初のシートの先頭に文書情報ブロックを出力する
+        const documentInfoRows = index === 0 && frontMatter && config.showDocumentInfo
+            ? writeDocumentInfoBlock(worksheet, frontMatter, 1, config)
+            : 0;
 
-    // 各行を書き込み
-    document.lines.forEach((line, index) => {
-        writeLineToWorksheet(worksheet, line, index + 1, config);
+        return { worksheet, ...writeSectionLines(worksheet, section.lines, documentInfoRows, config, context) };
     });
 
-    // ドキュメント全体のリンクを収集して末尾に追加
-    const allLinks = collectAllLinks(document);
-    if (allLinks.length > 0) {
-        const nextRow = document.lines.length + 3; // 2行空ける
-
-        // 「## リンク」見出し (H2相当の書式)
-        const headerCell = worksheet.getCell(nextRow, 1);
-        headerCell.value = 'リンク';
-        headerCell.font = {
-            bold: true,
-            size: config.headerFontSizes[2],
-            name: config.fontName
-        };
+    if (tocWorksheet) {
+        setupGridLayout(tocWorksheet, config);
+        writeTableOfContents(tocWorksheet, writtenSheets.flatMap(sheet => sheet.headings), config);
+        writtenSheets.forEach(sheet => writeBackLinks(sheet.worksheet, sheet.headings, tocWorksheet.name, config));
+    }
 
-        // リンク一覧を箇条書きで出力 [番号] URL
-        allLinks.forEach((link, idx) => {
-            const rowNum = nextRow + 1 + idx;
-            const indexLabel = `[${idx + 1}]`;
-            const linkCell = worksheet.getCell(rowNum, 1);
-
-            // セル自体にハイパーリンクを設定しつつ、テキストで番号を表示
-            linkCell.value = {
-                text: `${indexLabel} ${link}`,
-                hyperlink: link
-            };
-            linkCell.font = {
-                color: { argb: config.linkColor },
-                underline: true,
-                name: config.fontName,
-                size: config.baseFontSize
-            };
-        });
+    // 脚注は設定に応じて最後のシートの末尾に一覧として、または参照しているセルのコメントとして出力する
+    const lastSheet = writtenSheets[writtenSheets.length - 1];
+    const footnoteReferences = writtenSheets.flatMap(sheet => sheet.footnoteReferences);
+    const lastContentRow = isFootnoteSection
+        ? writeFootnoteSection(lastSheet.worksheet, footnotes, footnoteReferences, lastSheet.lastWrittenRow, config, context.linkRegistry)
+        : lastSheet.lastWrittenRow;
+    if (!isFootnoteSection) {
+        writtenSheets.forEach(sheet => writeFootnoteNotes(sheet.worksheet, sheet.footnoteReferences, footnotes));
+    }
+
+    // ドキュメント全体のリンクを番号順に最後のシートの末尾に追加
+    if (usesLinkNumbers(config)) {
+        writeLinkAppendix(lastSheet.worksheet, Array.from(context.linkRegistry.keys()), lastContentRow, config);
     }
 
     return await workbook.xlsx.writeBuffer() as unknown as Buffer;
 };
 
+/**
+ * 1シート分の行を書き込む
+ * 表や画像は複数行を使用するため、行番号は書き込んだ行数分だけ進める
+ * 目次から参照できるよう、見出しの出力先を記録する
+ * 脚注から参照元へ戻れるよう、脚注の参照の出力先を記録する
+ * 設定に応じて、見出しごとのタスクの集計を見出しの右側に書き込む
+ * 設定に応じて、書き込んだ行に見出し・リストの階層に応じたアウトラインレベルを設定する
+ * 引用の中のブロックには、引用の深さに応じた左罫線を引き、コードブロック・表で始まる引用ブロックはその前に「引用：」の行を書き込む
+ * @param worksheet 書き込み先のワークシート
+ * @param lines シートに出力する行
+ * @param startRowOffset 書き込み開始前に使用済みの行数
+ * @param config Excel生成設定
+ * @param context 文書全体で共有する書き込み時の情報
+ * @returns 最後に書き込んだ行の行番号、見出しの出力先と脚注の参照の出力先
+ */
+const writeSectionLines = (
+    worksheet: ExcelJS.Worksheet,
+    lines: DocumentLine[],
+    startRowOffset: number,
+    config: ExcelConfig,
+    context: RenderContext
+): { lastWrittenRow: number; headings: HeadingPlacement[]; footnoteReferences: FootnoteReference[] } => {
+    const headings: HeadingPlacement[] = [];
+    const footnoteReferences: FootnoteReference[] = [];
+    const placements: LinePlacement[] = [];
+    const outlineLevels = calculateOutlineLevels(lines, config);
+    const lastWrittenRow = groupIntoRenderBlocks(lines).reduce((rowNumber, block) => {
+        if (block.type === 'line' && block.line.lineType === LineType.Header) {
+            headings.push({ line: block.line, sheetName: worksheet.name, row: rowNumber + 1 });
+        }
+
+        const firstLine = block.type === 'line' ? block.line : block.lines[0];
+        const labelRows = writeQuoteLabelRow(worksheet, firstLine, rowNumber + 1, config);
+        const blockRow = rowNumber + 1 + labelRows;
+
+        const blockPlacements = listLinePlacements(block, blockRow, config);
+        blockPlacements.forEach(({ line, row, column }) => {
+            footnoteReferences.push(...findFootnoteReferences(line, worksheet.name, row, column));
+        });
+        placements.push(...blockPlacements);
+
+        const writtenRows = labelRows + writeBlockToWorksheet(worksheet, block, blockRow, config, context);
+        applyOutlineLevel(worksheet, rowNumber + 1, writtenRows, outlineLevels.get(firstLine) ?? 0);
+        applyQuoteBorders(worksheet, firstLine, rowNumber + 1, writtenRows, config);
+
+        return rowNumber + writtenRows;
+    }, startRowOffset);
+
+    writeTaskSummaries(worksheet, placements, config);
+
+    return { lastWrittenRow, headings, footnoteReferences };
+};
+
+/**
+ * ブロック内の各行の出力先（行番号と書き込みを開始する列）を取得する
+ * 表は区切り行を除いて1行ずつ、通常の行はテキストを書き込む行を出力先とする
+ * コードブロックの内容は書式を解釈しないため対象外とする
+ * @param block 書き込み対象のブロック
+ * @param startRow 書き込み開始行の行番号（1始まり）
+ * @param config Excel生成設定
+ * @returns 行と出力先の配列
+ */
+const listLinePlacements = (
+    block: RenderBlock,
+    startRow: number,
+    config: ExcelConfig
+): LinePlacement[] => {
+    if (block.type === 'code') {
+        return [];
+    }
+
+    if (block.type === 'line') {
+        return [{ line: block.line, row: startRow, column: (block.line.indentLevel * config.indentColumnOffset) + 1 }];
+    }
+
+    const column = (block.lines[0].indentLevel * config.indentColumnOffset) + 1;
+    return block.lines
+        .filter(line => line.table?.role !== TableRowRole.Delimiter)
+        .map((line, offset) => ({ line, row: startRow + offset, column }));
+};
+
+/**
+ * 巻末のリンク一覧（「リンク」見出しと [番号] URL の箇条書き）を書き込む
+ * @param worksheet 書き込み先のワークシート
+ * @param links リンクURLの配列（出現順）
+ * @param lastWrittenRow 本文の最後の行番号
+ * @param config Excel生成設定
+ */
+const writeLinkAppendix = (
+    worksheet: ExcelJS.Worksheet,
+    links: string[],
+    lastWrittenRow: number,
+    config: ExcelConfig
+): void => {
+    if (links.length === 0) {
+        return;
+    }
+
+    const nextRow = lastWrittenRow + 3; // 2行空ける
+
+    // 「## リンク」見出し (H2相当の書式)
+    const headerCell = worksheet.getCell(nextRow, 1);
+    headerCell.value = LINK_APPENDIX_TITLE;
+    headerCell.font = {
+        bold: true,
+        size: config.headerFontSizes[2],
+        name: config.fontName
+    };
+
+    // リンク一覧を箇条書きで出力 [番号] URL
+    links.forEach((link, idx) => {
+        const rowNum = nextRow + 1 + idx;
+        const indexLabel = `[${idx + 1}]`;
+        const linkCell = worksheet.getCell(rowNum, 1);
+
+        // セル自体にハイパーリンクを設定しつつ、テキストで番号を表示
+        linkCell.value = {
+            text: `${indexLabel} ${link}`,
+            hyperlink: link
+        };
+        linkCell.font = {
+            color: { argb: config.linkColor },
+            underline: true,
+            name: config.fontName,
+            size: config.baseFontSize
+        };
+    });
+};
+
 /**
  * ワークシートに方眼紙レイアウト（狭い列幅）を設定する
  * @param worksheet 設定対象のワークシート
@@ -104,27 +264,152 @@ const setupGridLayout = (worksheet: ExcelJS.Worksheet, config: ExcelConfig): voi
     }
 };
 
+/**
+ * 行配列を書き込み単位のブロックに分割する
+ * 表の構造情報を持つ連続した行は1つの表ブロックに、
+ * 開始のフェンス行から終了のフェンス行までは1つのコードブロックにまとめる
+ * @param lines ドキュメントの全行
+ * @returns 書き込み単位のブロック配列
+ */
+const groupIntoRenderBlocks = (lines: DocumentLine[]): RenderBlock[] => {
+    return lines.reduce<RenderBlock[]>((blocks, line) => {
+        const lastBlock = blocks[blocks.length - 1];
+
+        if (line.codeBlock) {
+            if (line.codeBlock.role !== CodeBlockRole.Open && lastBlock?.type === 'code') {
+                lastBlock.lines.push(line);
+                return blocks;
+            }
+
+            blocks.push({ type: 'code', lines: [line] });
+            return blocks;
+        }
+
+        if (!line.table) {
+            blocks.push({ type: 'line', line });
+            return blocks;
+        }
+
+        if (lastBlock?.type === 'table') {
+            lastBlock.lines.push(line);
+            return blocks;
+        }
+
+        blocks.push({ type: 'table', lines: [line] });
+        return blocks;
+    }, []);
+};
+
+/**
+ * 1ブロック分のデータをワークシートに書き込む
+ * @param worksheet 書き込み先のワークシート
+ * @param block 書き込み対象のブロック
+ * @param rowNumber 書き込み開始行の行番号（1始まり）
+ * @param config Excel生成設定
+ * @param context 文書全体で共有する書き込み時の情報
+ * @returns 書き込んだ行数
+ */
+const writeBlockToWorksheet = (
+    worksheet: ExcelJS.Worksheet,
+    block: RenderBlock,
+    rowNumber: number,
+    config: ExcelConfig,
+    context: RenderContext
+): number => {
+    if (block.type === 'table') {
+        return writeTableBlock(worksheet, block.lines, rowNumber, config, context.linkRegistry);
+    }
+
+    if (block.type === 'code') {
+        return writeCodeBlock(worksheet, block.lines, rowNumber, config);
+    }
+
+    return writeLineWithImages(worksheet, block.line, rowNumber, config, context);
+};
+
+/**
+ * 画像を含む可能性がある1行分のデータを書き込む
+ * 埋め込み可能な画像は代替テキストの代わりに画像として配置し、画像の高さ分の行を確保する
+ * 画像以外のテキストがある場合は、テキストを書き込んだ次の行から画像を配置する
+ * @param worksheet 書き込み先のワークシート
+ * @param line 解析済みドキュメント行
+ * @param rowNumber 書き込み先の行番号（1始まり）
+ * @param config Excel生成設定
+ * @param context 文書全体で共有する書き込み時の情報
+ * @returns 書き込んだ行数
+ */
+const writeLineWithImages = (
+    worksheet: ExcelJS.Worksheet,
+    line: DocumentLine,
+    rowNumber: number,
+    config: ExcelConfig,
+    context: RenderContext
+): number => {
+    const { images, linkRegistry } = context;
+    const imageSegments = line.richText.filter(segment => isEmbeddedImage(segment, images));
+    if (imageSegments.length === 0) {
+        writeLineToWorksheet(worksheet, line, rowNumber, config, linkRegistry);
+        return 1;
+    }
+
+    const textSegments = line.richText.filter(segment => !isEmbeddedImage(segment, images));
+    const hasText = textSegments.some(segment => segment.text.trim().length > 0);
+    if (hasText) {
+        writeLineToWorksheet(worksheet, { ...line, richText: textSegments }, rowNumber, config, linkRegistry);
+    }
+
+    const startColumnIndex = (line.indentLevel * config.indentColumnOffset) + 1;
+    const imageStartRow = hasText ? rowNumber + 1 : rowNumber;
+    const imageRows = placeImages(worksheet, imageSegments, images, imageStartRow, startColumnIndex, config);
+
+    // 画像のために確保した行も方眼紙の行高さにそろえる
+    for (let offset = 0; offset < imageRows; offset++) {
+        worksheet.getRow(imageStartRow + offset).height = config.rowHeight;
+    }
+
+    return (hasText ? 1 : 0) + imageRows;
+};
+
+/**
+ * 画像などの相対パスを解決する基準ディレクトリを取得する
+ * メタデータの基準ディレクトリ、ファイルパスの場所、カレントディレクトリの順に使用する
+ * @param document 解析済みドキュメント
+ * @returns 基準ディレクトリ
+ */
+const resolveBaseDirectory = (document: Document): string => {
+    const { baseDirectory, filePath } = document.metadata;
+    if (typeof baseDirectory === 'string' && baseDirectory.length > 0) {
+        return path.resolve(baseDirectory);
+    }
+
+    if (typeof filePath !== 'string' || filePath.length === 0) {
+        return process.cwd();
+    }
+
+    return path.dirname(path.resolve(filePath));
+};
+
 /**
  * 1行分のデータをワークシートに書き込む
  * @param worksheet 書き込み先のワークシート
  * @param line 解析済みドキュメント行
  * @param rowNumber 書き込み先の行番号（1始まり）
  * @param config Excel生成設定
+ * @param linkRegistry 文書全体のリンク先と番号の対応
  */
 const writeLineToWorksheet = (
     worksheet: ExcelJS.Worksheet,
     line: DocumentLine,
     rowNumber: number,
-    config: ExcelConfig
+    config: ExcelConfig,
+    linkRegistry: LinkRegistry
 ): void => {
     // インデントレベルに基づいて開始列を計算
     const startColumnIndex = (line.indentLevel * config.indentColumnOffset) + 1;
     const cell = worksheet.getCell(rowNumber, startColumnIndex);
 
-    // リッチテキストに変換して設定
-    cell.value = {
-        richText: convertToExcelRichText(line.richText)
-    };
+    // リッチテキストに変換して設定（設定に応じてリンクをセル自体のハイパーリンクとする）
+    setCellValue(cell, createCellValue(line.richText, config, linkRegistry));
 
     // 背景色の適用
     if (line.formatting.backgroundColor) {
@@ -151,66 +436,3 @@ const writeLineToWorksheet = (
     const row = worksheet.getRow(rowNumber);
     row.height = config.rowHeight;
 };
-
-/**
- * ドキュメント内のすべてのユニークなリンクURLを順番通りに収集する
- * @param document ドキュメント
- * @returns URLの配列
- */
-const collectAllLinks = (document: Document): string[] => {
-    const allUrls = new Set<string>();
-    const orderedUrls: string[] = [];
-
-    document.lines.forEach(line => {
-        line.richText.forEach(segment => {
-            if (segment.link?.target && !allUrls.has(segment.link.target)) {
-                allUrls.add(segment.link.target);
-                orderedUrls.push(segment.link.target);
-            }
-        });
-    });
-
-    return orderedUrls;
-};
-
-
-
-/**
- * RichTextSegment配列をExcelJSのRichText形式に変換する
- * @param segments 変換元のセグメント配列
- * @returns ExcelJSのリッチテキスト配列
- */
-const convertToExcelRichText = (segments: RichTextSegment[]): ExcelJS.RichText[] => {
-    const result: ExcelJS.RichText[] = [];
-    const targetToIndex = new Map<string, number>();
-    let linkCounter = 0;
-
-    segments.forEach(segment => {
-        let text = segment.text;
-
-        // 本文中の各リンクには [n] を付与して巻末との対応を明確にする
-        if (segment.link?.target) {
-            if (!targetToIndex.has(segment.link.target)) {
-                linkCounter++;
-                targetToIndex.set(segment.link.target, linkCounter);
-            }
-            // 番号のみを付加（URLそのものは書かない）
-            text += ` [${targetToIndex.get(segment.link.target)}]`;
-        }
-
-        const richText: ExcelJS.RichText = {
-            text: text
-        };
-
-        if (segment.font) {
-            // FontStyleにはアプリ独自の 'code' プロパティが含まれるが、ExcelJSのFont型には存在しないため除外する必要がある
-            // 分割代入（Rest Property）を使用して 'code' を取り除き、残りのプロパティ（ExcelJSと互換性あり）をそのまま割り当てる
-            const { code, ...excelFont } = segment.font;
-            richText.font = excelFont;
-        }
-
-        result.push(richText);
-    });
-
-    return result;
-};
@@ -0,0 +1,148 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig, Footnote } from '../types';
+import { createCellValue, setCellValue } from './rich-text';
+import { createInternalLink } from './toc-writer';
+import { LinkRegistry } from './link-registry';
+
+/**
+ * 脚注セクションの見出し
+ */
+export const FOOTNOTE_SECTION_TITLE = '脚注';
+
+/**
+ * 脚注セクションで脚注の本文を書き込む列（1〜2列目は「※番号」）
+ */
+const FOOTNOTE_TEXT_COLUMN = 3;
+
+/**
+ * 本文中の脚注の参照の出力先を表すインターフェース
+ */
+export interface FootnoteReference {
+    /** 参照している脚注の番号 */
+    number: number;
+    /** 出力先のシート名 */
+    sheetName: string;
+    /** 出力先の行番号（1始まり） */
+    row: number;
+    /** 出力先の列番号（1始まり。行の書き込みを開始したセル） */
+    column: number;
+}
+
+/**
+ * 行に含まれる脚注の参照の出力先を取得する
+ * 同じ行で同じ脚注を複数回参照している場合も1つにまとめる
+ * @param line 対象行
+ * @param sheetName 出力先のシート名
+ * @param row 出力先の行番号（1始まり）
+ * @param column 出力先の列番号（1始まり）
+ * @returns 脚注の参照の出力先の配列（出現順）
+ */
+export const findFootnoteReferences = (
+    line: DocumentLine,
+    sheetName: string,
+    row: number,
+    column: number
+): FootnoteReference[] => {
+    const numbers = line.richText
+        .map(segment => segment.footnote?.number)
+        .filter((number): number is number => number !== undefined);
+
+    return Array.from(new Set(numbers)).map(number => ({ number, sheetName, row, column }));
+};
+
+/**
+ * 脚注の参照があるセルに、脚注の本文をコメント（メモ）として付与する
+ * 1つのセルで複数の脚注を参照している場合は、「※番号 本文」を改行区切りでまとめる
+ * @param worksheet 書き込み先のワークシート
+ * @param references このシートの脚注の参照の出力先
+ * @param footnotes 文書全体の脚注
+ */
+export const writeFootnoteNotes = (
+    worksheet: ExcelJS.Worksheet,
+    references: FootnoteReference[],
+    footnotes: Footnote[]
+): void => {
+    const notesByCell = references.reduce((notes, reference) => {
+        const footnote = footnotes.find(candidate => candidate.number === reference.number);
+        if (!footnote) {
+            return notes;
+        }
+
+        const key = `${reference.row}:${reference.column}`;
+        const entry = notes.get(key) ?? { row: reference.row, column: reference.column, texts: [] };
+        entry.texts.push(`${formatFootnoteNumber(footnote.number)} ${footnote.plainText}`);
+        notes.set(key, entry);
+        return notes;
+    }, new Map<string, { row: number; column: number; texts: string[] }>());
+
+    notesByCell.forEach(({ row, column, texts }) => {
+        worksheet.getCell(row, column).note = texts.join('\n');
+    });
+};
+
+/**
+ * 脚注セクション（「脚注」見出しと「※番号 本文」の一覧）を書き込む
+ * 「※番号」のセルには、本文で最初に参照している行への内部リンクを設定する
+ * @param worksheet 書き込み先のワークシート
+ * @param footnotes 文書全体の脚注（番号順）
+ * @param references 文書全体の脚注の参照の出力先（出現順）
+ * @param lastWrittenRow 本文の最後の行番号
+ * @param config Excel生成設定
+ * @param linkRegistry 文書全体のリンク先と番号の対応
+ * @returns 脚注セクションの最後の行番号（脚注がない場合は lastWrittenRow）
+ */
+export const writeFootnoteSection = (
+    worksheet: ExcelJS.Worksheet,
+    footnotes: Footnote[],
+    references: FootnoteReference[],
+    lastWrittenRow: number,
+    config: ExcelConfig,
+    linkRegistry: LinkRegistry
+): number => {
+    if (footnotes.length === 0) {
+        return lastWrittenRow;
+    }
+
+    const headerRow = lastWrittenRow + 3; // 2行空ける
+
+    const headerCell = worksheet.getCell(headerRow, 1);
+    headerCell.value = FOOTNOTE_SECTION_TITLE;
+    headerCell.font = {
+        bold: true,
+        size: config.headerFontSizes[2],
+        name: config.fontName
+    };
+
+    footnotes.forEach((footnote, index) => {
+        const rowNumber = headerRow + 1 + index;
+        const firstReference = references.find(reference => reference.number === footnote.number);
+
+        const numberCell = worksheet.getCell(rowNumber, 1);
+        const label = formatFootnoteNumber(footnote.number);
+        numberCell.value = firstReference
+            ? { text: label, hyperlink: createInternalLink(firstReference.sheetName, firstReference.row) }
+            : label;
+        numberCell.font = {
+            color: firstReference ? { argb: config.linkColor } : undefined,
+            underline: firstReference !== undefined,
+            name: config.fontName,
+            size: config.baseFontSize
+        };
+
+        const segments = footnote.richText.map(segment => ({
+            ...segment,
+            font: { size: config.baseFontSize, ...segment.font }
+        }));
+        setCellValue(worksheet.getCell(rowNumber, FOOTNOTE_TEXT_COLUMN), createCellValue(segments, config, linkRegistry));
+        worksheet.getRow(rowNumber).height = config.rowHeight;
+    });
+
+    return headerRow + footnotes.length;
+};
+
+/**
+ * 脚注の番号を表示用の文字列にする
+ * @param number 脚注の番号
+ * @returns 表示用の文字列（例: ※1）
+ */
+const formatFootnoteNumber = (number: number): string => `※${number}`;
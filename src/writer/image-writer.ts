@@ -0,0 +1,266 @@
+import * as ExcelJS from 'exceljs';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { Document, ExcelConfig, RichTextSegment } from '../types';
+
+/**
+ * ワークブックに登録済みの埋め込み画像を表すインターフェース
+ */
+export interface EmbeddedImage {
+    /** Workbook.addImage で払い出された画像ID */
+    imageId: number;
+    /** 元画像の幅（ピクセル） */
+    width: number;
+    /** 元画像の高さ（ピクセル） */
+    height: number;
+}
+
+/**
+ * 画像の形式と寸法を表すインターフェース
+ */
+interface ImageInfo {
+    extension: 'png' | 'jpeg' | 'gif';
+    width: number;
+    height: number;
+}
+
+/**
+ * Excelの標準フォントにおける1文字あたりの幅（ピクセル）
+ */
+const CHARACTER_WIDTH_PIXELS = 7;
+
+/**
+ * 列幅に加算されるセル内余白（ピクセル）
+ */
+const COLUMN_PADDING_PIXELS = 5;
+
+/**
+ * ドキュメント内で参照されているローカル画像を読み込み、ワークブックに登録する
+ * リモート画像や読み込めない画像は登録せず、警告を出力する（代替テキストで出力される）
+ * @param workbook 画像を登録するワークブック
+ * @param document 解析済みドキュメント
+ * @param baseDirectory 相対パスの基準ディレクトリ
+ * @returns 画像の参照パス（Markdown上の記述）をキーとした埋め込み画像のマップ
+ */
+export const loadDocumentImages = async (
+    workbook: ExcelJS.Workbook,
+    document: Document,
+    baseDirectory: string
+): Promise<Map<string, EmbeddedImage>> => {
+    const sources = collectImageSources(document);
+    const images = new Map<string, EmbeddedImage>();
+
+    for (const source of sources) {
+        const image = await loadImage(workbook, source, baseDirectory);
+        if (image) {
+            images.set(source, image);
+        }
+    }
+
+    return images;
+};
+
+/**
+ * 1行分の画像をワークシートに配置する
+ * 画像は縦に並べて配置し、後続の内容と重ならないよう画像の高さ分の行を確保する
+ * @param worksheet 配置先のワークシート
+ * @param segments 行内の画像セグメント
+ * @param images 埋め込み画像のマップ
+ * @param rowNumber 配置開始行（1始まり）
+ * @param columnNumber 配置列（1始まり）
+ * @param config Excel生成設定
+ * @returns 画像のために確保した行数
+ */
+export const placeImages = (
+    worksheet: ExcelJS.Worksheet,
+    segments: RichTextSegment[],
+    images: Map<string, EmbeddedImage>,
+    rowNumber: number,
+    columnNumber: number,
+    config: ExcelConfig
+): number => {
+    const rowHeightPixels = pointsToPixels(config.rowHeight);
+
+    return segments.reduce((reservedRows, segment) => {
+        const image = segment.image ? images.get(segment.image.src) : undefined;
+        if (!image) {
+            return reservedRows;
+        }
+
+        const size = scaleToMaxWidth(image, config);
+        worksheet.addImage(image.imageId, {
+            tl: { col: columnNumber - 1, row: rowNumber - 1 + reservedRows },
+            ext: size
+        });
+
+        return reservedRows + Math.max(1, Math.ceil(size.height / rowHeightPixels));
+    }, 0);
+};
+
+/**
+ * セグメントが埋め込み対象の画像かどうかを判定する
+ * @param segment 判定対象のセグメント
+ * @param images 埋め込み画像のマップ
+ * @returns 埋め込み可能な画像の場合はtrue
+ */
+export const isEmbeddedImage = (segment: RichTextSegment, images: Map<string, EmbeddedImage>): boolean => {
+    return segment.image !== undefined && images.has(segment.image.src);
+};
+
+/**
+ * ドキュメント内の画像参照を重複なく出現順に収集する
+ * @param document 解析済みドキュメント
+ * @returns 画像の参照パスの配列
+ */
+const collectImageSources = (document: Document): string[] => {
+    const sources = document.lines.flatMap(line => {
+        return line.richText.flatMap(segment => segment.image?.src ? [segment.image.src] : []);
+    });
+
+    return Array.from(new Set(sources));
+};
+
+/**
+ * 画像を読み込んでワークブックに登録する
+ * @param workbook 画像を登録するワークブック
+ * @param source Markdown上の画像参照パス
+ * @param baseDirectory 相対パスの基準ディレクトリ
+ * @returns 埋め込み画像（埋め込めない場合はnull）
+ */
+const loadImage = async (
+    workbook: ExcelJS.Workbook,
+    source: string,
+    baseDirectory: string
+): Promise<EmbeddedImage | null> => {
+    if (isRemoteSource(source)) {
+        console.warn(`リモート画像は埋め込めないため代替テキストで出力します: ${source}`);
+        return null;
+    }
+
+    const imagePath = path.resolve(baseDirectory, decodeImagePath(source));
+
+    try {
+        const buffer = await fs.readFile(imagePath);
+        const info = readImageInfo(buffer);
+        if (!info) {
+            console.warn(`未対応の画像形式のため代替テキストで出力します（PNG/JPEG/GIFのみ対応）: ${imagePath}`);
+            return null;
+        }
+
+        // 実行環境におけるBuffer型の定義不一致を解消するため、ExcelJSの型にキャストする
+        const imageId = workbook.addImage({ buffer: buffer as unknown as ExcelJS.Image['buffer'], extension: info.extension });
+        return { imageId, width: info.width, height: info.height };
+    } catch (error) {
+        console.warn(`画像を読み込めないため代替テキストで出力します: ${imagePath} (${error instanceof Error ? error.message : error})`);
+        return null;
+    }
+};
+
+/**
+ * 画像参照がリモート（URLスキーム付き）かどうかを判定する
+ * Windowsのドライブレター（C:\）はスキームとして扱わない
+ * @param source 画像参照パス
+ * @returns リモートの場合はtrue
+ */
+const isRemoteSource = (source: string): boolean => {
+    const scheme = source.match(/^([a-z][a-z0-9+.-]+):/i);
+    if (!scheme) {
+        return false;
+    }
+
+    return scheme[1].toLowerCase() !== 'file';
+};
+
+/**
+ * Markdown上の画像参照をファイルパスに変換する
+ * file: スキームの除去と、URLエンコードされた文字（%20など）のデコードを行う
+ * @param source 画像参照パス
+ * @returns ファイルパス
+ */
+const decodeImagePath = (source: string): string => {
+    const withoutScheme = source.replace(/^file:\/\//i, '');
+
+    try {
+        return decodeURI(withoutScheme);
+    } catch {
+        return withoutScheme;
+    }
+};
+
+/**
+ * ファイル先頭のシグネチャから画像形式と寸法を読み取る
+ * @param buffer 画像ファイルの内容
+ * @returns 画像の形式と寸法（未対応形式の場合はnull）
+ */
+export const readImageInfo = (buffer: Buffer): ImageInfo | null => {
+    // PNG: シグネチャ(8バイト)の直後のIHDRチャンクに幅・高さ（ビッグエンディアン）
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504E47) {
+        return { extension: 'png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+
+    // GIF: "GIF8" の後の論理画面記述子に幅・高さ（リトルエンディアン）
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+        return { extension: 'gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+
+    // JPEG: SOI(FFD8)の後、SOFマーカーに幅・高さ
+    if (buffer.length >= 4 && buffer[0] === 0xFF && buffer[1] === 0xD8) {
+        return readJpegInfo(buffer);
+    }
+
+    return null;
+};
+
+/**
+ * JPEGのマーカーを走査してSOFセグメントから寸法を読み取る
+ * @param buffer JPEGファイルの内容
+ * @returns 画像の形式と寸法（SOFが見つからない場合はnull）
+ */
+const readJpegInfo = (buffer: Buffer): ImageInfo | null => {
+    // 無限ループ防止のため、走査回数に上限を設ける
+    const MAX_SEGMENTS = 1000;
+    let offset = 2;
+
+    for (let segmentIndex = 0; segmentIndex < MAX_SEGMENTS; segmentIndex++) {
+        if (offset + 9 > buffer.length || buffer[offset] !== 0xFF) {
+            return null;
+        }
+
+        const marker = buffer[offset + 1];
+        const isStartOfFrame = marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+        if (isStartOfFrame) {
+            return { extension: 'jpeg', width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+        }
+
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+
+    return null;
+};
+
+/**
+ * 画像を設定された最大幅（方眼紙の列数）に収まるよう縦横比を保って縮小する
+ * @param image 埋め込み画像
+ * @param config Excel生成設定
+ * @returns 配置時の幅と高さ（ピクセル）
+ */
+const scaleToMaxWidth = (image: EmbeddedImage, config: ExcelConfig): { width: number; height: number } => {
+    const columnWidthPixels = Math.floor(config.cellWidth * CHARACTER_WIDTH_PIXELS + COLUMN_PADDING_PIXELS);
+    const maxWidthPixels = config.imageMaxWidthCells * columnWidthPixels;
+
+    if (image.width <= maxWidthPixels) {
+        return { width: image.width, height: image.height };
+    }
+
+    const scale = maxWidthPixels / image.width;
+    return { width: maxWidthPixels, height: Math.round(image.height * scale) };
+};
+
+/**
+ * ポイントをピクセルに変換する（96dpi基準）
+ * @param points ポイント
+ * @returns ピクセル
+ */
+const pointsToPixels = (points: number): number => {
+    return points * 96 / 72;
+};
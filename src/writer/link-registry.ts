@@ -0,0 +1,68 @@
+import { DocumentLine, ExcelConfig, Footnote, LinkMode, RichTextSegment } from '../types';
+
+/**
+ * 文書全体のリンク先と、巻末のリンク一覧の番号（1始まり）の対応
+ * 挿入順（＝本文での出現順）が巻末のリンク一覧の並び順になる
+ */
+export type LinkRegistry = ReadonlyMap<string, number>;
+
+/**
+ * 本文のリンクに [n] を付与し、巻末のリンク一覧を出力するかどうかを判定する
+ * 巻末のリンク一覧を出力しない設定でも、リンクの表示方法がセルの場合は、
+ * セル自体のハイパーリンクにできない2つ目以降のリンクのURLが失われないよう、それらのリンクに番号を付与して一覧に出力する
+ * @param config Excel生成設定
+ * @returns 番号を付与する場合はtrue
+ */
+export const usesLinkNumbers = (config: ExcelConfig): boolean => {
+    return config.linkAppendix || config.linkMode === LinkMode.Cell;
+};
+
+/**
+ * セル自体のハイパーリンクとするリンク先（セルの最初のリンクのリンク先）を求める
+ * @param segments セルに出力するセグメント配列
+ * @returns リンク先（リンクがない場合はundefined）
+ */
+export const findCellLinkTarget = (segments: RichTextSegment[]): string | undefined => {
+    return segments.find(segment => segment.link?.target)?.link?.target;
+};
+
+/**
+ * 文書全体のリンク先に出現順の番号を割り当てる
+ * 同じリンク先には文書内のどこに現れても同じ番号を割り当て、本文の [n] と巻末のリンク一覧の番号を一致させる
+ * 参照形式のリンクなども、解析時にリンク先が解決されていれば同じように番号を割り当てる
+ * 脚注セクションに出力する脚注の本文中のリンクには、本文のリンクに続けて番号を割り当てる
+ * @param lines ドキュメントの全行
+ * @param footnotes 脚注セクションに出力する脚注
+ * @param excludeCellLinks セル自体のハイパーリンクとするリンク（セルの最初のリンク）を除くかどうか
+ * @returns リンク先と番号の対応
+ */
+export const createLinkRegistry = (lines: DocumentLine[], footnotes: Footnote[] = [], excludeCellLinks = false): LinkRegistry => {
+    return [...lines, ...footnotes]
+        .flatMap(item => excludeCellLinks ? splitIntoCells(item).flatMap(withoutCellLink) : item.richText)
+        .reduce((registry, segment) => {
+            const target = segment.link?.target;
+            if (target && !registry.has(target)) {
+                registry.set(target, registry.size + 1);
+            }
+            return registry;
+        }, new Map<string, number>());
+};
+
+/**
+ * 行をセルごとのセグメント配列に分ける（表の行は表のセルごと、それ以外は行全体で1つのセル）
+ * @param item 行または脚注
+ * @returns セルごとのセグメント配列
+ */
+const splitIntoCells = (item: DocumentLine | Footnote): RichTextSegment[][] => {
+    return 'table' in item && item.table ? item.table.cells : [item.richText];
+};
+
+/**
+ * セル自体のハイパーリンクとするリンクのセグメントを除く
+ * @param segments セルに出力するセグメント配列
+ * @returns セルの最初のリンクと同じリンク先のセグメントを除いたセグメント配列
+ */
+const withoutCellLink = (segments: RichTextSegment[]): RichTextSegment[] => {
+    const cellLinkTarget = findCellLinkTarget(segments);
+    return segments.filter(segment => segment.link?.target !== cellLinkTarget);
+};
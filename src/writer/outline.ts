@@ -0,0 +1,102 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig, LineType } from '../types';
+
+/**
+ * Excelで設定できる行のアウトラインレベルの上限
+ */
+const MAX_OUTLINE_LEVEL = 7;
+
+/**
+ * アウトラインレベルの計算中の状態
+ */
+interface OutlineState {
+    /** 開いている見出しのレベル */
+    headingStack: number[];
+    /** 開いているリスト項目のインデントレベル */
+    listStack: number[];
+}
+
+/**
+ * 各行のアウトライン（グループ化）レベルを計算する
+ * 見出しの行は上位の見出しの数、それ以外の行は所属する見出しの数をレベルとし、
+ * 見出しの行を集計行として直下の内容を折りたためるようにする
+ * 入れ子のリスト項目のグループ化が有効な場合は、リストのインデントレベル分を加える
+ * リスト項目の続きの行（段落の続き・空行・コードブロックなど）は、同じ以下の深さの次の項目が現れるまで、所属する項目と同じレベルにする
+ * @param lines シートに出力する行
+ * @param config Excel生成設定
+ * @returns 行ごとのアウトラインレベル（グループ化しない場合はすべて0）
+ */
+export const calculateOutlineLevels = (lines: DocumentLine[], config: ExcelConfig): Map<DocumentLine, number> => {
+    const levels = new Map<DocumentLine, number>();
+
+    lines.reduce<OutlineState>(({ headingStack, listStack }, line) => {
+        const isHeading = line.lineType === LineType.Header && line.formatting.headerLevel > 0;
+        // 同じレベル以下の見出しが現れたら、その節を閉じる
+        const enclosing = isHeading
+            ? headingStack.filter(level => level < line.formatting.headerLevel)
+            : headingStack;
+        const openItems = resolveOpenListItems(listStack, line, isHeading);
+
+        const sectionLevel = config.groupSectionsByHeading ? enclosing.length : 0;
+        const listLevel = config.groupNestedListItems ? openItems[openItems.length - 1] ?? 0 : 0;
+        levels.set(line, Math.min(sectionLevel + listLevel, MAX_OUTLINE_LEVEL));
+
+        return {
+            headingStack: isHeading ? [...enclosing, line.formatting.headerLevel] : enclosing,
+            listStack: openItems
+        };
+    }, { headingStack: [], listStack: [] });
+
+    return levels;
+};
+
+/**
+ * 行の位置で開いているリスト項目のインデントレベルを取得する
+ * リスト項目の行は同じ以下の深さの項目を閉じて自身を開き、それ以外の行は行より深い項目を閉じる
+ * （項目の内容の行は項目より1つ深いインデントレベルのため、所属する項目は開いたまま残る）
+ * @param listStack 前の行までに開いているリスト項目のインデントレベル
+ * @param line 対象の行
+ * @param isHeading 見出しの行かどうか（見出しはすべての項目を閉じる）
+ * @returns 開いているリスト項目のインデントレベル（最後の要素が行の所属する項目）
+ */
+const resolveOpenListItems = (listStack: number[], line: DocumentLine, isHeading: boolean): number[] => {
+    if (isHeading) {
+        return [];
+    }
+
+    if (line.lineType === LineType.ListItem) {
+        return [...listStack.filter(level => level < line.indentLevel), line.indentLevel];
+    }
+
+    return listStack.filter(level => level < line.indentLevel);
+};
+
+/**
+ * ワークシートの行にアウトラインレベルを設定する
+ * @param worksheet 対象のワークシート
+ * @param startRow 設定を開始する行番号（1始まり）
+ * @param rowCount 設定する行数
+ * @param level アウトラインレベル
+ */
+export const applyOutlineLevel = (
+    worksheet: ExcelJS.Worksheet,
+    startRow: number,
+    rowCount: number,
+    level: number
+): void => {
+    if (level === 0) {
+        return;
+    }
+
+    for (let offset = 0; offset < rowCount; offset++) {
+        worksheet.getRow(startRow + offset).outlineLevel = level;
+    }
+};
+
+/**
+ * 集計行（見出し・親のリスト項目）をグループの上に表示するよう設定する
+ * @param worksheet 対象のワークシート
+ */
+export const setupOutlineProperties = (worksheet: ExcelJS.Worksheet): void => {
+    worksheet.properties.outlineProperties = { summaryBelow: false, summaryRight: false };
+};
@@ -0,0 +1,72 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import { OutputMode } from '../types';
+import { getUniqueSheetName, getUniqueSheetNameAmong } from './sheet-name';
+
+/**
+ * ブック内のシートの並び順を持つワークシート（ExcelJSは orderNo の順にシートを出力するが、型定義には含まれない）
+ */
+type OrderedWorksheet = ExcelJS.Worksheet & { orderNo: number };
+
+/**
+ * 変換結果を書き込むブックを、出力方法に応じて用意する
+ * 出力方法が new の場合と出力先のファイルが存在しない場合は新しいブックとし、それ以外は既存のファイルを読み込む
+ * @param outputPath 出力先パス
+ * @param outputMode 出力先のExcelファイルが既に存在する場合の出力方法
+ * @returns 変換結果を書き込むブック（既存のファイルを読み込めない場合は新しいブック）
+ */
+export const loadOutputWorkbook = async (outputPath: string | undefined, outputMode: OutputMode): Promise<ExcelJS.Workbook> => {
+    if (!outputPath || outputMode === OutputMode.New || !fs.existsSync(outputPath)) {
+        return new ExcelJS.Workbook();
+    }
+
+    try {
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(outputPath);
+        return workbook;
+    } catch (error) {
+        console.warn(`Could not read existing file, creating new one instead: ${error}`);
+        return new ExcelJS.Workbook();
+    }
+};
+
+/**
+ * 変換で出力するシートをブックに追加する関数を作成する
+ * - replace: 同じ名前（大文字・小文字を区別しない）の既存のシートを削除し、そのシートの位置に追加する
+ *   （この変換で追加したシートどうしの名前が重複する場合のみ連番を付与する）
+ * - append / new: 既存のシートと重複しない名前で末尾に追加する
+ * @param workbook 変換結果を書き込むブック
+ * @param outputMode 出力先のExcelファイルが既に存在する場合の出力方法
+ * @returns 希望するシート名（sanitizeSheetName で整えたもの）を受け取り、追加したワークシートを返す関数
+ */
+export const createWorksheetAdder = (workbook: ExcelJS.Workbook, outputMode: OutputMode): ((baseName: string) => ExcelJS.Worksheet) => {
+    const addedNames: string[] = [];
+
+    return (baseName: string) => {
+        const worksheet = outputMode === OutputMode.Replace
+            ? replaceWorksheet(workbook, getUniqueSheetNameAmong(addedNames, baseName))
+            : workbook.addWorksheet(getUniqueSheetName(workbook, baseName));
+        addedNames.push(worksheet.name);
+        return worksheet;
+    };
+};
+
+/**
+ * 同じ名前の既存のシートを、同じ位置に追加した新しいシートで置き換える
+ * @param workbook 対象のブック
+ * @param name シート名
+ * @returns 追加したワークシート（同じ名前のシートがない場合は末尾に追加する）
+ */
+const replaceWorksheet = (workbook: ExcelJS.Workbook, name: string): ExcelJS.Worksheet => {
+    const existing = workbook.worksheets.find(worksheet => worksheet.name.toLowerCase() === name.toLowerCase());
+    if (!existing) {
+        return workbook.addWorksheet(name);
+    }
+
+    const { orderNo } = existing as OrderedWorksheet;
+    workbook.removeWorksheet(existing.id);
+
+    const worksheet = workbook.addWorksheet(name) as OrderedWorksheet;
+    worksheet.orderNo = orderNo;
+    return worksheet;
+};
@@ -0,0 +1,77 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig } from '../types';
+
+/**
+ * コードブロック・表で始まる引用ブロックの前に、ラベル（「引用：」）の行を書き込む
+ * ラベルはExcelブックの読み込み時に本文と区別できるよう、リッチテキストでない文字列のセルとする
+ * @param worksheet 書き込み先のワークシート
+ * @param line ブロックの最初の行（ラベルがない場合は何もしない）
+ * @param rowNumber 書き込み先の行番号（1始まり）
+ * @param config Excel生成設定
+ * @returns 書き込んだ行数（ラベルがない場合は0）
+ */
+export const writeQuoteLabelRow = (
+    worksheet: ExcelJS.Worksheet,
+    line: DocumentLine,
+    rowNumber: number,
+    config: ExcelConfig
+): number => {
+    if (!line.quote?.label) {
+        return 0;
+    }
+
+    const cell = worksheet.getCell(rowNumber, (line.indentLevel * config.indentColumnOffset) + 1);
+    cell.value = line.quote.label;
+    cell.font = { name: config.fontName, size: config.baseFontSize };
+    cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: line.formatting.backgroundColor.replace('#', '') }
+    };
+    worksheet.getRow(rowNumber).height = config.rowHeight;
+    return 1;
+};
+
+/**
+ * 引用の中の行に、引用の深さの数だけ左罫線を引き、罫線から内容までのセルに引用の背景色を設定する
+ * 入れ子の引用は外側の引用の罫線も引くことで深さを表し、引用の中のリスト・表・コードブロックも引用の範囲として表示する
+ * アラートの中の行は、アラートの種類ごとの背景色と罫線の色にする
+ * @param worksheet 書き込み先のワークシート
+ * @param line ブロックの最初の行（引用の中の行でない場合は何もしない）
+ * @param startRow ブロックを書き込んだ最初の行番号（1始まり）
+ * @param rowCount ブロックを書き込んだ行数
+ * @param config Excel生成設定
+ */
+export const applyQuoteBorders = (
+    worksheet: ExcelJS.Worksheet,
+    line: DocumentLine,
+    startRow: number,
+    rowCount: number,
+    config: ExcelConfig
+): void => {
+    if (!line.quote) {
+        return;
+    }
+
+    const borderColumns = line.quote.borderLevels.map(level => (level * config.indentColumnOffset) + 1);
+    const contentColumn = (line.indentLevel * config.indentColumnOffset) + 1;
+    const colors = line.quote.alert
+        ? config.alertStyles[line.quote.alert]
+        : { backgroundColor: config.quoteBackgroundColor, borderColor: config.quoteBorderColor };
+
+    for (let row = startRow; row < startRow + rowCount; row++) {
+        // 最も外側の罫線から内容の手前までのセルを引用の背景色で埋める
+        for (let column = borderColumns[0]; column < contentColumn; column++) {
+            worksheet.getCell(row, column).fill = {
+                type: 'pattern',
+                pattern: 'solid',
+                fgColor: { argb: colors.backgroundColor }
+            };
+        }
+
+        borderColumns.forEach(column => {
+            const cell = worksheet.getCell(row, column);
+            cell.border = { ...cell.border, left: { style: 'thick', color: { argb: colors.borderColor } } };
+        });
+    }
+};
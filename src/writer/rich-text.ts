@@ -0,0 +1,102 @@
+import * as ExcelJS from 'exceljs';
+import { ExcelConfig, LinkMode, RichTextSegment } from '../types';
+import { findCellLinkTarget, LinkRegistry, usesLinkNumbers } from './link-registry';
+
+/**
+ * リッチテキストへの変換オプション
+ */
+export interface RichTextOptions {
+    /** 本文中のリンクに付与する [n] の番号の対応（nullの場合は番号を付与しない） */
+    linkRegistry: LinkRegistry | null;
+    /** [n] を付与しないリンク先（セル自体のハイパーリンクとしたリンク） */
+    cellLinkTarget?: string;
+}
+
+/**
+ * 表示テキストをリッチテキストとしたハイパーリンクのセルの値
+ * ExcelJSの型定義ではハイパーリンクの表示テキストは文字列のみだが、リッチテキストを指定しても書式を保持したまま書き出せる
+ */
+export interface RichTextHyperlinkValue {
+    text: ExcelJS.CellRichTextValue;
+    hyperlink: string;
+}
+
+/**
+ * セグメント配列から作成するセルの値
+ */
+export type RichTextCellValue = ExcelJS.CellRichTextValue | RichTextHyperlinkValue;
+
+/**
+ * RichTextSegment配列をExcelJSのRichText形式に変換する
+ * @param segments 変換元のセグメント配列
+ * @param options 変換オプション
+ * @returns ExcelJSのリッチテキスト配列
+ */
+export const convertToExcelRichText = (
+    segments: RichTextSegment[],
+    options: RichTextOptions = { linkRegistry: null }
+): ExcelJS.RichText[] => {
+    const result: ExcelJS.RichText[] = [];
+
+    segments.forEach(segment => {
+        let text = segment.text;
+
+        // 本文中の各リンクには巻末のリンク一覧と同じ番号の [n] を付与して対応を明確にする
+        // 番号のみを付加（URLそのものは書かない）
+        const linkNumber = segment.link?.target ? options.linkRegistry?.get(segment.link.target) : undefined;
+        if (linkNumber !== undefined && segment.link?.target !== options.cellLinkTarget) {
+            text += ` [${linkNumber}]`;
+        }
+
+        const richText: ExcelJS.RichText = {
+            text: text
+        };
+
+        if (segment.font) {
+            // FontStyleにはアプリ独自の 'code' プロパティが含まれるが、ExcelJSのFont型には存在しないため除外する必要がある
+            // 分割代入（Rest Property）を使用して 'code' を取り除き、残りのプロパティ（ExcelJSと互換性あり）をそのまま割り当てる
+            const { code, ...excelFont } = segment.font;
+            richText.font = excelFont;
+        }
+
+        result.push(richText);
+    });
+
+    return result;
+};
+
+/**
+ * セグメント配列からセルに設定する値を作成する
+ * リンクの表示方法がセルの場合は、行の最初のリンクをセル自体のハイパーリンクとし、
+ * 2つ目以降のリンクには巻末のリンク一覧の番号を付与する（巻末のリンク一覧を出力しない設定でも、URLが失われないよう付与する）
+ * @param segments セルに出力するセグメント配列
+ * @param config Excel生成設定
+ * @param linkRegistry 文書全体のリンク先と番号の対応
+ * @returns セルの値
+ */
+export const createCellValue = (
+    segments: RichTextSegment[],
+    config: ExcelConfig,
+    linkRegistry: LinkRegistry
+): RichTextCellValue => {
+    const cellLinkTarget = config.linkMode === LinkMode.Cell ? findCellLinkTarget(segments) : undefined;
+    const text: ExcelJS.CellRichTextValue = {
+        richText: convertToExcelRichText(segments, {
+            linkRegistry: usesLinkNumbers(config) ? linkRegistry : null,
+            cellLinkTarget
+        })
+    };
+
+    return cellLinkTarget ? { text, hyperlink: cellLinkTarget } : text;
+};
+
+/**
+ * セグメント配列から作成した値をセルに設定する
+ * 表示テキストをリッチテキストとしたハイパーリンクはExcelJSの型定義（CellValue）に含まれないため、
+ * 型定義を経由せずにセルの value に代入する
+ * @param cell 設定先のセル
+ * @param value createCellValue で作成した値
+ */
+export const setCellValue = (cell: ExcelJS.Cell, value: RichTextCellValue): void => {
+    Object.assign(cell, { value });
+};
@@ -0,0 +1,112 @@
+import * as ExcelJS from 'exceljs';
+
+/**
+ * Excelのシート名の最大文字数
+ */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * シート名に使用できない文字
+ */
+const FORBIDDEN_CHARACTERS = /[[\]:*?/\\]/g;
+
+/**
+ * Excelが予約しているシート名
+ */
+const RESERVED_SHEET_NAMES = ['history'];
+
+/**
+ * 重複時に連番を付与する試行回数の上限
+ */
+const MAX_RETRIES = 100;
+
+/**
+ * 任意の文字列をExcelのシート名として使用できる形に整える
+ * 使用できない文字は「_」に置き換え、先頭・末尾のシングルクォートを除去し、31文字に切り詰める
+ * @param name 元の文字列（見出しテキストなど）
+ * @param fallbackName 整えた結果が空になる場合に使用するシート名
+ * @returns シート名
+ */
+export const sanitizeSheetName = (name: string, fallbackName: string): string => {
+    const replaced = name
+        .replace(FORBIDDEN_CHARACTERS, '_')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    // 切り詰めた結果の末尾がシングルクォートになる場合もあるため、切り詰めた後に除去する
+    const sanitized = truncateSheetName(replaced.replace(/^['\s]+/, ''), MAX_SHEET_NAME_LENGTH)
+        .replace(/['\s]+$/, '');
+
+    if (sanitized.length === 0) {
+        return fallbackName === name ? 'Sheet' : sanitizeSheetName(fallbackName, 'Sheet');
+    }
+
+    return RESERVED_SHEET_NAMES.includes(sanitized.toLowerCase()) ? `${sanitized}_` : sanitized;
+};
+
+/**
+ * ブック内で重複しないシート名を取得する
+ * Excelはシート名の大文字・小文字を区別しないため、区別せずに重複を判定する
+ * 重複する場合は「名前 (n)」の形式で連番を付与し、31文字を超える場合は名前部分を切り詰める
+ * 無限ループ防止のため、whileではなく上限付きのforループを使用する
+ * @param workbook 対象のブック
+ * @param baseName 希望するシート名（sanitizeSheetName で整えたもの）
+ * @returns 重複しないシート名
+ */
+export const getUniqueSheetName = (workbook: ExcelJS.Workbook, baseName: string): string => {
+    return getUniqueSheetNameAmong(workbook.worksheets.map(worksheet => worksheet.name), baseName);
+};
+
+/**
+ * 指定したシート名の一覧と重複しないシート名を取得する（判定と連番の付与は getUniqueSheetName と同じ）
+ * @param sheetNames 重複を避けるシート名
+ * @param baseName 希望するシート名（sanitizeSheetName で整えたもの）
+ * @returns 重複しないシート名
+ */
+export const getUniqueSheetNameAmong = (sheetNames: string[], baseName: string): string => {
+    const existingNames = sheetNames.map(name => name.toLowerCase());
+    const isAvailable = (candidate: string): boolean => !existingNames.includes(candidate.toLowerCase());
+
+    if (isAvailable(baseName)) {
+        return baseName;
+    }
+
+    for (let i = 1; i <= MAX_RETRIES; i++) {
+        const candidate = withSuffix(baseName, ` (${i})`);
+        if (isAvailable(candidate)) {
+            return candidate;
+        }
+    }
+
+    // 万が一100回試行しても重複する場合（稀なケース）は、タイムスタンプを付与
+    return withSuffix(baseName, ` (${Date.now()})`);
+};
+
+/**
+ * 31文字以内に収まるよう名前部分を切り詰めて接尾辞を付与する
+ * @param baseName シート名
+ * @param suffix 接尾辞
+ * @returns 接尾辞を付与したシート名
+ */
+const withSuffix = (baseName: string, suffix: string): string => {
+    return `${truncateSheetName(baseName, MAX_SHEET_NAME_LENGTH - suffix.length).replace(/'+$/, '')}${suffix}`;
+};
+
+/**
+ * シート名を指定の長さ（UTF-16のコード単位数）に切り詰める
+ * サロゲートペアの途中では切らないよう、文字単位で切り詰める
+ * @param name シート名
+ * @param maxLength 最大長
+ * @returns 切り詰めたシート名
+ */
+const truncateSheetName = (name: string, maxLength: number): string => {
+    const characters: string[] = [];
+    for (const character of name) {
+        if (characters.join('').length + character.length > maxLength) {
+            break;
+        }
+        characters.push(character);
+    }
+
+    return characters.join('');
+};
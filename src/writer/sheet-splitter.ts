@@ -0,0 +1,102 @@
+import { Document, DocumentLine, ExcelConfig, LineType, SheetSplitMode } from '../types';
+
+/**
+ * 文書ごとに分割方法を指定するフロントマターのキー
+ */
+export const SHEET_SPLIT_FRONT_MATTER_KEY = 'sheetSplit';
+
+/**
+ * シートの区切りを示すコメント（例: <!-- sheet: 画面仕様 -->）
+ */
+const SHEET_MARKER_PATTERN = /^<!--\s*sheet\s*:\s*(.*?)\s*-->$/i;
+
+/**
+ * 1つのワークシートに出力する範囲を表すインターフェース
+ */
+export interface SheetSection {
+    /** シート名の元になる文字列（見出しテキストや区切りコメントの名前。先頭の範囲はnull） */
+    title: string | null;
+    /** シートに出力する行 */
+    lines: DocumentLine[];
+}
+
+/**
+ * 文書に適用する分割方法を決定する
+ * フロントマターの sheetSplit に有効な値があれば、設定より優先する
+ * @param document 解析済みドキュメント
+ * @param config Excel生成設定
+ * @returns 分割方法
+ */
+export const resolveSheetSplitMode = (document: Document, config: ExcelConfig): SheetSplitMode => {
+    const requested = document.metadata.frontMatter?.[SHEET_SPLIT_FRONT_MATTER_KEY];
+    const modes: string[] = Object.values(SheetSplitMode);
+
+    return typeof requested === 'string' && modes.includes(requested)
+        ? requested as SheetSplitMode
+        : config.sheetSplitMode;
+};
+
+/**
+ * 行をワークシートごとの範囲に分割する
+ * 最初の区切りより前に内容がある場合は、それを先頭の範囲とする（空行のみの場合は範囲を作らない）
+ * 区切りコメントの行はどの分割方法でも出力しない
+ * @param lines ドキュメントの全行
+ * @param mode 分割方法
+ * @returns ワークシートごとの範囲（最低1つ）
+ */
+export const splitIntoSections = (lines: DocumentLine[], mode: SheetSplitMode): SheetSection[] => {
+    const sections = lines.reduce<SheetSection[]>((result, line) => {
+        const marker = matchSheetMarker(line);
+        if (marker !== null && mode !== SheetSplitMode.Marker) {
+            return result;
+        }
+
+        const title = marker ?? detectSplitHeading(line, mode);
+        if (title !== null) {
+            result.push({ title, lines: marker !== null ? [] : [line] });
+            return result;
+        }
+
+        result[result.length - 1].lines.push(line);
+        return result;
+    }, [{ title: null, lines: [] }]);
+
+    // 区切りより前が空行のみの場合は、先頭の範囲を出力しない
+    const [leading, ...rest] = sections;
+    const hasLeadingContent = leading.lines.some(line => line.lineType !== LineType.Empty);
+
+    return hasLeadingContent || rest.length === 0 ? sections : rest;
+};
+
+/**
+ * 行がシートの区切りコメントであればシート名を取得する
+ * コードブロック内の行は区切りコメントとして扱わない
+ * @param line 対象行
+ * @returns シート名（区切りコメントでない場合はnull）
+ */
+const matchSheetMarker = (line: DocumentLine): string | null => {
+    if (line.codeBlock) {
+        return null;
+    }
+
+    const match = line.originalLine.trim().match(SHEET_MARKER_PATTERN);
+    return match ? match[1] : null;
+};
+
+/**
+ * 行が分割位置の見出しであれば見出しテキストを取得する
+ * @param line 対象行
+ * @param mode 分割方法
+ * @returns 見出しテキスト（分割位置でない場合はnull）
+ */
+const detectSplitHeading = (line: DocumentLine, mode: SheetSplitMode): string | null => {
+    if (line.lineType !== LineType.Header) {
+        return null;
+    }
+
+    const level = line.formatting.headerLevel;
+    const isSplitPoint = (mode === SheetSplitMode.Heading1 && level === 1) ||
+        (mode === SheetSplitMode.Heading2 && level >= 1 && level <= 2);
+
+    return isSplitPoint ? line.plainText : null;
+};
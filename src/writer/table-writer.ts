@@ -0,0 +1,189 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig, RichTextSegment, TableAlignment, TableRowRole } from '../types';
+import { createCellValue, setCellValue } from './rich-text';
+import { LinkRegistry } from './link-registry';
+
+/**
+ * 表ブロックをワークシートに書き込む
+ * 表の各列は方眼紙の複数列を結合したセルとして配置し、罫線・見出し行の網掛け・列揃えを適用する
+ * @param worksheet 書き込み先のワークシート
+ * @param lines 表ブロックを構成する行（見出し行・区切り行・本文行）
+ * @param startRow 書き込み開始行（1始まり）
+ * @param config Excel生成設定
+ * @param linkRegistry 文書全体のリンク先と番号の対応
+ * @returns 書き込んだ行数
+ */
+export const writeTableBlock = (
+    worksheet: ExcelJS.Worksheet,
+    lines: DocumentLine[],
+    startRow: number,
+    config: ExcelConfig,
+    linkRegistry: LinkRegistry
+): number => {
+    // 区切り行は書式情報のみを持つため出力しない
+    const visibleRows = lines.filter(line => line.table && line.table.role !== TableRowRole.Delimiter);
+    if (visibleRows.length === 0) {
+        return 0;
+    }
+
+    const startColumn = (lines[0].indentLevel * config.indentColumnOffset) + 1;
+    const columnSpans = calculateColumnSpans(visibleRows, config);
+
+    visibleRows.forEach((line, rowOffset) => {
+        const rowNumber = startRow + rowOffset;
+        writeTableRow(worksheet, line, rowNumber, startColumn, columnSpans, config, linkRegistry);
+        worksheet.getRow(rowNumber).height = config.rowHeight;
+    });
+
+    return visibleRows.length;
+};
+
+/**
+ * 表の1行分を書き込む
+ * @param worksheet 書き込み先のワークシート
+ * @param line 表の行
+ * @param rowNumber 書き込み先の行番号
+ * @param startColumn 表の開始列
+ * @param columnSpans 表の列ごとの幅（方眼紙の列数）
+ * @param config Excel生成設定
+ * @param linkRegistry 文書全体のリンク先と番号の対応
+ */
+const writeTableRow = (
+    worksheet: ExcelJS.Worksheet,
+    line: DocumentLine,
+    rowNumber: number,
+    startColumn: number,
+    columnSpans: number[],
+    config: ExcelConfig,
+    linkRegistry: LinkRegistry
+): void => {
+    const table = line.table;
+    if (!table) {
+        return;
+    }
+
+    const isHeader = table.role === TableRowRole.Header;
+
+    columnSpans.reduce((columnIndex, span, tableColumn) => {
+        const endColumn = columnIndex + span - 1;
+        if (span > 1) {
+            worksheet.mergeCells(rowNumber, columnIndex, rowNumber, endColumn);
+        }
+
+        const cell = worksheet.getCell(rowNumber, columnIndex);
+        const segments = table.cells[tableColumn] ?? [];
+        setCellValue(cell, createCellValue(isHeader ? applyHeaderFont(segments) : segments, config, linkRegistry));
+        cell.alignment = {
+            horizontal: toHorizontalAlignment(table.alignments[tableColumn], isHeader),
+            vertical: 'middle'
+        };
+
+        if (isHeader) {
+            cell.fill = {
+                type: 'pattern',
+                pattern: 'solid',
+                fgColor: { argb: config.tableHeaderBackgroundColor.replace('#', '') }
+            };
+        }
+
+        applyRangeBorder(worksheet, rowNumber, columnIndex, endColumn, config.tableBorderColor);
+
+        return endColumn + 1;
+    }, startColumn);
+};
+
+/**
+ * 見出し行のセグメントに太字を適用する
+ * @param segments セルのセグメント配列
+ * @returns 太字を適用したセグメント配列
+ */
+const applyHeaderFont = (segments: RichTextSegment[]): RichTextSegment[] => {
+    return segments.map(segment => ({
+        ...segment,
+        font: { ...segment.font, bold: true }
+    }));
+};
+
+/**
+ * 結合セル範囲の各セルに罫線を設定する
+ * 結合セルの外枠を正しく表示するため、範囲内の全セルに罫線を設定する
+ * @param worksheet 対象のワークシート
+ * @param rowNumber 行番号
+ * @param startColumn 範囲の開始列
+ * @param endColumn 範囲の終了列
+ * @param borderColor 罫線の色
+ */
+export const applyRangeBorder = (
+    worksheet: ExcelJS.Worksheet,
+    rowNumber: number,
+    startColumn: number,
+    endColumn: number,
+    borderColor: string
+): void => {
+    const border: Partial<ExcelJS.Border> = { style: 'thin', color: { argb: borderColor.replace('#', '') } };
+
+    for (let columnIndex = startColumn; columnIndex <= endColumn; columnIndex++) {
+        worksheet.getCell(rowNumber, columnIndex).border = {
+            top: border,
+            bottom: border,
+            left: border,
+            right: border
+        };
+    }
+};
+
+/**
+ * Markdownの列揃えをExcelの水平方向の配置に変換する
+ * 揃え指定がない場合、見出し行は中央揃え、本文行は左揃えとする
+ * @param alignment Markdownの列揃え
+ * @param isHeader 見出し行かどうか
+ * @returns Excelの水平方向の配置
+ */
+const toHorizontalAlignment = (
+    alignment: TableAlignment | undefined,
+    isHeader: boolean
+): ExcelJS.Alignment['horizontal'] => {
+    switch (alignment) {
+        case TableAlignment.Center:
+            return 'center';
+        case TableAlignment.Right:
+            return 'right';
+        case TableAlignment.Left:
+            return 'left';
+        default:
+            return isHeader ? 'center' : 'left';
+    }
+};
+
+/**
+ * 表の列ごとの幅（方眼紙の列数）を内容の表示幅から計算する
+ * @param rows 出力対象の表の行
+ * @param config Excel生成設定
+ * @returns 列ごとの幅
+ */
+const calculateColumnSpans = (rows: DocumentLine[], config: ExcelConfig): number[] => {
+    const columnCount = rows[0].table?.alignments.length ?? 0;
+
+    return Array.from({ length: columnCount }, (_, tableColumn) => {
+        const maxWidth = rows.reduce((currentMax, row) => {
+            const cellText = (row.table?.cells[tableColumn] ?? []).map(segment => segment.text).join('');
+            return Math.max(currentMax, measureDisplayWidth(cellText));
+        }, 0);
+
+        // 左右の余白として1文字分を加える
+        const span = Math.ceil((maxWidth + 1) / config.cellWidth);
+        return Math.min(Math.max(span, config.tableMinColumnSpan), config.tableMaxColumnSpan);
+    });
+};
+
+/**
+ * 文字列の表示幅を計算する（全角文字は半角2文字分として数える）
+ * @param text 対象文字列
+ * @returns 表示幅
+ */
+export const measureDisplayWidth = (text: string): number => {
+    return Array.from(text).reduce((width, char) => {
+        const codePoint = char.codePointAt(0) ?? 0;
+        return width + (codePoint > 0xFF ? 2 : 1);
+    }, 0);
+};
@@ -0,0 +1,116 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig, LineType, TaskSummaryMode } from '../types';
+import { calculateColumnAfterBackLink } from './toc-writer';
+
+/**
+ * 集計の表示テキストの接頭辞
+ */
+const SUMMARY_LABEL = '完了';
+
+/**
+ * 集計の表示テキスト（完了 n/m）に一致するパターン（Excelブックの読み込み時に集計のセルを除外する）
+ */
+export const TASK_SUMMARY_PATTERN = new RegExp(`^${SUMMARY_LABEL} \\d+/\\d+$`);
+
+/**
+ * 数式で完了した項目を数えるCOUNTIFの条件（番号付きリストの「1. ☑」にも一致させる）
+ */
+const CHECKED_CRITERIA = '"*☑*"';
+
+/**
+ * 数式で未完了の項目を数えるCOUNTIFの条件
+ */
+const UNCHECKED_CRITERIA = '"*☐*"';
+
+/**
+ * 行の出力先を表すインターフェース
+ */
+export interface LinePlacement {
+    /** 出力した行 */
+    line: DocumentLine;
+    /** 出力先の行番号（1始まり） */
+    row: number;
+    /** 出力先の列番号（1始まり。行の書き込みを開始したセル） */
+    column: number;
+}
+
+/**
+ * 見出しごとに、その節（下位の見出しの節を含む）のタスクリスト項目の完了数/総数を見出しの右側に書き込む
+ * タスクリスト項目がない節には書き込まない
+ * @param worksheet 書き込み先のワークシート
+ * @param placements シートに出力した行の出力先（出現順）
+ * @param config Excel生成設定
+ */
+export const writeTaskSummaries = (
+    worksheet: ExcelJS.Worksheet,
+    placements: LinePlacement[],
+    config: ExcelConfig
+): void => {
+    if (config.taskSummary === TaskSummaryMode.None) {
+        return;
+    }
+
+    placements.forEach((heading, index) => {
+        if (heading.line.lineType !== LineType.Header) {
+            return;
+        }
+
+        const tasks = collectSectionTasks(placements.slice(index + 1), heading.line.formatting.headerLevel);
+        if (tasks.length === 0) {
+            return;
+        }
+
+        const checkedCount = tasks.filter(task => task.line.task?.checked).length;
+        const text = formatSummary(checkedCount, tasks.length);
+        const cell = worksheet.getCell(heading.row, calculateColumnAfterBackLink(heading.line, config));
+
+        cell.value = config.taskSummary === TaskSummaryMode.Formula
+            ? { formula: createSummaryFormula(worksheet, tasks), result: text }
+            : text;
+        cell.font = { name: config.fontName, size: config.baseFontSize };
+    });
+};
+
+/**
+ * 見出しの後に続く行から、その節に含まれるタスクリスト項目を取得する
+ * 同じレベル以上の見出しが現れた位置で節が終わる
+ * @param following 見出しの後に続く行の出力先
+ * @param level 見出しレベル
+ * @returns タスクリスト項目の出力先
+ */
+const collectSectionTasks = (following: LinePlacement[], level: number): LinePlacement[] => {
+    const endIndex = following.findIndex(placement => {
+        return placement.line.lineType === LineType.Header && placement.line.formatting.headerLevel <= level;
+    });
+    const section = endIndex === -1 ? following : following.slice(0, endIndex);
+
+    return section.filter(placement => placement.line.task);
+};
+
+/**
+ * チェック済みの行を数えて「完了 n/m」を表示する数式を作成する
+ * 範囲は節のタスクリスト項目を含む最小の矩形とする
+ * @param worksheet 対象のワークシート
+ * @param tasks 節のタスクリスト項目の出力先
+ * @returns 数式（先頭の = を除く）
+ */
+const createSummaryFormula = (worksheet: ExcelJS.Worksheet, tasks: LinePlacement[]): string => {
+    const columns = tasks.map(task => task.column);
+    const firstColumn = worksheet.getColumn(Math.min(...columns)).letter;
+    const lastColumn = worksheet.getColumn(Math.max(...columns)).letter;
+    const range = `${firstColumn}${tasks[0].row}:${lastColumn}${tasks[tasks.length - 1].row}`;
+
+    const checked = `COUNTIF(${range},${CHECKED_CRITERIA})`;
+    const unchecked = `COUNTIF(${range},${UNCHECKED_CRITERIA})`;
+    return `"${SUMMARY_LABEL} "&${checked}&"/"&(${checked}+${unchecked})`;
+};
+
+/**
+ * 集計の表示テキストを作成する
+ * @param checkedCount 完了数
+ * @param totalCount 総数
+ * @returns 表示テキスト（例: 完了 2/5）
+ */
+const formatSummary = (checkedCount: number, totalCount: number): string => {
+    return `${SUMMARY_LABEL} ${checkedCount}/${totalCount}`;
+};
@@ -0,0 +1,144 @@
+import * as ExcelJS from 'exceljs';
+import { DocumentLine, ExcelConfig } from '../types';
+import { measureDisplayWidth } from './table-writer';
+
+/**
+ * 目次シートの名前
+ */
+export const TOC_SHEET_NAME = '目次';
+
+/**
+ * 目次へ戻るリンクの表示テキスト
+ */
+const BACK_LINK_TEXT = '▲目次へ';
+
+/**
+ * 目次へ戻るリンクを付与する見出しレベルの上限（H1・H2）
+ */
+const BACK_LINK_MAX_LEVEL = 2;
+
+/**
+ * 目次の項目を書き込み始める行（1行目にタイトル、2行目は空行）
+ */
+const TOC_ENTRY_START_ROW = 3;
+
+/**
+ * 見出しの出力先を表すインターフェース
+ */
+export interface HeadingPlacement {
+    /** 見出しの行 */
+    line: DocumentLine;
+    /** 出力先のシート名 */
+    sheetName: string;
+    /** 出力先の行番号（1始まり） */
+    row: number;
+}
+
+/**
+ * 目次シートにすべての見出しへのリンク一覧を書き込む
+ * 見出しレベルに応じて字下げし、各項目は見出しの出力先セルへの内部リンクとする
+ * @param worksheet 目次シート
+ * @param headings 見出しの出力先の配列（出現順）
+ * @param config Excel生成設定
+ */
+export const writeTableOfContents = (
+    worksheet: ExcelJS.Worksheet,
+    headings: HeadingPlacement[],
+    config: ExcelConfig
+): void => {
+    const titleCell = worksheet.getCell(1, 1);
+    titleCell.value = TOC_SHEET_NAME;
+    titleCell.font = { bold: true, size: config.headerFontSizes[1], name: config.fontName };
+    worksheet.getRow(1).height = config.rowHeight;
+
+    headings.forEach((heading, index) => {
+        const rowNumber = TOC_ENTRY_START_ROW + index;
+        const level = Math.max(heading.line.formatting.headerLevel, 1);
+        const cell = worksheet.getCell(rowNumber, ((level - 1) * config.indentColumnOffset) + 1);
+
+        cell.value = {
+            text: heading.line.plainText,
+            hyperlink: createInternalLink(heading.sheetName, heading.row)
+        };
+        cell.font = {
+            color: { argb: config.linkColor },
+            underline: true,
+            bold: level === 1,
+            name: config.fontName,
+            size: config.baseFontSize
+        };
+        worksheet.getRow(rowNumber).height = config.rowHeight;
+    });
+};
+
+/**
+ * 本文シートのH1・H2見出しの右側に、目次シートへ戻るリンクを書き込む
+ * @param worksheet 本文シート
+ * @param headings 本文シートに出力した見出しの出力先の配列
+ * @param tocSheetName 目次シートの名前
+ * @param config Excel生成設定
+ */
+export const writeBackLinks = (
+    worksheet: ExcelJS.Worksheet,
+    headings: HeadingPlacement[],
+    tocSheetName: string,
+    config: ExcelConfig
+): void => {
+    headings
+        .filter(heading => heading.line.formatting.headerLevel <= BACK_LINK_MAX_LEVEL)
+        .forEach(heading => {
+            const cell = worksheet.getCell(heading.row, calculateBackLinkColumn(heading.line, config));
+            cell.value = {
+                text: BACK_LINK_TEXT,
+                hyperlink: createInternalLink(tocSheetName, 1)
+            };
+            cell.font = {
+                color: { argb: config.linkColor },
+                underline: true,
+                name: config.fontName,
+                size: config.baseFontSize
+            };
+        });
+};
+
+/**
+ * ブック内のセルへの内部リンクを作成する
+ * @param sheetName リンク先のシート名
+ * @param row リンク先の行番号（1始まり）
+ * @returns ExcelJSのハイパーリンク文字列（例: #'目次'!A1）
+ */
+export const createInternalLink = (sheetName: string, row: number): string => {
+    // シート名中のシングルクォートは2つ重ねてエスケープする
+    return `#'${sheetName.replace(/'/g, "''")}'!A${row}`;
+};
+
+/**
+ * 見出しの右側で、目次へ戻るリンクと重ならない列を計算する
+ * 目次へ戻るリンクを付与しない見出しの場合は、目次へ戻るリンクの列と同じ列とする
+ * @param line 見出しの行
+ * @param config Excel生成設定
+ * @returns 列番号（1始まり）
+ */
+export const calculateColumnAfterBackLink = (line: DocumentLine, config: ExcelConfig): number => {
+    const backLinkColumn = calculateBackLinkColumn(line, config);
+    if (!config.generateTableOfContents || line.formatting.headerLevel > BACK_LINK_MAX_LEVEL) {
+        return backLinkColumn;
+    }
+
+    return backLinkColumn + Math.ceil(measureDisplayWidth(BACK_LINK_TEXT) / config.cellWidth) + 1;
+};
+
+/**
+ * 見出しテキストと重ならない、目次へ戻るリンクの列を計算する
+ * 見出しのフォントサイズに比例して表示幅を見積もり、見出しの右に1列空けた位置とする
+ * @param line 見出しの行
+ * @param config Excel生成設定
+ * @returns 列番号（1始まり）
+ */
+const calculateBackLinkColumn = (line: DocumentLine, config: ExcelConfig): number => {
+    const startColumn = (line.indentLevel * config.indentColumnOffset) + 1;
+    const fontScale = (line.formatting.fontSize || config.baseFontSize) / config.baseFontSize;
+    const headingColumns = Math.ceil((measureDisplayWidth(line.plainText) * fontScale) / config.cellWidth);
+
+    return startColumn + headingColumns + 1;
+};
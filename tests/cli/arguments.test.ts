@@ -0,0 +1,62 @@
+import { parseCliArguments, Verbosity } from '../../src/cli/arguments';
+
+describe('parseCliArguments', () => {
+    it('入力と出力先、設定ファイルを解析する', () => {
+        const parsed = parseCliArguments(['input.md', '-o', 'out.xlsx', '--config', 'style.json']);
+
+        expect(parsed.inputs).toEqual(['input.md']);
+        expect(parsed.output).toBe('out.xlsx');
+        expect(parsed.configPath).toBe('style.json');
+        expect(parsed.verbosity).toBe(Verbosity.Normal);
+        expect(parsed.showHelp).toBe(false);
+    });
+
+    it('「--option=値」形式と複数の入力を解析する', () => {
+        const parsed = parseCliArguments(['a.md', 'docs', '--output=dist/xlsx', 'docs/**/*.md']);
+
+        expect(parsed.inputs).toEqual(['a.md', 'docs', 'docs/**/*.md']);
+        expect(parsed.output).toBe('dist/xlsx');
+    });
+
+    it('--quiet と --verbose を解析する', () => {
+        expect(parseCliArguments(['a.md', '-q']).verbosity).toBe(Verbosity.Quiet);
+        expect(parseCliArguments(['a.md', '--verbose']).verbosity).toBe(Verbosity.Verbose);
+    });
+
+    it('--help 指定時は入力がなくてもエラーにしない', () => {
+        expect(parseCliArguments(['--help']).showHelp).toBe(true);
+    });
+
+    it('--sync と --base、--apply を解析する', () => {
+        const parsed = parseCliArguments(['doc.md', '--sync', 'doc.xlsx', '--base=old.md', '--apply']);
+
+        expect(parsed.inputs).toEqual(['doc.md']);
+        expect(parsed.syncWorkbook).toBe('doc.xlsx');
+        expect(parsed.basePath).toBe('old.md');
+        expect(parsed.apply).toBe(true);
+        expect(parseCliArguments(['doc.md']).apply).toBe(false);
+    });
+
+    it('--sheet を指定した順にすべて解析する', () => {
+        const parsed = parseCliArguments(['doc.md', '--sync', 'doc.xlsx', '--sheet', 'Markdown (1)', '--sheet=付録']);
+
+        expect(parsed.sheetNames).toEqual(['Markdown (1)', '付録']);
+        expect(parseCliArguments(['doc.md', '--sync', 'doc.xlsx']).sheetNames).toBeUndefined();
+    });
+
+    it('--sync と組み合わせるオプションの誤りに対してエラーを投げる', () => {
+        expect(() => parseCliArguments(['doc.md', '--apply'])).toThrow('--base と --apply、--sheet は --sync と同時に指定してください');
+        expect(() => parseCliArguments(['doc.md', '--sheet', 'Markdown'])).toThrow('--base と --apply、--sheet は --sync と同時に指定してください');
+        expect(() => parseCliArguments(['doc.md', '--sync', 'doc.xlsx', '--sheet'])).toThrow('オプション --sheet には値が必要です');
+        expect(() => parseCliArguments(['doc.md', '--sync', 'doc.xlsx', '-o', 'out.xlsx'])).toThrow('--sync と --output は同時に指定できません');
+        expect(() => parseCliArguments(['a.md', 'b.md', '--sync', 'doc.xlsx'])).toThrow('入力ファイルを1つだけ指定してください');
+    });
+
+    it('引数の誤りに対してエラーを投げる', () => {
+        expect(() => parseCliArguments([])).toThrow('入力ファイルを指定してください');
+        expect(() => parseCliArguments(['a.md', '-o'])).toThrow('オプション -o には値が必要です');
+        expect(() => parseCliArguments(['a.md', '--unknown'])).toThrow('不明なオプションです: --unknown');
+        expect(() => parseCliArguments(['a.md', '-q', '-v'])).toThrow('--quiet と --verbose は同時に指定できません');
+        expect(() => parseCliArguments(['a.md', '-o', 'x.xlsx', '-o', 'y.xlsx'])).toThrow('複数回指定されています');
+    });
+});
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ExcelJS from 'exceljs';
+import { ExitCode, resolveOutputPath, runCli } from '../../src/cli';
+
+describe('runCli', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+        testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+        fs.mkdirSync(path.join(testDir, 'docs', 'chapters'), { recursive: true });
+        fs.writeFileSync(path.join(testDir, 'docs', 'index.md'), '# 目次\n本文');
+        fs.writeFileSync(path.join(testDir, 'docs', 'chapters', 'first.md'), '# 第1章');
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        fs.rmSync(testDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('単一ファイルを指定した出力先に変換する', async () => {
+        const exitCode = await runCli(['docs/index.md', '-o', 'out/index.xlsx'], testDir);
+
+        expect(exitCode).toBe(ExitCode.Success);
+
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(path.join(testDir, 'out', 'index.xlsx'));
+        expect(workbook.worksheets[0].getCell(1, 1).text).toBe('目次');
+    });
+
+    it('ディレクトリ指定時は階層を保持して出力ディレクトリに変換する', async () => {
+        const exitCode = await runCli(['docs', '-o', 'out', '--quiet'], testDir);
+
+        expect(exitCode).toBe(ExitCode.Success);
+        expect(fs.existsSync(path.join(testDir, 'out', 'index.xlsx'))).toBe(true);
+        expect(fs.existsSync(path.join(testDir, 'out', 'chapters', 'first.xlsx'))).toBe(true);
+        expect(console.log).not.toHaveBeenCalled();
+    });
+
+    it('設定ファイルの内容をExcel設定に反映する', async () => {
+        fs.writeFileSync(path.join(testDir, 'style.json'), JSON.stringify({ sheetName: '仕様書' }));
+
+        const exitCode = await runCli(['docs/index.md', '-c', 'style.json', '-o', 'styled.xlsx'], testDir);
+
+        expect(exitCode).toBe(ExitCode.Success);
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(path.join(testDir, 'styled.xlsx'));
+        expect(workbook.getWorksheet('仕様書')).toBeDefined();
+    });
+
+    it('設定ファイル未指定時は入力ファイルごとに親ディレクトリから設定ファイルを探索する', async () => {
+        fs.writeFileSync(path.join(testDir, 'docs', 'chapters', '.md2excelrc.yml'), 'sheetName: 章\n');
+
+        const exitCode = await runCli(['docs', '-o', 'out'], testDir);
+
+        expect(exitCode).toBe(ExitCode.Success);
+        const chapterWorkbook = new ExcelJS.Workbook();
+        await chapterWorkbook.xlsx.readFile(path.join(testDir, 'out', 'chapters', 'first.xlsx'));
+        expect(chapterWorkbook.getWorksheet('章')).toBeDefined();
+
+        const indexWorkbook = new ExcelJS.Workbook();
+        await indexWorkbook.xlsx.readFile(path.join(testDir, 'out', 'index.xlsx'));
+        expect(indexWorkbook.getWorksheet('Markdown')).toBeDefined();
+    });
+
+    it('探索した設定ファイルに誤りがある場合はそのファイルの変換を失敗とする', async () => {
+        fs.writeFileSync(path.join(testDir, 'docs', '.md2excelrc.json'), JSON.stringify({ cellWidth: 'wide' }));
+
+        const exitCode = await runCli(['docs/index.md'], testDir);
+
+        expect(exitCode).toBe(ExitCode.ConversionFailed);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('cellWidth: 正の数値を指定してください'));
+    });
+
+    it('引数の誤りや入力が見つからない場合は終了コード2を返す', async () => {
+        expect(await runCli([], testDir)).toBe(ExitCode.UsageError);
+        expect(await runCli(['missing.md'], testDir)).toBe(ExitCode.UsageError);
+        expect(await runCli(['docs/index.md', '-c', 'missing.json'], testDir)).toBe(ExitCode.UsageError);
+    });
+
+    it('変換に失敗したファイルがある場合は終了コード1を返す', async () => {
+        // 出力先に同名のディレクトリがあるため書き出しに失敗する
+        fs.mkdirSync(path.join(testDir, 'docs', 'index.xlsx'));
+
+        const exitCode = await runCli(['docs/index.md'], testDir);
+
+        expect(exitCode).toBe(ExitCode.ConversionFailed);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining('変換エラー'));
+    });
+
+    describe('--sync', () => {
+        /**
+         * 入力のMarkdownを変換し、本文のセルを編集したExcelファイルを作成する
+         * @returns Excelファイルのパス
+         */
+        const prepareEditedWorkbook = async (): Promise<string> => {
+            await runCli(['docs/index.md', '-o', 'index.xlsx'], testDir);
+
+            const workbookPath = path.join(testDir, 'index.xlsx');
+            const workbook = new ExcelJS.Workbook();
+            await workbook.xlsx.readFile(workbookPath);
+            const cell = workbook.worksheets[0].getCell(2, 1);
+            const [run] = (cell.value as ExcelJS.CellRichTextValue).richText;
+            cell.value = { richText: [{ ...run, text: 'Excelで編集した本文' }] };
+            await workbook.xlsx.writeFile(workbookPath);
+            return workbookPath;
+        };
+
+        beforeEach(() => {
+            jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        });
+
+        it('Excelでの編集をパッチとして出力し、--apply 指定時はMarkdownファイルに書き込む', async () => {
+            await prepareEditedWorkbook();
+
+            expect(await runCli(['docs/index.md', '--sync', 'index.xlsx'], testDir)).toBe(ExitCode.Success);
+            expect(process.stdout.write).toHaveBeenCalledWith(expect.stringContaining('+Excelで編集した本文'));
+            expect(fs.readFileSync(path.join(testDir, 'docs', 'index.md'), 'utf8')).toBe('# 目次\n本文');
+
+            expect(await runCli(['docs/index.md', '--sync', 'index.xlsx', '--apply'], testDir)).toBe(ExitCode.Success);
+            expect(fs.readFileSync(path.join(testDir, 'docs', 'index.md'), 'utf8')).toBe('# 目次\nExcelで編集した本文');
+        });
+
+        it('変換した時点からMarkdownファイルも変更された行の編集は、競合として終了コード1を返す', async () => {
+            await prepareEditedWorkbook();
+            fs.copyFileSync(path.join(testDir, 'docs', 'index.md'), path.join(testDir, 'base.md'));
+            fs.writeFileSync(path.join(testDir, 'docs', 'index.md'), '# 目次\nMarkdownで編集した本文');
+
+            const exitCode = await runCli(['docs/index.md', '--sync', 'index.xlsx', '--base', 'base.md', '--apply'], testDir);
+
+            expect(exitCode).toBe(ExitCode.ConversionFailed);
+            expect(console.error).toHaveBeenCalledWith(expect.stringContaining('競合'));
+            expect(fs.readFileSync(path.join(testDir, 'docs', 'index.md'), 'utf8')).toBe('# 目次\nMarkdownで編集した本文');
+        });
+
+        it('--sheet で指定したシートを読み込み、シートが見つからない場合は終了コード1を返す', async () => {
+            await prepareEditedWorkbook();
+
+            expect(await runCli(['docs/index.md', '--sync', 'index.xlsx', '--sheet', '存在しないシート'], testDir)).toBe(ExitCode.ConversionFailed);
+            expect(console.error).toHaveBeenCalledWith(expect.stringContaining('シートが見つかりません: 存在しないシート'));
+        });
+
+        it('Excelファイルが見つからない場合は終了コード2を返す', async () => {
+            expect(await runCli(['docs/index.md', '--sync', 'missing.xlsx'], testDir)).toBe(ExitCode.UsageError);
+        });
+    });
+});
+
+describe('resolveOutputPath', () => {
+    const inputFile = { filePath: '/work/docs/spec/api.md', relativePath: 'spec/api.md' };
+
+    it('出力先未指定時は入力ファイルと同じ場所に出力する', () => {
+        expect(resolveOutputPath(inputFile, undefined, false, '/work')).toBe('/work/docs/spec/api.xlsx');
+    });
+
+    it('単一入力で .xlsx が指定された場合はそのファイルに出力する', () => {
+        expect(resolveOutputPath(inputFile, 'result.xlsx', true, '/work')).toBe('/work/result.xlsx');
+    });
+
+    it('複数入力の場合は出力先をディレクトリとして扱う', () => {
+        expect(resolveOutputPath(inputFile, 'out', false, '/work')).toBe('/work/out/spec/api.xlsx');
+    });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandInputFiles, globToRegExp } from '../../src/cli/input-files';
+
+describe('input-files', () => {
+    describe('globToRegExp', () => {
+        it('* はディレクトリ区切りを含まない任意の文字列に一致する', () => {
+            const matcher = globToRegExp('*.md');
+            expect(matcher.test('readme.md')).toBe(true);
+            expect(matcher.test('docs/readme.md')).toBe(false);
+        });
+
+        it('** は0個以上のディレクトリに一致する', () => {
+            const matcher = globToRegExp('**/*.md');
+            expect(matcher.test('readme.md')).toBe(true);
+            expect(matcher.test('docs/spec/readme.md')).toBe(true);
+            expect(matcher.test('docs/readme.txt')).toBe(false);
+        });
+
+        it('? と文字クラスに対応する', () => {
+            expect(globToRegExp('ch?.md').test('ch1.md')).toBe(true);
+            expect(globToRegExp('ch[12].md').test('ch2.md')).toBe(true);
+            expect(globToRegExp('ch[!12].md').test('ch2.md')).toBe(false);
+        });
+    });
+
+    describe('expandInputFiles', () => {
+        let testDir: string;
+
+        beforeEach(() => {
+            testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'input-files-'));
+            fs.mkdirSync(path.join(testDir, 'docs', 'spec'), { recursive: true });
+            fs.mkdirSync(path.join(testDir, 'docs', 'node_modules'), { recursive: true });
+            fs.writeFileSync(path.join(testDir, 'readme.md'), '# readme');
+            fs.writeFileSync(path.join(testDir, 'docs', 'intro.md'), '# intro');
+            fs.writeFileSync(path.join(testDir, 'docs', 'notes.txt'), 'notes');
+            fs.writeFileSync(path.join(testDir, 'docs', 'spec', 'api.markdown'), '# api');
+            fs.writeFileSync(path.join(testDir, 'docs', 'node_modules', 'dependency.md'), '# dependency');
+        });
+
+        afterEach(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+        });
+
+        it('ファイル指定はそのまま展開する', async () => {
+            const files = await expandInputFiles(['readme.md'], testDir);
+            expect(files).toEqual([{ filePath: path.join(testDir, 'readme.md'), relativePath: 'readme.md' }]);
+        });
+
+        it('ディレクトリ指定は配下のMarkdownを再帰的に展開する（node_modulesは除外）', async () => {
+            const files = await expandInputFiles(['docs'], testDir);
+            expect(files.map(file => file.relativePath)).toEqual(['intro.md', path.join('spec', 'api.markdown')]);
+        });
+
+        it('globパターンを固定部分からの相対パスで展開する', async () => {
+            const files = await expandInputFiles(['docs/**/*[dn]'], testDir);
+            expect(files.map(file => file.relativePath)).toEqual(['intro.md', path.join('spec', 'api.markdown')]);
+        });
+
+        it('重複する指定は1件にまとめる', async () => {
+            const files = await expandInputFiles(['readme.md', '*.md'], testDir);
+            expect(files).toHaveLength(1);
+        });
+
+        it('一致するファイルがない指定はエラーにする', async () => {
+            await expect(expandInputFiles(['missing.md'], testDir)).rejects.toThrow('入力に一致するファイルが見つかりません: missing.md');
+            await expect(expandInputFiles(['docs/**/*.rst'], testDir)).rejects.toThrow('入力に一致するファイルが見つかりません');
+        });
+    });
+});
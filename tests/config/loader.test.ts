@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findConfigFile, loadExcelConfigFile, mergeExcelConfig, resolveExcelConfig } from '../../src/config/loader';
+import { defaultExcelConfig } from '../../src/config';
+
+describe('config loader', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+        testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-loader-'));
+        fs.mkdirSync(path.join(testDir, 'project', 'docs', 'api'), { recursive: true });
+    });
+
+    afterEach(() => {
+        fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    describe('loadExcelConfigFile', () => {
+        it('JSONの設定ファイルをデフォルト設定に上書きする', async () => {
+            const configPath = path.join(testDir, 'style.json');
+            fs.writeFileSync(configPath, JSON.stringify({ fontName: 'Yu Gothic', headerFontSizes: { 1: 24 } }));
+
+            const config = await loadExcelConfigFile(configPath);
+
+            expect(config.fontName).toBe('Yu Gothic');
+            expect(config.headerFontSizes).toEqual({ ...defaultExcelConfig.headerFontSizes, 1: 24 });
+            expect(config.cellWidth).toBe(defaultExcelConfig.cellWidth);
+        });
+
+        it('拡張子が .yaml / .yml の設定ファイルはYAMLとして解析する', async () => {
+            const configPath = path.join(testDir, 'style.yml');
+            fs.writeFileSync(configPath, 'sheetName: 設計書\ncodeBackgroundColor: "EEEEEE"\n');
+
+            const config = await loadExcelConfigFile(configPath);
+
+            expect(config.sheetName).toBe('設計書');
+            expect(config.codeBackgroundColor).toBe('EEEEEE');
+        });
+
+        it('空のYAMLファイルはデフォルト設定として扱う', async () => {
+            const configPath = path.join(testDir, 'empty.yaml');
+            fs.writeFileSync(configPath, '');
+
+            await expect(loadExcelConfigFile(configPath)).resolves.toEqual(defaultExcelConfig);
+        });
+
+        it('内容に誤りがある場合はすべての問題点をエラーメッセージに含める', async () => {
+            const configPath = path.join(testDir, 'invalid.json');
+            fs.writeFileSync(configPath, JSON.stringify({ cellWidth: 0, linkColor: 'blue', fontSize: 12 }));
+
+            const error = await loadExcelConfigFile(configPath).catch((caught: Error) => caught);
+
+            expect(error).toBeInstanceOf(Error);
+            expect((error as Error).message).toContain(`設定ファイルの内容に誤りがあります: ${configPath}`);
+            expect((error as Error).message).toContain('不明な設定項目です: fontSize');
+            expect((error as Error).message).toContain('cellWidth: 正の数値を指定してください（指定値: 0）');
+            expect((error as Error).message).toContain('linkColor: 6桁（RGB）または8桁（ARGB）の16進数カラーコードを指定してください');
+        });
+
+        it('解析できない設定ファイルはエラーになる', async () => {
+            const configPath = path.join(testDir, 'broken.yaml');
+            fs.writeFileSync(configPath, 'sheetName: [未完了\n');
+
+            await expect(loadExcelConfigFile(configPath)).rejects.toThrow('設定ファイルの解析に失敗しました');
+        });
+
+        it('存在しない設定ファイルはエラーになる', async () => {
+            await expect(loadExcelConfigFile(path.join(testDir, 'missing.json'))).rejects.toThrow('設定ファイルが見つかりません');
+        });
+    });
+
+    describe('mergeExcelConfig', () => {
+        it('オブジェクト以外の見出しフォントサイズは検証で検出できるようそのまま上書きする', () => {
+            const merged = mergeExcelConfig(defaultExcelConfig, { headerFontSizes: 12 as unknown as Record<number, number> });
+            expect(merged.headerFontSizes).toBe(12);
+        });
+
+        it('色分けの配色は指定された項目のみを上書きする', () => {
+            const merged = mergeExcelConfig(defaultExcelConfig, {
+                syntaxColors: { comment: '808080' } as typeof defaultExcelConfig.syntaxColors
+            });
+            expect(merged.syntaxColors).toEqual({ ...defaultExcelConfig.syntaxColors, comment: '808080' });
+        });
+
+        it('アラートの表示は種類ごとに指定された項目のみを上書きする', () => {
+            const merged = mergeExcelConfig(defaultExcelConfig, {
+                alertStyles: { warning: { label: '⚠ 注意' } } as unknown as typeof defaultExcelConfig.alertStyles
+            });
+            expect(merged.alertStyles).toEqual({
+                ...defaultExcelConfig.alertStyles,
+                warning: { ...defaultExcelConfig.alertStyles.warning, label: '⚠ 注意' }
+            });
+        });
+    });
+
+    describe('findConfigFile / resolveExcelConfig', () => {
+        it('入力ファイルに最も近い親ディレクトリの設定ファイルを使用する', async () => {
+            fs.writeFileSync(path.join(testDir, 'project', '.md2excelrc.json'), JSON.stringify({ sheetName: 'プロジェクト' }));
+            fs.writeFileSync(path.join(testDir, 'project', 'docs', '.md2excelrc.yaml'), 'sheetName: ドキュメント\n');
+
+            const resolved = await resolveExcelConfig(path.join(testDir, 'project', 'docs', 'api', 'spec.md'));
+
+            expect(resolved.configPath).toBe(path.join(testDir, 'project', 'docs', '.md2excelrc.yaml'));
+            expect(resolved.config.sheetName).toBe('ドキュメント');
+        });
+
+        it('同じディレクトリに複数ある場合はJSONを優先する', async () => {
+            fs.writeFileSync(path.join(testDir, 'project', '.md2excelrc.yml'), 'sheetName: YAML\n');
+            fs.writeFileSync(path.join(testDir, 'project', '.md2excelrc.json'), '{}');
+
+            expect(await findConfigFile(path.join(testDir, 'project'))).toBe(path.join(testDir, 'project', '.md2excelrc.json'));
+        });
+
+        it('明示された設定ファイルは探索より優先する', async () => {
+            fs.writeFileSync(path.join(testDir, 'project', '.md2excelrc.json'), JSON.stringify({ sheetName: '探索' }));
+            const explicitPath = path.join(testDir, 'explicit.json');
+            fs.writeFileSync(explicitPath, JSON.stringify({ sheetName: '明示' }));
+
+            const resolved = await resolveExcelConfig(path.join(testDir, 'project', 'readme.md'), explicitPath);
+
+            expect(resolved).toEqual({ config: { ...defaultExcelConfig, sheetName: '明示' }, configPath: explicitPath });
+        });
+    });
+});
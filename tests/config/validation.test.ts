@@ -0,0 +1,88 @@
+import * as fc from 'fast-check';
+import { validateExcelConfig } from '../../src/config/validation';
+import { defaultExcelConfig } from '../../src/config';
+import { excelConfigGenerator } from '../../src/test-utils/generators';
+
+describe('validateExcelConfig', () => {
+    it('デフォルト設定には問題がない', () => {
+        expect(validateExcelConfig(defaultExcelConfig)).toEqual([]);
+    });
+
+    it('テスト用のジェネレーターが生成する設定には問題がない', () => {
+        fc.assert(fc.property(excelConfigGenerator, config => {
+            expect(validateExcelConfig(config)).toEqual([]);
+        }), { numRuns: 200 });
+    });
+
+    it('オブジェクト以外は設定として扱わない', () => {
+        expect(validateExcelConfig(null)).toEqual(['設定はオブジェクトである必要があります']);
+        expect(validateExcelConfig([])).toEqual(['設定はオブジェクトである必要があります']);
+    });
+
+    it('不足している項目と不明な項目を報告する', () => {
+        const { sheetName: _sheetName, ...withoutSheetName } = defaultExcelConfig;
+
+        expect(validateExcelConfig({ ...withoutSheetName, cellWdth: 3 })).toEqual([
+            '不明な設定項目です: cellWdth',
+            'sheetName: 設定されていません'
+        ]);
+    });
+
+    it('見出しレベルの範囲外のキーを報告する', () => {
+        const errors = validateExcelConfig({ ...defaultExcelConfig, headerFontSizes: { 1: 18, 7: 9 } });
+
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain('headerFontSizes');
+    });
+
+    it('表の最大列幅が最小列幅より小さい場合を報告する', () => {
+        expect(validateExcelConfig({ ...defaultExcelConfig, tableMinColumnSpan: 5, tableMaxColumnSpan: 4 }))
+            .toEqual(['tableMaxColumnSpan: tableMinColumnSpan 以上の値を指定してください']);
+    });
+
+    it('色分けの配色の不明な項目と不正なカラーコードを報告する', () => {
+        const palette = defaultExcelConfig.syntaxColors;
+
+        expect(validateExcelConfig({ ...defaultExcelConfig, syntaxColors: { ...palette, type: 'FF0000' } })[0])
+            .toContain('不明な項目です（type）');
+        expect(validateExcelConfig({ ...defaultExcelConfig, syntaxColors: { ...palette, number: 'green' } })[0])
+            .toContain('number には6桁（RGB）または8桁（ARGB）の16進数カラーコードを指定してください');
+    });
+
+    it('列挙型の項目に定義外の値を指定した場合を報告する', () => {
+        expect(validateExcelConfig({ ...defaultExcelConfig, sheetSplitMode: 'chapter' })).toEqual([
+            'sheetSplitMode: "none" / "h1" / "h2" / "marker" のいずれかを指定してください（指定値: "chapter"）'
+        ]);
+        expect(validateExcelConfig({ ...defaultExcelConfig, outputMode: 'overwrite' })).toEqual([
+            'outputMode: "replace" / "append" / "new" のいずれかを指定してください（指定値: "overwrite"）'
+        ]);
+    });
+
+    it('番号付きリストの番号の表記は空の配列と定義外の値を報告する', () => {
+        expect(validateExcelConfig({ ...defaultExcelConfig, orderedListStyles: [] })).toEqual([
+            'orderedListStyles: 番号の表記を1つ以上並べた配列を指定してください（指定値: []）'
+        ]);
+        expect(validateExcelConfig({ ...defaultExcelConfig, orderedListStyles: ['decimal', 'roman'] })[0])
+            .toBe('orderedListStyles: 2番目の値に "decimal" / "lower-alpha" / "upper-alpha" / "lower-roman" / "upper-roman" のいずれかを指定してください（指定値: ["decimal","roman"]）');
+    });
+
+    it('アラートの表示は不明な種類と項目ごとの不正な値を報告する', () => {
+        const styles = defaultExcelConfig.alertStyles;
+        expect(validateExcelConfig({ ...defaultExcelConfig, alertStyles: { ...styles, hint: styles.tip } })[0])
+            .toContain('不明なアラートの種類です（hint）');
+        expect(validateExcelConfig({ ...defaultExcelConfig, alertStyles: { ...styles, tip: { ...styles.tip, borderColor: 'green' } } })[0])
+            .toContain('tip: borderColor には6桁（RGB）または8桁（ARGB）の16進数カラーコードを指定してください');
+        expect(validateExcelConfig({ ...defaultExcelConfig, alertStyles: { ...styles, note: { ...styles.note, label: '' } } })[0])
+            .toContain('note: label には空でない文字列を指定してください（label: ""）');
+    });
+
+    it('任意の非正数のセル幅を問題として報告する', () => {
+        fc.assert(fc.property(
+            fc.oneof(fc.double({ max: 0 }), fc.constant(Number.NaN)),
+            (cellWidth) => {
+                const errors = validateExcelConfig({ ...defaultExcelConfig, cellWidth });
+                return errors.length === 1 && errors[0].startsWith('cellWidth: ');
+            }
+        ), { numRuns: 100 });
+    });
+});
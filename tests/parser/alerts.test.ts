@@ -0,0 +1,71 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { detectAlertMarker, findAlertContainers } from '../../src/parser/alerts';
+import { defaultExcelConfig } from '../../src/config';
+import { AlertType, LineType } from '../../src/types';
+
+describe('alerts', () => {
+    it('引用の1行目のアラートの記号から種類とタイトルを取得し、不明な種類は記号としない', () => {
+        expect(detectAlertMarker('[!WARNING]')).toEqual({ type: AlertType.Warning, title: '' });
+        expect(detectAlertMarker(' [!note] 補足 ')).toEqual({ type: AlertType.Note, title: '補足' });
+        expect(detectAlertMarker('[!DANGER]')).toEqual({ type: AlertType.Caution, title: '' });
+        expect(detectAlertMarker('[!TODO]')).toBeNull();
+        expect(detectAlertMarker('[!constructor]')).toBeNull();
+        expect(detectAlertMarker('[!NOTE]の説明')).toBeNull();
+    });
+
+    it('最も外側のコンテナの範囲を検出し、コードブロック内・終了のない・種類が不明なコンテナは除外する', () => {
+        const containers = findAlertContainers(parseMarkdown([
+            ':::tip[便利な使い方]',
+            ':::warning',
+            '内側',
+            ':::',
+            ':::',
+            '```',
+            ':::note',
+            ':::',
+            '```',
+            ':::unknown',
+            ':::',
+            ':::important'
+        ].join('\n')).lines);
+
+        expect(containers).toEqual([
+            { start: 0, end: 4, marker: { type: AlertType.Tip, title: '便利な使い方' } }
+        ]);
+    });
+
+    it('> [!WARNING] の引用は記号の行をラベルの行にし、種類ごとの色で表示する', () => {
+        const style = defaultExcelConfig.alertStyles[AlertType.Warning];
+        const document = parseMarkdown('> [!WARNING]\n> 上書きされます\n\n> 通常の引用');
+
+        expect(document.lines.map(line => line.plainText)).toEqual([style.label, '上書きされます', '', '引用：通常の引用']);
+        expect(document.lines[0].richText).toEqual([
+            { text: style.label, font: { bold: true, color: { argb: style.borderColor } } }
+        ]);
+        expect(document.lines[1].lineType).toBe(LineType.Quote);
+        expect(document.lines[1].quote).toEqual({ borderLevels: [0], alert: AlertType.Warning });
+        expect(document.lines[1].formatting.backgroundColor).toBe(style.backgroundColor);
+        expect(document.lines[1].formatting.leftBorderColor).toBe(style.borderColor);
+        expect(document.lines[3].quote?.alert).toBeUndefined();
+        expect(document.lines[3].formatting.leftBorderColor).toBe(defaultExcelConfig.quoteBorderColor);
+    });
+
+    it(':::note のコンテナは内容をMarkdownとして解析し、終了の行を出力しない行とする', () => {
+        const config = {
+            ...defaultExcelConfig,
+            alertStyles: {
+                ...defaultExcelConfig.alertStyles,
+                [AlertType.Note]: { label: 'メモ', backgroundColor: 'EEEEEE', borderColor: '333333' }
+            }
+        };
+        const document = parseMarkdown(':::note 補足\n- 項目\n:::\n後の段落', { config });
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['メモ：補足', '・ 項目', ':::', '後の段落']);
+        expect(document.lines[1].lineType).toBe(LineType.ListItem);
+        expect(document.lines[1].quote).toEqual({ borderLevels: [0], alert: AlertType.Note });
+        expect(document.lines[1].formatting.backgroundColor).toBe('EEEEEE');
+        expect(document.lines[2].isContainerFence).toBe(true);
+        expect(document.lines[3].quote).toBeUndefined();
+        expect(document.metadata.totalLines).toBe(4);
+    });
+});
@@ -0,0 +1,38 @@
+import { Tokens } from 'marked';
+import { lexLineBlocks, splitListItems } from '../../src/parser/block-lexer';
+
+describe('block-lexer', () => {
+    it('ブロック要素のトークンごとに占める行の範囲を求め、すべての行を覆う', () => {
+        const blocks = lexLineBlocks([
+            '# 見出し',
+            '',
+            '[example]: https://example.com',
+            '- 項目 ',
+            '  続きの行',
+            '',
+            '```',
+            'code',
+            '```',
+            '段落'
+        ]);
+
+        expect(blocks.map(({ token, start, end }) => [token?.type, start, end])).toEqual([
+            ['heading', 0, 2],
+            ['paragraph', 2, 3],
+            ['list', 3, 5],
+            ['space', 5, 6],
+            ['code', 6, 9],
+            ['paragraph', 9, 10]
+        ]);
+    });
+
+    it('リストの行をリスト項目ごとの範囲に分割する', () => {
+        const lines = ['1. 一つ目', '   - 子', '', '2. 二つ目'];
+        const [list] = lexLineBlocks(lines);
+
+        expect(splitListItems(lines, list.token as Tokens.List).map(({ start, end }) => [start, end])).toEqual([
+            [0, 3],
+            [3, 4]
+        ]);
+    });
+});
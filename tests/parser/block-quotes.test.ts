@@ -0,0 +1,115 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { CodeBlockRole, LineType } from '../../src/types';
+
+describe('block-quotes', () => {
+    it('連続する引用の行を1つの引用ブロックにまとめ、外側の引用の記号を1つ除去する', () => {
+        const document = parseMarkdown([
+            '> 一行目',
+            '>二行目',
+            '>> 入れ子',
+            '',
+            '> 別の引用',
+            '```',
+            '> コード',
+            '```'
+        ].join('\n'));
+
+        expect(document.lines.map(line => line.plainText)).toEqual([
+            '引用：一行目', '二行目', '入れ子', '', '引用：別の引用', '', '> コード', ''
+        ]);
+        expect(document.lines.map(line => line.quote?.borderLevels)).toEqual([
+            [0], [0], [0, 1], undefined, [0], undefined, undefined, undefined
+        ]);
+    });
+
+    it('引用の記号のない段落の続きの行は引用に含める', () => {
+        const document = parseMarkdown('> 引用\n続きの行\n\n段落');
+
+        expect(document.lines.map(line => line.lineType)).toEqual([
+            LineType.Quote, LineType.Quote, LineType.Empty, LineType.Paragraph
+        ]);
+        expect(document.lines[1].plainText).toBe('続きの行');
+    });
+
+    it('「引用：」は引用ブロックの最初の行にのみ付与する', () => {
+        const document = parseMarkdown('> 一行目\n>二行目\n\n> 別の引用');
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['引用：一行目', '二行目', '', '引用：別の引用']);
+        expect(document.lines.map(line => line.lineType)).toEqual([
+            LineType.Quote, LineType.Quote, LineType.Empty, LineType.Quote
+        ]);
+        expect(document.lines[2].quote).toBeUndefined();
+    });
+
+    it('「引用：」は行全体の書式のみのセグメントとし、最初のリンク・画像・書式と結合しない', () => {
+        const [linkLine] = parseMarkdown('> [spec](https://a.com) says so').lines;
+        const [imageLine] = parseMarkdown('> ![図](x.png)').lines;
+        const [boldLine] = parseMarkdown('> **重要** です').lines;
+
+        expect(linkLine.richText.map(segment => [segment.text, segment.link?.target])).toEqual([
+            ['引用：', undefined], ['spec', 'https://a.com'], [' says so', undefined]
+        ]);
+        expect(linkLine.richText[0].font).toEqual({ size: defaultExcelConfig.baseFontSize });
+        expect(imageLine.richText.map(segment => [segment.text, segment.image?.src])).toEqual([
+            ['引用：', undefined], ['図', 'x.png']
+        ]);
+        expect(boldLine.richText[0]).toEqual({ text: '引用：', font: { size: defaultExcelConfig.baseFontSize } });
+        expect(boldLine.richText[1].font?.bold).toBe(true);
+    });
+
+    it('コードブロック・表で始まる引用は、「引用：」をブロックの前に表示するラベルとする', () => {
+        const [fenceLine, codeLine] = parseMarkdown('> ```ts\n> code\n> ```').lines;
+        const [headerRow, , bodyRow] = parseMarkdown('> | 列 |\n> | --- |\n> | 値 |').lines;
+
+        expect(fenceLine.quote?.label).toBe('引用：');
+        expect(fenceLine.plainText).not.toContain('引用：');
+        expect(codeLine.quote?.label).toBeUndefined();
+        expect(headerRow.quote?.label).toBe('引用：');
+        expect(headerRow.table?.cells.map(cell => cell.map(segment => segment.text).join(''))).toEqual(['列']);
+        expect(bodyRow.quote?.label).toBeUndefined();
+        expect(parseMarkdown('> 本文').lines[0].quote?.label).toBeUndefined();
+    });
+
+    it('入れ子の引用は深さごとに1レベル深く配置し、外側の引用の罫線の位置を保持する', () => {
+        const document = parseMarkdown('> 外側\n>> 内側\n>>> さらに内側');
+
+        expect(document.lines.map(line => line.indentLevel)).toEqual([0, 1, 2]);
+        expect(document.lines.map(line => line.quote?.borderLevels)).toEqual([[0], [0, 1], [0, 1, 2]]);
+        expect(document.lines[1].plainText).toBe('内側');
+    });
+
+    it('引用の中のリスト・見出し・コードブロックをMarkdownとして解析する', () => {
+        const document = parseMarkdown([
+            '> # 見出し',
+            '> - [x] 完了',
+            '>   1. 子',
+            '> ```ts',
+            '> const a = 1;',
+            '> ```'
+        ].join('\n'));
+
+        const [heading, task, child, open, content, close] = document.lines;
+        expect(heading.lineType).toBe(LineType.Header);
+        expect(heading.plainText).toBe('引用：見出し');
+        expect(task.plainText).toBe('☑ 完了');
+        expect(task.task).toEqual({ checked: true });
+        expect(child.indentLevel).toBe(1);
+        expect(child.plainText).toBe('1. 子');
+        expect(child.formatting.leftBorderColor).toBe('');
+        expect([open, content, close].map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close
+        ]);
+        expect(content.lineType).toBe(LineType.Paragraph);
+        expect(content.codeBlock?.language).toBe('ts');
+        expect(document.lines.every(line => line.formatting.isQuote)).toBe(true);
+    });
+
+    it('リスト項目の中の引用は項目の下に配置し、引用の後のリスト項目の番号を継続する', () => {
+        const document = parseMarkdown('1. 項目\n   > 項目内の引用\n1. 次の項目');
+
+        expect(document.lines[1].indentLevel).toBe(1);
+        expect(document.lines[1].quote?.borderLevels).toEqual([1]);
+        expect(document.lines[2].plainText).toBe('2. 次の項目');
+    });
+});
@@ -0,0 +1,70 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { CodeBlockRole } from '../../src/types';
+
+describe('code-block-parser', () => {
+    it('フェンス行とコードの行に役割と言語名を付与する', () => {
+        const document = parseMarkdown(['```typescript', 'const a = 1;', '```', '本文'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock)).toEqual([
+            { role: CodeBlockRole.Open, language: 'typescript' },
+            { role: CodeBlockRole.Content, language: 'typescript' },
+            { role: CodeBlockRole.Close, language: 'typescript' },
+            undefined
+        ]);
+    });
+
+    it('言語名の指定がない場合は空文字とする', () => {
+        const document = parseMarkdown(['```', 'code', '```'].join('\n'));
+
+        expect(document.lines[0].codeBlock).toEqual({ role: CodeBlockRole.Open, language: '' });
+    });
+
+    it('連続するコードブロックをそれぞれ区別する', () => {
+        const document = parseMarkdown(['```js', 'a', '```', '```py', 'b', '```'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close,
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close
+        ]);
+        expect(document.lines[4].codeBlock?.language).toBe('py');
+    });
+
+    it('終了のフェンスがない場合は文書の末尾までをコードとする', () => {
+        const document = parseMarkdown(['```', 'a', 'b'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Content
+        ]);
+    });
+
+    it('~~~ のフェンスは同じ記号のフェンスでのみ閉じる', () => {
+        const document = parseMarkdown(['~~~ruby', '```', 'puts 1', '~~~~'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Content, CodeBlockRole.Close
+        ]);
+        expect(document.lines[1].plainText).toBe('```');
+        expect(document.lines[0].codeBlock?.language).toBe('ruby');
+    });
+
+    it('開始より短い終了のフェンスと、言語名に ` を含む開始のフェンスも受け付ける', () => {
+        const document = parseMarkdown(['````', 'a', '```', '```a`b', 'b', '```'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close,
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close
+        ]);
+        expect(document.lines[3].codeBlock?.language).toBe('a`b');
+    });
+
+    it('インデントによるコードブロックは言語名のないコードの行とし、末尾の空行は含めない', () => {
+        const document = parseMarkdown(['段落', '', '    const a = 1;', '', '      nested', '', '本文'].join('\n'));
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            undefined, undefined, CodeBlockRole.Content, CodeBlockRole.Content, CodeBlockRole.Content, undefined, undefined
+        ]);
+        expect(document.lines[2].codeBlock?.language).toBe('');
+        expect(document.lines[4].plainText).toBe('  nested');
+        expect(document.lines[4].indentLevel).toBe(1);
+    });
+});
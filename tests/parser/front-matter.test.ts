@@ -0,0 +1,58 @@
+import { extractFrontMatter } from '../../src/parser/front-matter';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { LineType } from '../../src/types';
+
+describe('front-matter', () => {
+    describe('extractFrontMatter', () => {
+        it('先頭のYAMLフロントマターを抽出し、本文の行を返す', () => {
+            const lines = ['---', 'title: 設計書', 'author: 山田', '---', '# 概要'];
+
+            expect(extractFrontMatter(lines)).toEqual({
+                frontMatter: { title: '設計書', author: '山田' },
+                bodyLines: ['# 概要'],
+                strippedLineCount: 4
+            });
+        });
+
+        it('「...」で終わるフロントマターも抽出する', () => {
+            const result = extractFrontMatter(['---', 'version: 2', '...', '本文']);
+
+            expect(result.frontMatter).toEqual({ version: 2 });
+            expect(result.bodyLines).toEqual(['本文']);
+        });
+
+        it('マッピングとして解析できない場合は水平線で始まる本文として扱う', () => {
+            const lines = ['---', '段落テキスト', '---'];
+            expect(extractFrontMatter(lines)).toEqual({ frontMatter: null, bodyLines: lines, strippedLineCount: 0 });
+        });
+
+        it('終了の区切り行がない場合や2行目以降の区切り行は対象外とする', () => {
+            expect(extractFrontMatter(['---', 'title: 設計書']).frontMatter).toBeNull();
+            expect(extractFrontMatter(['本文', '---', 'title: 設計書', '---']).frontMatter).toBeNull();
+        });
+
+        it('YAMLとして解析できない場合は本文として扱う', () => {
+            expect(extractFrontMatter(['---', 'title: [未完了', '---']).frontMatter).toBeNull();
+        });
+    });
+
+    describe('parseMarkdown でのフロントマター', () => {
+        it('フロントマターを行から除去してメタデータに記録する', () => {
+            const document = parseMarkdown('---\ntitle: 設計書\ntags:\n  - 仕様\n  - API\n---\n# 概要\n本文');
+
+            expect(document.lines.map(line => line.plainText)).toEqual(['概要', '本文']);
+            expect(document.lines[0].lineType).toBe(LineType.Header);
+            expect(document.metadata.frontMatter).toEqual({ title: '設計書', tags: ['仕様', 'API'] });
+            expect(document.metadata.frontMatterLineCount).toBe(6);
+            expect(document.metadata.totalLines).toBe(8);
+        });
+
+        it('フロントマターがない場合はnullを記録する', () => {
+            const document = parseMarkdown('---\n本文');
+
+            expect(document.lines[0].lineType).toBe(LineType.HorizontalRule);
+            expect(document.metadata.frontMatter).toBeNull();
+            expect(document.metadata.frontMatterLineCount).toBe(0);
+        });
+    });
+});
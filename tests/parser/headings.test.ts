@@ -0,0 +1,72 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { stripAtxHeadingMarkers } from '../../src/parser/headings';
+import { CodeBlockRole, LineType } from '../../src/types';
+
+describe('headings', () => {
+    it('= の下線は見出し1、- の下線は見出し2とし、下線の行は出力対象外とする', () => {
+        const document = parseMarkdown('タイトル\n===\n\n概要\n---\n本文');
+
+        expect(document.lines[0].lineType).toBe(LineType.Header);
+        expect(document.lines[0].formatting.headerLevel).toBe(1);
+        expect(document.lines[0].plainText).toBe('タイトル');
+        expect(document.lines[1].isSetextUnderline).toBe(true);
+        expect(document.lines[3].formatting.headerLevel).toBe(2);
+        expect(document.lines[4].isSetextUnderline).toBe(true);
+        expect(document.lines[4].lineType).not.toBe(LineType.Header);
+        expect(document.lines[5].lineType).toBe(LineType.Paragraph);
+    });
+
+    it('段落の直後でない「---」は水平線のままとする', () => {
+        const document = parseMarkdown([
+            '---',
+            '',
+            '---',
+            '# 見出し',
+            '---',
+            '- リスト項目',
+            '---',
+            '```',
+            'コード',
+            '---',
+            '```'
+        ].join('\n'));
+
+        expect(document.lines.filter(line => line.isSetextUnderline)).toHaveLength(0);
+        expect([0, 2, 4, 6].map(index => document.lines[index].lineType)).toEqual(Array(4).fill(LineType.HorizontalRule));
+        expect(document.lines[9].codeBlock?.role).toBe(CodeBlockRole.Content);
+    });
+
+    it('複数行の段落は全体を見出しとし、下線に続く下線は見出しにしない', () => {
+        const document = parseMarkdown('一行目\n二行目\n---\n\n段落\n===\n---');
+
+        expect(document.lines.map(line => line.formatting.headerLevel)).toEqual([2, 2, 0, 0, 1, 0, 0]);
+        expect(document.lines.map(line => line.isSetextUnderline === true)).toEqual([false, false, true, false, false, true, false]);
+        expect(document.lines[6].lineType).toBe(LineType.HorizontalRule);
+    });
+
+    it('ATX形式の見出しの末尾の閉じる記号を除去する', () => {
+        const document = parseMarkdown('## タイトル ##\n# C#\n### 見出し #  \n#');
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['タイトル', 'C#', '見出し', '']);
+        expect(document.lines.every(line => line.lineType === LineType.Header)).toBe(true);
+    });
+
+    it('ATX形式の見出しの本文の前後の空白を除去する', () => {
+        const document = parseMarkdown('##  Two  ##\n#   三つの空白\t\n# \u3000全角 ');
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['Two', '三つの空白', '\u3000全角']);
+        expect(stripAtxHeadingMarkers('##  Two  ##')).toBe('Two');
+    });
+
+    it('# の直後に空白のない行と7個以上の # は見出しにしない', () => {
+        const document = parseMarkdown('#タグ\n####### 七つ');
+
+        expect(document.lines.map(line => line.lineType)).toEqual([LineType.Paragraph, LineType.Paragraph]);
+        expect(document.lines[0].plainText).toBe('#タグ');
+    });
+
+    it('ATX形式でない行はそのまま返す', () => {
+        expect(stripAtxHeadingMarkers('本文 #')).toBe('本文 #');
+        expect(stripAtxHeadingMarkers('# 本文 \\#')).toBe('本文 \\#');
+    });
+});
@@ -0,0 +1,86 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { measureListContentOffset, resolveLineIndentation } from '../../src/parser/indentation';
+import { defaultExcelConfig } from '../../src/config';
+
+/**
+ * Markdownを解析して行ごとのインデントレベルを取得する
+ * @param lines Markdownの行
+ * @param tabWidth 1タブ・1インデントレベルに相当するスペースの数
+ * @returns 行ごとのインデントレベル
+ */
+const parseLevels = (lines: string[], tabWidth: number = 4): number[] => {
+    return parseMarkdown(lines.join('\n'), { config: { ...defaultExcelConfig, tabWidth } }).lines.map(line => line.indentLevel);
+};
+
+describe('indentation', () => {
+    it('タブ幅のスペースまたは1タブを1レベルとし、超える先行スペースは内容に残す', () => {
+        expect(resolveLineIndentation('      本文', 4)).toEqual({ level: 1, content: '  本文' });
+        expect(resolveLineIndentation('\t\t本文', 4)).toEqual({ level: 2, content: '本文' });
+        expect(resolveLineIndentation('  本文', 2)).toEqual({ level: 1, content: '本文' });
+    });
+
+    it('リスト項目の記号の幅と後の空白から内容の位置を計算する', () => {
+        expect(measureListContentOffset('- 項目', 4)).toBe(2);
+        expect(measureListContentOffset('  10. 項目', 4)).toBe(6);
+        expect(measureListContentOffset('-      コード', 4)).toBe(2);
+        expect(measureListContentOffset('-', 4)).toBe(2);
+    });
+
+    it('2スペースでインデントしたリストを親の項目の内容の位置から入れ子にする', () => {
+        expect(parseLevels([
+            '- 親',
+            '  - 子',
+            '    - 孫',
+            '  - 子2',
+            '- 親2'
+        ])).toEqual([0, 1, 2, 1, 0]);
+    });
+
+    it('番号付きリストは番号の幅に応じて入れ子を判定する', () => {
+        expect(parseLevels([
+            '1. 親',
+            '   - 子',
+            '10. 親',
+            '    - 子',
+            '   - 内容の位置に届かない項目'
+        ])).toEqual([0, 1, 0, 1, 0]);
+    });
+
+    it('続きの行を項目の下に配置し、インデントのない直後の行も続きとする', () => {
+        const document = parseMarkdown([
+            '- 項目',
+            '  続きの行',
+            'インデントのない続きの行',
+            '',
+            '  空行の後の段落',
+            '',
+            '通常の段落'
+        ].join('\n'));
+
+        expect(document.lines.map(line => line.indentLevel)).toEqual([0, 1, 1, 1, 1, 0, 0]);
+        expect(document.lines[1].plainText).toBe('続きの行');
+        expect(document.lines[2].plainText).toBe('インデントのない続きの行');
+    });
+
+    it('見出しはインデントのない続きの行として扱わない', () => {
+        expect(parseLevels(['- 項目', '# 見出し', '- 項目'])).toEqual([0, 0, 0]);
+    });
+
+    it('タブ幅の設定に従ってタブとスペースのインデントを判定する', () => {
+        expect(parseLevels(['段落', '  2スペース', '\t1タブ', '\t\t2タブ'], 2)).toEqual([0, 1, 1, 2]);
+    });
+
+    it('リストの中のコードブロックは項目の下に配置し、コードの中のインデントを保持する', () => {
+        expect(parseLevels(['- 項目', '  ```', '  code', '      nested', '  ```'])).toEqual([0, 1, 1, 2, 1]);
+    });
+
+    it('続きの行を挟んでも番号付きリストの連番を維持する', () => {
+        const document = parseMarkdown(['1. 一つ目', '   補足', '1. 二つ目'].join('\n'), { config: defaultExcelConfig });
+
+        expect(document.lines.map(line => [line.indentLevel, line.plainText])).toEqual([
+            [0, '1. 一つ目'],
+            [1, '補足'],
+            [0, '2. 二つ目']
+        ]);
+    });
+});
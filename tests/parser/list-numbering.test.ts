@@ -0,0 +1,85 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { formatListNumber, parseListNumber, parseOrderedListMarker } from '../../src/parser/list-numbering';
+import { defaultExcelConfig } from '../../src/config';
+import { OrderedListStyle } from '../../src/types';
+
+/**
+ * Markdownを解析し、行ごとの表示テキストを取得する
+ * @param markdown Markdownテキスト
+ * @param orderedListStyles 番号の表記（省略時は既定の設定）
+ * @returns 行ごとの表示テキスト
+ */
+const parseTexts = (markdown: string, orderedListStyles = defaultExcelConfig.orderedListStyles): string[] => {
+    const document = parseMarkdown(markdown, { config: { ...defaultExcelConfig, orderedListStyles } });
+    return document.lines.map(line => line.richText.map(segment => segment.text).join(''));
+};
+
+describe('list-numbering', () => {
+    it('最初の項目の番号を開始番号とし、以降は記述された番号にかかわらず連番にする', () => {
+        expect(parseTexts('3. 三\n1. 四\n1. 五')).toEqual(['3. 三', '4. 四', '5. 五']);
+    });
+
+    it('空行を挟んだ項目も同じリストとして連番を継続する', () => {
+        expect(parseTexts('1. 一\n\n1. 二\n\n   続きの段落\n\n1. 三')).toEqual([
+            '1. 一', '', '2. 二', '', '続きの段落', '', '3. 三'
+        ]);
+    });
+
+    it('「1)」形式の番号を扱い、区切り記号が変わった場合は新しいリストとする', () => {
+        expect(parseTexts('1) 一\n2) 二\n5. 別のリスト\n6. 続き')).toEqual([
+            '1) 一', '2) 二', '5. 別のリスト', '6. 続き'
+        ]);
+    });
+
+    it('リストに属さない段落で番号をリセットする', () => {
+        expect(parseTexts('1. 一\n2. 二\n\n段落\n\n1. 一')).toEqual(['1. 一', '2. 二', '', '段落', '', '1. 一']);
+    });
+
+    it('入れ子のリストは親の項目ごとに番号を振り直し、親のリストの連番は継続する', () => {
+        expect(parseTexts('1. 親\n   1. 子\n   1. 子\n1. 親\n   1. 子\n   - 箇条書き\n   1. 子')).toEqual([
+            '1. 親', '1. 子', '2. 子', '2. 親', '1. 子', '・ 箇条書き', '1. 子'
+        ]);
+    });
+
+    it('コードブロックを挟んでも番号を継続する', () => {
+        expect(parseTexts('1. 一\n   ```\n   1. コード\n   ```\n1. 二')[4]).toBe('2. 二');
+    });
+
+    it('インデントレベルごとの番号の表記を適用し、設定の長さを超えるレベルは先頭から繰り返す', () => {
+        const styles = [OrderedListStyle.Decimal, OrderedListStyle.LowerAlpha, OrderedListStyle.UpperRoman];
+        expect(parseTexts('1. 一\n   1. 二\n   1. 三\n      4. 四\n         1. 五', styles)).toEqual([
+            '1. 一', 'a. 二', 'b. 三', 'IV. 四', '1. 五'
+        ]);
+    });
+
+    it('番号を指定の表記の文字列にする', () => {
+        expect(formatListNumber(27, OrderedListStyle.LowerAlpha)).toBe('aa');
+        expect(formatListNumber(3, OrderedListStyle.UpperAlpha)).toBe('C');
+        expect(formatListNumber(4, OrderedListStyle.LowerRoman)).toBe('iv');
+        expect(formatListNumber(1999, OrderedListStyle.UpperRoman)).toBe('MCMXCIX');
+        expect(formatListNumber(0, OrderedListStyle.LowerRoman)).toBe('0');
+        expect(formatListNumber(4000, OrderedListStyle.LowerRoman)).toBe('4000');
+    });
+
+    it('表記どおりの番号の文字列を番号に戻す', () => {
+        expect(parseListNumber('27', OrderedListStyle.Decimal)).toBe(27);
+        expect(parseListNumber('aa', OrderedListStyle.LowerAlpha)).toBe(27);
+        expect(parseListNumber('MCMXCIX', OrderedListStyle.UpperRoman)).toBe(1999);
+        expect(parseListNumber('0', OrderedListStyle.LowerRoman)).toBe(0);
+    });
+
+    it('表記と異なる番号の文字列は番号としない', () => {
+        expect(parseListNumber('A', OrderedListStyle.LowerAlpha)).toBeNull();
+        expect(parseListNumber('2', OrderedListStyle.LowerAlpha)).toBeNull();
+        expect(parseListNumber('iiii', OrderedListStyle.LowerRoman)).toBeNull();
+        expect(parseListNumber('b', OrderedListStyle.Decimal)).toBeNull();
+    });
+
+    it('表示された番号から、インデントレベルの表記で番号と区切り記号を読み取る', () => {
+        const config = { ...defaultExcelConfig, orderedListStyles: [OrderedListStyle.Decimal, OrderedListStyle.LowerRoman] };
+
+        expect(parseOrderedListMarker('4)', 0, config)).toEqual({ number: 4, delimiter: ')' });
+        expect(parseOrderedListMarker('iv.', 1, config)).toEqual({ number: 4, delimiter: '.' });
+        expect(parseOrderedListMarker('iv.', 0, config)).toBeNull();
+    });
+});
@@ -3,7 +3,15 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { parseMarkdownFile } from '../../src/parser/markdown-parser';
 import { markdownDocumentGenerator } from '../../src/test-utils/generators';
-import { LineType } from '../../src/types';
+import { LineType, TableAlignment, TableRowRole } from '../../src/types';
+
+/**
+ * リスト項目・引用にならないテキストのジェネレーター
+ * リスト項目の続きの行は、インデントの幅ではなく項目の内容の位置から入れ子を判定するため、インデント検出の検証では除外する
+ * 引用の中の行も、引用の内容のインデントと入れ子の深さから配置を決めるため除外する
+ */
+const nonListTextGenerator = fc.string({ minLength: 1, maxLength: 50 })
+    .filter(text => !/^\s*(([-*+]|\d+[.)])\s|>)/.test(text));
 
 /**
  * **Feature: markdown-to-excel, Property 1: ファイル読み込みと解析**
@@ -152,7 +160,7 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                     fc.tuple(
                         fc.integer({ min: 0, max: 8 }), // インデントレベル
                         fc.oneof(fc.constant(' '), fc.constant('\t')), // インデント文字
-                        fc.string({ minLength: 1, maxLength: 50 }) // テキスト内容
+                        nonListTextGenerator // テキスト内容（リスト項目の続きの行は項目の下に配置されるため、リスト項目を除く）
                     ),
                     { minLength: 1, maxLength: 20 }
                 ),
@@ -214,7 +222,7 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                 fc.array(
                     fc.tuple(
                         fc.integer({ min: 0, max: 5 }), // インデントレベル
-                        fc.string({ minLength: 1, maxLength: 50 }) // テキスト内容
+                        nonListTextGenerator // テキスト内容（リスト項目を除く）
                     ),
                     { minLength: 1, maxLength: 15 }
                 ),
@@ -288,7 +296,7 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                 fc.array(
                     fc.tuple(
                         fc.integer({ min: 1, max: 6 }), // 見出しレベル
-                        fc.string({ minLength: 1, maxLength: 100 }).filter(s => !s.includes('\n') && s.trim().length > 0 && !/[*_`\\~]/.test(s)) // 見出しテキスト（空白のみとMarkdown記号、エスケープ文字、チルダを除外）
+                        fc.string({ minLength: 1, maxLength: 100 }).filter(s => !s.includes('\n') && s.trim().length > 0 && !/[*_`\\~]/.test(s) && !/(^|[ \t])#+[ \t]*$/.test(s)) // 見出しテキスト（空白のみとMarkdown記号、エスケープ文字、チルダ、末尾の閉じる # を除外）
                     ),
                     { minLength: 1, maxLength: 10 }
                 ),
@@ -315,8 +323,8 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                             // 行タイプが見出しであることを確認
                             expect(line.lineType).toBe(LineType.Header);
 
-                            // 見出し記号が除去されてテキストのみが残ることを確認
-                            expect(line.plainText).toBe(expectedText);
+                            // 見出し記号と本文の前後の空白が除去されてテキストのみが残ることを確認
+                            expect(line.plainText).toBe(expectedText.replace(/^[ \t]+|[ \t]+$/g, ''));
 
                             // 元の行が保持されることを確認
                             expect(line.originalLine).toBe('#'.repeat(expectedLevel) + ' ' + expectedText);
@@ -346,7 +354,7 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
             fc.asyncProperty(
                 fc.array(
                     fc.string({ minLength: 1, maxLength: 200 })
-                        .filter(s => !s.includes('\n') && s.trim().length > 0 && !s.startsWith('#') && !s.match(/^[-*+]\s/) && !s.match(/^\d+\.\s/) && !s.startsWith('```') && !s.startsWith('> ') && !s.match(/^(-{3,}|\*{3,}|_{3,})$/) && !(s.startsWith('|') && s.endsWith('|') && (s.match(/\|/g) || []).length >= 2) && !/[*_`\\~]/.test(s)),
+                        .filter(s => !s.includes('\n') && s.trim().length > 0 && !/^ {0,3}#/.test(s) && !s.match(/^[-*+]\s/) && !s.match(/^\d+[.)]\s/) && !s.startsWith('```') && !s.trimStart().startsWith('>') && !s.match(/^(-{3,}|\*{3,}|_{3,})$/) && !/^\s*(=+|-+)[ \t]*$/.test(s) && !(s.startsWith('|') && s.endsWith('|') && (s.match(/\|/g) || []).length >= 2) && !/[*_`\\~]/.test(s)),
                     { minLength: 1, maxLength: 15 }
                 ),
                 async (paragraphs) => {
@@ -460,27 +468,40 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
         );
     }, 60000);
     /**
-     * **Feature: markdown-to-excel, Property 10: 表要素除外**
+     * **Feature: markdown-to-excel, Property 10: 表要素の構造化**
      * **検証対象: 要件 3.4**
      *
-     * プロパティ10: 表要素除外
-     * 任意のMarkdown表要素に対して、システムは表を変換対象から除外する
+     * プロパティ10: 表要素の構造化
+     * 任意のMarkdown表要素に対して、システムは見出し行・区切り行・本文行を1つの表ブロックとして構造化する
      */
-    test('プロパティ10: 任意の表要素が正しく除外される', async () => {
+    test('プロパティ10: 任意の表要素が表ブロックとして構造化される', async () => {
+        const cellTextGenerator = fc.string({ minLength: 1, maxLength: 20 }).filter(s => /^[a-zA-Z0-9 ]+$/.test(s) && s.trim().length > 0);
+        const alignmentGenerator = fc.constantFrom(
+            { marker: '---', alignment: TableAlignment.None },
+            { marker: ':---', alignment: TableAlignment.Left },
+            { marker: ':---:', alignment: TableAlignment.Center },
+            { marker: '---:', alignment: TableAlignment.Right }
+        );
+
         await fc.assert(
             fc.asyncProperty(
-                fc.array(
+                fc.integer({ min: 1, max: 5 }).chain(columnCount => fc.tuple(
+                    fc.array(cellTextGenerator, { minLength: columnCount, maxLength: columnCount }),
+                    fc.array(alignmentGenerator, { minLength: columnCount, maxLength: columnCount }),
                     fc.array(
-                        fc.string({ minLength: 1, maxLength: 20 }).filter(s => !s.includes('|') && !s.includes('\n')),
-                        { minLength: 2, maxLength: 5 }
-                    ),
-                    { minLength: 1, maxLength: 5 }
-                ),
-                async (tableRows) => {
+                        fc.array(cellTextGenerator, { minLength: columnCount, maxLength: columnCount }),
+                        { minLength: 0, maxLength: 5 }
+                    )
+                )),
+                async ([headerCells, alignments, bodyRows]) => {
                     // 表Markdownを生成
-                    const markdownContent = tableRows
-                        .map(row => '| ' + row.join(' | ') + ' |')
-                        .join('\n');
+                    const toRow = (cells: string[]): string => '| ' + cells.join(' | ') + ' |';
+                    const rows = [
+                        toRow(headerCells),
+                        toRow(alignments.map(alignment => alignment.marker)),
+                        ...bodyRows.map(toRow)
+                    ];
+                    const markdownContent = rows.join('\n');
 
                     // テストファイルを作成
                     const testFileName = `table-test-${Date.now()}-${Math.random().toString(36).substring(2, 11)}.md`;
@@ -490,20 +511,25 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                     try {
                         // ファイルを解析
                         const document = await parseMarkdownFile(testFilePath);
+                        const expectedRoles = [TableRowRole.Header, TableRowRole.Delimiter, ...bodyRows.map(() => TableRowRole.Body)];
+                        const expectedCells = [headerCells, [], ...bodyRows];
 
-                        // 各表行が正しく処理されることを確認
-                        for (let i = 0; i < tableRows.length; i++) {
+                        for (let i = 0; i < rows.length; i++) {
                             const line = document.lines[i];
 
-                            // 行タイプが表であることを確認
+                            // 行タイプが表であり、表ブロック内の役割が設定されることを確認
                             expect(line.lineType).toBe(LineType.Table);
+                            expect(line.table?.role).toBe(expectedRoles[i]);
+
+                            // 列揃えが区切り行の記法から決定されることを確認
+                            expect(line.table?.alignments).toEqual(alignments.map(alignment => alignment.alignment));
 
-                            // 表要素は説明文に変換されることを確認
-                            const expectedOriginalLine = '| ' + tableRows[i].join(' | ') + ' |';
-                            expect(line.plainText).toBe('表：' + expectedOriginalLine);
+                            // セル単位で内容が分割されることを確認
+                            const cellTexts = (line.table?.cells ?? []).map(cell => cell.map(segment => segment.text).join(''));
+                            expect(cellTexts).toEqual(expectedCells[i].map(cell => cell.trim()));
 
                             // 元の行は保持されることを確認
-                            expect(line.originalLine).toBe(expectedOriginalLine);
+                            expect(line.originalLine).toBe(rows[i]);
                         }
 
                         return true;
@@ -1024,13 +1050,14 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
     }, 60000);
 
     /**
-     * 任意の引用記法に対して、行タイプがquoteになる
+     * 任意の引用記法に対して、行タイプがquoteになり、引用ブロックの最初の行にのみ「引用：」が付与される
      */
     test('プロパティ22: 任意の引用記法に対してlineTypeがquoteになる', async () => {
         await fc.assert(
             fc.asyncProperty(
                 fc.array(
-                    fc.string({ minLength: 1, maxLength: 50 }).filter(s => /^[a-zA-Z0-9 ]+$/.test(s)),
+                    // 引用の中もMarkdownとして解析するため、空行やインデントにならないよう先頭は空白以外とする
+                    fc.string({ minLength: 1, maxLength: 50 }).filter(s => /^[a-zA-Z0-9][a-zA-Z0-9 ]*$/.test(s)),
                     { minLength: 1, maxLength: 5 }
                 ),
                 async (texts) => {
@@ -1050,8 +1077,8 @@ describe('parseMarkdownFile プロパティベーステスト', () => {
                             const line = document.lines[i];
 
                             expect(line.lineType).toBe('quote');
-                            // パーサーの実装により、引用には「引用：」のプレフィックスが付与される
-                            expect(line.plainText).toBe(`引用：${expectedText}`);
+                            // 連続する引用の行は1つの引用ブロックとなり、最初の行にのみ「引用：」のプレフィックスが付与される
+                            expect(line.plainText).toBe(i === 0 ? `引用：${expectedText}` : expectedText);
                         }
                         return true;
                     } catch (error) {
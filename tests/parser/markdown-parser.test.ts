@@ -1,7 +1,8 @@
-import { parseMarkdownFile } from '../../src/parser/markdown-parser';
+import { parseMarkdown, parseMarkdownFile } from '../../src/parser/markdown-parser';
 import * as fs from 'fs';
 import * as path from 'path';
-import { LineType } from '../../src/types';
+import { CompletedTaskStyle, ExcelConfig, LineType } from '../../src/types';
+import { defaultExcelConfig } from '../../src/config';
 
 describe('parseMarkdownFile', () => {
     const testFilePath = path.join(__dirname, 'test-markdown.md');
@@ -33,6 +34,7 @@ describe('parseMarkdownFile', () => {
 
         expect(document.lines).toHaveLength(7);
         expect(document.metadata.fileName).toBe('test-markdown.md');
+        expect(document.metadata.baseDirectory).toBe(__dirname);
         expect(document.metadata.totalLines).toBe(7);
 
         // 見出し1の確認
@@ -463,3 +465,120 @@ _斜体のテキスト2_
         expect(boldSegment).toBeUndefined();
     });
 });
+
+describe('parseMarkdown', () => {
+    const customConfig: ExcelConfig = {
+        ...defaultExcelConfig,
+        baseFontSize: 10,
+        headerFontSizes: { ...defaultExcelConfig.headerFontSizes, 1: 26 },
+        codeFontName: 'Source Code Pro',
+        codeColor: 'FF1F4E79',
+        inlineCodeColor: 'FF7030A0',
+        linkColor: 'FF00B050',
+        imageAltColor: 'FF595959',
+        quoteBackgroundColor: 'FFF2CC',
+        quoteBorderColor: 'BF9000',
+        horizontalRuleColor: '000000'
+    };
+
+    it('文字列をファイルと同じ構造のドキュメントに解析する', () => {
+        const document = parseMarkdown('# 見出し\n段落');
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['見出し', '段落']);
+        expect(document.metadata.totalLines).toBe(2);
+    });
+
+    it('HTMLブロックの行は書式を解釈せずそのまま出力する', () => {
+        const document = parseMarkdown('<details>\n**太字ではない**\n</details>\n\n**太字**');
+
+        expect(document.lines.map(line => line.plainText)).toEqual(['<details>', '**太字ではない**', '</details>', '', '太字']);
+        expect(document.lines[1].lineType).toBe(LineType.Paragraph);
+        expect(document.lines[1].richText[0].font?.bold).toBeUndefined();
+        expect(document.lines[4].richText[0].font?.bold).toBe(true);
+    });
+
+    it('仮想ファイル名と基準ディレクトリをメタデータに記録する', () => {
+        const document = parseMarkdown('本文', { fileName: 'generated.md', baseDirectory: 'templates' });
+
+        expect(document.metadata.fileName).toBe('generated.md');
+        expect(document.metadata.filePath).toBe('');
+        expect(document.metadata.baseDirectory).toBe(path.resolve('templates'));
+    });
+
+    it('指定された設定で見出しサイズと本文サイズを決定する', () => {
+        const document = parseMarkdown('# 見出し\n段落', { config: customConfig });
+
+        expect(document.lines[0].formatting.fontSize).toBe(26);
+        expect(document.lines[0].richText[0].font?.size).toBe(26);
+        expect(document.lines[1].richText[0].font?.size).toBe(10);
+    });
+
+    it('指定された設定でコード・リンク・画像の文字色を決定する', () => {
+        const document = parseMarkdown([
+            '```',
+            'const value = 1;',
+            '```',
+            '`code` と [リンク](https://example.com) と ![代替](image.png)'
+        ].join('\n'), { config: customConfig });
+
+        expect(document.lines[1].richText[0].font).toEqual({ color: { argb: 'FF1F4E79' }, name: 'Source Code Pro' });
+
+        const inlineSegments = document.lines[3].richText;
+        expect(inlineSegments.find(segment => segment.font?.code)?.font?.color).toEqual({ argb: 'FF7030A0' });
+        expect(inlineSegments.find(segment => segment.link)?.font?.color).toEqual({ argb: 'FF00B050' });
+        expect(inlineSegments.find(segment => segment.image)?.font?.color).toEqual({ argb: 'FF595959' });
+    });
+
+    it('指定された設定で引用と水平線の色を決定する', () => {
+        const document = parseMarkdown('> 引用\n---', { config: customConfig });
+
+        expect(document.lines[0].formatting.backgroundColor).toBe('FFF2CC');
+        expect(document.lines[0].formatting.leftBorderColor).toBe('BF9000');
+        expect(document.lines[1].formatting.bottomBorderColor).toBe('000000');
+    });
+
+    it('表のセル内のインライン書式にも設定を適用する', () => {
+        const document = parseMarkdown('| 列 |\n| --- |\n| `値` |', { config: customConfig });
+
+        const cell = document.lines[2].table?.cells[0] ?? [];
+        expect(cell[0].font?.color).toEqual({ argb: 'FF7030A0' });
+    });
+});
+
+describe('タスクリスト', () => {
+    it('チェックボックスを記号に置き換え、チェックの状態を記録する', () => {
+        const document = parseMarkdown(['- [ ] 未着手', '- [x] 完了', '* [X] 大文字', '1. [ ] 番号付き', '- [リンク](https://example.com)'].join('\n'));
+
+        expect(document.lines.map(line => line.plainText)).toEqual([
+            '☐ 未着手',
+            '☑ 完了',
+            '☑ 大文字',
+            '1. ☐ 番号付き',
+            '・ リンク'
+        ]);
+        expect(document.lines.map(line => line.task)).toEqual([
+            { checked: false }, { checked: true }, { checked: true }, { checked: false }, undefined
+        ]);
+        expect(document.lines.every(line => line.lineType === LineType.ListItem)).toBe(true);
+    });
+
+    it('リスト項目でない行のチェックボックス記法はそのまま出力する', () => {
+        const document = parseMarkdown('[ ] 段落');
+
+        expect(document.lines[0].plainText).toBe('[ ] 段落');
+        expect(document.lines[0].task).toBeUndefined();
+    });
+
+    it('設定に応じて完了した項目に取り消し線・灰色を適用する', () => {
+        const markdown = '- [x] 完了 **太字**\n- [ ] 未完了';
+        const strike = parseMarkdown(markdown, { config: { ...defaultExcelConfig, completedTaskStyle: CompletedTaskStyle.Strike } });
+        const gray = parseMarkdown(markdown, { config: { ...defaultExcelConfig, completedTaskStyle: CompletedTaskStyle.Gray } });
+        const none = parseMarkdown(markdown);
+
+        expect(strike.lines[0].richText.every(segment => segment.font?.strike)).toBe(true);
+        expect(strike.lines[1].richText.some(segment => segment.font?.strike)).toBe(false);
+        expect(gray.lines[0].richText.every(segment => segment.font?.color?.argb === defaultExcelConfig.completedTaskColor)).toBe(true);
+        expect(gray.lines[0].richText.find(segment => segment.text === '太字')?.font?.bold).toBe(true);
+        expect(none.lines[0].richText.some(segment => segment.font?.strike || segment.font?.color)).toBe(false);
+    });
+});
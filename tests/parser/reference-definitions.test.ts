@@ -0,0 +1,110 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { collectReferenceDefinitions, splitFootnoteReferences } from '../../src/parser/reference-definitions';
+
+describe('reference-definitions', () => {
+    it('リンク参照定義と脚注定義を収集し、定義の行を記録する', () => {
+        const definitions = collectReferenceDefinitions([
+            '本文[^1]',
+            '[Docs]: https://docs.example "説明書"',
+            '[^1]: 脚注の本文',
+            '    続きの行',
+            '[site]: <https://site.example>'
+        ]);
+
+        expect(definitions.links).toEqual({
+            docs: { href: 'https://docs.example', title: '説明書' },
+            site: { href: 'https://site.example', title: null }
+        });
+        expect(Array.from(definitions.footnotes.values())).toEqual([
+            { number: 1, label: '1', text: '脚注の本文 続きの行' }
+        ]);
+        expect(Array.from(definitions.definitionLineIndexes)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('コードブロック内の行は定義として扱わない', () => {
+        const definitions = collectReferenceDefinitions(['```', '[a]: https://a.example', '[^1]: x', '```']);
+
+        expect(definitions.links).toEqual({});
+        expect(definitions.footnotes.size).toBe(0);
+        expect(definitions.definitionLineIndexes.size).toBe(0);
+    });
+
+    it('同じラベルの定義が複数ある場合は最初の定義を使用する', () => {
+        const definitions = collectReferenceDefinitions(['[a]: https://first.example', '[A]: https://second.example']);
+
+        expect(definitions.links.a.href).toBe('https://first.example');
+        expect(definitions.definitionLineIndexes.size).toBe(2);
+    });
+
+    it('定義のある脚注の参照の位置でテキストを分割する', () => {
+        const { footnotes } = collectReferenceDefinitions(['[^note]', '[^note]: 脚注']);
+
+        expect(splitFootnoteReferences('前[^note]後[^none]', footnotes)).toEqual([
+            { text: '前' },
+            { text: '[^note]', footnote: { number: 1, label: 'note', text: '脚注' } },
+            { text: '後[^none]' }
+        ]);
+    });
+
+    it('参照形式のリンクを定義のリンク先に解決し、定義の行に印を付ける', () => {
+        const document = parseMarkdown([
+            '[説明書][docs] と [Docs] を参照',
+            '',
+            '[docs]: https://docs.example'
+        ].join('\n'));
+
+        expect(document.lines[0].plainText).toBe('説明書 と Docs を参照');
+        expect(document.lines[0].richText.filter(segment => segment.link).map(segment => segment.link?.target))
+            .toEqual(['https://docs.example', 'https://docs.example']);
+        expect(document.lines.map(line => line.isReferenceDefinition === true)).toEqual([false, false, true]);
+        expect(document.metadata.totalLines).toBe(3);
+    });
+
+    it('URLをそのまま記述した自動リンクをリンクとして扱う', () => {
+        const document = parseMarkdown('詳細は https://example.com/a?b=1 と <https://example.org> を参照');
+
+        expect(document.lines[0].richText.filter(segment => segment.link).map(segment => segment.link?.target))
+            .toEqual(['https://example.com/a?b=1', 'https://example.org']);
+    });
+
+    it('脚注の参照を上付きの※番号に置き換え、脚注の一覧を作成する', () => {
+        const document = parseMarkdown([
+            '本文[^b]と本文[^a]、未定義[^x]',
+            '',
+            '[^a]: 一つ目の **脚注**',
+            '[^b]: 二つ目の脚注'
+        ].join('\n'));
+
+        const footnoteSegments = document.lines[0].richText.filter(segment => segment.footnote);
+        expect(document.lines[0].plainText).toBe('本文※1と本文※2、未定義[^x]');
+        expect(footnoteSegments.map(segment => segment.footnote?.number)).toEqual([1, 2]);
+        expect(footnoteSegments.every(segment => segment.font?.vertAlign === 'superscript')).toBe(true);
+        expect(document.footnotes?.map(footnote => [footnote.number, footnote.label, footnote.plainText])).toEqual([
+            [1, 'b', '二つ目の脚注'],
+            [2, 'a', '一つ目の 脚注']
+        ]);
+        expect(document.footnotes?.[1].richText.find(segment => segment.text === '脚注')?.font?.bold).toBe(true);
+    });
+
+    it('脚注の番号を定義の順ではなく本文で最初に参照した順に割り当て、参照されていない定義は除く', () => {
+        const { footnotes } = collectReferenceDefinitions([
+            'a[^b] c[^a] `[^c]`',
+            '再び[^b]',
+            '[^a]: A',
+            '[^b]: B',
+            '[^c]: コードの中でのみ参照',
+            '[^d]: 参照なし'
+        ]);
+
+        expect(Array.from(footnotes.entries())).toEqual([
+            ['b', { number: 1, label: 'b', text: 'B' }],
+            ['a', { number: 2, label: 'a', text: 'A' }]
+        ]);
+    });
+
+    it('連続する脚注の参照をそれぞれ別のセグメントとする', () => {
+        const document = parseMarkdown(['本文[^1][^2]', '[^1]: a', '[^2]: b'].join('\n'));
+
+        expect(document.lines[0].richText.map(segment => segment.text)).toEqual(['本文', '※1', '※2']);
+    });
+});
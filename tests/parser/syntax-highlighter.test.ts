@@ -0,0 +1,117 @@
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { RichTextSegment } from '../../src/types';
+
+const { keyword, string, comment, number } = defaultExcelConfig.syntaxColors;
+const plain = defaultExcelConfig.codeColor;
+
+/**
+ * コードブロックの1行を解析し、セグメントごとの文字列と文字色を取得する
+ * @param language フェンスに指定する言語名
+ * @param code コードの行
+ * @returns [文字列, 文字色] の配列（コードの各行）
+ */
+const highlight = (language: string, ...code: string[]): Array<Array<[string, string | undefined]>> => {
+    const document = parseMarkdown(['```' + language, ...code, '```'].join('\n'));
+
+    return document.lines.slice(1, -1).map(line => {
+        return line.richText.map((segment: RichTextSegment) => [segment.text, segment.font?.color?.argb]);
+    });
+};
+
+describe('syntax-highlighter', () => {
+    it('TypeScriptのキーワード・文字列・数値・コメントを色分けする', () => {
+        expect(highlight('ts', 'const name = "a"; // 名前', 'return 0x1F;')).toEqual([
+            [['const', keyword], [' name = ', plain], ['"a"', string], ['; ', plain], ['// 名前', comment]],
+            [['return', keyword], [' ', plain], ['0x1F', number], [';', plain]]
+        ]);
+    });
+
+    it('識別子の一部に含まれるキーワードや数値は色分けしない', () => {
+        expect(highlight('javascript', 'format1 = iffy')).toEqual([[['format1 = iffy', plain]]]);
+    });
+
+    it('文字列中のコメント記号はコメントとして扱わない', () => {
+        expect(highlight('python', "url = 'http://x' # 説明")).toEqual([
+            [['url = ', plain], ["'http://x'", string], [' ', plain], ['# 説明', comment]]
+        ]);
+    });
+
+    it('複数行にわたるブロックコメントを色分けする', () => {
+        expect(highlight('java', 'int a; /* 開始', '続き', '終了 */ int b;')).toEqual([
+            [['int', keyword], [' a; ', plain], ['/* 開始', comment]],
+            [['続き', comment]],
+            [['終了 */', comment], [' ', plain], ['int', keyword], [' b;', plain]]
+        ]);
+    });
+
+    it('Pythonの三重引用符の文字列は複数行にわたり、文字列中のキーワードやコメント記号を色分けしない', () => {
+        expect(highlight('python', 'def f():', '    """説明', '    if x: # not comment', '    """ # 終了', "s = '''a'''")).toEqual([
+            [['def', keyword], [' f():', plain]],
+            [['"""説明', string]],
+            [['if x: # not comment', string]],
+            [['"""', string], [' ', plain], ['# 終了', comment]],
+            [['s = ', plain], ["'''a'''", string]]
+        ]);
+    });
+
+    it('複数行のテンプレートリテラルを、エスケープした ` で終えずに色分けする', () => {
+        expect(highlight('ts', 'const s = `a', 'return // \\` b', '` + 1;')).toEqual([
+            [['const', keyword], [' s = ', plain], ['`a', string]],
+            [['return // \\` b', string]],
+            [['`', string], [' + ', plain], ['1', number], [';', plain]]
+        ]);
+    });
+
+    it('閉じられていない通常の文字列は次の行に引き継がない', () => {
+        expect(highlight('js', 'let s = "a', 'if (x) {}')).toEqual([
+            [['let', keyword], [' s = ', plain], ['"a', string]],
+            [['if', keyword], [' (x) {}', plain]]
+        ]);
+    });
+
+    it('SQLのキーワードは大文字・小文字を区別しない', () => {
+        expect(highlight('sql', "SELECT * from t -- 'x'")).toEqual([
+            [['SELECT', keyword], [' * ', plain], ['from', keyword], [' t ', plain], ["-- 'x'", comment]]
+        ]);
+    });
+
+    it('YAMLのキーと真偽値をキーワードとして色分けする', () => {
+        expect(highlight('yaml', 'enabled: true # 有効')).toEqual([
+            [['enabled', keyword], [': ', plain], ['true', keyword], [' ', plain], ['# 有効', comment]]
+        ]);
+    });
+
+    it('JSONとシェルスクリプトを色分けする', () => {
+        expect(highlight('json', '{"count": 10, "ok": false}')).toEqual([
+            [['{', plain], ['"count"', string], [': ', plain], ['10', number], [', ', plain], ['"ok"', string],
+                [': ', plain], ['false', keyword], ['}', plain]]
+        ]);
+        expect(highlight('bash', 'echo "$HOME" # 表示')).toEqual([
+            [['echo', keyword], [' ', plain], ['"$HOME"', string], [' ', plain], ['# 表示', comment]]
+        ]);
+    });
+
+    it('対応していない言語や言語名の指定がない場合は色分けしない', () => {
+        expect(highlight('', 'const a = 1;')).toEqual([[['const a = 1;', plain]]]);
+        expect(highlight('cobol', 'const a = 1;')).toEqual([[['const a = 1;', plain]]]);
+        expect(highlight('__proto__', 'const a = 1;')).toEqual([[['const a = 1;', plain]]]);
+        expect(highlight('constructor', 'const a = 1;')).toEqual([[['const a = 1;', plain]]]);
+    });
+
+    it('色分けしてもプレーンテキストは変わらない', () => {
+        const document = parseMarkdown(['```ts', '    if (x) { return "y"; }', '```'].join('\n'));
+
+        expect(document.lines[1].plainText).toBe('if (x) { return "y"; }');
+        expect(document.lines[1].richText.map(segment => segment.text).join('')).toBe(document.lines[1].plainText);
+    });
+
+    it('設定の配色を使用し、無効にした場合は色分けしない', () => {
+        const config = { ...defaultExcelConfig, syntaxColors: { ...defaultExcelConfig.syntaxColors, keyword: 'FF7030A0' } };
+        const highlighted = parseMarkdown('```ts\nlet a\n```', { config });
+        const disabled = parseMarkdown('```ts\nlet a\n```', { config: { ...config, syntaxHighlighting: false } });
+
+        expect(highlighted.lines[1].richText[0].font?.color?.argb).toBe('FF7030A0');
+        expect(disabled.lines[1].richText).toHaveLength(1);
+    });
+});
@@ -0,0 +1,118 @@
+import { splitTableCells, parseAlignments, isDelimiterRow } from '../../src/parser/table-parser';
+import { parseMarkdownFile } from '../../src/parser/markdown-parser';
+import { LineType, TableAlignment, TableRowRole } from '../../src/types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('table-parser', () => {
+    describe('splitTableCells', () => {
+        it('先頭・末尾のパイプを除去してセルに分割する', () => {
+            expect(splitTableCells('| a | b | c |')).toEqual(['a', 'b', 'c']);
+        });
+
+        it('先頭・末尾のパイプがない行も分割できる', () => {
+            expect(splitTableCells('a | b')).toEqual(['a', 'b']);
+        });
+
+        it('エスケープされたパイプはセル内の文字として扱う', () => {
+            expect(splitTableCells('| a \\| b | c |')).toEqual(['a | b', 'c']);
+        });
+
+        it('空セルを保持する', () => {
+            expect(splitTableCells('| a |  | c |')).toEqual(['a', '', 'c']);
+        });
+    });
+
+    describe('isDelimiterRow', () => {
+        it('区切り行を判定する', () => {
+            expect(isDelimiterRow('| --- | :---: |')).toBe(true);
+            expect(isDelimiterRow('|:--|--:|')).toBe(true);
+            expect(isDelimiterRow('--- | ---')).toBe(true);
+        });
+
+        it('区切り行以外は判定しない', () => {
+            expect(isDelimiterRow('| a | b |')).toBe(false);
+            expect(isDelimiterRow('| : | : |')).toBe(false);
+            expect(isDelimiterRow('| --- | a |')).toBe(false);
+        });
+    });
+
+    describe('parseAlignments', () => {
+        it('コロンの位置から列揃えを決定する', () => {
+            expect(parseAlignments('| --- | :--- | :---: | ---: |')).toEqual([
+                TableAlignment.None,
+                TableAlignment.Left,
+                TableAlignment.Center,
+                TableAlignment.Right
+            ]);
+        });
+    });
+
+    describe('parseMarkdownFile での表ブロック', () => {
+        const testFilePath = path.join(__dirname, 'test-table.md');
+
+        afterEach(() => {
+            if (fs.existsSync(testFilePath)) {
+                try { fs.unlinkSync(testFilePath); } catch (e) { }
+            }
+        });
+
+        it('見出し行・区切り行・本文行を構造化し、セル内のインライン書式を保持する', async () => {
+            const testContent = `| 項目 | 説明 |
+| :--- | :---: |
+| **太字** | \`code\` |
+| 不足 |
+
+段落`;
+            fs.writeFileSync(testFilePath, testContent, 'utf8');
+
+            const document = await parseMarkdownFile(testFilePath);
+
+            expect(document.lines).toHaveLength(6);
+
+            const header = document.lines[0];
+            expect(header.lineType).toBe(LineType.Table);
+            expect(header.table?.role).toBe(TableRowRole.Header);
+            expect(header.table?.alignments).toEqual([TableAlignment.Left, TableAlignment.Center]);
+            expect(header.plainText).toBe('項目 | 説明');
+
+            expect(document.lines[1].table?.role).toBe(TableRowRole.Delimiter);
+            expect(document.lines[1].table?.cells).toEqual([]);
+
+            const body = document.lines[2];
+            expect(body.table?.role).toBe(TableRowRole.Body);
+            expect(body.table?.cells[0][0].text).toBe('太字');
+            expect(body.table?.cells[0][0].font?.bold).toBe(true);
+            expect(body.table?.cells[1][0].font?.code).toBe(true);
+
+            // 列数が不足する行は空セルで補われる
+            expect(document.lines[3].table?.cells).toHaveLength(2);
+            expect(document.lines[3].table?.cells[1]).toEqual([]);
+
+            expect(document.lines[5].lineType).toBe(LineType.Paragraph);
+            expect(document.lines[5].table).toBeUndefined();
+        });
+
+        it('区切り行がない表形式の行は構造化せずテキストとして扱う', async () => {
+            fs.writeFileSync(testFilePath, '| a | b |\n| c | d |', 'utf8');
+
+            const document = await parseMarkdownFile(testFilePath);
+
+            expect(document.lines[0].lineType).toBe(LineType.Table);
+            expect(document.lines[0].table).toBeUndefined();
+            expect(document.lines[0].plainText).toBe('| a | b |');
+        });
+
+        it('先頭・末尾のパイプがない表も構造化する', async () => {
+            fs.writeFileSync(testFilePath, '項目 | 説明\n--- | ---:\nA | 1', 'utf8');
+
+            const document = await parseMarkdownFile(testFilePath);
+
+            expect(document.lines.map(line => line.table?.role)).toEqual([
+                TableRowRole.Header, TableRowRole.Delimiter, TableRowRole.Body
+            ]);
+            expect(document.lines[0].table?.alignments).toEqual([TableAlignment.None, TableAlignment.Right]);
+            expect(document.lines[2].plainText).toBe('A | 1');
+        });
+    });
+});
@@ -0,0 +1,192 @@
+import * as fc from 'fast-check';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseMarkdownFile } from '../../src/parser/markdown-parser';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { readWorkbook } from '../../src/reader/excel-reader';
+import { serializeMarkdown } from '../../src/reader/markdown-serializer';
+import { defaultExcelConfig } from '../../src/config';
+import { Document, DocumentLine, RichTextSegment } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * 英数字の単語（リンク先にも使用する）
+ */
+const asciiWordGenerator = fc.stringOf(fc.constantFrom(...'abcdefxyz0123'.split('')), { minLength: 1, maxLength: 6 });
+
+/**
+ * 本文の単語（英数字または日本語）
+ */
+const wordGenerator = fc.oneof(
+    asciiWordGenerator,
+    fc.stringOf(fc.constantFrom(...'あいう漢字テスト'.split('')), { minLength: 1, maxLength: 4 })
+);
+
+/**
+ * 書式付きの単語（太字・斜体・取り消し線・インラインコード・リンク）
+ */
+const inlineItemGenerator = fc.oneof(
+    { weight: 4, arbitrary: wordGenerator },
+    { weight: 1, arbitrary: wordGenerator.map(word => `**${word}**`) },
+    { weight: 1, arbitrary: wordGenerator.map(word => `*${word}*`) },
+    { weight: 1, arbitrary: wordGenerator.map(word => `~~${word}~~`) },
+    { weight: 1, arbitrary: asciiWordGenerator.map(word => `\`${word}\``) },
+    { weight: 1, arbitrary: fc.tuple(wordGenerator, asciiWordGenerator).map(([text, page]) => `[${text}](https://example.com/${page})`) }
+);
+
+/**
+ * 1行分のインラインのテキスト（先頭は書式のない単語とし、行頭の記号と解釈されないようにする）
+ */
+const inlineTextGenerator = fc.tuple(wordGenerator, fc.array(inlineItemGenerator, { maxLength: 4 }))
+    .map(([first, rest]) => [first, ...rest].join(' '));
+
+/**
+ * 見出し（H5は本文と同じフォントサイズのため、太字の段落と区別できず除外する）
+ */
+const headingGenerator = fc.tuple(fc.constantFrom(1, 2, 3, 4, 6), inlineTextGenerator)
+    .map(([level, text]) => [`${'#'.repeat(level)} ${text}`]);
+
+/**
+ * 段落（1〜2行）
+ */
+const paragraphGenerator = fc.array(inlineTextGenerator, { minLength: 1, maxLength: 2 });
+
+/**
+ * リスト（箇条書き・番号付き・タスクリスト。項目の下に1段の入れ子のリストを持てる）
+ */
+const listGenerator = (depth: number): fc.Arbitrary<string[]> => fc.tuple(
+    fc.constantFrom('bullet', 'ordered', 'task'),
+    fc.integer({ min: 1, max: 12 }),
+    fc.array(fc.tuple(
+        inlineTextGenerator,
+        fc.boolean(),
+        depth > 0 ? fc.option(listGenerator(depth - 1), { nil: null }) : fc.constant(null)
+    ), { minLength: 1, maxLength: 3 })
+).map(([kind, start, items]) => items.flatMap(([text, checked, children], index) => {
+    const marker = kind === 'ordered' ? `${start + index}. ` : '- ';
+    const checkbox = kind === 'task' ? `[${checked ? 'x' : ' '}] ` : '';
+    const nested = (children ?? []).map(line => ' '.repeat(marker.length) + line);
+    return [`${marker}${checkbox}${text}`, ...nested];
+}));
+
+/**
+ * 引用（入れ子の引用を含む）とアラート
+ */
+const quoteGenerator = fc.oneof(
+    fc.tuple(fc.array(inlineTextGenerator, { minLength: 1, maxLength: 2 }), fc.array(inlineTextGenerator, { maxLength: 2 }))
+        .map(([lines, nestedLines]) => [
+            ...lines.map(line => `> ${line}`),
+            ...(nestedLines.length > 0 ? ['>', ...nestedLines.map(line => `> > ${line}`)] : [])
+        ]),
+    fc.tuple(fc.constantFrom('NOTE', 'TIP', 'IMPORTANT', 'WARNING', 'CAUTION'), fc.array(inlineTextGenerator, { minLength: 1, maxLength: 2 }))
+        .map(([type, lines]) => [`> [!${type}]`, ...lines.map(line => `> ${line}`)])
+);
+
+/**
+ * コードブロック（インデントしたコードの行を含む）
+ */
+const codeBlockGenerator = fc.tuple(
+    fc.constantFrom('', 'js', 'text'),
+    fc.array(fc.tuple(fc.constantFrom('', '  ', '    '), fc.stringOf(fc.constantFrom(...'abc(){};= 12'.split('')), { maxLength: 12 })), { minLength: 1, maxLength: 3 })
+).map(([language, lines]) => ['```' + language, ...lines.map(([indent, code]) => (indent + code).trimEnd()), '```']);
+
+/**
+ * 表（見出し行と1行以上の本文行。列揃えを含む）
+ * 見出し行は常に太字で出力されるため、見出し行のセルは書式のない単語とする
+ */
+const tableGenerator = fc.integer({ min: 1, max: 3 }).chain(columnCount => fc.tuple(
+    fc.array(wordGenerator, { minLength: columnCount, maxLength: columnCount }),
+    fc.array(fc.constantFrom('---', ':---', ':---:', '---:'), { minLength: columnCount, maxLength: columnCount }),
+    fc.array(fc.array(inlineTextGenerator, { minLength: columnCount, maxLength: columnCount }), { minLength: 1, maxLength: 2 })
+)).map(([header, delimiters, rows]) => [header, delimiters, ...rows].map(cells => `| ${cells.join(' | ')} |`));
+
+/**
+ * 往復の変換で同じ構造に戻ることを検証するMarkdown（ブロック要素を空行で区切る）
+ */
+const roundTripMarkdownGenerator = fc.array(fc.oneof(
+    headingGenerator,
+    paragraphGenerator,
+    listGenerator(1),
+    quoteGenerator,
+    codeBlockGenerator,
+    tableGenerator,
+    fc.constant(['---'])
+), { minLength: 1, maxLength: 6 }).map(blocks => blocks.map(lines => lines.join('\n')).join('\n\n') + '\n');
+
+/**
+ * 比較用に、セグメントの書式（太字・斜体・取り消し線・コード・リンク先）のみを残し、同じ書式の隣接するセグメントを結合する
+ * @param segments リッチテキスト
+ * @returns 比較用のセグメント
+ */
+const toRunView = (segments: RichTextSegment[]): Array<{ text: string; style: string }> => {
+    return segments.reduce<Array<{ text: string; style: string }>>((runs, segment) => {
+        const font = segment.font ?? {};
+        const style = JSON.stringify([!!font.bold, !!font.italic, !!font.strike, !!font.code, segment.link?.target ?? '']);
+        const last = runs[runs.length - 1];
+        if (last && last.style === style) {
+            last.text += segment.text;
+            return runs;
+        }
+        return [...runs, { text: segment.text, style }];
+    }, []).filter(run => run.text.length > 0);
+};
+
+/**
+ * 比較用に、行の構造と内容を取り出す（出力しない行は除く）
+ * @param document 文書
+ * @returns 行ごとの比較用の値
+ */
+const toLineView = (document: Document): unknown[] => {
+    return document.lines
+        .filter(line => !line.isReferenceDefinition && !line.isSetextUnderline && !line.isContainerFence)
+        .map((line: DocumentLine) => ({
+            lineType: line.lineType,
+            indentLevel: line.indentLevel,
+            headerLevel: line.formatting.headerLevel,
+            task: line.task ?? null,
+            quote: line.quote ?? null,
+            codeBlock: line.codeBlock ?? null,
+            ...(line.table
+                ? { cells: line.table.cells.map(toRunView), alignments: line.table.alignments }
+                : { plainText: line.plainText, runs: toRunView(line.richText) })
+        }));
+};
+
+/**
+ * **Feature: markdown-to-excel, Property 19: Excelからの逆変換**
+ */
+describe('readWorkbook プロパティベーステスト', () => {
+    const testDir = path.join(__dirname, 'temp-round-trip-files');
+
+    beforeAll(() => {
+        fs.mkdirSync(testDir, { recursive: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    /**
+     * プロパティ19: Markdown → Excel → Markdown の往復
+     * 任意のMarkdownをExcelに変換して読み込み、Markdownに戻して解析した結果は、元のMarkdownの解析結果と同じ構造・内容になる
+     */
+    test('プロパティ19: Excelから復元したMarkdownは元のMarkdownと同じ構造に解析される', async () => {
+        await fc.assert(
+            fc.asyncProperty(roundTripMarkdownGenerator, async (markdown) => {
+                const sourcePath = path.join(testDir, 'source.md');
+                const restoredPath = path.join(testDir, 'restored.md');
+                fs.writeFileSync(sourcePath, markdown, 'utf8');
+
+                const source = await parseMarkdownFile(sourcePath);
+                const buffer = await writeExcel(source, defaultExcelConfig);
+                const workbook = await loadWorkbook(buffer);
+
+                fs.writeFileSync(restoredPath, serializeMarkdown(readWorkbook(workbook)), 'utf8');
+                const restored = await parseMarkdownFile(restoredPath);
+
+                expect(toLineView(restored)).toEqual(toLineView(source));
+            }),
+            { numRuns: 50 }
+        );
+    }, 120000);
+});
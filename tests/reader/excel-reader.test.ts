@@ -0,0 +1,224 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { readExcelFile, readWorkbook } from '../../src/reader/excel-reader';
+import { defaultExcelConfig } from '../../src/config';
+import {
+    AlertType, CodeBlockRole, Document, ExcelConfig, FootnoteMode, LineType, LinkMode, OrderedListStyle, TableAlignment, TableRowRole, TaskSummaryMode
+} from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * Markdownを変換したExcelファイルを読み込み、文書の行を復元する
+ * @param markdown Markdownテキスト
+ * @param config Excel設定
+ * @returns 復元した文書
+ */
+const roundTrip = async (markdown: string, config: ExcelConfig = defaultExcelConfig): Promise<Document> => {
+    const buffer = await writeExcel(parseMarkdown(markdown, { config }), config);
+    const workbook = await loadWorkbook(buffer);
+    return readWorkbook(workbook, { config });
+};
+
+describe('excel-reader', () => {
+    it('見出し・段落・空行・水平線を、フォントサイズ・罫線から判定して復元する', async () => {
+        const document = await roundTrip('# 見出し1\n\n本文\n\n---\n###### 見出し6');
+
+        expect(document.lines.map(line => [line.lineType, line.plainText, line.formatting.headerLevel])).toEqual([
+            [LineType.Header, '見出し1', 1],
+            [LineType.Empty, '', 0],
+            [LineType.Paragraph, '本文', 0],
+            [LineType.Empty, '', 0],
+            [LineType.HorizontalRule, '------------------------------', 0],
+            [LineType.Header, '見出し6', 6]
+        ]);
+    });
+
+    it('本文と同じフォントサイズの見出し（H5）は太字の段落として復元する', async () => {
+        const document = await roundTrip('##### 見出し5');
+
+        expect(document.lines[0].lineType).toBe(LineType.Paragraph);
+        expect(document.lines[0].richText[0].font?.bold).toBe(true);
+    });
+
+    it('リッチテキストの書式から太字・斜体・取り消し線・インラインコード・リンク先を復元する', async () => {
+        const document = await roundTrip('**太字** *斜体* ~~取消~~ `code` [リンク](https://example.com)');
+        const segments = document.lines[0].richText.filter(segment => segment.text.trim().length > 0);
+
+        expect(segments.map(segment => segment.text)).toEqual(['太字', '斜体', '取消', 'code', 'リンク']);
+        expect(segments[0].font?.bold).toBe(true);
+        expect(segments[1].font?.italic).toBe(true);
+        expect(segments[2].font?.strike).toBe(true);
+        expect(segments[3].font?.code).toBe(true);
+        expect(segments[4].link).toEqual({ target: 'https://example.com' });
+    });
+
+    it('セルのハイパーリンクとして出力したリンクのリンク先を復元する', async () => {
+        const document = await roundTrip('[リンク](https://example.com)', { ...defaultExcelConfig, linkMode: LinkMode.Cell });
+
+        expect(document.lines[0].richText).toEqual([
+            expect.objectContaining({ text: 'リンク', link: { target: 'https://example.com' } })
+        ]);
+    });
+
+    it('列の位置からインデントレベルを、表示用の記号からタスクリスト項目を復元する', async () => {
+        const document = await roundTrip('- 親\n  - [x] 完了\n  1. 番号');
+
+        expect(document.lines.map(line => [line.lineType, line.indentLevel, line.plainText, line.task ?? null])).toEqual([
+            [LineType.ListItem, 0, '・ 親', null],
+            [LineType.ListItem, 1, '☑ 完了', { checked: true }],
+            [LineType.ListItem, 1, '1. 番号', null]
+        ]);
+    });
+
+    it('レベルごとの番号の表記に一致しない番号は、リスト項目としない', async () => {
+        const config = { ...defaultExcelConfig, orderedListStyles: [OrderedListStyle.LowerAlpha] };
+        const document = await roundTrip('1. 一\n\n2\\. 段落\n\nb. 段落', config);
+
+        expect(document.lines.map(line => line.lineType)).toEqual([
+            LineType.ListItem, LineType.Empty, LineType.Paragraph, LineType.Empty, LineType.ListItem
+        ]);
+    });
+
+    it('引用の左罫線から引用の深さを、罫線の色からアラートの種類を復元する', async () => {
+        const document = await roundTrip('> 外側\n> > 内側\n\n> [!WARNING]\n> 注意');
+
+        expect(document.lines.map(line => [line.lineType, line.indentLevel, line.quote ?? null])).toEqual([
+            [LineType.Quote, 0, { borderLevels: [0] }],
+            [LineType.Quote, 1, { borderLevels: [0, 1] }],
+            [LineType.Empty, 0, null],
+            [LineType.Quote, 0, { borderLevels: [0], alert: AlertType.Warning }],
+            [LineType.Quote, 0, { borderLevels: [0], alert: AlertType.Warning }]
+        ]);
+    });
+
+    it('コードブロックの枠から、フェンス行・言語名・コードの行のインデントを復元する', async () => {
+        const document = await roundTrip('```js\nif (a) {\n    b();\n}\n```');
+
+        expect(document.lines.map(line => [line.codeBlock?.role, line.indentLevel, line.plainText])).toEqual([
+            [CodeBlockRole.Open, 0, ''],
+            [CodeBlockRole.Content, 0, 'if (a) {'],
+            [CodeBlockRole.Content, 1, 'b();'],
+            [CodeBlockRole.Content, 0, '}'],
+            [CodeBlockRole.Close, 0, '']
+        ]);
+        expect(document.lines.every(line => line.codeBlock?.language === 'js')).toBe(true);
+    });
+
+    it('連続するコードブロックを、枠の上辺の罫線で区切って復元する', async () => {
+        const document = await roundTrip('```\na\n```\n```\nb\n```');
+
+        expect(document.lines.map(line => line.codeBlock?.role)).toEqual([
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close,
+            CodeBlockRole.Open, CodeBlockRole.Content, CodeBlockRole.Close
+        ]);
+    });
+
+    it('表のセルと列揃えを復元し、見出し行の太字を除去する', async () => {
+        const document = await roundTrip('| 左 | 中 | 右 | なし |\n| :--- | :---: | ---: | --- |\n| a | *b* | c | d |');
+        const [header, delimiter, body] = document.lines;
+
+        expect([header, delimiter, body].map(line => line.table?.role)).toEqual([TableRowRole.Header, TableRowRole.Delimiter, TableRowRole.Body]);
+        expect(header.table?.alignments).toEqual([TableAlignment.Left, TableAlignment.Center, TableAlignment.Right, TableAlignment.None]);
+        expect(header.table?.cells.map(cell => cell.map(segment => segment.text).join(''))).toEqual(['左', '中', '右', 'なし']);
+        expect(header.table?.cells[0][0].font?.bold).toBeUndefined();
+        expect(body.table?.cells[1][0].font?.italic).toBe(true);
+    });
+
+    it('脚注の参照と脚注セクションの本文を復元する', async () => {
+        const document = await roundTrip('本文[^a]\n\n[^a]: 脚注の**本文**');
+
+        expect(document.lines[0].richText).toContainEqual(expect.objectContaining({ text: '※1', footnote: { number: 1 } }));
+        expect(document.footnotes).toEqual([expect.objectContaining({ number: 1, label: '1', plainText: '脚注の本文' })]);
+    });
+
+    it('セルのコメントとして出力した脚注の本文を復元する', async () => {
+        const document = await roundTrip('本文[^a]\n\n[^a]: 脚注', { ...defaultExcelConfig, footnoteMode: FootnoteMode.Comment });
+
+        expect(document.footnotes).toEqual([expect.objectContaining({ number: 1, plainText: '脚注' })]);
+    });
+
+    it('Excelで入力された文字列のセルを、セルのフォントを書式として復元する', async () => {
+        const config = defaultExcelConfig;
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown('# 見出し\n\n本文\n\n[リンク](https://example.com)', { config }), config));
+        const worksheet = workbook.worksheets[0];
+        worksheet.getCell(1, 1).value = '新しい見出し';
+        worksheet.getCell(1, 1).font = { bold: true, size: config.headerFontSizes[1] };
+        worksheet.getCell(2, 1).value = '空行に入力した本文';
+        worksheet.getCell(3, 1).value = 42;
+        worksheet.getCell(5, 1).value = { text: '別のリンク', hyperlink: 'https://example.org' };
+
+        const document = readWorkbook(workbook, { config });
+
+        expect(document.lines.slice(0, 4).map(line => [line.lineType, line.plainText])).toEqual([
+            [LineType.Header, '新しい見出し'],
+            [LineType.Paragraph, '空行に入力した本文'],
+            [LineType.Paragraph, '42'],
+            [LineType.Empty, '']
+        ]);
+        expect(document.lines[4].richText).toEqual([expect.objectContaining({ text: '別のリンク', link: { target: 'https://example.org' } })]);
+    });
+
+    it('変換で出力した文書情報・目次・目次へ戻るリンク・タスクの集計は本文として復元しない', async () => {
+        const markdown = '---\ntitle: 文書\nauthor: 作成者\n---\n# 見出し\n\n- [x] 完了した項目';
+        const config = { ...defaultExcelConfig, showDocumentInfo: true, generateTableOfContents: true, taskSummary: TaskSummaryMode.Value };
+
+        const document = await roundTrip(markdown, config);
+
+        expect(document.metadata.sheetNames).toEqual(['目次', 'Markdown']);
+        expect(document.lines.map(line => [line.lineType, line.plainText])).toEqual([
+            [LineType.Header, '見出し'],
+            [LineType.Empty, ''],
+            [LineType.ListItem, '☑ 完了した項目']
+        ]);
+    });
+
+    it('コードブロック・表で始まる引用の前の「引用：」の行は本文として復元しない', async () => {
+        const document = await roundTrip('> ```\n> code\n> ```');
+
+        expect(document.lines.map(line => [line.codeBlock?.role, line.plainText, line.quote?.borderLevels])).toEqual([
+            [CodeBlockRole.Open, '', [0]],
+            [CodeBlockRole.Content, 'code', [0]],
+            [CodeBlockRole.Close, '', [0]]
+        ]);
+    });
+
+    it('存在しないシート名を指定した場合はエラーを投げる', async () => {
+        const workbook = new ExcelJS.Workbook();
+        workbook.addWorksheet('Sheet1');
+
+        expect(() => readWorkbook(workbook, { sheetNames: ['存在しない'] })).toThrow('シートが見つかりません: 存在しない');
+    });
+
+    describe('readExcelFile', () => {
+        const testDir = path.join(os.tmpdir(), 'excel-reader-test');
+
+        beforeAll(() => {
+            fs.mkdirSync(testDir, { recursive: true });
+        });
+
+        afterAll(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+        });
+
+        it('Excelファイルを読み込み、ファイル名とシート名をメタデータに記録する', async () => {
+            const filePath = path.join(testDir, 'sample.xlsx');
+            fs.writeFileSync(filePath, await writeExcel(parseMarkdown('本文', { fileName: 'sample.md' }), defaultExcelConfig));
+
+            const document = await readExcelFile(filePath);
+
+            expect(document.lines.map(line => line.plainText)).toEqual(['本文']);
+            expect(document.metadata).toEqual(expect.objectContaining({ fileName: 'sample.xlsx', filePath, totalLines: 1 }));
+            expect(document.metadata.sheetNames?.length).toBeGreaterThan(0);
+        });
+
+        it('存在しないファイルの場合はエラーを投げる', async () => {
+            const filePath = path.join(testDir, 'missing.xlsx');
+
+            await expect(readExcelFile(filePath)).rejects.toThrow(`ファイルが見つかりません: ${filePath}`);
+        });
+    });
+});
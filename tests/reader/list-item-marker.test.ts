@@ -0,0 +1,25 @@
+import { parseListItemMarker } from '../../src/reader/list-item-marker';
+import { defaultExcelConfig } from '../../src/config';
+import { OrderedListStyle } from '../../src/types';
+
+describe('list-item-marker', () => {
+    const config = { ...defaultExcelConfig, orderedListStyles: [OrderedListStyle.Decimal, OrderedListStyle.LowerAlpha] };
+
+    it('箇条書き・番号付き・タスクリスト項目の表示用の記号を読み取る', () => {
+        expect(parseListItemMarker('・ 項目', 0, config)).toEqual({ ordered: null, task: null, length: 2 });
+        expect(parseListItemMarker('12) 項目', 0, config)).toEqual({ ordered: { number: 12, delimiter: ')' }, task: null, length: 4 });
+        expect(parseListItemMarker('☐ 項目', 0, config)).toEqual({ ordered: null, task: { checked: false }, length: 2 });
+        expect(parseListItemMarker('3. ☑ 項目', 0, config)).toEqual({ ordered: { number: 3, delimiter: '.' }, task: { checked: true }, length: 5 });
+    });
+
+    it('番号はインデントレベルごとの表記で読み取る', () => {
+        expect(parseListItemMarker('c. 項目', 1, config)).toEqual({ ordered: { number: 3, delimiter: '.' }, task: null, length: 3 });
+        expect(parseListItemMarker('c. 項目', 0, config)).toBeNull();
+    });
+
+    it('記号の後に空白のない行と、記号で始まらない行はリスト項目としない', () => {
+        expect(parseListItemMarker('・項目', 0, config)).toBeNull();
+        expect(parseListItemMarker('1.5 項目', 0, config)).toBeNull();
+        expect(parseListItemMarker('本文', 0, config)).toBeNull();
+    });
+});
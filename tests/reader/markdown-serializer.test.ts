@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { serializeMarkdown, serializeMarkdownLines, writeMarkdownFile } from '../../src/reader/markdown-serializer';
+import { defaultExcelConfig } from '../../src/config';
+import { CompletedTaskStyle, ExcelConfig } from '../../src/types';
+
+/**
+ * Markdownを解析し、Markdownに戻す
+ * @param markdown Markdownテキスト
+ * @param config Excel設定
+ * @returns 変換したMarkdown
+ */
+const reserialize = (markdown: string, config: ExcelConfig = defaultExcelConfig): string => {
+    return serializeMarkdown(parseMarkdown(markdown, { config }), config);
+};
+
+describe('markdown-serializer', () => {
+    it('見出し・段落・水平線・コードブロック・表をMarkdownの記法に戻す', () => {
+        const markdown = [
+            '# 見出し',
+            '',
+            '本文',
+            '',
+            '---',
+            '```js',
+            'if (a) {',
+            '    b();',
+            '}',
+            '```',
+            '| 左 | 中 |',
+            '| :--- | :---: |',
+            '| a \\| b | c |'
+        ].join('\n');
+
+        expect(reserialize(markdown)).toBe(markdown);
+    });
+
+    it('インライン書式を記号に戻し、記号の内側の空白は記号の外に出す', () => {
+        expect(reserialize('**太字 *両方* 太字** ~~取消~~ `code` [リンク](https://example.com)'))
+            .toBe('**太字 *両方* 太字** ~~取消~~ `code` [リンク](https://example.com)');
+        expect(reserialize('**a** **b**')).toBe('**a** **b**');
+    });
+
+    it('テキスト中の書式の記号と、行頭のブロック要素の記号をエスケープする', () => {
+        expect(reserialize('a \\* b \\_ c \\[d\\] \\`e\\`')).toBe('a \\* b \\_ c \\[d\\] \\`e\\`');
+        expect(reserialize('\\# 見出しではない\n\n1\\. リストではない\n\n\\> 引用ではない'))
+            .toBe('\\# 見出しではない\n\n1\\. リストではない\n\n\\> 引用ではない');
+    });
+
+    it('インラインコードは内容に含まれる ` より長い ` で囲む', () => {
+        expect(reserialize('``a ` b``')).toBe('``a ` b``');
+    });
+
+    it('リスト項目の表示用の記号を戻し、入れ子は親の項目の内容の位置に揃える', () => {
+        const markdown = '- 親\n  - [x] 完了\n    1. 番号\n    2. 番号\n\n       続きの段落\n10) 十';
+        expect(reserialize(markdown)).toBe(markdown);
+    });
+
+    it('完了したタスクに付与した取り消し線は記号に戻さない', () => {
+        const config = { ...defaultExcelConfig, completedTaskStyle: CompletedTaskStyle.Strike };
+        expect(reserialize('- [x] 完了', config)).toBe('- [x] 完了');
+    });
+
+    it('引用の「引用：」を除去し、入れ子の引用と引用の中のリストを戻す', () => {
+        const markdown = '> 外側\n>\n> > 内側\n> - 項目';
+        expect(reserialize(markdown)).toBe(markdown);
+    });
+
+    it('アラートとコンテナのラベルの行を [!TYPE] の記号に戻す', () => {
+        expect(reserialize('> [!NOTE] タイトル\n> 本文')).toBe('> [!NOTE] タイトル\n> 本文');
+        expect(reserialize(':::warning\n本文\n:::')).toBe('> [!WARNING]\n> 本文');
+    });
+
+    it('脚注の参照を戻し、脚注定義を文書の末尾に出力する', () => {
+        expect(reserialize('本文[^a]\n\n[^a]: 脚注の**本文**\n')).toBe('本文[^a]\n\n[^a]: 脚注の**本文**\n');
+    });
+
+    it('段落の直後の水平線は、見出しの下線と解釈されない記号で出力する', () => {
+        expect(reserialize('段落\n***')).toBe('段落\n***');
+        expect(reserialize('段落\n\n***')).toBe('段落\n\n---');
+        expect(reserialize('# 見出し\n***')).toBe('# 見出し\n---');
+    });
+
+    it('serializeMarkdownLines は各行に変換元の文書の行の位置を記録し、補ったフェンスと脚注定義はnullとする', () => {
+        const document = parseMarkdown('見出し\n===\n\n    code\n\n本文[^a]\n\n[^a]: 脚注');
+
+        expect(serializeMarkdownLines(document).map(line => [line.text, line.lineIndex])).toEqual([
+            ['# 見出し', 0],
+            ['', 2],
+            ['    ```', null],
+            ['    code', 3],
+            ['    ```', null],
+            ['', 4],
+            ['本文[^a]', 5],
+            ['', null],
+            ['[^a]: 脚注', null],
+            ['', null]
+        ]);
+    });
+
+    it('writeMarkdownFile はMarkdownをファイルに書き込む', async () => {
+        const filePath = path.join(os.tmpdir(), `markdown-serializer-${process.pid}.md`);
+
+        try {
+            await writeMarkdownFile(parseMarkdown('# 見出し'), filePath);
+            expect(fs.readFileSync(filePath, 'utf8')).toBe('# 見出し');
+        } finally {
+            fs.rmSync(filePath, { force: true });
+        }
+    });
+});
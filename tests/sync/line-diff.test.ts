@@ -0,0 +1,49 @@
+import { alignLines, diffLines } from '../../src/sync/line-diff';
+
+describe('line-diff', () => {
+    describe('diffLines', () => {
+        it('同じ行の配列の場合は変更された範囲を返さない', () => {
+            expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([]);
+        });
+
+        it('変更・挿入・削除された行を、連続する変更ごとの範囲として返す', () => {
+            expect(diffLines(['a', 'b', 'c', 'd', 'e'], ['a', 'B', 'c', 'x', 'd'])).toEqual([
+                { beforeStart: 1, beforeEnd: 2, afterStart: 1, afterEnd: 2 },
+                { beforeStart: 3, beforeEnd: 3, afterStart: 3, afterEnd: 4 },
+                { beforeStart: 4, beforeEnd: 5, afterStart: 5, afterEnd: 5 }
+            ]);
+        });
+
+        it('先頭・末尾への挿入と、空の配列との比較を扱う', () => {
+            expect(diffLines(['b'], ['a', 'b', 'c'])).toEqual([
+                { beforeStart: 0, beforeEnd: 0, afterStart: 0, afterEnd: 1 },
+                { beforeStart: 1, beforeEnd: 1, afterStart: 2, afterEnd: 3 }
+            ]);
+            expect(diffLines([], ['a'])).toEqual([{ beforeStart: 0, beforeEnd: 0, afterStart: 0, afterEnd: 1 }]);
+            expect(diffLines(['a'], [])).toEqual([{ beforeStart: 0, beforeEnd: 1, afterStart: 0, afterEnd: 0 }]);
+        });
+
+        it('最長共通部分列に含まれる行は変更としない', () => {
+            const ranges = diffLines(['x', 'a', 'b', 'c'], ['a', 'b', 'c', 'x']);
+
+            expect(ranges).toEqual([
+                { beforeStart: 0, beforeEnd: 1, afterStart: 0, afterEnd: 0 },
+                { beforeStart: 4, beforeEnd: 4, afterStart: 3, afterEnd: 4 }
+            ]);
+        });
+
+        it('比較する範囲が大きい場合は、先頭と末尾の一致する行を除いた範囲全体を1つの変更として返す', () => {
+            const before = ['head', ...Array.from({ length: 3000 }, (_, index) => `before ${index}`), 'tail'];
+            const after = ['head', ...Array.from({ length: 2500 }, (_, index) => `after ${index}`), 'tail'];
+
+            expect(diffLines(before, after)).toEqual([{ beforeStart: 1, beforeEnd: 3001, afterStart: 1, afterEnd: 2501 }]);
+        });
+    });
+
+    describe('alignLines', () => {
+        it('一致する行と、変更された範囲の中で同じ位置にある行を対応付ける', () => {
+            expect(alignLines(['a', 'b', 'c', 'd'], ['a', 'B', 'x', 'c'])).toEqual([[0, 0], [1, 1], [2, 3]]);
+            expect(alignLines(['a', 'b', 'c'], ['a', 'X', 'Y'])).toEqual([[0, 0], [1, 1], [2, 2]]);
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { createUnifiedPatch } from '../../src/sync/unified-patch';
+
+describe('createUnifiedPatch', () => {
+    it('変更がない場合は空文字列を返す', () => {
+        expect(createUnifiedPatch('a.md', 'a\nb\n', 'a\nb\n')).toBe('');
+    });
+
+    it('変更の前後3行を含むハンクを出力する', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', ''].join('\n');
+        const after = ['1', '2', '3', 'four', '5', '6', '7', ''].join('\n');
+
+        expect(createUnifiedPatch('doc.md', before, after)).toBe([
+            '--- a/doc.md',
+            '+++ b/doc.md',
+            '@@ -1,7 +1,7 @@',
+            ' 1',
+            ' 2',
+            ' 3',
+            '-4',
+            '+four',
+            ' 5',
+            ' 6',
+            ' 7',
+            ''
+        ].join('\n'));
+    });
+
+    it('離れた変更は別のハンクにし、挿入・削除の行数を開始行に反映する', () => {
+        const lines = Array.from({ length: 12 }, (_, index) => `${index + 1}`);
+        const before = [...lines, ''].join('\n');
+        const after = ['0', ...lines.slice(0, 11), ''].join('\n');
+
+        expect(createUnifiedPatch('doc.md', before, after, 1)).toBe([
+            '--- a/doc.md',
+            '+++ b/doc.md',
+            '@@ -1 +1,2 @@',
+            '+0',
+            ' 1',
+            '@@ -11,2 +12 @@',
+            ' 11',
+            '-12',
+            ''
+        ].join('\n'));
+    });
+
+    it('末尾に改行のない最後の行に印を付ける', () => {
+        expect(createUnifiedPatch('doc.md', 'a\nb', 'a\nb\n', 0)).toBe([
+            '--- a/doc.md',
+            '+++ b/doc.md',
+            '@@ -2 +2 @@',
+            '-b',
+            '\\ No newline at end of file',
+            '+b',
+            ''
+        ].join('\n'));
+    });
+});
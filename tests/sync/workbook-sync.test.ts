@@ -0,0 +1,264 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { diffWorkbook, mergeWorkbookEdits, syncMarkdownFile } from '../../src/sync/workbook-sync';
+import { defaultExcelConfig } from '../../src/config';
+import { LineChangeType, OutputMode, RichTextSegment } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * MarkdownをExcelに変換したブックを作成する
+ * @param markdown Markdownテキスト
+ * @returns 変換したブック
+ */
+const convert = async (markdown: string): Promise<ExcelJS.Workbook> => loadWorkbook(await writeExcel(parseMarkdown(markdown), defaultExcelConfig));
+
+/**
+ * 指定したテキストのセルがある行の番号を求める
+ * @param worksheet ワークシート
+ * @param text セルのテキスト
+ * @returns 行の番号
+ */
+const findRowNumber = (worksheet: ExcelJS.Worksheet, text: string): number => {
+    const rows = worksheet.getRows(1, worksheet.rowCount) ?? [];
+    const row = rows.find(candidate => candidate.getCell(1).text === text);
+    if (!row) {
+        throw new Error(`行が見つかりません: ${text}`);
+    }
+    return row.number;
+};
+
+/**
+ * 行の最初のセルの内容を、元のセルのフォントを引き継いだリッチテキストに置き換える
+ * @param worksheet ワークシート
+ * @param rowNumber 行の番号
+ * @param runs 置き換える内容（テキストと追加の書式）
+ */
+const editCell = (worksheet: ExcelJS.Worksheet, rowNumber: number, runs: Array<Pick<RichTextSegment, 'text'> & { bold?: boolean }>): void => {
+    const cell = worksheet.getCell(rowNumber, 1);
+    const [first] = (cell.value as ExcelJS.CellRichTextValue).richText;
+    cell.value = { richText: runs.map(run => ({ text: run.text, font: { ...first.font, ...(run.bold ? { bold: true } : {}) } })) };
+};
+
+describe('workbook-sync', () => {
+    describe('diffWorkbook', () => {
+        it('編集していないブックからは編集を検出しない', async () => {
+            const markdown = '# 見出し\n\n##### 見出し5\n\n* 項目\n\n    code\n';
+
+            expect(await diffWorkbook(markdown, await convert(markdown))).toEqual([]);
+        });
+
+        it('テキストの変更と書式のみの変更を区別し、変換元のMarkdownの行を置き換える', async () => {
+            const markdown = '# 見出し\n\n本文\n\n太字にする\n';
+            const workbook = await convert(markdown);
+            const worksheet = workbook.worksheets[0];
+            editCell(worksheet, findRowNumber(worksheet, '本文'), [{ text: '変更した本文' }]);
+            editCell(worksheet, findRowNumber(worksheet, '太字にする'), [{ text: '太字', bold: true }, { text: 'にする' }]);
+
+            expect(await diffWorkbook(markdown, workbook)).toEqual([
+                { start: 2, end: 3, lines: ['変更した本文'], changes: [{ type: LineChangeType.Text, before: '本文', after: '変更した本文' }] },
+                { start: 4, end: 5, lines: ['**太字**にする'], changes: [{ type: LineChangeType.Format, before: '太字にする', after: '**太字**にする' }] }
+            ]);
+        });
+
+        it('挿入・削除した行を、変換元のMarkdownの対応する位置の挿入・削除とする', async () => {
+            const markdown = '一\n\n二\n\n三\n';
+            const workbook = await convert(markdown);
+            const worksheet = workbook.worksheets[0];
+            worksheet.spliceRows(findRowNumber(worksheet, '二'), 2);
+            worksheet.duplicateRow(findRowNumber(worksheet, '三'), 1, true);
+            editCell(worksheet, findRowNumber(worksheet, '三') + 1, [{ text: '四' }]);
+
+            const hunks = await diffWorkbook(markdown, workbook);
+
+            expect(hunks.map(({ start, end, lines }) => ({ start, end, lines }))).toEqual([
+                { start: 2, end: 4, lines: [] },
+                { start: 5, end: 5, lines: ['四'] }
+            ]);
+            expect(hunks.flatMap(hunk => hunk.changes.map(change => change.type)))
+                .toEqual([LineChangeType.Delete, LineChangeType.Delete, LineChangeType.Insert]);
+            expect(mergeWorkbookEdits(markdown, markdown, hunks).content).toBe('一\n\n三\n四\n');
+        });
+
+        it('Excelで入力した文字列のセルを、変更・挿入した行として検出する', async () => {
+            const markdown = '本文\n\n最後の行\n';
+            const workbook = await convert(markdown);
+            const worksheet = workbook.worksheets[0];
+            worksheet.getCell(findRowNumber(worksheet, '最後の行'), 1).value = '変更した最後の行';
+            worksheet.getCell(worksheet.rowCount + 1, 1).value = '追加した行';
+            // Excelで保存したブックと同じく、文字列の値のセルとして保存して読み込む
+            const saved = await loadWorkbook(await workbook.xlsx.writeBuffer() as unknown as Buffer);
+
+            const hunks = await diffWorkbook(markdown, saved);
+
+            expect(hunks.map(({ start, end, lines }) => ({ start, end, lines }))).toEqual([
+                { start: 2, end: 3, lines: ['変更した最後の行'] },
+                { start: 4, end: 4, lines: ['追加した行'] }
+            ]);
+            expect(mergeWorkbookEdits(markdown, markdown, hunks).content).toBe('本文\n\n変更した最後の行\n\n追加した行\n');
+        });
+
+        it('フロントマターとSetext形式の見出しの下線を含めた行の位置を求める', async () => {
+            const markdown = '---\ntitle: 文書\n---\n見出し\n===\n\n本文\n';
+            const workbook = await convert(markdown);
+            const worksheet = workbook.worksheets[0];
+            editCell(worksheet, findRowNumber(worksheet, '見出し'), [{ text: '新しい見出し' }]);
+
+            const hunks = await diffWorkbook(markdown, workbook);
+
+            expect(hunks).toEqual([expect.objectContaining({ start: 3, end: 5, lines: ['# 新しい見出し'] })]);
+            expect(mergeWorkbookEdits(markdown, markdown, hunks).content).toBe('---\ntitle: 文書\n---\n# 新しい見出し\n\n本文\n');
+        });
+
+        it('変換で出力していないシートは読み込まず、変換で出力されるシートがない場合はエラーを投げる', async () => {
+            const markdown = '# 見出し\n\n本文\n';
+            const workbook = await convert(markdown);
+            workbook.addWorksheet('Review notes').getCell(1, 1).value = { richText: [{ text: '指摘事項' }] };
+
+            expect(await diffWorkbook(markdown, workbook)).toEqual([]);
+
+            workbook.worksheets[0].name = '仕様';
+            await expect(diffWorkbook(markdown, workbook)).rejects.toThrow('シートが見つかりません: Markdown');
+        });
+    });
+
+    describe('mergeWorkbookEdits', () => {
+        const original = '一\n\n二\n\n三\n';
+        const hunks = [{ start: 4, end: 5, lines: ['三（Excel）'], changes: [] }];
+
+        it('Markdownの変更と重ならない編集は、Markdownの変更による行の位置のずれを反映して適用する', () => {
+            const result = mergeWorkbookEdits(original, '零\n\n一\n\n二\n\n三\n', hunks);
+
+            expect(result.content).toBe('零\n\n一\n\n二\n\n三（Excel）\n');
+            expect(result.applied).toEqual(hunks);
+            expect(result.conflicts).toEqual([]);
+        });
+
+        it('Markdownの変更と重なる編集は適用せず、競合として現在のMarkdownの行とともに返す', () => {
+            const current = '一\n\n二\n\n三（Markdown）\n';
+            const result = mergeWorkbookEdits(original, current, hunks);
+
+            expect(result.content).toBe(current);
+            expect(result.applied).toEqual([]);
+            expect(result.conflicts).toEqual([{ hunk: hunks[0], line: 5, currentLines: ['三（Markdown）'] }]);
+        });
+
+        it('Markdownにも同じ変更がされている編集は適用済みとする', () => {
+            const current = '一\n\n二\n\n三（Excel）\n';
+            const result = mergeWorkbookEdits(original, current, hunks);
+
+            expect(result.content).toBe(current);
+            expect(result.applied).toEqual(hunks);
+            expect(result.conflicts).toEqual([]);
+        });
+
+        it('Markdownの変更の位置への挿入は競合とする', () => {
+            const insertion = [{ start: 2, end: 2, lines: ['挿入'], changes: [] }];
+
+            expect(mergeWorkbookEdits(original, '一\n追加\n\n二\n\n三\n', insertion).conflicts).toHaveLength(0);
+            expect(mergeWorkbookEdits(original, '一\n\n追加\n二\n\n三\n', insertion).conflicts).toHaveLength(1);
+        });
+
+        it('現在のMarkdownの改行コードを保持する', () => {
+            expect(mergeWorkbookEdits(original, original.replace(/\n/g, '\r\n'), hunks).content).toBe('一\r\n\r\n二\r\n\r\n三（Excel）\r\n');
+        });
+
+        it('末尾の改行の後への挿入でも、ファイル末尾の改行を保持する', () => {
+            const insertion = [{ start: 6, end: 6, lines: ['四'], changes: [] }];
+
+            expect(mergeWorkbookEdits(original, original, insertion).content).toBe('一\n\n二\n\n三\n\n四\n');
+            expect(mergeWorkbookEdits(original, original.replace(/\n/g, '\r\n'), insertion).content).toBe('一\r\n\r\n二\r\n\r\n三\r\n\r\n四\r\n');
+            expect(mergeWorkbookEdits('一', '一', [{ start: 1, end: 1, lines: ['二'], changes: [] }]).content).toBe('一\n二');
+        });
+    });
+
+    describe('syncMarkdownFile', () => {
+        let testDir: string;
+
+        beforeEach(() => {
+            testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workbook-sync-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+        });
+
+        /**
+         * Markdownファイルと、本文を編集したExcelファイルを作成する
+         * @param markdown 変換するMarkdown
+         * @returns MarkdownファイルとExcelファイルのパス
+         */
+        const prepareFiles = async (markdown: string): Promise<{ markdownPath: string; workbookPath: string }> => {
+            const markdownPath = path.join(testDir, 'doc.md');
+            const workbookPath = path.join(testDir, 'doc.xlsx');
+            const workbook = await convert(markdown);
+            const worksheet = workbook.worksheets[0];
+            editCell(worksheet, findRowNumber(worksheet, '本文'), [{ text: 'レビュー後の本文' }]);
+
+            fs.writeFileSync(markdownPath, markdown, 'utf8');
+            await workbook.xlsx.writeFile(workbookPath);
+            return { markdownPath, workbookPath };
+        };
+
+        it('変換元のMarkdownに対するパッチを返し、apply 指定時は編集をMarkdownファイルに書き込む', async () => {
+            const { markdownPath, workbookPath } = await prepareFiles('# 見出し\n\n本文\n');
+
+            const preview = await syncMarkdownFile(markdownPath, workbookPath);
+            expect(preview.patch).toBe([
+                '--- a/doc.md',
+                '+++ b/doc.md',
+                '@@ -1,3 +1,3 @@',
+                ' # 見出し',
+                ' ',
+                '-本文',
+                '+レビュー後の本文',
+                ''
+            ].join('\n'));
+            expect(fs.readFileSync(markdownPath, 'utf8')).toBe('# 見出し\n\n本文\n');
+
+            const result = await syncMarkdownFile(markdownPath, workbookPath, { apply: true });
+            expect(result.merge.applied).toHaveLength(1);
+            expect(fs.readFileSync(markdownPath, 'utf8')).toBe('# 見出し\n\nレビュー後の本文\n');
+        });
+
+        it('変換した時点のMarkdownを指定した場合は、その後のMarkdownファイルの変更との競合を検出する', async () => {
+            const original = '# 見出し\n\n本文\n';
+            const { markdownPath, workbookPath } = await prepareFiles(original);
+            fs.writeFileSync(markdownPath, '# 見出し\n\n本文（Markdownで変更）\n', 'utf8');
+
+            const result = await syncMarkdownFile(markdownPath, workbookPath, { originalMarkdown: original, apply: true });
+
+            expect(result.merge.conflicts).toEqual([expect.objectContaining({ line: 3, currentLines: ['本文（Markdownで変更）'] })]);
+            expect(fs.readFileSync(markdownPath, 'utf8')).toBe('# 見出し\n\n本文（Markdownで変更）\n');
+        });
+
+        it('append で同じブックに追加したシートは、シート名を指定した場合のみ読み込む', async () => {
+            const markdown = '# 見出し\n\n本文\n';
+            const { markdownPath, workbookPath } = await prepareFiles(markdown);
+            const appendConfig = { ...defaultExcelConfig, outputMode: OutputMode.Append };
+            fs.writeFileSync(workbookPath, await writeExcel(parseMarkdown(markdown), appendConfig, workbookPath));
+
+            const workbook = new ExcelJS.Workbook();
+            await workbook.xlsx.readFile(workbookPath);
+            const appended = workbook.worksheets[1];
+            expect(appended.name).toBe('Markdown (1)');
+            editCell(appended, findRowNumber(appended, '本文'), [{ text: '追加したシートの本文' }]);
+            await workbook.xlsx.writeFile(workbookPath);
+
+            const initial = await syncMarkdownFile(markdownPath, workbookPath);
+            expect(initial.hunks.map(hunk => hunk.lines)).toEqual([['レビュー後の本文']]);
+
+            const latest = await syncMarkdownFile(markdownPath, workbookPath, { sheetNames: ['Markdown (1)'] });
+            expect(latest.hunks.map(hunk => hunk.lines)).toEqual([['追加したシートの本文']]);
+        });
+
+        it('存在しないファイルの場合はエラーを投げる', async () => {
+            const missingPath = path.join(testDir, 'missing.md');
+
+            await expect(syncMarkdownFile(missingPath, path.join(testDir, 'doc.xlsx'))).rejects.toThrow(`ファイルが見つかりません: ${missingPath}`);
+        });
+    });
+});
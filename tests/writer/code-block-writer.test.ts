@@ -0,0 +1,66 @@
+import * as ExcelJS from 'exceljs';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { SheetSplitMode } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * セルの塗りつぶし色を取得する
+ * @param cell 対象のセル
+ * @returns 塗りつぶし色（塗りつぶしがない場合はundefined）
+ */
+const fillColorOf = (cell: ExcelJS.Cell): string | undefined => {
+    return cell.fill?.type === 'pattern' ? cell.fill.fgColor?.argb : undefined;
+};
+
+describe('code-block-writer', () => {
+    const config = { ...defaultExcelConfig, codeBlockWidthCells: 10 };
+
+    it('フェンス行を出力せず、言語名の見出しとコードを枠内に出力する', async () => {
+        const markdown = ['前', '```typescript', 'const a = 1;', '    return a;', '```', '後'].join('\n');
+
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), config));
+        const worksheet = workbook.worksheets[0];
+
+        expect(worksheet.getCell(2, 1).text).toBe('typescript');
+        expect((worksheet.getCell(2, 1).value as ExcelJS.CellRichTextValue).richText[0].font?.italic).toBe(true);
+        expect(worksheet.getCell(3, 1).text).toBe('const a = 1;');
+        expect(worksheet.getCell(4, 2).text).toBe('return a;');
+        expect(worksheet.getCell(5, 1).text).toBe('後');
+    });
+
+    it('設定された幅の範囲を背景色で塗り、外周に枠線を引く', async () => {
+        const markdown = ['```', 'line1', 'line2', '```'].join('\n');
+
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), config));
+        const worksheet = workbook.worksheets[0];
+
+        expect(fillColorOf(worksheet.getCell(1, 1))).toBe(config.codeBackgroundColor);
+        expect(fillColorOf(worksheet.getCell(2, 10))).toBe(config.codeBackgroundColor);
+        expect(fillColorOf(worksheet.getCell(1, 11))).toBeUndefined();
+
+        expect(worksheet.getCell(1, 1).border).toEqual(expect.objectContaining({ top: expect.anything(), left: expect.anything() }));
+        expect(worksheet.getCell(1, 1).border?.bottom).toBeUndefined();
+        expect(worksheet.getCell(1, 5).border?.left).toBeUndefined();
+        expect(worksheet.getCell(2, 10).border).toEqual(expect.objectContaining({ bottom: expect.anything(), right: expect.anything() }));
+        expect(worksheet.getCell(2, 10).border?.top?.color?.argb).toBeUndefined();
+    });
+
+    it('空のコードブロックも1行の枠として出力する', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown('```\n```\n後'), config));
+        const worksheet = workbook.worksheets[0];
+
+        expect(fillColorOf(worksheet.getCell(1, 1))).toBe(config.codeBackgroundColor);
+        expect(worksheet.getCell(2, 1).text).toBe('後');
+    });
+
+    it('コードブロック内の区切りコメントではシートを分割しない', async () => {
+        const markdown = ['```html', '<!-- sheet: 例 -->', '```'].join('\n');
+
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), { ...config, sheetSplitMode: SheetSplitMode.Marker }));
+
+        expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Markdown']);
+        expect(workbook.worksheets[0].getCell(2, 1).text).toBe('<!-- sheet: 例 -->');
+    });
+});
@@ -0,0 +1,59 @@
+import * as ExcelJS from 'exceljs';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+const MARKDOWN_WITH_FRONT_MATTER = [
+    '---',
+    'title: API設計書',
+    'author: 山田 太郎',
+    'version: 3',
+    'date: 2024-04-01',
+    'tags: [API, 設計]',
+    '---',
+    '# 概要'
+].join('\n');
+
+describe('document-info-writer', () => {
+    it('フロントマターの項目をブックのプロパティに設定する', async () => {
+        const document = parseMarkdown(MARKDOWN_WITH_FRONT_MATTER);
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+
+        expect(workbook.title).toBe('API設計書');
+        expect(workbook.creator).toBe('山田 太郎');
+        expect(workbook.keywords).toBe('API, 設計');
+        expect(workbook.created.toISOString().slice(0, 10)).toBe('2024-04-01');
+        expect((workbook as ExcelJS.Workbook & { revision?: number }).revision).toBe(3);
+    });
+
+    it('既定では文書情報ブロックを出力せず、本文を1行目から出力する', async () => {
+        const document = parseMarkdown(MARKDOWN_WITH_FRONT_MATTER);
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+
+        expect(workbook.worksheets[0].getCell(1, 1).text).toBe('概要');
+    });
+
+    it('設定で有効にした場合は文書情報ブロックをシート先頭に出力する', async () => {
+        const document = parseMarkdown(MARKDOWN_WITH_FRONT_MATTER);
+        const config = { ...defaultExcelConfig, showDocumentInfo: true };
+
+        const worksheet = (await loadWorkbook(await writeExcel(document, config))).worksheets[0];
+
+        expect(worksheet.getCell(1, 1).text).toBe('API設計書');
+        expect(worksheet.getCell(1, 1).font?.size).toBe(config.headerFontSizes[1]);
+        expect([2, 3, 4, 5].map(row => [worksheet.getCell(row, 1).text, worksheet.getCell(row, 6).text])).toEqual([
+            ['作成者', '山田 太郎'],
+            ['版数', '3'],
+            ['日付', '2024-04-01'],
+            ['タグ', 'API, 設計']
+        ]);
+        expect(worksheet.getCell(2, 1).fill).toEqual(expect.objectContaining({ fgColor: { argb: config.tableHeaderBackgroundColor } }));
+
+        // 文書情報ブロックの後に1行空けて本文を出力する
+        expect(worksheet.getCell(6, 1).value).toBeNull();
+        expect(worksheet.getCell(7, 1).text).toBe('概要');
+    });
+});
@@ -1,8 +1,27 @@
 import { writeExcel } from '../../src/writer/excel-writer';
-import { Document, LineType } from '../../src/types';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { Document, DocumentLine, LineType, TableAlignment, TableRowRole } from '../../src/types';
 import { defaultExcelConfig } from '../../src/config';
+import { createMockDocument, createMockDocumentLine, loadWorkbook } from '../../src/test-utils/helpers';
 import * as ExcelJS from 'exceljs';
 
+/**
+ * テスト用の表の行を作成する
+ * @param role 表ブロック内での行の役割
+ * @param cellTexts セルの文字列
+ * @returns 表の構造情報を持つ行
+ */
+const createTableLine = (role: TableRowRole, cellTexts: string[]): DocumentLine => {
+    return {
+        ...createMockDocumentLine(cellTexts.join(' | '), 0, LineType.Table),
+        table: {
+            role,
+            cells: cellTexts.map(text => [{ text }]),
+            alignments: [TableAlignment.Left, TableAlignment.Center, TableAlignment.Right]
+        }
+    };
+};
+
 describe('ExcelWriter', () => {
     it('正常にExcelファイルを生成してBufferを返す', async () => {
         // テスト用ドキュメント作成
@@ -60,4 +79,50 @@ describe('ExcelWriter', () => {
         expect(cellValue.richText[1].text).toBe('太字テキスト');
         expect(cellValue.richText[1].font?.bold).toBe(true);
     });
+
+    it('表ブロックを結合セル・罫線・見出し網掛け・列揃え付きで配置する', async () => {
+        const document = createMockDocument([
+            createMockDocumentLine('前の段落'),
+            createTableLine(TableRowRole.Header, ['名前', '種別', '値']),
+            createTableLine(TableRowRole.Delimiter, []),
+            createTableLine(TableRowRole.Body, ['とても長いセルの内容です', 'b', '1']),
+            createMockDocumentLine('後の段落')
+        ]);
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        // 区切り行は出力されず、表の直後の行が詰めて配置される
+        expect(worksheet.getCell(2, 1).text).toBe('名前');
+        expect(worksheet.getCell(3, 1).text).toBe('とても長いセルの内容です');
+        expect(worksheet.getCell(4, 1).text).toBe('後の段落');
+
+        // 見出し行は網掛けと太字、列揃えは区切り行の指定に従う
+        const headerCell = worksheet.getCell(2, 1);
+        expect((headerCell.fill as ExcelJS.FillPattern).fgColor?.argb).toBe(defaultExcelConfig.tableHeaderBackgroundColor);
+        expect((headerCell.value as { richText: ExcelJS.RichText[] }).richText[0].font?.bold).toBe(true);
+        expect(headerCell.alignment.horizontal).toBe('left');
+
+        // 1列目は内容の表示幅に合わせて複数の方眼セルを結合する
+        const firstColumnEnd = worksheet.getCell(3, 1).master === worksheet.getCell(3, 9).master;
+        expect(firstColumnEnd).toBe(true);
+
+        // 2列目以降は1列目の結合範囲の直後から配置される
+        const secondColumnCell = worksheet.getCell(2, 10);
+        expect(secondColumnCell.text).toBe('種別');
+        expect(secondColumnCell.alignment.horizontal).toBe('center');
+        expect(secondColumnCell.border?.top?.style).toBe('thin');
+    });
+
+    it('Setext形式の見出しの下線の行は出力せず、後続の行を詰めて配置する', async () => {
+        const document = parseMarkdown('タイトル\n========\n本文');
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        const titleCell = worksheet.getCell(1, 1);
+        expect(titleCell.text).toBe('タイトル');
+        expect((titleCell.value as { richText: ExcelJS.RichText[] }).richText[0].font?.size).toBe(defaultExcelConfig.headerFontSizes[1]);
+        expect(worksheet.getCell(2, 1).text).toBe('本文');
+    });
 });
@@ -0,0 +1,79 @@
+import * as ExcelJS from 'exceljs';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { FootnoteMode } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * 指定列に値のある行の番号とテキストを取得する
+ * @param worksheet 対象のワークシート
+ * @param column 列番号
+ * @returns 行番号とテキストの配列
+ */
+const readColumn = (worksheet: ExcelJS.Worksheet, column: number): Array<[number, string]> => {
+    const values: Array<[number, string]> = [];
+    worksheet.eachRow((row, rowNumber) => {
+        const text = row.getCell(column).text;
+        if (text) {
+            values.push([rowNumber, text]);
+        }
+    });
+    return values;
+};
+
+const markdown = [
+    '本文[^1]と[参照リンク][ref]',
+    '| 項目 |',
+    '| --- |',
+    '| 表の中[^2] |',
+    '',
+    '[ref]: https://ref.example',
+    '[^1]: 一つ目の脚注',
+    '[^2]: [脚注内のリンク](https://note.example)'
+].join('\n');
+
+describe('footnote-writer', () => {
+    it('定義の行を出力せず、脚注セクションとリンク一覧を本文の後に出力する', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(readColumn(worksheet, 1)).toEqual([
+            [1, '本文※1と参照リンク [1]'],
+            [2, '項目'],
+            [3, '表の中※2'],
+            [7, '脚注'],
+            [8, '※1'],
+            [9, '※2'],
+            [12, 'リンク'],
+            [13, '[1] https://ref.example'],
+            [14, '[2] https://note.example']
+        ]);
+        expect(worksheet.getCell(8, 3).text).toBe('一つ目の脚注');
+        expect(worksheet.getCell(9, 3).text).toBe('脚注内のリンク [2]');
+    });
+
+    it('脚注セクションの番号から参照元の行へ戻るリンクを設定する', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(worksheet.getCell(8, 1).hyperlink).toBe(`#'${worksheet.name}'!A1`);
+        expect(worksheet.getCell(9, 1).hyperlink).toBe(`#'${worksheet.name}'!A3`);
+    });
+
+    it('コメントの設定では参照しているセルに脚注の本文を付与し、脚注セクションを出力しない', async () => {
+        const config = { ...defaultExcelConfig, footnoteMode: FootnoteMode.Comment };
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), config));
+        const worksheet = workbook.worksheets[0];
+
+        const noteText = (row: number): string => {
+            const note = worksheet.getCell(row, 1).note;
+            return typeof note === 'string' ? note : (note?.texts ?? []).map(text => text.text).join('');
+        };
+
+        expect(noteText(1)).toBe('※1 一つ目の脚注');
+        expect(noteText(3)).toBe('※2 脚注内のリンク');
+        expect(readColumn(worksheet, 1).map(([, text]) => text)).not.toContain('脚注');
+        expect(readColumn(worksheet, 1).map(([, text]) => text)).not.toContain('[2] https://note.example');
+    });
+});
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readImageInfo } from '../../src/writer/image-writer';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { createMockDocument, createMockDocumentLine, loadWorkbook } from '../../src/test-utils/helpers';
+import { DocumentLine } from '../../src/types';
+
+/**
+ * 寸法情報のみを持つPNGヘッダーを作成する
+ * @param width 幅（ピクセル）
+ * @param height 高さ（ピクセル）
+ * @returns PNGのシグネチャとIHDRチャンクを含むBuffer
+ */
+const createPngHeader = (width: number, height: number): Buffer => {
+    const buffer = Buffer.alloc(33);
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]).copy(buffer, 0);
+    buffer.writeUInt32BE(13, 8);
+    buffer.write('IHDR', 12, 'ascii');
+    buffer.writeUInt32BE(width, 16);
+    buffer.writeUInt32BE(height, 20);
+    return buffer;
+};
+
+/**
+ * 画像セグメントを含む行を作成する
+ * @param src 画像の参照パス
+ * @param alt 代替テキスト
+ * @returns 画像を含む行
+ */
+const createImageLine = (src: string, alt: string): DocumentLine => {
+    return {
+        ...createMockDocumentLine(alt),
+        richText: [{ text: alt, font: { color: { argb: defaultExcelConfig.imageAltColor } }, image: { src, alt } }]
+    };
+};
+
+describe('image-writer', () => {
+    describe('readImageInfo', () => {
+        it('PNGの寸法を読み取る', () => {
+            expect(readImageInfo(createPngHeader(640, 480))).toEqual({ extension: 'png', width: 640, height: 480 });
+        });
+
+        it('GIFの寸法を読み取る', () => {
+            const gif = Buffer.alloc(13);
+            gif.write('GIF89a', 0, 'ascii');
+            gif.writeUInt16LE(32, 6);
+            gif.writeUInt16LE(16, 8);
+            expect(readImageInfo(gif)).toEqual({ extension: 'gif', width: 32, height: 16 });
+        });
+
+        it('JPEGのSOFセグメントから寸法を読み取る', () => {
+            const jpeg = Buffer.from([
+                0xFF, 0xD8,
+                0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00, // APP0（長さ4）
+                0xFF, 0xC0, 0x00, 0x0B, 0x08, 0x00, 0x78, 0x00, 0xA0, 0x01, 0x01, 0x11, 0x00 // SOF0 高さ120 幅160
+            ]);
+            expect(readImageInfo(jpeg)).toEqual({ extension: 'jpeg', width: 160, height: 120 });
+        });
+
+        it('未対応の形式はnullを返す', () => {
+            expect(readImageInfo(Buffer.from('<svg></svg>'))).toBeNull();
+        });
+    });
+
+    describe('writeExcel での画像埋め込み', () => {
+        let testDir: string;
+
+        beforeEach(() => {
+            testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-writer-'));
+            jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            fs.rmSync(testDir, { recursive: true, force: true });
+            jest.restoreAllMocks();
+        });
+
+        it('Markdownファイルからの相対パスで画像を埋め込み、画像の高さ分の行を確保する', async () => {
+            fs.mkdirSync(path.join(testDir, 'images'));
+            fs.writeFileSync(path.join(testDir, 'images', 'diagram.png'), createPngHeader(100, 80));
+
+            const document = createMockDocument([
+                createImageLine('images/diagram.png', '構成図'),
+                createMockDocumentLine('画像の後の段落')
+            ]);
+            document.metadata.filePath = path.join(testDir, 'spec.md');
+
+            const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+            const worksheet = workbook.worksheets[0];
+
+            const images = worksheet.getImages();
+            expect(images).toHaveLength(1);
+            expect(images[0].range.tl.nativeRow).toBe(0);
+            expect(images[0].range.tl.nativeCol).toBe(0);
+
+            // 80px = 60pt のため、行高さ20ptの行を3行確保し、後続の段落は4行目に配置される
+            expect(worksheet.getCell(1, 1).value).toBeNull();
+            expect(worksheet.getCell(4, 1).text).toBe('画像の後の段落');
+        });
+
+        it('文字列から解析したドキュメントは指定した基準ディレクトリから画像を解決する', async () => {
+            fs.writeFileSync(path.join(testDir, 'logo.png'), createPngHeader(40, 20));
+
+            const document = parseMarkdown('![ロゴ](logo.png)', { baseDirectory: testDir });
+
+            const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+
+            expect(workbook.worksheets[0].getImages()).toHaveLength(1);
+            expect(console.warn).not.toHaveBeenCalled();
+        });
+
+        it('最大幅を超える画像は縦横比を保って縮小される', async () => {
+            fs.writeFileSync(path.join(testDir, 'wide.png'), createPngHeader(2000, 1000));
+
+            const document = createMockDocument([createImageLine('wide.png', '横長画像')]);
+            document.metadata.filePath = path.join(testDir, 'spec.md');
+            const config = { ...defaultExcelConfig, imageMaxWidthCells: 10 };
+
+            const workbook = await loadWorkbook(await writeExcel(document, config));
+            const image = workbook.worksheets[0].getImages()[0];
+
+            // 列幅3.0 → 26px × 10列 = 260px、高さは縦横比を保って130px
+            // 読み込み後の範囲には型定義にない ext（配置サイズ）が含まれるためキャストして確認する
+            const range = image.range as unknown as { ext: { width: number; height: number } };
+            expect(range.ext).toEqual({ width: 260, height: 130 });
+        });
+
+        it('画像で始まる引用も画像を埋め込み、「引用：」を画像の上の行に出力する', async () => {
+            fs.writeFileSync(path.join(testDir, 'logo.png'), createPngHeader(40, 20));
+
+            const document = parseMarkdown('> ![ロゴ](logo.png)', { baseDirectory: testDir });
+
+            const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+            const worksheet = workbook.worksheets[0];
+
+            expect(worksheet.getImages()).toHaveLength(1);
+            expect(worksheet.getImages()[0].range.tl.nativeRow).toBe(1);
+            expect(worksheet.getCell(1, 1).text).toBe('引用：');
+        });
+
+        it('存在しない画像とリモート画像は警告を出して代替テキストで出力する', async () => {
+            const document = createMockDocument([
+                createImageLine('missing.png', '存在しない画像'),
+                createImageLine('https://example.com/logo.png', 'リモート画像')
+            ]);
+            document.metadata.filePath = path.join(testDir, 'spec.md');
+
+            const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+            const worksheet = workbook.worksheets[0];
+
+            expect(worksheet.getImages()).toHaveLength(0);
+            expect(worksheet.getCell(1, 1).text).toBe('存在しない画像');
+            expect(worksheet.getCell(2, 1).text).toBe('リモート画像');
+            expect(console.warn).toHaveBeenCalledTimes(2);
+        });
+    });
+});
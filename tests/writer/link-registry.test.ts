@@ -0,0 +1,86 @@
+import * as ExcelJS from 'exceljs';
+import * as fc from 'fast-check';
+import { createLinkRegistry } from '../../src/writer/link-registry';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * 巻末のリンク一覧を読み取る
+ * @param worksheet 対象のワークシート
+ * @returns 番号とリンク先の対応
+ */
+const readAppendix = (worksheet: ExcelJS.Worksheet): Map<number, string> => {
+    const entries = new Map<number, string>();
+    worksheet.eachRow(row => {
+        const match = row.getCell(1).text.match(/^\[(\d+)\] (.+)$/);
+        if (match) {
+            entries.set(Number(match[1]), match[2]);
+        }
+    });
+    return entries;
+};
+
+describe('link-registry', () => {
+    it('文書全体のリンク先に出現順の番号を割り当てる', () => {
+        const document = parseMarkdown([
+            '[A](https://a.example) と [B](https://b.example)',
+            '[B again](https://b.example) と [C](https://c.example)'
+        ].join('\n'));
+
+        expect(Array.from(createLinkRegistry(document.lines))).toEqual([
+            ['https://a.example', 1],
+            ['https://b.example', 2],
+            ['https://c.example', 3]
+        ]);
+    });
+
+    it('2行目以降のリンクにも巻末のリンク一覧と同じ番号を付与する', async () => {
+        const document = parseMarkdown([
+            '[A](https://a.example)',
+            '[C](https://c.example) と [A](https://a.example)',
+            '| 表 |',
+            '| --- |',
+            '| [B](https://b.example) |'
+        ].join('\n'));
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(worksheet.getCell(2, 1).text).toBe('C [2] と A [1]');
+        expect(worksheet.getCell(4, 1).text).toBe('B [3]');
+        expect(Array.from(readAppendix(worksheet))).toEqual([
+            [1, 'https://a.example'],
+            [2, 'https://c.example'],
+            [3, 'https://b.example']
+        ]);
+    });
+
+    it('任意の文書で本文の [n] は巻末のリンク一覧のn番目のリンク先を指す', async () => {
+        const urls = ['https://a.example', 'https://b.example/x', 'https://c.example/y?z=1', 'https://d.example'];
+
+        await fc.assert(fc.asyncProperty(
+            fc.array(fc.array(fc.integer({ min: 0, max: urls.length - 1 }), { maxLength: 3 }), { minLength: 1, maxLength: 6 }),
+            async (lines) => {
+                // リンクテキストは行・列ごとに一意にし、セルの文字列からリンク先を特定できるようにする
+                const markdown = lines
+                    .map((targets, row) => targets.map((target, column) => `[L${row}x${column}](${urls[target]})`).join(' ') || '本文')
+                    .join('\n');
+
+                const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), defaultExcelConfig));
+                const worksheet = workbook.worksheets[0];
+                const appendix = readAppendix(worksheet);
+
+                lines.forEach((targets, row) => {
+                    const cellText = worksheet.getCell(row + 1, 1).text;
+                    targets.forEach((target, column) => {
+                        const match = cellText.match(new RegExp(`L${row}x${column} \\[(\\d+)\\]`));
+                        expect(match).not.toBeNull();
+                        expect(appendix.get(Number(match?.[1]))).toBe(urls[target]);
+                    });
+                });
+            }
+        ), { numRuns: 30 });
+    }, 60000);
+});
@@ -0,0 +1,96 @@
+import { writeExcel } from '../../src/writer/excel-writer';
+import { calculateOutlineLevels } from '../../src/writer/outline';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+const MARKDOWN = [
+    '# 第1章',
+    '本文',
+    '## 1.1 概要',
+    '- 項目',
+    '    - 子項目',
+    '#### 補足',
+    '補足の本文',
+    '# 第2章',
+    '本文'
+].join('\n');
+
+describe('outline', () => {
+    describe('calculateOutlineLevels', () => {
+        it('見出しの行は上位の見出しの数、本文の行は所属する見出しの数をレベルとする', () => {
+            const lines = parseMarkdown(MARKDOWN).lines;
+            const levels = calculateOutlineLevels(lines, { ...defaultExcelConfig, groupSectionsByHeading: true });
+
+            expect(lines.map(line => levels.get(line))).toEqual([0, 1, 1, 2, 2, 2, 3, 0, 1]);
+        });
+
+        it('入れ子のリスト項目のみをグループ化できる', () => {
+            const lines = parseMarkdown(MARKDOWN).lines;
+            const levels = calculateOutlineLevels(lines, { ...defaultExcelConfig, groupNestedListItems: true });
+
+            expect(lines.map(line => levels.get(line))).toEqual([0, 0, 0, 0, 1, 0, 0, 0, 0]);
+        });
+
+        it('リスト項目の続きの行は、同じ以下の深さの次の項目まで所属する項目と同じレベルにする', () => {
+            const markdown = ['- a', '    - b', '', '      cont of b', '- c', '  cont of c', '', '段落'].join('\n');
+            const lines = parseMarkdown(markdown).lines;
+            const levels = calculateOutlineLevels(lines, { ...defaultExcelConfig, groupNestedListItems: true });
+
+            expect(lines.map(line => levels.get(line))).toEqual([0, 1, 1, 1, 0, 0, 0, 0]);
+        });
+
+        it('見出しとリストの両方をグループ化する場合はレベルを加算する', () => {
+            const lines = parseMarkdown(MARKDOWN).lines;
+            const levels = calculateOutlineLevels(lines, {
+                ...defaultExcelConfig,
+                groupSectionsByHeading: true,
+                groupNestedListItems: true
+            });
+
+            expect(levels.get(lines[4])).toBe(3);
+        });
+
+        it('Excelの上限である7を超えるレベルは7にそろえる', () => {
+            const markdown = ['# 1', '## 2', '### 3', '#### 4', '##### 5', '###### 6', '- a', '    - b', '        - c'].join('\n');
+            const lines = parseMarkdown(markdown).lines;
+            const levels = calculateOutlineLevels(lines, {
+                ...defaultExcelConfig,
+                groupSectionsByHeading: true,
+                groupNestedListItems: true
+            });
+
+            expect(levels.get(lines[8])).toBe(7);
+        });
+
+        it('既定ではグループ化しない', () => {
+            const lines = parseMarkdown(MARKDOWN).lines;
+            const levels = calculateOutlineLevels(lines, defaultExcelConfig);
+
+            expect(lines.every(line => levels.get(line) === 0)).toBe(true);
+        });
+    });
+
+    describe('writeExcel', () => {
+        it('行にアウトラインレベルを設定し、集計行を上に表示する', async () => {
+            const config = { ...defaultExcelConfig, groupSectionsByHeading: true };
+
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown(MARKDOWN), config));
+            const worksheet = workbook.worksheets[0];
+
+            expect([1, 2, 3, 4, 5, 6, 7, 8, 9].map(row => worksheet.getRow(row).outlineLevel))
+                .toEqual([0, 1, 1, 2, 2, 2, 3, 0, 1]);
+            expect(worksheet.properties.outlineProperties).toEqual({ summaryBelow: false, summaryRight: false });
+        });
+
+        it('表の行はすべて所属する見出しのレベルになる', async () => {
+            const markdown = ['# 見出し', '| A | B |', '| --- | --- |', '| 1 | 2 |'].join('\n');
+            const config = { ...defaultExcelConfig, groupSectionsByHeading: true };
+
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), config));
+            const worksheet = workbook.worksheets[0];
+
+            expect([1, 2, 3].map(row => worksheet.getRow(row).outlineLevel)).toEqual([0, 1, 1]);
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import * as ExcelJS from 'exceljs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createWorksheetAdder, loadOutputWorkbook } from '../../src/writer/output-workbook';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { OutputMode } from '../../src/types';
+
+describe('output-workbook', () => {
+    let testDir: string;
+    let outputPath: string;
+
+    beforeEach(async () => {
+        testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'output-workbook-'));
+        outputPath = path.join(testDir, 'out.xlsx');
+
+        // 利用者が追加したシートの間に、以前の変換で出力したシートがあるブック
+        const workbook = new ExcelJS.Workbook();
+        workbook.addWorksheet('表紙').getCell(1, 1).value = '表紙';
+        workbook.addWorksheet('Markdown').getCell(1, 1).value = '以前の変換結果';
+        workbook.addWorksheet('改訂履歴').getCell(1, 1).value = '改訂履歴';
+        await workbook.xlsx.writeFile(outputPath);
+    });
+
+    afterEach(() => {
+        fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    /**
+     * Markdownを指定した出力方法で既存のファイルに変換し、出力したブックを読み込む
+     * @param markdown Markdownテキスト
+     * @param outputMode 出力方法
+     * @returns 出力したブック
+     */
+    const convertInto = async (markdown: string, outputMode: OutputMode): Promise<ExcelJS.Workbook> => {
+        const buffer = await writeExcel(parseMarkdown(markdown), { ...defaultExcelConfig, outputMode }, outputPath);
+        fs.writeFileSync(outputPath, buffer);
+
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.readFile(outputPath);
+        return workbook;
+    };
+
+    describe('loadOutputWorkbook', () => {
+        it('new の場合と出力先が存在しない場合は新しいブックを返す', async () => {
+            expect((await loadOutputWorkbook(outputPath, OutputMode.New)).worksheets).toHaveLength(0);
+            expect((await loadOutputWorkbook(path.join(testDir, 'missing.xlsx'), OutputMode.Replace)).worksheets).toHaveLength(0);
+            expect((await loadOutputWorkbook(undefined, OutputMode.Append)).worksheets).toHaveLength(0);
+        });
+
+        it('replace / append の場合は既存のファイルを読み込む', async () => {
+            const workbook = await loadOutputWorkbook(outputPath, OutputMode.Replace);
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['表紙', 'Markdown', '改訂履歴']);
+        });
+    });
+
+    describe('createWorksheetAdder', () => {
+        it('replace の場合は同じ名前のシートを置き換え、この変換で追加したシートと重複する場合のみ連番を付与する', () => {
+            const workbook = new ExcelJS.Workbook();
+            workbook.addWorksheet('概要');
+            workbook.addWorksheet('概要 (1)');
+            const addWorksheet = createWorksheetAdder(workbook, OutputMode.Replace);
+
+            const names = [addWorksheet('概要').name, addWorksheet('概要').name, addWorksheet('詳細').name];
+
+            expect(names).toEqual(['概要', '概要 (1)', '詳細']);
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['概要', '概要 (1)', '詳細']);
+        });
+
+        it('append の場合は既存のシートと重複しない名前で追加する', () => {
+            const workbook = new ExcelJS.Workbook();
+            workbook.addWorksheet('概要');
+
+            expect(createWorksheetAdder(workbook, OutputMode.Append)('概要').name).toBe('概要 (1)');
+        });
+    });
+
+    describe('writeExcel の出力方法', () => {
+        it('replace は同じ名前のシートを同じ位置で置き換え、他のシートは残す', async () => {
+            await convertInto('# 一回目', OutputMode.Replace);
+            const workbook = await convertInto('# 二回目', OutputMode.Replace);
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['表紙', 'Markdown', '改訂履歴']);
+            expect(workbook.getWorksheet('Markdown')?.getCell(1, 1).text).toBe('二回目');
+            expect(workbook.getWorksheet('改訂履歴')?.getCell(1, 1).text).toBe('改訂履歴');
+        });
+
+        it('append は連番を付与したシートを末尾に追加する', async () => {
+            const workbook = await convertInto('# 追加', OutputMode.Append);
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['表紙', 'Markdown', '改訂履歴', 'Markdown (1)']);
+            expect(workbook.getWorksheet('Markdown (1)')?.getCell(1, 1).text).toBe('追加');
+        });
+
+        it('new は既存のシートを残さず、新しいブックとして出力する', async () => {
+            const workbook = await convertInto('# 新規', OutputMode.New);
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Markdown']);
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import * as ExcelJS from 'exceljs';
+import { applyQuoteBorders } from '../../src/writer/quote-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { defaultExcelConfig } from '../../src/config';
+import { AlertType } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+describe('quote-writer', () => {
+    it('入れ子の引用は外側の引用の罫線も引き、罫線から内容の手前までを背景色で埋める', () => {
+        const worksheet = new ExcelJS.Workbook().addWorksheet('テスト');
+        const config = { ...defaultExcelConfig, indentColumnOffset: 2 };
+        const [, nestedLine] = parseMarkdown('> 外側\n>> 内側').lines;
+
+        applyQuoteBorders(worksheet, nestedLine, 3, 2, config);
+
+        [3, 4].forEach(row => {
+            expect(worksheet.getCell(row, 1).border.left?.color?.argb).toBe(config.quoteBorderColor);
+            expect(worksheet.getCell(row, 3).border.left?.style).toBe('thick');
+            expect((worksheet.getCell(row, 2).fill as ExcelJS.FillPattern).fgColor?.argb).toBe(config.quoteBackgroundColor);
+            expect(worksheet.getCell(row, 2).border?.left).toBeUndefined();
+        });
+        expect(worksheet.getCell(5, 1).border?.left).toBeUndefined();
+    });
+
+    it('引用の中のコードブロックの行にも引用の罫線を引く', async () => {
+        const document = parseMarkdown('> 説明\n> ```\n> code\n> ```');
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(worksheet.getCell(1, 1).text).toBe('引用：説明');
+        expect(worksheet.getCell(2, 1).text).toBe('code');
+        [1, 2].forEach(row => {
+            expect(worksheet.getCell(row, 1).border.left?.style).toBe('thick');
+        });
+    });
+
+    it('コードブロック・表で始まる引用は、ブロックの前の行に「引用：」を表示する', async () => {
+        const document = parseMarkdown('> ```ts\n> code\n> ```\n\n> | 列 |\n> | --- |\n> | 値 |');
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect([1, 2, 3].map(row => worksheet.getCell(row, 1).text)).toEqual(['引用：', 'ts', 'code']);
+        expect([5, 6, 7].map(row => worksheet.getCell(row, 1).text)).toEqual(['引用：', '列', '値']);
+        [1, 2, 3, 5, 6, 7].forEach(row => {
+            expect(worksheet.getCell(row, 1).border.left?.style).toBe('thick');
+        });
+    });
+
+    it('リンクで始まる引用もリンクに番号を付与して巻末のリンク一覧に出力する', async () => {
+        const document = parseMarkdown('> [spec](https://a.com) says so');
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(worksheet.getCell(1, 1).text).toBe('引用：spec [1] says so');
+        expect(worksheet.getCell(4, 1).text).toBe('リンク');
+        expect(worksheet.getCell(5, 1).text).toBe('[1] https://a.com');
+    });
+
+    it('アラートは種類ごとの罫線の色で表示し、コンテナの終了の行を出力しない', async () => {
+        const style = defaultExcelConfig.alertStyles[AlertType.Caution];
+        const document = parseMarkdown(':::caution\n削除は元に戻せません\n:::\n後の段落');
+
+        const workbook = await loadWorkbook(await writeExcel(document, defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect([1, 2, 3].map(row => worksheet.getCell(row, 1).text)).toEqual([style.label, '削除は元に戻せません', '後の段落']);
+        [1, 2].forEach(row => {
+            expect(worksheet.getCell(row, 1).border.left?.color?.argb).toBe(style.borderColor);
+        });
+        expect(worksheet.getCell(3, 1).border?.left).toBeUndefined();
+    });
+});
@@ -0,0 +1,115 @@
+import * as ExcelJS from 'exceljs';
+import { convertToExcelRichText, createCellValue, RichTextCellValue, RichTextHyperlinkValue } from '../../src/writer/rich-text';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { LinkMode, RichTextSegment } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * リンクのセグメントを作成する
+ * @param text リンクテキスト
+ * @param target リンク先
+ * @returns リンクのセグメント
+ */
+const link = (text: string, target: string): RichTextSegment => ({ text, link: { target } });
+
+/**
+ * テスト用のリンク先と番号の対応
+ */
+const registry = new Map([['https://a.example', 1], ['https://b.example', 2]]);
+
+/**
+ * セルの値からリッチテキストの文字列を連結して取得する
+ * @param value セルの値
+ * @returns 表示される文字列
+ */
+const richTextOf = (value: RichTextCellValue | ExcelJS.CellValue): string => {
+    const container = (value && typeof value === 'object' && 'hyperlink' in value ? value.text : value) as ExcelJS.CellRichTextValue;
+    return container.richText.map(part => part.text).join('');
+};
+
+describe('rich-text', () => {
+    describe('convertToExcelRichText', () => {
+        it('リンクに文書全体で割り当てた番号を付与する', () => {
+            const segments = [link('仕様', 'https://b.example'), { text: ' と ' }, link('公式', 'https://a.example')];
+            const richText = convertToExcelRichText(segments, { linkRegistry: registry });
+
+            expect(richText.map(part => part.text).join('')).toBe('仕様 [2] と 公式 [1]');
+        });
+
+        it('番号の対応を指定しない場合はリンクテキストのみを出力する', () => {
+            const richText = convertToExcelRichText([link('公式', 'https://a.example')]);
+
+            expect(richText.map(part => part.text).join('')).toBe('公式');
+        });
+    });
+
+    describe('createCellValue', () => {
+        const cellConfig = { ...defaultExcelConfig, linkMode: LinkMode.Cell };
+
+        it('既定では番号付きのリッチテキストとする', () => {
+            const value = createCellValue([link('公式', 'https://a.example')], defaultExcelConfig, registry);
+
+            expect(value).not.toHaveProperty('hyperlink');
+            expect(richTextOf(value)).toBe('公式 [1]');
+        });
+
+        it('リンクが1つの行はセル自体のハイパーリンクとし、番号を付与しない', () => {
+            const value = createCellValue([{ text: '詳細は' }, link('公式', 'https://a.example')], cellConfig, registry);
+
+            expect(value).toHaveProperty('hyperlink', 'https://a.example');
+            expect(richTextOf(value)).toBe('詳細は公式');
+        });
+
+        it('リンクが複数の行は最初のリンクをセルのハイパーリンクとし、残りに番号を付与する', () => {
+            const value = createCellValue([link('公式', 'https://a.example'), { text: '・' }, link('仕様', 'https://b.example')], cellConfig, registry);
+
+            expect(value).toHaveProperty('hyperlink', 'https://a.example');
+            expect(richTextOf(value)).toBe('公式・仕様 [2]');
+        });
+
+        it('リンクがない行はハイパーリンクを設定しない', () => {
+            expect(createCellValue([{ text: '本文' }], cellConfig, registry)).toEqual({ richText: [{ text: '本文' }] });
+        });
+    });
+
+    describe('writeExcel', () => {
+        it('セルのハイパーリンクとして出力し、書式を保持する', async () => {
+            const config = { ...defaultExcelConfig, linkMode: LinkMode.Cell };
+
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown('[**公式**](https://a.example)'), config));
+            const cell = workbook.worksheets[0].getCell(1, 1);
+
+            expect(cell.hyperlink).toBe('https://a.example');
+            const richText = (cell.value as unknown as RichTextHyperlinkValue).text.richText;
+            expect(richText[0].font?.bold).toBe(true);
+        });
+
+        it('リンク一覧を出力しない設定では巻末のリンク一覧と番号を出力しない', async () => {
+            const config = { ...defaultExcelConfig, linkAppendix: false };
+
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown('[公式](https://a.example)'), config));
+            const worksheet = workbook.worksheets[0];
+
+            expect(richTextOf(worksheet.getCell(1, 1).value)).toBe('公式');
+            expect(worksheet.rowCount).toBe(1);
+        });
+
+        it('セルのハイパーリンクでリンク一覧を出力しない設定でも、行の2つ目以降のリンクには番号を付与して巻末に出力する', async () => {
+            const config = { ...defaultExcelConfig, linkMode: LinkMode.Cell, linkAppendix: false };
+            const markdown = '[公式](https://a.example) と [仕様](https://b.example)\n[仕様](https://b.example)';
+
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), config));
+            const worksheet = workbook.worksheets[0];
+
+            expect(worksheet.getCell(1, 1).hyperlink).toBe('https://a.example');
+            expect(richTextOf(worksheet.getCell(1, 1).value)).toBe('公式 と 仕様 [1]');
+            expect(worksheet.getCell(2, 1).hyperlink).toBe('https://b.example');
+            expect(richTextOf(worksheet.getCell(2, 1).value)).toBe('仕様');
+            expect(worksheet.getCell(5, 1).text).toBe('リンク');
+            expect(worksheet.getCell(6, 1).text).toBe('[1] https://b.example');
+            expect(worksheet.rowCount).toBe(6);
+        });
+    });
+});
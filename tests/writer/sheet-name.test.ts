@@ -0,0 +1,63 @@
+import * as ExcelJS from 'exceljs';
+import { getUniqueSheetName, getUniqueSheetNameAmong, sanitizeSheetName } from '../../src/writer/sheet-name';
+
+describe('sheet-name', () => {
+    describe('sanitizeSheetName', () => {
+        it('シート名に使用できない文字を「_」に置き換える', () => {
+            expect(sanitizeSheetName('入力/出力 [v1]: 概要?*\\', 'Markdown')).toBe('入力_出力 _v1__ 概要___');
+        });
+
+        it('31文字を超える名前を切り詰める', () => {
+            const name = sanitizeSheetName('あ'.repeat(40), 'Markdown');
+
+            expect(name).toBe('あ'.repeat(31));
+        });
+
+        it('サロゲートペアの途中では切り詰めない', () => {
+            const name = sanitizeSheetName(`${'a'.repeat(30)}😀`, 'Markdown');
+
+            expect(name).toBe('a'.repeat(30));
+        });
+
+        it('先頭・末尾のシングルクォートを除去する', () => {
+            expect(sanitizeSheetName("'Bob's'", 'Markdown')).toBe("Bob's");
+        });
+
+        it('空になる場合は代わりの名前を使用する', () => {
+            expect(sanitizeSheetName('  ', 'Markdown')).toBe('Markdown');
+            expect(sanitizeSheetName("''", '')).toBe('Sheet');
+        });
+
+        it('予約されたシート名（History）を避ける', () => {
+            expect(sanitizeSheetName('History', 'Markdown')).toBe('History_');
+        });
+    });
+
+    describe('getUniqueSheetName', () => {
+        it('大文字・小文字を区別せずに重複を判定し、連番を付与する', () => {
+            const workbook = new ExcelJS.Workbook();
+            workbook.addWorksheet('Overview');
+            workbook.addWorksheet('overview (1)');
+
+            expect(getUniqueSheetName(workbook, 'OVERVIEW')).toBe('OVERVIEW (2)');
+        });
+
+        it('連番を付与しても31文字に収まるよう名前部分を切り詰める', () => {
+            const workbook = new ExcelJS.Workbook();
+            const longName = 'x'.repeat(31);
+            workbook.addWorksheet(longName);
+
+            const uniqueName = getUniqueSheetName(workbook, longName);
+
+            expect(uniqueName).toBe(`${'x'.repeat(27)} (1)`);
+            expect(() => workbook.addWorksheet(uniqueName)).not.toThrow();
+        });
+    });
+
+    describe('getUniqueSheetNameAmong', () => {
+        it('指定したシート名の一覧のみと重複を判定する', () => {
+            expect(getUniqueSheetNameAmong([], 'Markdown')).toBe('Markdown');
+            expect(getUniqueSheetNameAmong(['markdown', 'Markdown (1)'], 'Markdown')).toBe('Markdown (2)');
+        });
+    });
+});
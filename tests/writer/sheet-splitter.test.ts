@@ -0,0 +1,114 @@
+import { writeExcel } from '../../src/writer/excel-writer';
+import { resolveSheetSplitMode, splitIntoSections } from '../../src/writer/sheet-splitter';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { SheetSplitMode } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+const MARKDOWN = [
+    '# 概要',
+    '本文1',
+    '## 背景',
+    '本文2',
+    '# 画面仕様',
+    '本文3'
+].join('\n');
+
+describe('sheet-splitter', () => {
+    describe('splitIntoSections', () => {
+        it('H1モードではH1見出しごとに分割し、見出しの行を各範囲の先頭に含める', () => {
+            const sections = splitIntoSections(parseMarkdown(MARKDOWN).lines, SheetSplitMode.Heading1);
+
+            expect(sections.map(section => section.title)).toEqual(['概要', '画面仕様']);
+            expect(sections[0].lines.map(line => line.plainText)).toEqual(['概要', '本文1', '背景', '本文2']);
+        });
+
+        it('H2モードではH1・H2見出しごとに分割する', () => {
+            const sections = splitIntoSections(parseMarkdown(MARKDOWN).lines, SheetSplitMode.Heading2);
+
+            expect(sections.map(section => section.title)).toEqual(['概要', '背景', '画面仕様']);
+        });
+
+        it('最初の見出しより前の内容は名前のない先頭の範囲とする', () => {
+            const sections = splitIntoSections(parseMarkdown(`前書き\n${MARKDOWN}`).lines, SheetSplitMode.Heading1);
+
+            expect(sections.map(section => section.title)).toEqual([null, '概要', '画面仕様']);
+        });
+
+        it('最初の見出しより前が空行のみの場合は先頭の範囲を作らない', () => {
+            const sections = splitIntoSections(parseMarkdown(`\n\n${MARKDOWN}`).lines, SheetSplitMode.Heading1);
+
+            expect(sections.map(section => section.title)).toEqual(['概要', '画面仕様']);
+        });
+
+        it('区切りコメントで分割し、区切りコメントの行は出力しない', () => {
+            const markdown = ['<!-- sheet: 表紙 -->', '# 仕様書', '<!--sheet:改訂履歴-->', '初版'].join('\n');
+
+            const sections = splitIntoSections(parseMarkdown(markdown).lines, SheetSplitMode.Marker);
+
+            expect(sections.map(section => section.title)).toEqual(['表紙', '改訂履歴']);
+            expect(sections[1].lines.map(line => line.plainText)).toEqual(['初版']);
+        });
+
+        it('区切りコメント以外のモードでも区切りコメントの行は出力しない', () => {
+            const markdown = ['本文', '<!-- sheet: 表紙 -->', '続き'].join('\n');
+
+            const sections = splitIntoSections(parseMarkdown(markdown).lines, SheetSplitMode.None);
+
+            expect(sections).toHaveLength(1);
+            expect(sections[0].lines.map(line => line.plainText)).toEqual(['本文', '続き']);
+        });
+    });
+
+    describe('resolveSheetSplitMode', () => {
+        it('フロントマターの sheetSplit を設定より優先する', () => {
+            const document = parseMarkdown(['---', 'sheetSplit: h2', '---', '# 見出し'].join('\n'));
+
+            expect(resolveSheetSplitMode(document, defaultExcelConfig)).toBe(SheetSplitMode.Heading2);
+        });
+
+        it('フロントマターの値が不正な場合は設定値を使用する', () => {
+            const document = parseMarkdown(['---', 'sheetSplit: chapter', '---', '# 見出し'].join('\n'));
+            const config = { ...defaultExcelConfig, sheetSplitMode: SheetSplitMode.Heading1 };
+
+            expect(resolveSheetSplitMode(document, config)).toBe(SheetSplitMode.Heading1);
+        });
+    });
+
+    describe('writeExcel', () => {
+        const config = { ...defaultExcelConfig, sheetSplitMode: SheetSplitMode.Heading1 };
+
+        it('範囲ごとに見出しテキストを名前としたシートを作成する', async () => {
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown(`前書き\n${MARKDOWN}`), config));
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Markdown', '概要', '画面仕様']);
+            expect(workbook.getWorksheet('画面仕様')?.getCell(1, 1).text).toBe('画面仕様');
+            expect(workbook.getWorksheet('画面仕様')?.getCell(2, 1).text).toBe('本文3');
+        });
+
+        it('同じ見出しテキストが続く場合は連番を付与する', async () => {
+            const workbook = await loadWorkbook(await writeExcel(parseMarkdown('# 概要\n# 概要'), config));
+
+            expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['概要', '概要 (1)']);
+        });
+
+        it('目次のリンクは分割後のシートを指す', async () => {
+            const document = parseMarkdown(MARKDOWN);
+
+            const workbook = await loadWorkbook(await writeExcel(document, { ...config, generateTableOfContents: true }));
+
+            const toc = workbook.worksheets[0];
+            expect(toc.getCell(4, 2).value).toEqual({ text: '背景', hyperlink: "#'概要'!A3" });
+            expect(toc.getCell(5, 1).value).toEqual({ text: '画面仕様', hyperlink: "#'画面仕様'!A1" });
+        });
+
+        it('リンク一覧は最後のシートの末尾に出力する', async () => {
+            const document = parseMarkdown('# 概要\n[公式](https://example.com)\n# 画面仕様\n本文');
+
+            const workbook = await loadWorkbook(await writeExcel(document, config));
+
+            expect(workbook.getWorksheet('概要')?.getCell(5, 1).text).toBe('');
+            expect(workbook.getWorksheet('画面仕様')?.getCell(5, 1).text).toBe('リンク');
+        });
+    });
+});
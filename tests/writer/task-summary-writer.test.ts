@@ -0,0 +1,67 @@
+import * as ExcelJS from 'exceljs';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { TaskSummaryMode } from '../../src/types';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+/**
+ * 行内で値のあるセルのうち、最後のセルを取得する
+ * @param worksheet 対象のワークシート
+ * @param rowNumber 行番号
+ * @returns 最後のセル（値のあるセルがない場合はundefined）
+ */
+const lastCellOfRow = (worksheet: ExcelJS.Worksheet, rowNumber: number): ExcelJS.Cell | undefined => {
+    const cells: ExcelJS.Cell[] = [];
+    worksheet.getRow(rowNumber).eachCell(cell => cells.push(cell));
+    return cells[cells.length - 1];
+};
+
+const markdown = [
+    '# 計画',
+    '- [x] 設計',
+    '## 実装',
+    '- [ ] 画面',
+    '    - [x] 部品',
+    '## メモ',
+    '本文のみ'
+].join('\n');
+
+describe('task-summary-writer', () => {
+    it('既定では集計を出力しない', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown), defaultExcelConfig));
+        const worksheet = workbook.worksheets[0];
+
+        expect(lastCellOfRow(worksheet, 1)?.col).toBe(1);
+    });
+
+    it('見出しごとに下位の節を含むタスクの完了数/総数を出力する', async () => {
+        const config = { ...defaultExcelConfig, taskSummary: TaskSummaryMode.Value };
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown, { config }), config));
+        const worksheet = workbook.worksheets[0];
+
+        expect(lastCellOfRow(worksheet, 1)?.text).toBe('完了 2/3');
+        expect(lastCellOfRow(worksheet, 3)?.text).toBe('完了 1/2');
+        expect(lastCellOfRow(worksheet, 6)?.col).toBe(1);
+    });
+
+    it('数式の設定ではチェック済みの行を数える数式を出力する', async () => {
+        const config = { ...defaultExcelConfig, taskSummary: TaskSummaryMode.Formula };
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown, { config }), config));
+        const worksheet = workbook.worksheets[0];
+
+        const cell = lastCellOfRow(worksheet, 3);
+        expect(cell?.formula).toBe('"完了 "&COUNTIF(A4:B5,"*☑*")&"/"&(COUNTIF(A4:B5,"*☑*")+COUNTIF(A4:B5,"*☐*"))');
+        expect(cell?.result).toBe('完了 1/2');
+    });
+
+    it('目次へ戻るリンクと重ならない列に出力する', async () => {
+        const config = { ...defaultExcelConfig, taskSummary: TaskSummaryMode.Value, generateTableOfContents: true };
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(markdown, { config }), config));
+        const worksheet = workbook.getWorksheet(config.sheetName);
+
+        const cells: ExcelJS.Cell[] = [];
+        worksheet?.getRow(1).eachCell(cell => cells.push(cell));
+        expect(cells.map(cell => cell.text)).toEqual(['計画', '▲目次へ', '完了 2/3']);
+    });
+});
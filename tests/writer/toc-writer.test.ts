@@ -0,0 +1,63 @@
+import * as ExcelJS from 'exceljs';
+import { writeExcel } from '../../src/writer/excel-writer';
+import { createInternalLink } from '../../src/writer/toc-writer';
+import { parseMarkdown } from '../../src/parser/markdown-parser';
+import { defaultExcelConfig } from '../../src/config';
+import { loadWorkbook } from '../../src/test-utils/helpers';
+
+const MARKDOWN = [
+    '# 第1章',
+    '本文',
+    '## 1.1 概要',
+    '### 1.1.1 詳細',
+    '# 第2章'
+].join('\n');
+
+describe('toc-writer', () => {
+    const config = { ...defaultExcelConfig, generateTableOfContents: true };
+
+    it('本文シートの前に目次シートを追加し、見出しの出力先へのリンクを字下げして並べる', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(MARKDOWN), config));
+
+        expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['目次', 'Markdown']);
+
+        const toc = workbook.worksheets[0];
+        expect(toc.getCell(1, 1).text).toBe('目次');
+        expect(toc.getCell(3, 1).value).toEqual({ text: '第1章', hyperlink: "#'Markdown'!A1" });
+        expect(toc.getCell(4, 2).value).toEqual({ text: '1.1 概要', hyperlink: "#'Markdown'!A3" });
+        expect(toc.getCell(5, 3).value).toEqual({ text: '1.1.1 詳細', hyperlink: "#'Markdown'!A4" });
+        expect(toc.getCell(6, 1).value).toEqual({ text: '第2章', hyperlink: "#'Markdown'!A5" });
+    });
+
+    it('H1・H2見出しの右側にのみ目次へ戻るリンクを出力する', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(MARKDOWN), config));
+        const worksheet = workbook.getWorksheet('Markdown');
+
+        const backLinkRows = [1, 2, 3, 4, 5].filter(row => {
+            const values = (worksheet?.getRow(row).values ?? []) as ExcelJS.CellValue[];
+            return values.some(value => typeof value === 'object' && value !== null && 'hyperlink' in value);
+        });
+        expect(backLinkRows).toEqual([1, 3, 5]);
+
+        // 見出し「第1章」（18pt・表示幅5）は 5 × 18 / 11 / 3.0 → 3列分のため、1列空けて5列目に配置される
+        expect(worksheet?.getCell(1, 5).value).toEqual({ text: '▲目次へ', hyperlink: "#'目次'!A1" });
+    });
+
+    it('文書情報ブロックがある場合も見出しの実際の出力行にリンクする', async () => {
+        const document = parseMarkdown(['---', 'title: 仕様書', '---', '# 第1章'].join('\n'));
+
+        const workbook = await loadWorkbook(await writeExcel(document, { ...config, showDocumentInfo: true }));
+
+        expect(workbook.worksheets[0].getCell(3, 1).value).toEqual({ text: '第1章', hyperlink: "#'Markdown'!A3" });
+    });
+
+    it('既定では目次シートを生成しない', async () => {
+        const workbook = await loadWorkbook(await writeExcel(parseMarkdown(MARKDOWN), defaultExcelConfig));
+
+        expect(workbook.worksheets.map(worksheet => worksheet.name)).toEqual(['Markdown']);
+    });
+
+    it('シート名のシングルクォートをエスケープする', () => {
+        expect(createInternalLink("Bob's", 10)).toBe("#'Bob''s'!A10");
+    });
+});